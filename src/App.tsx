@@ -1,12 +1,18 @@
 // src/App.tsx - 左メニューレイアウト統合版
 import { PCCaseViewer } from "@/components/3d";
 import PowerCalculator from "@/components/calculators/PowerCalculator";
+import NoiseEstimator from "@/components/calculators/NoiseEstimator";
+import FpsPredictor from "@/components/calculators/FpsPredictor";
 import CompatibilityChecker from "@/components/checkers/CompatibilityChecker";
 import ErrorBoundary from "@/components/error/ErrorBoundary";
 import { FigmaIntegratedDashboard } from "@/components/integrated";
 import PartSearch from "@/components/search/PartSearch";
 import ConfigSummary from "@/components/summary/ConfigSummary";
 import { IntegratedPartSelectorV2 } from "@/components/integrated-selector";
+import { TemplateGallery } from "@/components/templates";
+import { PartsListImporter } from "@/components/import";
+import { SharedBuildPreview } from "@/components/share";
+import { ConfigurationComparisonView } from "@/components/comparison";
 // 🏗️ 左メニューレイアウト統合
 import { MainLayout } from "@/components/layout/MainLayout";
 import { LeftSideMenu } from "@/components/layout/LeftSideMenu";
@@ -32,13 +38,16 @@ import {
 } from "@/hooks/ui/useTabVisibility";
 // 🚧 Phase 2.5: データ永続化統合
 import { useExtendedConfiguration } from "@/hooks/useExtendedConfiguration";
-import { PCConfiguration, Part, PartCategory } from "@/types";
+import { ShareLinkService, type SharedBuild } from "@/services/shareLinkService";
+import { PCConfiguration, Part, PartCategory, convertToExtendedConfiguration } from "@/types";
 import type { CurrentPCConfiguration } from "@/types/upgrade";
+import type { TemplateApplicationResult } from "@/types/config";
 import React, { useState } from "react";
 
 // 統合ダッシュボード用の型定義（Phase 3: アップグレード診断・プランナー・シミュレータータブ追加）
 type TabType =
   | "builder"
+  | "templates" // 構成テンプレート
   | "multipart" // 🚧 Phase 2.5: 複数搭載対応システム
   | "upgrade" // 🚧 Phase 3: アップグレード診断システム
   | "planner" // 🚧 Phase 3: アップグレードプランナーシステム
@@ -46,6 +55,7 @@ type TabType =
   | "power"
   | "compatibility"
   | "search"
+  | "comparison" // 保存済み構成の比較
   | "3d"
   | "integrated"
   | "about"
@@ -369,6 +379,100 @@ const App: React.FC = () => {
     });
   };
 
+  // 外部で生成した構成（テンプレート・インポート）で現在の構成を置き換え
+  const replaceConfiguration = (next: PCConfiguration) => {
+    setConfiguration(prev => ({
+      ...prev,
+      name: next.name,
+      parts: {
+        ...Object.fromEntries(Object.keys(prev.parts).map(category => [category, null])),
+        ...next.parts,
+      },
+      totalPrice: next.totalPrice,
+      budget: next.budget ?? prev.budget,
+      updatedAt: new Date(),
+    }));
+  };
+
+  // テンプレート適用処理
+  const handleTemplateApply = (result: TemplateApplicationResult) => {
+    replaceConfiguration(result.configuration);
+    success(
+      "テンプレートを適用しました",
+      `${result.configuration.name}${
+        result.substitutedCount > 0 ? ` | 代替パーツ: ${result.substitutedCount}件` : ""
+      }`,
+      "テンプレート"
+    );
+    setActiveTab("builder");
+  };
+
+  // パーツリストのインポート処理
+  const handlePartsListImport = (imported: PCConfiguration, importWarnings: string[]) => {
+    replaceConfiguration(imported);
+    success(
+      "パーツリストをインポートしました",
+      `パーツ数: ${Object.values(imported.parts).filter(Boolean).length}`,
+      "インポート"
+    );
+    importWarnings.forEach(message => warning("インポート時の注意", message, "インポート"));
+  };
+
+  // 🔗 共有リンク（URLハッシュ）の読み込み
+  const [sharedBuild, setSharedBuild] = useState<SharedBuild | null>(null);
+
+  React.useEffect(() => {
+    const shareLinkService = ShareLinkService.getInstance();
+    const loadSharedBuild = () => {
+      const token = shareLinkService.extractToken(window.location.hash);
+      if (!token) return;
+
+      const result = shareLinkService.decode(token, sampleParts);
+      if (result.success) {
+        setSharedBuild(result.build);
+      } else {
+        warning("共有リンクを開けませんでした", result.error, "共有リンク");
+        shareLinkService.clearHash();
+      }
+    };
+
+    loadSharedBuild();
+    window.addEventListener("hashchange", loadSharedBuild);
+    return () => window.removeEventListener("hashchange", loadSharedBuild);
+  }, [warning]);
+
+  const closeSharedBuild = () => {
+    ShareLinkService.getInstance().clearHash();
+    setSharedBuild(null);
+  };
+
+  // 共有された構成をワークスペースに取り込み
+  const handleSharedBuildImport = (build: SharedBuild) => {
+    replaceConfiguration(build.configuration);
+    setExtendedConfiguration(prev => {
+      const extended = convertToExtendedConfiguration(build.configuration);
+      return {
+        ...prev,
+        name: build.name,
+        budget: build.budget ?? prev.budget,
+        coreComponents: extended.coreComponents,
+        additionalComponents: { ...extended.additionalComponents, ...build.additionalComponents },
+        parts: extended.parts,
+        totalPrice: build.totalPrice,
+        updatedAt: new Date(),
+      };
+    });
+    success(
+      "共有された構成を取り込みました",
+      `${build.name}${
+        build.missingPartIds.length > 0 ? ` | 見つからないパーツ: ${build.missingPartIds.length}件` : ""
+      }`,
+      "共有リンク"
+    );
+    closeSharedBuild();
+    setActiveTab("builder");
+  };
+
   // 検索からのパーツ選択処理
   const handlePartSelect = (part: Part) => {
     selectPart(part.category, part);
@@ -812,6 +916,34 @@ const App: React.FC = () => {
                 }}
                 className="w-full"
               />
+
+              {/* 外部パーツリストのインポート */}
+              <PartsListImporter
+                catalog={sampleParts}
+                budget={configuration.budget}
+                onImport={handlePartsListImport}
+                className="w-full"
+              />
+            </div>
+          )}
+
+          {(activeTab as TabType) === "templates" && (
+            <div className="space-y-3">
+              <TemplateGallery
+                catalog={sampleParts}
+                configuration={configuration}
+                onApply={handleTemplateApply}
+                className="w-full"
+              />
+            </div>
+          )}
+
+          {(activeTab as TabType) === "comparison" && (
+            <div className="space-y-3">
+              <ConfigurationComparisonView
+                configuration={configuration}
+                className="w-full"
+              />
             </div>
           )}
 
@@ -822,6 +954,11 @@ const App: React.FC = () => {
                 className="w-full"
               />
 
+              <NoiseEstimator
+                configuration={configuration}
+                className="w-full"
+              />
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="bg-blue-50 rounded-lg p-6">
                   <h3 className="text-sm font-semibold text-blue-900 mb-3">
@@ -859,6 +996,11 @@ const App: React.FC = () => {
                 className="w-full"
               />
 
+              <FpsPredictor
+                configuration={configuration}
+                className="w-full"
+              />
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="bg-gray-50 rounded-lg p-6">
                   <h3 className="text-sm font-semibold text-gray-900 mb-3">
@@ -1066,6 +1208,15 @@ const App: React.FC = () => {
       )}
 
       {/* モバイル用サマリーはMainLayout内に統合 */}
+
+      {/* 共有リンクのプレビュー */}
+      {sharedBuild && (
+        <SharedBuildPreview
+          build={sharedBuild}
+          onImport={handleSharedBuildImport}
+          onClose={closeSharedBuild}
+        />
+      )}
     </MainLayout>
   );
 };
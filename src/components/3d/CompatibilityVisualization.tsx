@@ -4,6 +4,9 @@
 import React from 'react';
 import { Box, Line, Text } from '@react-three/drei';
 import type { PCConfiguration, Part } from '@/types';
+import SpecNormalizerService from '@/services/specNormalizer';
+
+const specNormalizer = SpecNormalizerService.getInstance();
 
 interface CompatibilityVisualizationProps {
   configuration: PCConfiguration;
@@ -86,8 +89,8 @@ function detectCompatibilityIssues(configuration: PCConfiguration): Compatibilit
 
   // GPU長さチェック
   if (parts.gpu && parts.case) {
-    const gpuLength = (parts.gpu.specifications?.length as number) || 0;
-    const maxGpuLength = (parts.case.specifications?.maxGpuLength as number) || 350;
+    const gpuLength = specNormalizer.normalize(parts.gpu, 'gpu').specs.lengthMm || 0;
+    const maxGpuLength = specNormalizer.normalize(parts.case, 'case').specs.maxGpuLengthMm || 350;
     
     if (gpuLength > maxGpuLength) {
       issues.push({
@@ -110,8 +113,8 @@ function detectCompatibilityIssues(configuration: PCConfiguration): Compatibilit
 
   // CPUクーラー高さチェック
   if (parts.cooler && parts.case) {
-    const coolerHeight = (parts.cooler.specifications?.height as number) || 0;
-    const maxCoolerHeight = (parts.case.specifications?.maxCoolerHeight as number) || 165;
+    const coolerHeight = specNormalizer.normalize(parts.cooler, 'cooler').specs.heightMm || 0;
+    const maxCoolerHeight = specNormalizer.normalize(parts.case, 'case').specs.maxCoolerHeightMm || 165;
     
     if (coolerHeight > maxCoolerHeight) {
       issues.push({
@@ -134,7 +137,7 @@ function detectCompatibilityIssues(configuration: PCConfiguration): Compatibilit
 
   // 電源容量チェック
   if (parts.psu) {
-    const psuWattage = (parts.psu.specifications?.wattage as number) || 0;
+    const psuWattage = specNormalizer.normalize(parts.psu, 'psu').specs.wattage || 0;
     const totalPower = calculateTotalPower(configuration);
     
     if (psuWattage < totalPower) {
@@ -158,8 +161,8 @@ function detectCompatibilityIssues(configuration: PCConfiguration): Compatibilit
 
   // CPUソケット互換性チェック
   if (parts.cpu && parts.motherboard) {
-    const cpuSocket = parts.cpu.specifications?.socket as string;
-    const mbSocket = parts.motherboard.specifications?.socket as string;
+    const cpuSocket = specNormalizer.normalize(parts.cpu, 'cpu').specs.socket;
+    const mbSocket = specNormalizer.normalize(parts.motherboard, 'motherboard').specs.socket;
     
     if (cpuSocket && mbSocket && cpuSocket !== mbSocket) {
       issues.push({
@@ -182,13 +185,13 @@ function calculateTotalPower(configuration: PCConfiguration): number {
 
   // CPU
   if (parts.cpu) {
-    const cpuTdp = (parts.cpu.specifications?.tdp as number) || 65;
+    const cpuTdp = specNormalizer.normalize(parts.cpu, 'cpu').specs.tdpW || 65;
     totalPower += cpuTdp;
   }
 
   // GPU
   if (parts.gpu) {
-    const gpuPower = (parts.gpu.specifications?.power as number) || 150;
+    const gpuPower = specNormalizer.getPowerDraw(parts.gpu) || 150;
     totalPower += gpuPower;
   }
 
@@ -203,8 +206,8 @@ const GPUSizeVisualization: React.FC<{
   gpu: Part;
   caseData: Part | null;
 }> = ({ gpu, caseData }) => {
-  const gpuLength = (gpu.specifications?.length as number) || 250;
-  const maxLength = (caseData?.specifications?.maxGpuLength as number) || 350;
+  const gpuLength = specNormalizer.normalize(gpu, 'gpu').specs.lengthMm || 250;
+  const maxLength = specNormalizer.getSpecs(caseData, 'case')?.maxGpuLengthMm || 350;
   const lengthInM = gpuLength / 1000;
   const maxLengthInM = maxLength / 1000;
 
@@ -249,8 +252,8 @@ const CoolerClearanceVisualization: React.FC<{
   cooler: Part;
   caseData: Part | null;
 }> = ({ cooler, caseData }) => {
-  const coolerHeight = (cooler.specifications?.height as number) || 150;
-  const maxHeight = (caseData?.specifications?.maxCoolerHeight as number) || 165;
+  const coolerHeight = specNormalizer.normalize(cooler, 'cooler').specs.heightMm || 150;
+  const maxHeight = specNormalizer.getSpecs(caseData, 'case')?.maxCoolerHeightMm || 165;
   const heightInM = coolerHeight / 1000;
   const maxHeightInM = maxHeight / 1000;
 
@@ -295,7 +298,7 @@ const PowerWarningVisualization: React.FC<{
   configuration: PCConfiguration;
 }> = ({ configuration }) => {
   const totalPower = calculateTotalPower(configuration);
-  const psuWattage = (configuration.parts.psu?.specifications?.wattage as number) || 0;
+  const psuWattage = specNormalizer.getSpecs(configuration.parts.psu, 'psu')?.wattage || 0;
   const efficiency = Math.round((totalPower / psuWattage) * 100);
 
   return (
@@ -1,13 +1,14 @@
 // src/components/3d/PCCaseViewer.tsx
 // PC構成3D可視化メインコンポーネント - Phase3革新機能
 
-import React, { Suspense, useState, useEffect } from 'react';
+import React, { Suspense, useState, useEffect, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Environment } from '@react-three/drei';
 import type { PCConfiguration } from '@/types';
 import PCCase3D from './PCCase3D';
 import PartsRenderer from './PartsRenderer';
 import LoadingSpinner from './LoadingSpinner';
+import ThermalService from '@/services/thermalService';
 
 interface PCCaseViewerProps {
   configuration: PCConfiguration;
@@ -18,6 +19,7 @@ interface PCCaseViewerProps {
   showUIOverlay?: boolean; // UIオーバーレイの表示制御
   showCaseLabel?: boolean; // 3Dモデル内ケースラベルの表示制御
   showCompatibilityWarnings?: boolean; // 🎯 Step2: 互換性視覚化表示制御
+  showThermalOverlay?: boolean; // 🌡️ 温度推定の表示制御
 }
 
 export type { PCCaseViewerProps };
@@ -30,12 +32,24 @@ export const PCCaseViewer: React.FC<PCCaseViewerProps> = ({
   cameraPosition = [5, 5, 5],
   showUIOverlay = true,
   showCaseLabel = true,
-  showCompatibilityWarnings = true // 🎯 Step2: デフォルトで互換性視覚化有効
+  showCompatibilityWarnings = true, // 🎯 Step2: デフォルトで互換性視覚化有効
+  showThermalOverlay = true
 }) => {
   const [webglError, setWebglError] = useState<string | null>(null);
   const [webglSupported, setWebglSupported] = useState(true);
   const [contextLostCount, setContextLostCount] = useState(0);
 
+  // 🌡️ ゲーミング負荷時の温度推定
+  const thermal = useMemo(() => {
+    if (!showThermalOverlay || (!configuration.parts.cpu && !configuration.parts.gpu)) return null;
+    const thermalService = ThermalService.getInstance();
+    const estimate = thermalService.estimate(configuration);
+    return {
+      gaming: thermalService.getScenario(estimate, 'gaming'),
+      topWarning: estimate.warnings.find(warning => warning.severity === 'high') || estimate.warnings[0]
+    };
+  }, [configuration, showThermalOverlay]);
+
   // WebGLサポートチェック
   useEffect(() => {
     const canvas = document.createElement('canvas');
@@ -215,6 +229,23 @@ export const PCCaseViewer: React.FC<PCCaseViewerProps> = ({
         )}
       </Canvas>
 
+      {/* 温度推定オーバーレイ */}
+      {thermal?.gaming && (
+        <div
+          className={`absolute top-2 right-2 z-10 bg-gray-900 bg-opacity-90 border px-2 py-1 rounded text-xs shadow-lg pointer-events-none ${
+            thermal.topWarning?.severity === 'high' ? 'border-red-500 text-red-200' : 'border-gray-600 text-gray-200'
+          }`}
+          title={thermal.topWarning?.message}
+        >
+          <div>
+            🌡️ CPU {thermal.gaming.cpuTemp}℃ / GPU {thermal.gaming.gpuTemp}℃
+          </div>
+          {thermal.topWarning && (
+            <div className="max-w-[12rem] truncate">{thermal.topWarning.message}</div>
+          )}
+        </div>
+      )}
+
       {/* UI オーバーレイ（表示制御対応） */}
       {showUIOverlay && (
         <>
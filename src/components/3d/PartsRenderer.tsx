@@ -4,9 +4,12 @@
 import React, { useState } from 'react';
 import { Box, Cylinder } from '@react-three/drei';
 import type { PCConfiguration, Part } from '@/types';
+import SpecNormalizerService from '@/services/specNormalizer';
 import SmartPartLabel from './SmartPartLabel';
 import CompatibilityVisualization from './CompatibilityVisualization';
 
+const specNormalizer = SpecNormalizerService.getInstance();
+
 // 🎯 統一パーツサイズ正規化（v67.0対応）
 const PART_SCALES = {
   case: { width: 200, height: 450, depth: 400 },      // ATXケース標準 (mm)
@@ -80,7 +83,7 @@ export const PartsRenderer: React.FC<PartsRendererProps> = ({
     if (!gpu) return CASE_COORDINATES.gpuArea;
     
     const basePos = CASE_COORDINATES.gpuArea;
-    const gpuLength = (gpu.specifications?.length as number || 250) / 1000; // mm → m変換
+    const gpuLength = (specNormalizer.normalize(gpu, 'gpu').specs.lengthMm || 250) / 1000; // mm → m変換
     
     // GPU長に応じた位置調整（ケース前面からの配置）
     return [
@@ -94,9 +97,7 @@ export const PartsRenderer: React.FC<PartsRendererProps> = ({
   function calculateStoragePosition(storage: Part | null | undefined): [number, number, number] {
     if (!storage) return CASE_COORDINATES.storageArea;
     
-    const interfaceSpec = storage.specifications?.interface as string || '';
-    const formFactor = storage.specifications?.formFactor as string || '';
-    const isNVMe = interfaceSpec.includes('NVMe') || formFactor.includes('M.2');
+    const isNVMe = isM2Storage(storage);
     
     if (isNVMe) {
       // M.2 NVMe：マザーボード上配置
@@ -112,7 +113,7 @@ export const PartsRenderer: React.FC<PartsRendererProps> = ({
     if (!cooler) return CASE_COORDINATES.coolerArea;
     
     const basePos = CASE_COORDINATES.coolerArea;
-    const coolerHeight = (cooler.specifications?.height as number || 150) / 1000; // mm → m変換
+    const coolerHeight = (specNormalizer.normalize(cooler, 'cooler').specs.heightMm || 150) / 1000; // mm → m変換
     
     // クーラー高さに応じた位置調整
     return [
@@ -215,29 +216,42 @@ export const PartsRenderer: React.FC<PartsRendererProps> = ({
 function getPartInfo(part: Part, category: string): string {
   switch (category) {
     case 'CPU':
-      return String(part.specifications?.socket || '');
-    case 'GPU':
-      return String(part.specifications?.memory || '');
-    case 'Memory':
-      return `${String(part.specifications?.type || '')} ${String(part.specifications?.speed || '')}`;
-    case 'Storage':
-      return String(part.specifications?.capacity || '');
+      return specNormalizer.normalize(part, 'cpu').specs.socket || '';
+    case 'GPU': {
+      const { vramGB, vramType } = specNormalizer.normalize(part, 'gpu').specs;
+      return vramGB ? `${vramGB}GB ${vramType || ''}`.trim() : '';
+    }
+    case 'Memory': {
+      const { memoryType, speedMHz } = specNormalizer.normalize(part, 'memory').specs;
+      return `${memoryType || ''} ${speedMHz || ''}`;
+    }
+    case 'Storage': {
+      const capacityGB = specNormalizer.normalize(part, 'storage').specs.capacityGB;
+      if (!capacityGB) return '';
+      return capacityGB >= 1000 ? `${capacityGB / 1000}TB` : `${capacityGB}GB`;
+    }
     case 'PSU':
-      return `${String(part.specifications?.wattage || '')}W`;
+      return `${specNormalizer.normalize(part, 'psu').specs.wattage || ''}W`;
     case 'Cooler':
-      return String(part.specifications?.type || '');
+      return specNormalizer.normalize(part, 'cooler').specs.coolerType || '';
     default:
       return '';
   }
 }
 
+// M.2（マザーボード上）に搭載するストレージか判定
+function isM2Storage(storage: Part): boolean {
+  const { storageType, formFactor } = specNormalizer.normalize(storage, 'storage').specs;
+  return storageType === 'NVMe' || (formFactor || '').includes('M.2');
+}
+
 // 🎯 CPU 3Dコンポーネント（正規化サイズ適用）
 const CPUComponent: React.FC<{
   position: [number, number, number];
   cpuData: Part;
 }> = ({ position, cpuData }) => {
   // CPU正規化サイズ適用
-  const socket = cpuData.specifications?.socket as string || 'LGA1700';
+  const socket = specNormalizer.normalize(cpuData, 'cpu').specs.socket || 'LGA1700';
   const isLGA = socket.includes('LGA');
   
   // 正規化サイズ（PART_SCALES適用）
@@ -276,8 +290,9 @@ const GPUComponent: React.FC<{
   gpuData: Part;
 }> = ({ position, gpuData }) => {
   // GPU正規化サイズ適用
-  const gpuMemory = gpuData.specifications?.memory as number || 8;
-  const gpuLength = gpuData.specifications?.length as number || 300;
+  const gpuSpecs = specNormalizer.normalize(gpuData, 'gpu').specs;
+  const gpuMemory = gpuSpecs.vramGB || 8;
+  const gpuLength = gpuSpecs.lengthMm || 300;
   const isHighEnd = gpuMemory >= 16; // ハイエンドGPU判定
   
   // 正規化サイズ（PART_SCALES適用）
@@ -344,7 +359,7 @@ const MemoryComponent: React.FC<{
   memoryData: Part;
   position: [number, number, number];
 }> = ({ memoryData, position }) => {
-  const modules = memoryData.specifications?.modules as number || 2;
+  const modules = specNormalizer.normalize(memoryData, 'memory').specs.modules || 2;
   
   // 正規化サイズ（PART_SCALES適用）
   const memWidth = PART_SCALES.memory.width * SCALE_FACTOR;
@@ -371,9 +386,7 @@ const StorageComponent: React.FC<{
   storageData: Part;
   position: [number, number, number];
 }> = ({ storageData, position }) => {
-  const interfaceSpec = storageData.specifications?.interface as string || '';
-  const formFactorSpec = storageData.specifications?.formFactor as string || '';
-  const isNVMe = interfaceSpec.includes('NVMe') || formFactorSpec.includes('M.2');
+  const isNVMe = isM2Storage(storageData);
   
   // 正規化サイズ（PART_SCALES適用）
   if (isNVMe) {
@@ -411,8 +424,9 @@ const PSUComponent: React.FC<{
   psuData: Part;
 }> = ({ position, psuData }) => {
   // PSU仕様情報取得
-  const isModular = (psuData.specifications?.modular as string || '').includes('モジュラー');
-  const efficiency = psuData.specifications?.efficiency as string || '80 PLUS';
+  const psuSpecs = specNormalizer.normalize(psuData, 'psu').specs;
+  const isModular = psuSpecs.modular !== 'none';
+  const efficiency = psuSpecs.efficiency || '80 PLUS';
   
   // 正規化サイズ（PART_SCALES適用）
   const psuWidth = PART_SCALES.psu.width * SCALE_FACTOR;
@@ -466,10 +480,10 @@ const CoolerComponent: React.FC<{
   coolerData: Part;
 }> = ({ position, coolerData }) => {
   // クーラー仕様情報取得
-  const coolerHeight = coolerData.specifications?.height as number || 160;
-  const coolerType = coolerData.specifications?.type as string || 'Air';
-  const isAIO = coolerType.includes('AIO') || coolerType.includes('水冷');
-  const fanSize = coolerData.specifications?.fanSize as number || 120;
+  const coolerSpecs = specNormalizer.normalize(coolerData, 'cooler').specs;
+  const coolerHeight = coolerSpecs.heightMm || 160;
+  const isAIO = coolerSpecs.coolerType === 'AIO' || coolerSpecs.coolerType === 'Custom';
+  const fanSize = coolerSpecs.fanSizeMm || 120;
   
   // 正規化サイズ（PART_SCALES適用）
   const baseCoolerWidth = PART_SCALES.cpu_cooler.width * SCALE_FACTOR;
@@ -6,6 +6,9 @@ import { useFrame } from '@react-three/fiber';
 import { Box, Line, Html, Cylinder } from '@react-three/drei';
 import * as THREE from 'three';
 import type { PCConfiguration, Part } from '@/types';
+import SpecNormalizerService from '@/services/specNormalizer';
+
+const specNormalizer = SpecNormalizerService.getInstance();
 
 interface ClearanceCheckerProps {
   configuration: PCConfiguration;
@@ -70,8 +73,8 @@ export const ClearanceChecker: React.FC<ClearanceCheckerProps> = ({
 
     // GPU クリアランスチェック
     if (parts.gpu && parts.case) {
-      const gpuLength = (parts.gpu.specifications?.length as number) || 300;
-      const caseMaxGPU = (parts.case.specifications?.maxGPULength as number) || 350;
+      const gpuLength = specNormalizer.normalize(parts.gpu, 'gpu').specs.lengthMm || 300;
+      const caseMaxGPU = specNormalizer.normalize(parts.case, 'case').specs.maxGpuLengthMm || 350;
       results.gpu = {
         length: gpuLength,
         maxLength: caseMaxGPU,
@@ -82,8 +85,8 @@ export const ClearanceChecker: React.FC<ClearanceCheckerProps> = ({
 
     // CPUクーラー クリアランスチェック
     if (parts.cooler && parts.case) {
-      const coolerHeight = (parts.cooler.specifications?.height as number) || 150;
-      const caseMaxCooler = (parts.case.specifications?.maxCoolerHeight as number) || 170;
+      const coolerHeight = specNormalizer.normalize(parts.cooler, 'cooler').specs.heightMm || 150;
+      const caseMaxCooler = specNormalizer.normalize(parts.case, 'case').specs.maxCoolerHeightMm || 170;
       results.cooler = {
         height: coolerHeight,
         maxHeight: caseMaxCooler,
@@ -94,8 +97,8 @@ export const ClearanceChecker: React.FC<ClearanceCheckerProps> = ({
 
     // メモリとクーラーのクリアランス
     if (parts.memory && parts.cooler) {
-      const memoryHeight = (parts.memory.specifications?.height as number) || 35;
-      const coolerOverhang = (parts.cooler.specifications?.memoryOverhang as number) || 0;
+      const memoryHeight = specNormalizer.normalize(parts.memory, 'memory').specs.heightMm || 35;
+      const coolerOverhang = specNormalizer.normalize(parts.cooler, 'cooler').specs.memoryOverhangMm || 0;
       const clearance = memoryHeight - coolerOverhang;
       results.memory = {
         height: memoryHeight,
@@ -106,11 +109,12 @@ export const ClearanceChecker: React.FC<ClearanceCheckerProps> = ({
 
     // ケーブルクリアランス
     if (parts.psu && parts.case) {
-      const psuLength = (parts.psu.specifications?.length as number) || 150;
-      const caseDepth = (parts.case.specifications?.psuClearance as number) || 180;
+      const psuSpecs = specNormalizer.normalize(parts.psu, 'psu').specs;
+      const psuLength = psuSpecs.lengthMm || 150;
+      const caseDepth = specNormalizer.normalize(parts.case, 'case').specs.maxPsuLengthMm || 180;
       results.cables = {
         powerClearance: caseDepth - psuLength,
-        sataConnectors: (parts.psu.specifications?.sataConnectors as number) || 4,
+        sataConnectors: psuSpecs.connectors.sata || 4,
         status: psuLength > caseDepth ? 'error' : 'ok'
       };
     }
@@ -6,6 +6,9 @@ import { useFrame } from '@react-three/fiber';
 import { Box, Html } from '@react-three/drei';
 import * as THREE from 'three';
 import type { PCConfiguration, Part } from '@/types';
+import SpecNormalizerService from '@/services/specNormalizer';
+
+const specNormalizer = SpecNormalizerService.getInstance();
 
 interface PartPlacementSimulatorProps {
   configuration: PCConfiguration;
@@ -73,8 +76,7 @@ export const PartPlacementSimulator: React.FC<PartPlacementSimulatorProps> = ({
     }
 
     if (configuration.parts.storage) {
-      const storageInterface = configuration.parts.storage.specifications?.interface as string || '';
-      const isNVMe = storageInterface.includes('NVMe');
+      const isNVMe = specNormalizer.normalize(configuration.parts.storage, 'storage').specs.storageType === 'NVMe';
       placements.push({
         id: 'storage',
         part: configuration.parts.storage,
@@ -117,8 +119,8 @@ export const PartPlacementSimulator: React.FC<PartPlacementSimulatorProps> = ({
   const checkGPUClearance = (gpu: Part, caseData: Part | null): boolean => {
     if (!gpu || !caseData) return true;
     
-    const gpuLength = gpu.specifications?.length as number || 300; // mm
-    const caseMaxGPULength = caseData.specifications?.maxGPULength as number || 350; // mm
+    const gpuLength = specNormalizer.normalize(gpu, 'gpu').specs.lengthMm || 300; // mm
+    const caseMaxGPULength = specNormalizer.normalize(caseData, 'case').specs.maxGpuLengthMm || 350; // mm
     
     return gpuLength <= caseMaxGPULength;
   };
@@ -127,8 +129,8 @@ export const PartPlacementSimulator: React.FC<PartPlacementSimulatorProps> = ({
   const checkCoolerClearance = (cooler: Part, caseData: Part | null): boolean => {
     if (!cooler || !caseData) return true;
     
-    const coolerHeight = cooler.specifications?.height as number || 150; // mm
-    const caseMaxCoolerHeight = caseData.specifications?.maxCoolerHeight as number || 170; // mm
+    const coolerHeight = specNormalizer.normalize(cooler, 'cooler').specs.heightMm || 150; // mm
+    const caseMaxCoolerHeight = specNormalizer.normalize(caseData, 'case').specs.maxCoolerHeightMm || 170; // mm
     
     return coolerHeight <= caseMaxCoolerHeight;
   };
@@ -256,7 +258,7 @@ function renderPartModel(placement: PartPlacement) {
       
     case 'memory':
       {
-        const modules = part.specifications?.modules as number || 2;
+        const modules = specNormalizer.normalize(part, 'memory').specs.modules || 2;
         return (
           <group scale={[scale, scale, scale]}>
             {Array.from({ length: modules }).map((_, i) => (
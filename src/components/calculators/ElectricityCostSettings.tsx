@@ -0,0 +1,75 @@
+// src/components/calculators/ElectricityCostSettings.tsx
+// 💡 電気代試算の条件選択 - 地域・料金プラン・使用プロファイル
+import React, { useMemo } from 'react';
+import { ElectricityCostOptions, USAGE_PROFILES } from '@/types/power';
+import { electricityTariffs, getElectricityTariff } from '@/data/electricityTariffs';
+
+interface ElectricityCostSettingsProps {
+  options: ElectricityCostOptions;
+  onChange: (options: ElectricityCostOptions) => void;
+  className?: string;
+}
+
+const regions = [...new Set(electricityTariffs.map(tariff => tariff.region))];
+
+export const ElectricityCostSettings: React.FC<ElectricityCostSettingsProps> = ({
+  options,
+  onChange,
+  className = ''
+}) => {
+  const tariff = getElectricityTariff(options.tariffId);
+  const regionTariffs = useMemo(
+    () => electricityTariffs.filter(candidate => candidate.region === tariff.region),
+    [tariff.region]
+  );
+  const profileId = options.profileId || USAGE_PROFILES[0].id;
+
+  // 地域を変えたらその地域の先頭プランを選択
+  const handleRegionChange = (region: string) => {
+    const first = electricityTariffs.find(candidate => candidate.region === region);
+    if (first) onChange({ ...options, tariffId: first.id });
+  };
+
+  return (
+    <div className={`grid grid-cols-1 sm:grid-cols-3 gap-3 ${className}`}>
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">地域</label>
+        <select
+          value={tariff.region}
+          onChange={e => handleRegionChange(e.target.value)}
+          className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+        >
+          {regions.map(region => (
+            <option key={region} value={region}>{region}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">料金プラン</label>
+        <select
+          value={tariff.id}
+          onChange={e => onChange({ ...options, tariffId: e.target.value })}
+          className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+        >
+          {regionTariffs.map(candidate => (
+            <option key={candidate.id} value={candidate.id}>{candidate.provider} {candidate.plan}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">使用プロファイル</label>
+        <select
+          value={profileId}
+          onChange={e => onChange({ ...options, profileId: e.target.value })}
+          className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+        >
+          {USAGE_PROFILES.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default ElectricityCostSettings;
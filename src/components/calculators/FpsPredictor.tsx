@@ -0,0 +1,161 @@
+// src/components/calculators/FpsPredictor.tsx
+// 🎮 ゲーム別FPS予測 - 解像度・画質プリセット別の平均FPSと1% Low、VRAM不足の警告
+import React, { useMemo, useState } from 'react';
+import { Gamepad2, AlertTriangle } from 'lucide-react';
+import { PCConfiguration } from '@/types';
+import PerformancePredictionService, {
+  GameQualityPreset,
+  UpscalerType
+} from '@/services/performancePrediction';
+
+interface FpsPredictorProps {
+  configuration: PCConfiguration;
+  className?: string;
+}
+
+const performancePrediction = PerformancePredictionService.getInstance();
+
+const upscalerLabels: Record<UpscalerType | 'auto', string> = {
+  none: 'なし',
+  auto: '自動',
+  dlss: 'DLSS',
+  fsr: 'FSR'
+};
+
+// 60FPS / 30FPS を目安に色分け
+const fpsColor = (fps: number): string =>
+  fps >= 60 ? 'text-green-700' : fps >= 30 ? 'text-yellow-700' : 'text-red-700';
+
+export const FpsPredictor: React.FC<FpsPredictorProps> = ({
+  configuration,
+  className = ''
+}) => {
+  const [quality, setQuality] = useState<GameQualityPreset>('high');
+  const [rayTracing, setRayTracing] = useState(false);
+  const [upscaler, setUpscaler] = useState<UpscalerType | 'auto'>('none');
+
+  const prediction = useMemo(
+    () => performancePrediction.predictGameFps(configuration, { rayTracing, upscaler }),
+    [configuration, rayTracing, upscaler]
+  );
+
+  if (!prediction.available) {
+    return (
+      <div className={`bg-white rounded-lg shadow-sm border p-6 ${className}`}>
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Gamepad2 size={20} className="text-blue-600" />
+          ゲーム別FPS予測
+        </h2>
+        <p className="mt-2 text-sm text-gray-500">{prediction.message}</p>
+      </div>
+    );
+  }
+
+  const warnings = prediction.warnings.filter(warning => warning.quality === quality);
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border p-6 space-y-4 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Gamepad2 size={20} className="text-blue-600" />
+          ゲーム別FPS予測
+        </h2>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-700">
+          <label className="flex items-center gap-1">
+            画質
+            <select
+              value={quality}
+              onChange={e => setQuality(e.target.value as GameQualityPreset)}
+              className="border border-gray-300 rounded px-1 py-0.5"
+            >
+              {prediction.qualities.map(preset => (
+                <option key={preset} value={preset}>{prediction.qualityLabels[preset]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            アップスケーラー
+            <select
+              value={upscaler}
+              onChange={e => setUpscaler(e.target.value as UpscalerType | 'auto')}
+              className="border border-gray-300 rounded px-1 py-0.5"
+            >
+              {(['none', 'auto', 'dlss', 'fsr'] as const).map(option => (
+                <option key={option} value={option}>{upscalerLabels[option]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={rayTracing}
+              onChange={e => setRayTracing(e.target.checked)}
+            />
+            レイトレーシング
+          </label>
+        </div>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-gray-200 text-gray-500">
+            <th className="py-1 text-left font-medium">タイトル</th>
+            {prediction.resolutions.map(resolution => (
+              <th key={resolution} className="py-1 text-right font-medium">{resolution}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {prediction.games.map(game => (
+            <tr key={game} className="border-b border-gray-100">
+              <td className="py-1 text-gray-800">{game}</td>
+              {prediction.resolutions.map(resolution => {
+                const entry = prediction.entries.find(
+                  e => e.game === game && e.resolution === resolution && e.quality === quality
+                );
+                if (!entry) return <td key={resolution} className="py-1 text-right text-gray-400">-</td>;
+                const tags = [
+                  entry.boundBy === 'cpu' ? 'CPU律速' : '',
+                  entry.rayTracing ? 'RT' : '',
+                  entry.upscaler !== 'none' ? upscalerLabels[entry.upscaler] : ''
+                ].filter(Boolean);
+
+                return (
+                  <td key={resolution} className="py-1 text-right">
+                    <span className={`font-medium ${fpsColor(entry.averageFps)}`}>{entry.averageFps}</span>
+                    <span className="text-gray-400"> / {entry.onePercentLowFps}</span>
+                    {entry.vramShortfallGB > 0 && (
+                      <AlertTriangle size={12} className="inline ml-1 text-red-500" />
+                    )}
+                    {tags.length > 0 && <div className="text-gray-400">{tags.join('・')}</div>}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* VRAM不足の警告 */}
+      {warnings.length > 0 && (
+        <div className="bg-red-50 rounded-lg p-3 space-y-1">
+          <h3 className="text-xs font-semibold text-red-900 flex items-center gap-1">
+            <AlertTriangle size={14} />
+            VRAM不足（搭載 {prediction.gpuVramGB}GB）
+          </h3>
+          {warnings.map(warning => (
+            <div
+              key={`${warning.game}-${warning.resolution}`}
+              className={`text-xs ${warning.severity === 'critical' ? 'text-red-800' : 'text-orange-800'}`}
+            >
+              • {warning.message}
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-400">※ 平均FPS / 1% Low。ベンチマークスコアとゲーム別の負荷特性から推定した概算値です</p>
+    </div>
+  );
+};
+
+export default FpsPredictor;
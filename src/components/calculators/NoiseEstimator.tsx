@@ -0,0 +1,118 @@
+// src/components/calculators/NoiseEstimator.tsx
+// 🔊 騒音推定 - 負荷シナリオ別の騒音（dBA）と部品ごとの内訳
+import React, { useMemo } from 'react';
+import { Volume2, Lightbulb } from 'lucide-react';
+import { PCConfiguration } from '@/types';
+import { NoiseEstimate } from '@/types/config';
+import NoiseService from '@/services/noiseService';
+
+interface NoiseEstimatorProps {
+  configuration: PCConfiguration;
+  className?: string;
+}
+
+const noiseService = NoiseService.getInstance();
+
+const ratingLabels: Record<NoiseEstimate['rating'], { label: string; className: string }> = {
+  silent: { label: '静音', className: 'bg-green-100 text-green-800' },
+  quiet: { label: '静か', className: 'bg-blue-100 text-blue-800' },
+  moderate: { label: '普通', className: 'bg-yellow-100 text-yellow-800' },
+  loud: { label: 'うるさい', className: 'bg-red-100 text-red-800' }
+};
+
+export const NoiseEstimator: React.FC<NoiseEstimatorProps> = ({
+  configuration,
+  className = ''
+}) => {
+  const hasParts = Object.values(configuration.parts).some(Boolean);
+  const estimate = useMemo(
+    () => (hasParts ? noiseService.estimate(configuration) : null),
+    [configuration, hasParts]
+  );
+
+  if (!estimate || estimate.components.length === 0) {
+    return (
+      <div className={`bg-white rounded-lg shadow-sm border p-6 ${className}`}>
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Volume2 size={20} className="text-blue-600" />
+          騒音の推定
+        </h2>
+        <p className="mt-2 text-sm text-gray-500">CPU・GPU・クーラー・電源などを選択すると騒音を推定します</p>
+      </div>
+    );
+  }
+
+  const rating = ratingLabels[estimate.rating];
+  const maxScenarioNoise = Math.max(...estimate.scenarios.map(s => s.noise), 1);
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border p-6 space-y-4 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Volume2 size={20} className="text-blue-600" />
+          騒音の推定
+        </h2>
+        <span className={`px-2 py-1 rounded text-xs font-medium ${rating.className}`}>
+          {rating.label}（ゲーミング時 {estimate.loadNoise} dBA）
+        </span>
+      </div>
+
+      {/* シナリオ別の騒音 */}
+      <div className="space-y-1">
+        {estimate.scenarios.map(scenario => (
+          <div key={scenario.scenario} className="flex items-center gap-2 text-xs">
+            <span className="w-32 text-gray-600 truncate" title={scenario.description}>{scenario.description}</span>
+            <div className="flex-1 h-2 bg-gray-100 rounded">
+              <div
+                className="h-2 bg-blue-500 rounded"
+                style={{ width: `${(scenario.noise / maxScenarioNoise) * 100}%` }}
+              />
+            </div>
+            <span className="w-16 text-right text-gray-800">{scenario.noise} dBA</span>
+          </div>
+        ))}
+      </div>
+
+      {/* 部品ごとの内訳 */}
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-gray-200 text-gray-500">
+            <th className="py-1 text-left font-medium">音源</th>
+            <th className="py-1 text-right font-medium">アイドル</th>
+            <th className="py-1 text-right font-medium">ゲーミング</th>
+          </tr>
+        </thead>
+        <tbody>
+          {estimate.components.map(component => (
+            <tr key={component.source} className="border-b border-gray-100">
+              <td className="py-1 text-gray-800">
+                {component.source}
+                {component.partName && <span className="ml-1 text-gray-400">{component.partName}</span>}
+              </td>
+              <td className="py-1 text-right text-gray-800">{component.idleNoise > 0 ? `${component.idleNoise} dBA` : '停止'}</td>
+              <td className="py-1 text-right text-gray-800">{component.loadNoise > 0 ? `${component.loadNoise} dBA` : '停止'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* 改善提案 */}
+      {estimate.suggestions.length > 0 && (
+        <div className="bg-blue-50 rounded-lg p-3 space-y-1">
+          <h3 className="text-xs font-semibold text-blue-900 flex items-center gap-1">
+            <Lightbulb size={14} />
+            静音化のヒント
+          </h3>
+          {estimate.suggestions.map(suggestion => (
+            <div key={suggestion.source} className="text-xs text-blue-800">
+              • {suggestion.source}: {suggestion.message}（約{suggestion.expectedReduction} dBA低減）
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-400">※ 1m距離・一般的なファン制御を想定した概算値です</p>
+    </div>
+  );
+};
+
+export default NoiseEstimator;
@@ -7,7 +7,15 @@ import {
   usePowerWarningsByPriority 
 } from '@/hooks/usePowerCalculation';
 import { PCConfiguration } from '@/types';
-import { PowerWarning, PowerConsumption, PSUSpecification } from '@/types/power';
+import {
+  ElectricityCostOptions,
+  ElectricityCostProjection,
+  PowerWarning,
+  PowerConsumption,
+  PSUSpecification,
+  PsuEfficiencyAnalysis
+} from '@/types/power';
+import ElectricityCostSettings from './ElectricityCostSettings';
 
 interface PowerCalculatorProps {
   configuration: PCConfiguration;
@@ -18,8 +26,6 @@ export const PowerCalculator: React.FC<PowerCalculatorProps> = ({
   configuration, 
   className = '' 
 }) => {
-  const [usageHours, setUsageHours] = useState(8);
-  const [electricityRate, setElectricityRate] = useState(27);
   const [showAdvanced, setShowAdvanced] = useState(false);
 
   const {
@@ -27,23 +33,17 @@ export const PowerCalculator: React.FC<PowerCalculatorProps> = ({
     isCalculating,
     error,
     recommendedPSUs,
-    monthlyCost,
+    electricityOptions,
+    electricityProjection,
     recalculate,
     clearError,
-    updateUsageSettings
+    updateElectricitySettings
   } = usePowerCalculation(configuration);
 
   const efficiencyRating = usePowerEfficiencyRating(powerResult);
   const psuRecommendations = usePSURecommendation(powerResult);
   const warningsByPriority = usePowerWarningsByPriority(powerResult);
 
-  // 使用設定の更新
-  const handleUsageUpdate = (hours: number, rate: number) => {
-    setUsageHours(hours);
-    setElectricityRate(rate);
-    updateUsageSettings(hours, rate);
-  };
-
   if (isCalculating) {
     return (
       <div className={`bg-white rounded-lg shadow-sm border p-6 ${className}`}>
@@ -111,6 +111,7 @@ export const PowerCalculator: React.FC<PowerCalculatorProps> = ({
             title="アイドル時"
             value={powerResult.totalIdlePower}
             unit="W"
+            wallValue={powerResult.psuEfficiency.idle.wallPower}
             color="text-green-600"
             bgColor="bg-green-50"
           />
@@ -118,6 +119,7 @@ export const PowerCalculator: React.FC<PowerCalculatorProps> = ({
             title="通常使用時"
             value={powerResult.totalBasePower}
             unit="W"
+            wallValue={powerResult.psuEfficiency.base.wallPower}
             color="text-blue-600"
             bgColor="bg-blue-50"
           />
@@ -125,6 +127,7 @@ export const PowerCalculator: React.FC<PowerCalculatorProps> = ({
             title="最大消費電力"
             value={powerResult.totalMaxPower}
             unit="W"
+            wallValue={powerResult.psuEfficiency.max.wallPower}
             color="text-red-600"
             bgColor="bg-red-50"
           />
@@ -157,24 +160,41 @@ export const PowerCalculator: React.FC<PowerCalculatorProps> = ({
               </div>
             )}
 
+            <PsuEfficiencyTable analysis={powerResult.psuEfficiency} />
+
             <div className="border border-gray-200 rounded-lg p-4">
               <h4 className="text-sm font-medium text-gray-900 mb-2">推奨電源容量</h4>
               <div className="text-2xl font-bold text-blue-600">
                 {powerResult.recommendedPSU}W
               </div>
               <p className="text-xs text-gray-600 mt-1">
-                20%の安全マージンを含む
+                20%の安全マージンと瞬間的な電力スパイクを考慮
               </p>
+              <div className="mt-3 space-y-1 text-xs text-gray-600">
+                <div className="flex justify-between">
+                  <span>定常最大</span>
+                  <span className="font-medium text-gray-900">{powerResult.sustainedPower}W</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>瞬間最大（スパイク）</span>
+                  <span className="font-medium text-gray-900">{powerResult.transientPower}W</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>ATX 3.x / ATX 2.x 電源</span>
+                  <span className="font-medium text-gray-900">
+                    {powerResult.transient.recommendedByStandard.atx3}W / {powerResult.transient.recommendedByStandard.atx2}W
+                  </span>
+                </div>
+              </div>
             </div>
           </div>
 
           {/* 電気代計算 */}
-          {monthlyCost && (
+          {electricityProjection && (
             <UsageCostCalculator
-              monthlyCost={monthlyCost}
-              usageHours={usageHours}
-              electricityRate={electricityRate}
-              onUsageUpdate={handleUsageUpdate}
+              projection={electricityProjection}
+              options={electricityOptions}
+              onOptionsChange={updateElectricitySettings}
             />
           )}
         </div>
@@ -230,18 +250,73 @@ const PowerMetricCard: React.FC<{
   title: string;
   value: number;
   unit: string;
+  wallValue?: number;
   color: string;
   bgColor: string;
-}> = ({ title, value, unit, color, bgColor }) => (
+}> = ({ title, value, unit, wallValue, color, bgColor }) => (
   <div className={`${bgColor} rounded-lg p-4`}>
     <h3 className="text-sm font-medium text-gray-700">{title}</h3>
     <div className="mt-1">
       <span className={`text-2xl font-bold ${color}`}>{Math.round(value)}</span>
       <span className="text-sm text-gray-600 ml-1">{unit}</span>
     </div>
+    {wallValue !== undefined && (
+      <p className="text-xs text-gray-600 mt-1">コンセント側 {Math.round(wallValue)}{unit}</p>
+    )}
   </div>
 );
 
+// 電源変換効率（負荷点ごとのDC出力とコンセント側消費電力）
+const PsuEfficiencyTable: React.FC<{
+  analysis: PsuEfficiencyAnalysis;
+}> = ({ analysis }) => {
+  const sourceLabel = {
+    model: '製品別の実測値',
+    cybenetics: 'Cybenetics認証の標準曲線',
+    '80plus': '80 PLUS認証の標準曲線',
+    default: '認証情報なし（推定）'
+  }[analysis.source];
+  const rows = [
+    { label: 'アイドル', point: analysis.idle },
+    { label: '通常', point: analysis.base },
+    { label: '最大', point: analysis.max }
+  ];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-900">電源変換効率</h4>
+        <span className="text-xs font-medium text-gray-700">{analysis.rating}</span>
+      </div>
+      <table className="w-full text-xs text-gray-600">
+        <thead>
+          <tr className="text-left">
+            <th className="font-normal pb-1">負荷点</th>
+            <th className="font-normal pb-1 text-right">負荷率</th>
+            <th className="font-normal pb-1 text-right">効率</th>
+            <th className="font-normal pb-1 text-right">DC出力</th>
+            <th className="font-normal pb-1 text-right">コンセント側</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ label, point }) => (
+            <tr key={label}>
+              <td>{label}</td>
+              <td className="text-right">{point.loadPercentage}%</td>
+              <td className="text-right">{(point.efficiency * 100).toFixed(1)}%</td>
+              <td className="text-right">{point.dcPower}W</td>
+              <td className="text-right font-medium text-gray-900">{point.wallPower}W</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-500 mt-2">
+        {analysis.psuCapacity}W電源・{sourceLabel}から補間
+      </p>
+    </div>
+  );
+};
+
 // 警告セクション
 const PowerWarningsSection: React.FC<{
   warnings: Record<string, PowerWarning[]>;
@@ -307,65 +382,42 @@ const WarningList: React.FC<{
   </div>
 );
 
-// 使用量計算機
+// 使用量計算機（使用プロファイル × 負荷シナリオ × 地域別段階料金）
 const UsageCostCalculator: React.FC<{
-  monthlyCost: {
-    idle: number;
-    normal: number;
-    peak: number;
-    total: number;
-  };
-  usageHours: number;
-  electricityRate: number;
-  onUsageUpdate: (hours: number, rate: number) => void;
-}> = ({ monthlyCost, usageHours, electricityRate, onUsageUpdate }) => (
+  projection: ElectricityCostProjection;
+  options: ElectricityCostOptions;
+  onOptionsChange: (options: ElectricityCostOptions) => void;
+}> = ({ projection, options, onOptionsChange }) => (
   <div className="space-y-4">
     <h3 className="text-sm font-medium text-gray-900">月間電気代</h3>
     
     {/* 設定 */}
-    <div className="grid grid-cols-2 gap-3">
-      <div>
-        <label className="block text-xs text-gray-600 mb-1">使用時間 (時/日)</label>
-        <input
-          type="number"
-          value={usageHours}
-          onChange={(e) => onUsageUpdate(Number(e.target.value), electricityRate)}
-          className="w-full px-3 py-1 border border-gray-300 rounded text-sm"
-          min="1" max="24"
-        />
-      </div>
-      <div>
-        <label className="block text-xs text-gray-600 mb-1">電気料金 (円/kWh)</label>
-        <input
-          type="number"
-          value={electricityRate}
-          onChange={(e) => onUsageUpdate(usageHours, Number(e.target.value))}
-          className="w-full px-3 py-1 border border-gray-300 rounded text-sm"
-          min="10" max="50"
-        />
-      </div>
-    </div>
+    <ElectricityCostSettings options={options} onChange={onOptionsChange} />
 
     {/* 結果表示 */}
     <div className="border border-gray-200 rounded-lg p-4">
-      <div className="grid grid-cols-3 gap-4 text-center">
+      <div className="space-y-1">
+        {projection.scenarios.filter(scenario => scenario.weeklyHours > 0).map(scenario => (
+          <div key={scenario.scenario} className="flex justify-between text-xs text-gray-600">
+            <span>{scenario.description}（週{scenario.weeklyHours}時間・{scenario.wallPower}W）</span>
+            <span className="font-medium text-gray-900">{scenario.monthlyKwh.toFixed(1)}kWh/月</span>
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 pt-3 border-t border-gray-200 grid grid-cols-3 gap-4 text-center">
         <div>
-          <div className="text-xs text-gray-600">アイドル時</div>
-          <div className="text-sm font-medium text-gray-900">¥{Math.round(monthlyCost.idle)}</div>
+          <div className="text-xs text-gray-600">月間合計</div>
+          <div className="text-lg font-bold text-gray-900">¥{projection.monthlyCost.toLocaleString()}</div>
         </div>
         <div>
-          <div className="text-xs text-gray-600">通常使用時</div>
-          <div className="text-sm font-medium text-gray-900">¥{Math.round(monthlyCost.normal)}</div>
+          <div className="text-xs text-gray-600">年間</div>
+          <div className="text-sm font-medium text-gray-900">¥{projection.yearlyCost.toLocaleString()}</div>
         </div>
         <div>
-          <div className="text-xs text-gray-600">ピーク時</div>
-          <div className="text-sm font-medium text-gray-900">¥{Math.round(monthlyCost.peak)}</div>
+          <div className="text-xs text-gray-600">年間CO₂</div>
+          <div className="text-sm font-medium text-gray-900">{projection.yearlyCo2Kg}kg</div>
         </div>
       </div>
-      <div className="mt-3 pt-3 border-t border-gray-200 text-center">
-        <div className="text-xs text-gray-600">月間合計</div>
-        <div className="text-lg font-bold text-gray-900">¥{Math.round(monthlyCost.total)}</div>
-      </div>
     </div>
   </div>
 );
@@ -13,6 +13,7 @@ import {
   Minus
 } from 'lucide-react';
 import { PCConfiguration } from '@/types';
+import type { ThermalEstimate } from '@/types/config';
 import { useCompatibilityCheck } from '@/hooks/useCompatibilityCheck';
 
 interface CompatibilityCheckerProps {
@@ -180,7 +181,8 @@ export const CompatibilityChecker: React.FC<CompatibilityCheckerProps> = ({
               message: w.message, 
               solution: w.recommendation,
               severity: 'warning',
-              category: '一般的な警告'
+              category: '一般的な警告',
+              ruleId: w.ruleId
             }))]}
             severity="warning"
             isExpanded={expandedSections.has('warning')}
@@ -270,6 +272,7 @@ const CompatibilitySection: React.FC<{
     solution?: string;
     severity?: string;
     category?: string;
+    ruleId?: string;
   }>;
   severity: string;
   isExpanded: boolean;
@@ -320,6 +323,11 @@ const CompatibilitySection: React.FC<{
                   カテゴリ: {item.category}
                 </p>
               )}
+              {item.ruleId && (
+                <p className="text-xs text-gray-400 mt-1 font-mono">
+                  ルール: {item.ruleId}
+                </p>
+              )}
             </div>
           ))}
         </div>
@@ -338,6 +346,7 @@ const CompatibilityDetailsSection: React.FC<{
       physicalFit?: { message?: string };
       performanceMatch?: { message?: string };
       cooling?: { message?: string };
+      thermal?: ThermalEstimate;
     };
   };
   checkSpecificCompatibility: (category: string) => boolean;
@@ -440,6 +449,28 @@ const CompatibilityDetailsSection: React.FC<{
           );
         })}
       </div>
+
+      {/* 温度推定（ゲーミング時・ストレステスト時） */}
+      {details?.thermal && (
+        <div className="mt-3 bg-white rounded p-3 border">
+          <div className="text-sm font-medium text-gray-900">温度推定（室温{details.thermal.ambientTemp}℃）</div>
+          <div className="mt-2 grid grid-cols-3 gap-2 text-xs">
+            {details.thermal.scenarios
+              .filter(scenario => scenario.scenario === 'gaming' || scenario.scenario === 'stress_test')
+              .map(scenario => (
+                <React.Fragment key={scenario.scenario}>
+                  <div className="text-gray-600">{scenario.description}</div>
+                  <div className={scenario.cpuThrottling ? 'text-red-600 font-medium' : 'text-gray-800'}>
+                    CPU {scenario.cpuTemp}℃{scenario.cpuThrottling && '（スロットリング）'}
+                  </div>
+                  <div className="text-gray-800">
+                    GPU {scenario.gpuTemp}℃ / ケース内 {scenario.systemTemp}℃
+                  </div>
+                </React.Fragment>
+              ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,247 @@
+// src/components/comparison/ConfigurationComparisonView.tsx
+// ⚖️ 構成比較ビュー - 保存済み構成を2〜4件選んで横並びで比較
+
+import React, { useState, useMemo, useCallback } from 'react';
+import { Scale, Save, Trash2, Trophy } from 'lucide-react';
+import type { PCConfiguration } from '@/types';
+import type { ComparisonRecommendation, ComparisonValue } from '@/types/config';
+import { useConfigStore } from '@/hooks/useConfigStore';
+import ConfigurationComparisonService, {
+  MIN_COMPARISON_CONFIGS,
+  MAX_COMPARISON_CONFIGS
+} from '@/services/configurationComparison';
+import { categoryNames } from '@/data/sampleParts';
+
+export interface ConfigurationComparisonViewProps {
+  configuration?: PCConfiguration;   // 「現在の構成を保存」の対象（省略時はストアの構成）
+  className?: string;
+}
+
+const comparisonService = ConfigurationComparisonService.getInstance();
+
+const recommendationLabels: Record<ComparisonRecommendation['type'], string> = {
+  best_gaming: 'ゲーミング',
+  best_content_creation: 'クリエイティブ',
+  best_workstation: 'ワークステーション',
+  best_performance: '総合性能',
+  best_value: 'コストパフォーマンス',
+  most_efficient: '省電力',
+  most_upgradeable: '拡張性',
+  most_balanced: 'バランス'
+};
+
+// 指標行の定義
+interface MetricRow {
+  label: string;
+  values: ComparisonValue[];
+  format: (value: number) => string;
+}
+
+export const ConfigurationComparisonView: React.FC<ConfigurationComparisonViewProps> = ({
+  configuration,
+  className = ''
+}) => {
+  const { currentConfig, savedConfigs, addSavedConfig, deleteConfig } = useConfigStore();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [saveName, setSaveName] = useState('');
+
+  const selectedConfigs = useMemo(
+    () => savedConfigs.filter(config => selectedIds.includes(config.id)),
+    [savedConfigs, selectedIds]
+  );
+
+  const comparison = useMemo(
+    () => (selectedConfigs.length >= MIN_COMPARISON_CONFIGS ? comparisonService.compare(selectedConfigs) : null),
+    [selectedConfigs]
+  );
+
+  const toggleSelection = useCallback((id: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.filter(selected => selected !== id);
+      if (prev.length >= MAX_COMPARISON_CONFIGS) return prev;
+      return [...prev, id];
+    });
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const source = configuration || currentConfig;
+    addSavedConfig({ ...source, name: saveName.trim() || source.name });
+    setSaveName('');
+  }, [configuration, currentConfig, saveName, addSavedConfig]);
+
+  const handleDelete = useCallback((id: string) => {
+    deleteConfig(id);
+    setSelectedIds(prev => prev.filter(selected => selected !== id));
+  }, [deleteConfig]);
+
+  const metricRows: MetricRow[] = comparison
+    ? [
+        { label: '合計価格', values: comparison.metrics.price, format: v => `¥${v.toLocaleString()}` },
+        { label: '総合性能', values: comparison.metrics.performance, format: v => `${v}` },
+        { label: '平均FPS（1440p）', values: comparison.metrics.fps, format: v => `${v} FPS` },
+        { label: 'ゲーミング', values: comparison.metrics.useCases.gaming, format: v => `${v}` },
+        { label: 'クリエイティブ', values: comparison.metrics.useCases.contentCreation, format: v => `${v}` },
+        { label: 'ワークステーション', values: comparison.metrics.useCases.workstation, format: v => `${v}` },
+        { label: '互換性スコア', values: comparison.metrics.compatibility, format: v => `${v}` },
+        { label: '最大消費電力', values: comparison.metrics.power, format: v => `${v}W` },
+        { label: '騒音（ゲーミング時）', values: comparison.metrics.noise, format: v => `${v} dBA` },
+        { label: '拡張性', values: comparison.metrics.upgradeability, format: v => `${v}` }
+      ]
+    : [];
+
+  const hasCurrentParts = Object.values((configuration || currentConfig).parts).some(Boolean);
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* 保存済み構成の選択 */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Scale size={20} className="text-blue-600" />
+            構成の比較
+          </h2>
+          <span className="text-xs text-gray-500">
+            {MIN_COMPARISON_CONFIGS}〜{MAX_COMPARISON_CONFIGS}件を選択（{selectedIds.length}件選択中）
+          </span>
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder="保存名（省略時は構成名）"
+            className="flex-1 px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!hasCurrentParts}
+            className="flex items-center gap-1 px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-sm rounded-md transition-colors"
+          >
+            <Save size={14} />
+            現在の構成を保存
+          </button>
+        </div>
+
+        {savedConfigs.length === 0 ? (
+          <div className="text-sm text-gray-500">保存済みの構成がありません。比較したい構成を保存してください。</div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {savedConfigs.map(config => {
+              const isSelected = selectedIds.includes(config.id);
+              const isDisabled = !isSelected && selectedIds.length >= MAX_COMPARISON_CONFIGS;
+              return (
+                <label
+                  key={config.id}
+                  className={`flex items-center justify-between gap-2 p-2 border rounded-md text-sm ${
+                    isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                  } ${isDisabled ? 'opacity-50' : 'cursor-pointer'}`}
+                >
+                  <span className="flex items-center gap-2 min-w-0">
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      disabled={isDisabled}
+                      onChange={() => toggleSelection(config.id)}
+                    />
+                    <span className="truncate">{config.name}</span>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">¥{config.totalPrice.toLocaleString()}</span>
+                  </span>
+                  <button
+                    onClick={(e) => { e.preventDefault(); handleDelete(config.id); }}
+                    className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                    aria-label="削除"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </label>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {comparison && (
+        <>
+          {/* 用途別のおすすめ */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2 flex items-center gap-1">
+              <Trophy size={16} className="text-yellow-500" />
+              用途別のおすすめ
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {comparison.recommendations.map(recommendation => (
+                <div key={recommendation.type} className="p-2 rounded-md bg-gray-50 text-xs">
+                  <div className="font-medium text-gray-900">
+                    {recommendationLabels[recommendation.type]}:{' '}
+                    {comparison.configurations.find(c => c.id === recommendation.configId)?.name}
+                  </div>
+                  <div className="text-gray-600">{recommendation.reasoning}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* 指標・パーツ差分の比較表 */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="py-2 pr-2 text-left text-gray-500 font-medium">項目</th>
+                  {comparison.configurations.map(config => (
+                    <th key={config.id} className="py-2 px-2 text-left text-gray-900 font-semibold">{config.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {metricRows.map(row => (
+                  <tr key={row.label} className="border-b border-gray-100">
+                    <td className="py-1 pr-2 text-gray-500 whitespace-nowrap">{row.label}</td>
+                    {comparison.configurations.map(config => {
+                      const value = row.values.find(v => v.configId === config.id);
+                      return (
+                        <td
+                          key={config.id}
+                          className={`py-1 px-2 ${value?.rank === 1 ? 'text-green-700 font-semibold' : 'text-gray-800'}`}
+                        >
+                          {value ? row.format(value.value) : '-'}
+                          {value && value.rank > 1 && value.percentageDiff !== undefined && value.percentageDiff !== 0 && (
+                            <span className="ml-1 text-gray-400">
+                              ({value.percentageDiff > 0 ? '+' : ''}{value.percentageDiff}%)
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+
+                {comparison.differences.map(difference => (
+                  <tr
+                    key={difference.category}
+                    className={`border-b border-gray-100 ${difference.isSame ? '' : 'bg-yellow-50'}`}
+                  >
+                    <td className="py-1 pr-2 text-gray-500 whitespace-nowrap">
+                      {categoryNames[difference.category] || difference.category}
+                    </td>
+                    {comparison.configurations.map(config => {
+                      const part = difference.parts[config.id];
+                      return (
+                        <td key={config.id} className="py-1 px-2 text-gray-800">
+                          {part ? part.name : <span className="text-gray-400">未選択</span>}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="mt-2 text-xs text-gray-500">黄色の行は構成間でパーツが異なるカテゴリです</div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ConfigurationComparisonView;
@@ -0,0 +1,5 @@
+// src/components/comparison/index.ts
+// 構成比較関連コンポーネントのエクスポート
+
+export { default as ConfigurationComparisonView } from './ConfigurationComparisonView';
+export type { ConfigurationComparisonViewProps } from './ConfigurationComparisonView';
@@ -0,0 +1,187 @@
+// src/components/import/PartsListImporter.tsx
+// 📥 パーツリストインポート - 貼り付け/ファイル読み込み → 照合画面 → 構成生成
+
+import React, { useState, useCallback } from 'react';
+import { Upload, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import type { Part, PCConfiguration } from '@/types';
+import { ImportService, type ImportLineMatch, type ImportPreview, type ImportSourceFormat } from '@/services/import';
+import { categoryNames } from '@/data/sampleParts';
+
+export interface PartsListImporterProps {
+  catalog: Part[];
+  budget?: number;
+  onImport: (configuration: PCConfiguration, warnings: string[]) => void;
+  className?: string;
+}
+
+const importService = ImportService.getInstance();
+
+const formatOptions: { value: ImportSourceFormat | ''; label: string }[] = [
+  { value: '', label: '自動判定' },
+  { value: 'pcpartpicker', label: 'PCPartPicker' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'kakaku', label: '価格.com' },
+  { value: 'json', label: 'JSON（本アプリ）' }
+];
+
+const statusStyles: Record<ImportLineMatch['status'], { label: string; className: string; icon: React.ReactNode }> = {
+  matched: { label: '一致', className: 'text-green-700 bg-green-50', icon: <CheckCircle size={14} /> },
+  ambiguous: { label: '要確認', className: 'text-yellow-700 bg-yellow-50', icon: <AlertTriangle size={14} /> },
+  unmatched: { label: '未検出', className: 'text-red-700 bg-red-50', icon: <XCircle size={14} /> }
+};
+
+export const PartsListImporter: React.FC<PartsListImporterProps> = ({
+  catalog,
+  budget,
+  onImport,
+  className = ''
+}) => {
+  const [text, setText] = useState('');
+  const [format, setFormat] = useState<ImportSourceFormat | ''>('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+
+  const handleParse = useCallback(() => {
+    setPreview(importService.preview(text, catalog, format || undefined));
+  }, [text, catalog, format]);
+
+  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    setPreview(importService.preview(content, catalog, format || undefined));
+    e.target.value = '';
+  }, [catalog, format]);
+
+  // 照合画面での候補選択
+  const handleSelect = useCallback((index: number, partId: string) => {
+    setPreview(prev => {
+      if (!prev) return prev;
+      const matches = prev.matches.map((match, i) => {
+        if (i !== index) return match;
+        const selected = match.candidates.find(c => c.part.id === partId)?.part || null;
+        return { ...match, selected, status: selected ? 'matched' as const : 'unmatched' as const };
+      });
+      return { ...prev, matches };
+    });
+  }, []);
+
+  const handleConfirm = useCallback(() => {
+    if (!preview) return;
+    const result = importService.buildConfiguration(preview.matches, { budget });
+    onImport(result.configuration, [...preview.warnings, ...result.warnings]);
+    setPreview(null);
+    setText('');
+  }, [preview, budget, onImport]);
+
+  const ambiguousCount = preview?.matches.filter(m => m.status === 'ambiguous').length || 0;
+  const selectedCount = preview?.matches.filter(m => m.selected).length || 0;
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-1">
+          <Upload size={16} className="text-blue-600" />
+          パーツリストのインポート
+        </h3>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ImportSourceFormat | '')}
+          className="px-2 py-1 text-xs border border-gray-300 rounded-md"
+        >
+          {formatOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {!preview ? (
+        <>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={5}
+            placeholder="PCPartPickerのパーツリスト、CSV、価格.comの製品URLなどを貼り付けてください"
+            className="w-full px-3 py-2 text-xs font-mono border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex items-center justify-between gap-2">
+            <input
+              type="file"
+              accept=".txt,.csv,.md,.json"
+              onChange={handleFileChange}
+              className="text-xs text-gray-600"
+            />
+            <button
+              onClick={handleParse}
+              disabled={!text.trim()}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-sm rounded-md transition-colors"
+            >
+              読み込み
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          {/* 照合画面 */}
+          <div className="text-xs text-gray-600">
+            形式: {formatOptions.find(o => o.value === preview.format)?.label} / {preview.matches.length}行
+            {ambiguousCount > 0 && <span className="ml-2 text-yellow-700">要確認 {ambiguousCount}件</span>}
+          </div>
+          {preview.warnings.map(warning => (
+            <div key={warning} className="text-xs text-yellow-700">• {warning}</div>
+          ))}
+
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {preview.matches.map((match, index) => {
+              const status = statusStyles[match.status];
+              return (
+                <div key={`${match.line.lineNumber}-${index}`} className="border border-gray-200 rounded-md p-2 text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-gray-800 truncate" title={match.line.raw}>
+                      {match.line.category && <span className="text-gray-500">{categoryNames[match.line.category]}: </span>}
+                      {match.line.name || match.line.url}
+                    </span>
+                    <span className={`flex items-center gap-1 px-2 py-0.5 rounded ${status.className}`}>
+                      {status.icon}
+                      {status.label}
+                    </span>
+                  </div>
+                  <select
+                    value={match.selected?.id || ''}
+                    onChange={(e) => handleSelect(index, e.target.value)}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+                  >
+                    <option value="">使用しない</option>
+                    {match.candidates.map(candidate => (
+                      <option key={candidate.part.id} value={candidate.part.id}>
+                        {candidate.part.name}（¥{candidate.part.price.toLocaleString()} / 一致度 {Math.round(candidate.score * 100)}%）
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setPreview(null)}
+              className="px-3 py-1 bg-gray-500 hover:bg-gray-600 text-white text-sm rounded-md transition-colors"
+            >
+              戻る
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={selectedCount === 0}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-sm rounded-md transition-colors"
+            >
+              {selectedCount}件のパーツで構成を作成
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PartsListImporter;
@@ -0,0 +1,5 @@
+// src/components/import/index.ts
+// インポート関連コンポーネントのエクスポート
+
+export { default as PartsListImporter } from './PartsListImporter';
+export type { PartsListImporterProps } from './PartsListImporter';
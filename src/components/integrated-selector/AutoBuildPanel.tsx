@@ -0,0 +1,146 @@
+// src/components/integrated-selector/AutoBuildPanel.tsx
+// 🤖 自動構成パネル - 予算と用途から互換性のある構成候補を生成
+
+import React, { useState, useCallback } from 'react';
+import { Wand2, Lock } from 'lucide-react';
+import type { Part, PartCategory, PCConfiguration, AutoBuildResult, AutoBuildCandidate } from '@/types';
+import type { ConfigurationPurpose } from '@/types/config';
+import AutoBuildService from '@/services/autoBuildService';
+import { AUTO_BUILD_CATEGORIES, purposeNames } from '@/data/budgetRules';
+
+interface AutoBuildPanelProps {
+  configuration: PCConfiguration;
+  budget: number;
+  catalog: Part[];
+  onApply: (parts: Partial<Record<PartCategory, Part | null>>) => void;
+  className?: string;
+}
+
+const autoBuildService = AutoBuildService.getInstance();
+
+export const AutoBuildPanel: React.FC<AutoBuildPanelProps> = ({
+  configuration,
+  budget,
+  catalog,
+  onApply,
+  className = ''
+}) => {
+  const [purpose, setPurpose] = useState<ConfigurationPurpose>('gaming');
+  const [lockSelected, setLockSelected] = useState(false);
+  const [result, setResult] = useState<AutoBuildResult | null>(null);
+  const [expandedRank, setExpandedRank] = useState<number | null>(null);
+
+  // 選択済みパーツを固定パーツとして扱う
+  const getLockedParts = useCallback(() => {
+    const locked: Partial<Record<PartCategory, Part>> = {};
+    AUTO_BUILD_CATEGORIES.forEach(category => {
+      const part = configuration.parts[category];
+      if (part) locked[category] = part;
+    });
+    return locked;
+  }, [configuration.parts]);
+
+  const handleGenerate = useCallback(() => {
+    setResult(autoBuildService.generate({
+      budget,
+      purpose,
+      lockedParts: lockSelected ? getLockedParts() : undefined
+    }, catalog));
+    setExpandedRank(1);
+  }, [budget, purpose, lockSelected, getLockedParts, catalog]);
+
+  const handleApply = useCallback((candidate: AutoBuildCandidate) => {
+    onApply(candidate.configuration.parts);
+  }, [onApply]);
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-1">
+          <Wand2 size={16} className="text-purple-600" />
+          自動構成
+        </h3>
+        <span className="text-xs text-gray-500">予算 ¥{budget.toLocaleString()}</span>
+      </div>
+
+      {/* 条件設定 */}
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={purpose}
+          onChange={(e) => setPurpose(e.target.value as ConfigurationPurpose)}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+        >
+          {(Object.keys(purposeNames) as ConfigurationPurpose[]).map(key => (
+            <option key={key} value={key}>{purposeNames[key]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={lockSelected}
+            onChange={(e) => setLockSelected(e.target.checked)}
+          />
+          <Lock size={14} />
+          選択済みパーツを固定
+        </label>
+        <button
+          onClick={handleGenerate}
+          disabled={budget <= 0}
+          className="px-3 py-1 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-300 text-white text-sm rounded-md transition-colors"
+        >
+          構成を生成
+        </button>
+      </div>
+
+      {/* 結果 */}
+      {result && (
+        <div className="space-y-2">
+          <div className="text-xs text-gray-600">
+            {result.summary}（探索 {result.stats.combinationsExplored}件 / {result.executionTime}ms）
+          </div>
+
+          {result.candidates.map(candidate => (
+            <div key={candidate.rank} className="border border-gray-200 rounded-md p-3">
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setExpandedRank(expandedRank === candidate.rank ? null : candidate.rank)}
+                  className="text-left text-sm"
+                >
+                  <span className="font-semibold text-gray-900">候補{candidate.rank}</span>
+                  <span className="ml-2 text-gray-700">¥{candidate.totalPrice.toLocaleString()}</span>
+                  <span className="ml-2 text-xs text-gray-500">
+                    スコア {candidate.score} / 電源余裕 {candidate.psuHeadroom}%
+                  </span>
+                </button>
+                <button
+                  onClick={() => handleApply(candidate)}
+                  className="px-2 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs rounded-md transition-colors"
+                >
+                  この構成を適用
+                </button>
+              </div>
+
+              {/* 予算配分の説明 */}
+              {expandedRank === candidate.rank && (
+                <ul className="mt-2 space-y-1 text-xs">
+                  {candidate.budgetSplit.map(split => (
+                    <li key={split.category} className="flex justify-between gap-2">
+                      <span className="text-gray-700">
+                        {split.locked && '🔒 '}{split.categoryName}: {split.partName || '未選択'}
+                      </span>
+                      <span className="text-gray-500 text-right">
+                        {split.actualPercentage}%（目標 {split.targetPercentage}%）{split.reason}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AutoBuildPanel;
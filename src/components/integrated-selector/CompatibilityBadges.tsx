@@ -0,0 +1,47 @@
+// src/components/integrated-selector/CompatibilityBadges.tsx
+// 検索候補の互換性バッジ（不適合・注意の理由を表示）
+
+import React from 'react';
+import { AlertTriangle, XCircle } from 'lucide-react';
+import type { CandidateCompatibility } from '@/types/compatibility';
+
+interface CompatibilityBadgesProps {
+  compatibility?: CandidateCompatibility;
+  className?: string;
+}
+
+export const CompatibilityBadges: React.FC<CompatibilityBadgesProps> = ({
+  compatibility,
+  className = ''
+}) => {
+  if (!compatibility || compatibility.status === 'compatible') return null;
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      {compatibility.reasons.map(reason => (
+        <div
+          key={`${reason.ruleId}-${reason.message}`}
+          className={`flex items-start gap-1 text-xs ${
+            reason.severity === 'fail' ? 'text-red-700' : 'text-yellow-700'
+          }`}
+        >
+          {reason.severity === 'fail' ? (
+            <XCircle size={12} className="mt-0.5 flex-shrink-0" />
+          ) : (
+            <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
+          )}
+          <span
+            className={`px-1.5 rounded flex-shrink-0 ${
+              reason.severity === 'fail' ? 'bg-red-100' : 'bg-yellow-100'
+            }`}
+          >
+            {reason.label}
+          </span>
+          <span>{reason.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CompatibilityBadges;
@@ -13,12 +13,15 @@ import {
   ShoppingCart,
   AlertCircle,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  ShieldCheck
 } from 'lucide-react';
 import type { PartCategory, Part, PCConfiguration } from '@/types';
 import { getPartsByCategory, categoryNames } from '@/data/sampleParts';
 import { sampleParts } from '@/data/sampleParts';
 import { useSearch } from '@/hooks/useSearch';
+import { useCandidateCompatibility } from '@/hooks/useCandidateCompatibility';
+import CompatibilityBadges from './CompatibilityBadges';
 
 export interface IntegratedPartSelectorProps {
   configuration: PCConfiguration;
@@ -65,6 +68,8 @@ export const IntegratedPartSelector: React.FC<IntegratedPartSelectorProps> = ({
   const [filterCategory, setFilterCategory] = useState<PartCategory | null>(null);
   const [priceRange, setPriceRange] = useState<{min: number; max: number}>({min: 0, max: 1000000});
   const [showFilters, setShowFilters] = useState(false);
+  // 「構成に適合」モード: 不適合の候補を非表示（オフ時は理由をバッジ表示）
+  const [compatibleOnly, setCompatibleOnly] = useState(false);
 
   // 🚀 新機能: 高度な検索機能統合
   const {
@@ -123,6 +128,13 @@ export const IntegratedPartSelector: React.FC<IntegratedPartSelectorProps> = ({
     return results;
   }, [searchTerm, filterCategory, priceRange, searchResult]);
 
+  // 🔍 選択中の構成に組み込んだ場合の互換性判定
+  const { visibleParts, compatibility, hiddenCount } = useCandidateCompatibility(
+    configuration,
+    searchResults,
+    compatibleOnly
+  );
+
   // 選択済みパーツの取得
   const selectedParts = useMemo(() => {
     return Object.entries(configuration.parts)
@@ -449,6 +461,18 @@ export const IntegratedPartSelector: React.FC<IntegratedPartSelectorProps> = ({
                 <Filter className="w-4 h-4" />
               </button>
               
+              <button
+                onClick={() => setCompatibleOnly(!compatibleOnly)}
+                title="選択中の構成に適合するパーツのみ表示"
+                className={`px-3 py-2 rounded-lg border transition-colors ${
+                  compatibleOnly
+                    ? 'bg-green-50 border-green-200 text-green-700'
+                    : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                <ShieldCheck className="w-4 h-4" />
+              </button>
+              
               <button
                 onClick={handleResetSearch}
                 className="px-3 py-2 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 transition-colors"
@@ -457,6 +481,13 @@ export const IntegratedPartSelector: React.FC<IntegratedPartSelectorProps> = ({
               </button>
             </div>
 
+            {compatibleOnly && (
+              <div className="text-xs text-green-700">
+                選択中の構成に適合するパーツのみ表示しています
+                {hiddenCount > 0 && `（${hiddenCount}件を非表示）`}
+              </div>
+            )}
+
             {/* 高度フィルタ */}
             {showFilters && (
               <div className="bg-gray-50 rounded-lg p-4 space-y-4">
@@ -668,7 +699,7 @@ export const IntegratedPartSelector: React.FC<IntegratedPartSelectorProps> = ({
             )}
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {searchResults.map((part: Part) => {
+              {visibleParts.map((part: Part) => {
                 const isSelected = configuration.parts[part.category as PartCategory]?.id === part.id;
                 
                 return (
@@ -688,6 +719,8 @@ export const IntegratedPartSelector: React.FC<IntegratedPartSelectorProps> = ({
                           {categoryNames[part.category]}
                         </span>
                       </div>
+
+                      {!isSelected && <CompatibilityBadges compatibility={compatibility.get(part.id)} />}
                       
                       <div className="flex items-center justify-between">
                         <p className="text-sm font-bold text-gray-900">
@@ -760,7 +793,7 @@ export const IntegratedPartSelector: React.FC<IntegratedPartSelectorProps> = ({
               </div>
             )}
 
-            {searchResults.length === 0 && (
+            {visibleParts.length === 0 && (
               <div className="text-center py-12">
                 <Search className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                 <p className="text-gray-600">検索条件に一致する製品がありません</p>
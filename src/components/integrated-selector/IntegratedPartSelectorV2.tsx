@@ -7,6 +7,7 @@ import type { Part, PartCategory, PCConfiguration } from '@/types';
 
 // 新規作成したコンポーネント
 import BudgetQuickTest from './BudgetQuickTest';
+import AutoBuildPanel from './AutoBuildPanel';
 import PartCategoryRow from './PartCategoryRow';
 import SearchPanel from './SearchPanel';
 
@@ -135,6 +136,13 @@ export const IntegratedPartSelectorV2: React.FC<IntegratedPartSelectorV2Props> =
     });
   }, [configuration.parts, onPartSelect]);
 
+  // 自動構成の適用
+  const handleAutoBuildApply = useCallback((parts: Partial<Record<PartCategory, Part | null>>) => {
+    Object.entries(parts).forEach(([category, part]) => {
+      onPartSelect(category as PartCategory, part || null);
+    });
+  }, [onPartSelect]);
+
   // 検索パネル開閉
   const handleSearchClick = useCallback((category: string) => {
     setActiveSearchCategory(activeSearchCategory === category ? null : category);
@@ -179,6 +187,14 @@ export const IntegratedPartSelectorV2: React.FC<IntegratedPartSelectorV2Props> =
         onQuickTest={handleQuickTest}
       />
 
+      {/* 自動構成 */}
+      <AutoBuildPanel
+        configuration={configuration}
+        budget={budget}
+        catalog={sampleParts}
+        onApply={handleAutoBuildApply}
+      />
+
       {/* ヘッダー */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
         <div className="flex items-center justify-between">
@@ -227,6 +243,7 @@ export const IntegratedPartSelectorV2: React.FC<IntegratedPartSelectorV2Props> =
                   onClose={() => setActiveSearchCategory(null)}
                   onPartSelect={(part) => handlePartSelectFromSearch(category.key, part)}
                   existingParts={part ? [part] : []}
+                  configuration={configuration}
                 />
               )}
             </div>
@@ -269,6 +286,7 @@ export const IntegratedPartSelectorV2: React.FC<IntegratedPartSelectorV2Props> =
                   onClose={() => setActiveSearchCategory(null)}
                   onPartSelect={(part) => handlePartSelectFromSearch(category.key, part)}
                   existingParts={partsArray}
+                  configuration={configuration}
                 />
               )}
             </div>
@@ -2,8 +2,13 @@
 // パーツ検索パネル
 
 import React, { useState, useCallback } from 'react';
-import { Search, X, Check, Loader } from 'lucide-react';
-import type { Part } from '@/types';
+import { Search, X, Check, Loader, ShieldCheck, AlertCircle } from 'lucide-react';
+import type { Part, PartCategory, PCConfiguration } from '@/types';
+import SearchService from '@/services/searchService';
+import { SearchQueryBuilder } from '@/services/searchQueryLanguage';
+import { useCandidateCompatibility } from '@/hooks/useCandidateCompatibility';
+import { sampleParts } from '@/data/sampleParts';
+import CompatibilityBadges from './CompatibilityBadges';
 
 interface SearchPanelProps {
   category: string;
@@ -12,36 +17,13 @@ interface SearchPanelProps {
   onClose: () => void;
   onPartSelect: (part: Part) => void;
   existingParts?: Part[];  // 既に選択済みのパーツ（重複チェック用）
+  configuration?: PCConfiguration;  // 選択中の構成（候補の互換性判定用）
+  allParts?: Part[];
   className?: string;
 }
 
-// モックデータ（後で実データに置き換え）
-const mockSearchResults: Part[] = [
-  {
-    id: 'cpu-001',
-    name: 'Intel Core i5-13400F',
-    manufacturer: 'Intel',
-    category: 'cpu',
-    price: 32000,
-    specifications: { socket: 'LGA1700', cores: 10, threads: 16 }
-  },
-  {
-    id: 'cpu-002',
-    name: 'AMD Ryzen 7 7700X',
-    manufacturer: 'AMD',
-    category: 'cpu',
-    price: 45000,
-    specifications: { socket: 'AM5', cores: 8, threads: 16 }
-  },
-  {
-    id: 'cpu-003',
-    name: 'Intel Core i7-13700K',
-    manufacturer: 'Intel',
-    category: 'cpu',
-    price: 58000,
-    specifications: { socket: 'LGA1700', cores: 16, threads: 24 }
-  }
-];
+// 検索結果の最大件数
+const MAX_RESULTS = 50;
 
 export const SearchPanel: React.FC<SearchPanelProps> = ({
   category,
@@ -50,35 +32,51 @@ export const SearchPanel: React.FC<SearchPanelProps> = ({
   onClose,
   onPartSelect,
   existingParts = [],
+  configuration,
+  allParts = sampleParts,
   className = ''
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
   const [searchResults, setSearchResults] = useState<Part[]>([]);
+  const [searchError, setSearchError] = useState<string | null>(null);
   const [showMore, setShowMore] = useState(false);
+  // 「構成に適合」モード: 不適合の候補を非表示（オフ時は理由をバッジ表示）
+  const [compatibleOnly, setCompatibleOnly] = useState(false);
+
+  const { visibleParts, compatibility, hiddenCount } = useCandidateCompatibility(
+    configuration,
+    searchResults,
+    compatibleOnly
+  );
   
-  // 検索実行（モック）
+  // 検索実行
   const handleSearch = useCallback(async () => {
     if (!searchQuery.trim()) {
       setSearchResults([]);
+      setSearchError(null);
       return;
     }
     
     setIsSearching(true);
-    
-    // モック: 1秒待機してからフィルタリング
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    // カテゴリとクエリでフィルタリング（実際はAPIコール）
-    const filtered = mockSearchResults.filter(part => 
-      part.category === categoryKey &&
-      (part.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-       part.manufacturer.toLowerCase().includes(searchQuery.toLowerCase()))
-    );
-    
-    setSearchResults(filtered);
-    setIsSearching(false);
-  }, [searchQuery, categoryKey]);
+    setSearchError(null);
+
+    try {
+      const query = new SearchQueryBuilder()
+        .term(searchQuery)
+        .category(categoryKey as PartCategory)
+        .page(1, MAX_RESULTS)
+        .build();
+      const result = await SearchService.getInstance().search(query, allParts);
+      setSearchResults(result.parts);
+    } catch (error) {
+      console.error('Search failed:', error);
+      setSearchResults([]);
+      setSearchError(error instanceof Error ? error.message : '検索に失敗しました');
+    } finally {
+      setIsSearching(false);
+    }
+  }, [searchQuery, categoryKey, allParts]);
   
   // Enter キーで検索
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -105,7 +103,7 @@ export const SearchPanel: React.FC<SearchPanelProps> = ({
   if (!isOpen) return null;
   
   // 表示する検索結果（最初は3件、もっと見るで全件）
-  const displayResults = showMore ? searchResults : searchResults.slice(0, 3);
+  const displayResults = showMore ? visibleParts : visibleParts.slice(0, 3);
   
   return (
     <div className={`bg-white border-t border-x border-b rounded-b-lg shadow-lg ${className}`}>
@@ -149,11 +147,34 @@ export const SearchPanel: React.FC<SearchPanelProps> = ({
           </button>
         </div>
         
+        {/* 構成に適合するパーツのみ表示 */}
+        {configuration && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={compatibleOnly}
+              onChange={(e) => setCompatibleOnly(e.target.checked)}
+            />
+            <ShieldCheck size={16} className="text-green-600" />
+            選択中の構成に適合するパーツのみ表示
+          </label>
+        )}
+
         {/* 検索結果表示 */}
-        {searchResults.length > 0 ? (
+        {searchError ? (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            <AlertCircle size={16} className="flex-shrink-0" />
+            {searchError}
+          </div>
+        ) : searchResults.length > 0 ? (
           <div className="space-y-2">
             <div className="text-sm text-gray-600">
-              {searchResults.length}件の検索結果
+              {visibleParts.length}件の検索結果
+              {hiddenCount > 0 && (
+                <span className="ml-2 text-xs text-gray-500">
+                  （構成に適合しない{hiddenCount}件を非表示）
+                </span>
+              )}
             </div>
             
             <div className="border rounded-md divide-y">
@@ -193,6 +214,7 @@ export const SearchPanel: React.FC<SearchPanelProps> = ({
                           </>
                         )}
                       </div>
+                      {!selected && <CompatibilityBadges compatibility={compatibility.get(part.id)} className="mt-1" />}
                     </div>
                     
                     <div className="flex items-center gap-3">
@@ -224,16 +246,16 @@ export const SearchPanel: React.FC<SearchPanelProps> = ({
             </div>
             
             {/* もっと見る */}
-            {searchResults.length > 3 && !showMore && (
+            {visibleParts.length > 3 && !showMore && (
               <button
                 onClick={() => setShowMore(true)}
                 className="w-full py-2 text-blue-600 hover:text-blue-800 text-sm transition-colors"
               >
-                もっと見る（残り{searchResults.length - 3}件）
+                もっと見る（残り{visibleParts.length - 3}件）
               </button>
             )}
             
-            {showMore && searchResults.length > 3 && (
+            {showMore && visibleParts.length > 3 && (
               <button
                 onClick={() => setShowMore(false)}
                 className="w-full py-2 text-gray-600 hover:text-gray-800 text-sm transition-colors"
@@ -4,8 +4,10 @@
 export { IntegratedPartSelector } from './IntegratedPartSelector';
 export { IntegratedPartSelectorV2 } from './IntegratedPartSelectorV2';
 export { BudgetQuickTest } from './BudgetQuickTest';
+export { AutoBuildPanel } from './AutoBuildPanel';
 export { PartCategoryRow } from './PartCategoryRow';
 export { SearchPanel } from './SearchPanel';
+export { CompatibilityBadges } from './CompatibilityBadges';
 
 // デフォルトエクスポートはV2版を使用
 export { IntegratedPartSelectorV2 as default } from './IntegratedPartSelectorV2';
\ No newline at end of file
@@ -5,10 +5,12 @@ import React from "react";
 import {
   Home,          // 統合ダッシュボード
   LayoutGrid,    // パーツ構成作成（squares-plus相当）
+  LayoutTemplate, // 構成テンプレート
   Box,           // 3Dシミュレーター（cube相当）
   Zap,           // 消費電力計算（bolt相当）
   ClipboardCheck, // パーツ互換性チェック
   Search,        // パーツ検索
+  Scale,         // 構成比較
   BookOpen,      // About
   Info,          // Information
   Settings,      // 複数搭載（暫定）
@@ -26,6 +28,7 @@ import faviconSvg from '/assets/favicon.svg';
 // App.tsxのTabTypeをimport
 type TabType =
   | "builder"
+  | "templates"
   | "multipart"
   | "upgrade"
   | "planner"
@@ -33,6 +36,7 @@ type TabType =
   | "power"
   | "compatibility"
   | "search"
+  | "comparison"
   | "3d"
   | "integrated"
   | "about"
@@ -73,6 +77,13 @@ const menuItems: MenuItem[] = [
     category: "main",
     phase: 2.0,
   },
+  {
+    id: "templates",
+    label: "構成テンプレート",
+    icon: <LayoutTemplate className="w-5 h-5" />,
+    category: "main",
+    phase: 2.0,
+  },
   {
     id: "3d",
     label: "3Dシミュレーター",
@@ -133,6 +144,13 @@ const menuItems: MenuItem[] = [
     category: "tools",
     phase: 2.0,
   },
+  {
+    id: "comparison",
+    label: "構成比較",
+    icon: <Scale className="w-5 h-5" />,
+    category: "tools",
+    phase: 2.0,
+  },
 
   // その他
   {
@@ -23,11 +23,18 @@ import type {
   CoreComponents,
   AdditionalComponents,
   PhysicalLimits,
-  SlotUsage 
+  SlotUsage,
+  LimitViolation
 } from '@/types';
 import { categoryNames } from '@/data/sampleParts';
 import { getMotherboardSpec, defaultMotherboardSpec } from '@/data/motherboardSpecs';
 import { getCaseSpec, defaultCaseSpec } from '@/data/caseSpecs';
+import MemoryPopulationService from '@/services/memoryPopulationService';
+import PcieLaneAllocatorService from '@/services/pcieLaneAllocator';
+import PowerConnectorService, {
+  AUXILIARY_POWER_CONNECTORS,
+  POWER_CONNECTOR_LABELS
+} from '@/services/powerConnectorService';
 import PartSelectionDialog from './PartSelectionDialog';
 
 export interface MultiPartManagerProps {
@@ -67,6 +74,22 @@ export const MultiPartManager: React.FC<MultiPartManagerProps> = ({
     description: ''
   });
 
+  // 🚀 電源ケーブルの割り当て（追加GPU・ドライブ・ファンハブを含む）
+  const powerConnectorCheck = useMemo(() => {
+    const { additionalComponents, coreComponents } = configuration;
+    const { expansion } = additionalComponents;
+    return PowerConnectorService.getInstance().check({
+      motherboard: coreComponents.motherboard,
+      cpu: coreComponents.cpu,
+      psu: coreComponents.psu,
+      gpus: [coreComponents.gpu, ...expansion.filter(card => card.category === 'gpu')].filter((gpu): gpu is Part => !!gpu),
+      storage: additionalComponents.storage,
+      fans: additionalComponents.fans,
+      accessories: additionalComponents.accessories,
+      expansion: expansion.filter(card => card.category !== 'gpu')
+    });
+  }, [configuration]);
+
   // 🚀 物理制限の自動計算（精密化版）
   const calculatedLimits = useMemo((): PhysicalLimits => {
     const { motherboard, case: pcCase } = configuration.coreComponents;
@@ -86,26 +109,37 @@ export const MultiPartManager: React.FC<MultiPartManagerProps> = ({
       maxCpuCoolerHeight: caseSpec.componentLimits.maxCpuCoolerHeight,
       maxPsuLength: caseSpec.componentLimits.maxPsuLength,
       maxExpansionSlots: mbSpec.physicalLimits.expansionSlots,
-      maxPowerConnectors: 8 // PSU仕様から計算、とりあえずデフォルト値
+      // 電源未選択時は標準的な本数
+      maxPowerConnectors: configuration.coreComponents.psu
+        ? AUXILIARY_POWER_CONNECTORS.reduce((sum, connector) => sum + powerConnectorCheck.available[connector], 0)
+        : 8
     };
-  }, [configuration.coreComponents]);
+  }, [configuration.coreComponents, powerConnectorCheck]);
+
+  // 🚀 PCIeレーン・M.2/SATA共有の割り当て
+  const laneAllocation = useMemo(() => {
+    const { additionalComponents, coreComponents } = configuration;
+    return PcieLaneAllocatorService.getInstance().allocate({
+      motherboard: coreComponents.motherboard,
+      gpu: coreComponents.gpu,
+      storage: additionalComponents.storage,
+      expansion: additionalComponents.expansion
+    });
+  }, [configuration]);
 
   // 🚀 スロット使用状況の自動計算
   const calculatedUsage = useMemo((): SlotUsage => {
     const { additionalComponents, coreComponents } = configuration;
     
-    // M.2スロット使用数（NVMe SSDをカウント）
-    const m2SlotsUsed = additionalComponents.storage.filter(
-      storage => storage.specifications?.interface === 'NVMe'
-    ).length;
-    
-    // SATAコネクタ使用数（SATA SSD/HDDをカウント）
-    const sataConnectorsUsed = additionalComponents.storage.filter(
-      storage => ['SATA', 'SATA3'].includes(storage.specifications?.interface as string)
-    ).length;
+    // M.2スロット・SATAコネクタ使用数（レーン割り当て結果から）
+    const m2SlotsUsed = laneAllocation.m2SlotsUsed;
+    const sataConnectorsUsed = laneAllocation.sataPortsUsed;
     
-    // メモリスロット使用数（基本 + 追加メモリ）
-    const memorySlotUsed = (coreComponents.memory ? 1 : 0) + additionalComponents.memory.length;
+    // メモリスロット使用数（基本 + 追加メモリのモジュール枚数）
+    const memoryKits = [coreComponents.memory, ...additionalComponents.memory].filter((kit): kit is Part => !!kit);
+    const memorySlotUsed = MemoryPopulationService.getInstance()
+      .analyze(memoryKits, coreComponents.motherboard)
+      .totalModules;
     
     // ファンマウント使用数
     const fanMountsUsed = additionalComponents.fans.length;
@@ -113,11 +147,13 @@ export const MultiPartManager: React.FC<MultiPartManagerProps> = ({
     // 拡張スロット使用数
     const expansionSlotsUsed = additionalComponents.expansion.length;
     
-    // 電源コネクタ使用数（概算）
-    const powerConnectorsUsed = 
-      (coreComponents.cpu ? 1 : 0) +
-      (coreComponents.gpu ? 2 : 0) + // GPU は通常2つのコネクタ
-      additionalComponents.expansion.length;
+    // 電源コネクタ使用数（CPU・GPU用補助電源。変換アダプタ分と不足分を含む）
+    const powerConnectorsUsed = AUXILIARY_POWER_CONNECTORS.reduce(
+      (sum, connector) => sum + powerConnectorCheck.used[connector],
+      0
+    ) + powerConnectorCheck.shortages
+      .filter(shortage => AUXILIARY_POWER_CONNECTORS.includes(shortage.connector))
+      .reduce((sum, shortage) => sum + shortage.missing, 0);
     
     return {
       m2SlotsUsed,
@@ -127,32 +163,14 @@ export const MultiPartManager: React.FC<MultiPartManagerProps> = ({
       expansionSlotsUsed,
       powerConnectorsUsed
     };
-  }, [configuration]);
+  }, [configuration, laneAllocation, powerConnectorCheck]);
 
   // 🚀 制限チェック
   const limitChecks = useMemo(() => {
-    const violations: Array<{
-      type: 'slot_overflow' | 'power_shortage' | 'physical_incompatible' | 'budget_exceeded';
-      message: string;
-      severity: 'warning' | 'error';
-    }> = [];
+    // M.2/SATA/拡張スロットの超過・帯域共有はレーン割り当て結果から
+    const violations: LimitViolation[] = [...laneAllocation.violations];
 
     // スロット超過チェック
-    if (calculatedUsage.m2SlotsUsed > calculatedLimits.maxM2Slots) {
-      violations.push({
-        type: 'slot_overflow',
-        message: `M.2スロット数が超過しています (${calculatedUsage.m2SlotsUsed}/${calculatedLimits.maxM2Slots})`,
-        severity: 'error'
-      });
-    }
-
-    if (calculatedUsage.sataConnectorsUsed > calculatedLimits.maxSataConnectors) {
-      violations.push({
-        type: 'slot_overflow',
-        message: `SATAコネクタ数が超過しています (${calculatedUsage.sataConnectorsUsed}/${calculatedLimits.maxSataConnectors})`,
-        severity: 'error'
-      });
-    }
 
     if (calculatedUsage.memorySlotUsed > calculatedLimits.maxMemorySlots) {
       violations.push({
@@ -170,6 +188,24 @@ export const MultiPartManager: React.FC<MultiPartManagerProps> = ({
       });
     }
 
+    // 電源コネクタの不足・変換アダプタ
+    powerConnectorCheck.shortages.forEach(shortage => {
+      violations.push({
+        type: 'power_shortage',
+        message: `${POWER_CONNECTOR_LABELS[shortage.connector]}が不足しています (${shortage.required}/${shortage.available}: ${shortage.devices.join(', ')})`,
+        severity: 'error'
+      });
+    });
+    powerConnectorCheck.adapters
+      .filter(adapter => !adapter.recommended || (adapter.powerLimitW && adapter.deviceDrawW && adapter.deviceDrawW >= adapter.powerLimitW))
+      .forEach(adapter => {
+        violations.push({
+          type: 'power_shortage',
+          message: adapter.recommended ? `${adapter.device}: ${adapter.note}` : adapter.note,
+          severity: 'warning'
+        });
+      });
+
     // 予算チェック
     if (configuration.budget && configuration.totalPrice > configuration.budget) {
       violations.push({
@@ -183,7 +219,7 @@ export const MultiPartManager: React.FC<MultiPartManagerProps> = ({
       isValid: violations.filter(v => v.severity === 'error').length === 0,
       violations
     };
-  }, [calculatedLimits, calculatedUsage, configuration.totalPrice, configuration.budget]);
+  }, [calculatedLimits, calculatedUsage, laneAllocation, powerConnectorCheck, configuration.totalPrice, configuration.budget]);
 
   // 🚀 設定更新ヘルパー
   const updateConfiguration = useCallback((updates: Partial<ExtendedPCConfiguration>) => {
@@ -867,6 +903,28 @@ export const MultiPartManager: React.FC<MultiPartManagerProps> = ({
                 </div>
               </div>
             </div>
+
+            {/* PCIeレーン割り当て */}
+            {laneAllocation.devices.length > 0 && (
+              <div className="border border-gray-200 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-gray-900 mb-3">PCIeレーン割り当て</h4>
+                <div className="space-y-2">
+                  {laneAllocation.devices.map((device, index) => (
+                    <div key={`${device.partId}-${index}`} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-700 truncate mr-2">{device.partName}</span>
+                      <span className={`whitespace-nowrap ${
+                        !device.slotId ? 'text-red-600' : device.degraded ? 'text-orange-600' : 'text-gray-600'
+                      }`}>
+                        {device.slotId || '未割り当て'}
+                        {device.generation && device.lanes && ` · PCIe ${device.generation}.0 x${device.lanes}`}
+                        {device.source && ` (${device.source === 'cpu' ? 'CPU' : 'チップセット'})`}
+                        {device.note && ` - ${device.note}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             
             {/* 制限情報 */}
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -877,6 +935,7 @@ export const MultiPartManager: React.FC<MultiPartManagerProps> = ({
               <div className="text-sm text-blue-700 space-y-1">
                 <p>• 物理制限は選択したマザーボードとケースの仕様に基づいて自動計算されます</p>
                 <p>• M.2スロットとSATAコネクタの使用数はストレージの接続方式で決まります</p>
+                <p>• M.2スロットの使用によりSATAポートが無効になったり、グラフィックボードのレーン数が減る場合があります</p>
                 <p>• メモリスロットは基本メモリ + 追加メモリの合計数です</p>
                 <p>• 制限を超過した場合、警告またはエラーが表示されます</p>
               </div>
@@ -14,5 +14,7 @@ export type {
   AdditionalComponents,
   PhysicalLimits,
   SlotUsage,
+  LimitViolation,
+  PcieLaneAllocation,
   UnifiedPCConfiguration
 } from '@/types';
\ No newline at end of file
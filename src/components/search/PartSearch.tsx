@@ -1,7 +1,11 @@
 // src/components/search/PartSearch.tsx
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
+import { X } from 'lucide-react';
 import { Part, PartCategory } from '@/types';
+import { FilterOption, SearchFilters, SelectOption } from '@/types/search';
 import { useSearch } from '@/hooks/useSearch';
+import { formatSearchQuery, getFilterClauses, parseSearchQuery } from '@/services/searchQueryLanguage';
+import { toggleFacetOption } from '@/services/searchFacets';
 import SearchBar from './SearchBar';
 import SearchResults from './SearchResults';
 import { sampleParts } from '@/data/sampleParts';
@@ -24,6 +28,9 @@ export const PartSearch: React.FC<PartSearchProps> = ({
   allParts = sampleParts
 }) => {
   const [showFilters, setShowFilters] = useState(false);
+  // 検索バーの入力（構造化クエリ: gpu vram>=12 price<80000 brand:asus,msi sort:price）
+  const [queryText, setQueryText] = useState(selectedCategory || '');
+  const parsedQuery = useMemo(() => parseSearchQuery(queryText), [queryText]);
 
   // 検索フック
   const {
@@ -32,7 +39,6 @@ export const PartSearch: React.FC<PartSearchProps> = ({
     searchError,
     searchQuery,
     search,
-    updateQuery,
     resetSearch,
     totalResults
   } = useSearch(allParts, {
@@ -44,20 +50,37 @@ export const PartSearch: React.FC<PartSearchProps> = ({
     }
   });
 
-  // 検索実行
+  // 検索実行（入力を解析したクエリで検索）
   const handleSearch = useCallback(() => {
-    search();
-  }, [search]);
+    search({ ...parsedQuery.query, limit: searchQuery.limit });
+  }, [search, parsedQuery, searchQuery.limit]);
 
   // 検索テキスト変更
-  const handleSearchChange = useCallback((term: string) => {
-    updateQuery({ term });
-  }, [updateQuery]);
+  const handleSearchChange = useCallback((text: string) => {
+    setQueryText(text);
+  }, []);
 
-  // カテゴリ変更
+  // カテゴリ変更（入力文字列に反映）
   const handleCategoryChange = useCallback((category: PartCategory | undefined) => {
-    updateQuery({ category });
-  }, [updateQuery]);
+    setQueryText(formatSearchQuery({ ...parsedQuery.query, category }));
+  }, [parsedQuery]);
+
+  // フィルタパネルでの変更を入力文字列に戻して再検索
+  const handleFiltersChange = useCallback((filters: SearchFilters) => {
+    setQueryText(formatSearchQuery({ ...parsedQuery.query, filters }));
+    search({ ...parsedQuery.query, filters, limit: searchQuery.limit });
+  }, [search, parsedQuery, searchQuery.limit]);
+
+  const handleRemoveFilter = useCallback((key: keyof SearchFilters) => {
+    const filters = { ...parsedQuery.query.filters };
+    delete filters[key];
+    handleFiltersChange(filters);
+  }, [parsedQuery, handleFiltersChange]);
+
+  const filterClauses = useMemo(
+    () => getFilterClauses(parsedQuery.query.filters, parsedQuery.query.category),
+    [parsedQuery]
+  );
 
   // ページ変更
   const handlePageChange = useCallback((page: number) => {
@@ -72,6 +95,7 @@ export const PartSearch: React.FC<PartSearchProps> = ({
   // リセット
   const handleReset = useCallback(() => {
     resetSearch();
+    setQueryText('');
     setShowFilters(false);
   }, [resetSearch]);
 
@@ -79,14 +103,16 @@ export const PartSearch: React.FC<PartSearchProps> = ({
     <div className={`space-y-6 ${className}`}>
       {/* 検索バー */}
       <SearchBar
-        searchTerm={searchQuery.term}
+        searchTerm={queryText}
         onSearchChange={handleSearchChange}
         onSearch={handleSearch}
-        category={searchQuery.category}
+        category={parsedQuery.query.category}
         onCategoryChange={handleCategoryChange}
         isSearching={isSearching}
         showAdvancedFilters={true}
         onToggleFilters={handleToggleFilters}
+        highlightTokens={parsedQuery.tokens}
+        queryErrors={parsedQuery.errors}
       />
 
       {/* エラー表示 */}
@@ -114,7 +140,7 @@ export const PartSearch: React.FC<PartSearchProps> = ({
         </div>
       )}
 
-      {/* 高度なフィルタ（今後実装予定） */}
+      {/* 高度なフィルタ */}
       {showFilters && (
         <div className="bg-gray-50 rounded-lg p-6 border">
           <div className="flex items-center justify-between mb-4">
@@ -127,9 +153,72 @@ export const PartSearch: React.FC<PartSearchProps> = ({
             </button>
           </div>
           
-          <div className="text-center py-8 text-gray-500">
-            <p>高度なフィルタ機能は実装中です</p>
-            <p className="text-sm mt-1">価格範囲、ブランド、詳細仕様でのフィルタリングが利用可能になります</p>
+          {/* 設定中のフィルタ（削除すると検索バーの入力にも反映） */}
+          {filterClauses.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {filterClauses.map(clause => (
+                <span
+                  key={clause.key}
+                  className="inline-flex items-center gap-1 bg-white border border-gray-300 rounded-full pl-3 pr-1 py-1 text-sm"
+                >
+                  <span className="text-gray-500">{clause.label}</span>
+                  <span className="font-mono text-blue-700">{clause.text}</span>
+                  <button
+                    onClick={() => handleRemoveFilter(clause.key)}
+                    className="p-0.5 text-gray-400 hover:text-gray-600"
+                    aria-label={`${clause.label}のフィルタを解除`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">フィルタは設定されていません</p>
+          )}
+
+          {/* ファセット（件数は各項目自身の選択を除いた条件での該当数） */}
+          {searchResult ? (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {searchResult.facets
+                .filter((facet): facet is FilterOption & { options: SelectOption[] } => !!facet.options && facet.options.length > 0)
+                .map(facet => (
+                  <div key={facet.key}>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">{facet.label}</h4>
+                    <div className="flex flex-wrap gap-1">
+                      {facet.options.map(option => {
+                        const disabled = !option.selected && !option.count;
+                        return (
+                          <button
+                            key={String(option.value)}
+                            onClick={() => handleFiltersChange(toggleFacetOption(parsedQuery.query.filters, facet, option))}
+                            disabled={disabled}
+                            className={`px-2 py-1 rounded border text-xs transition-colors ${
+                              option.selected
+                                ? 'bg-blue-600 border-blue-600 text-white'
+                                : disabled
+                                  ? 'bg-gray-100 border-gray-200 text-gray-400 cursor-not-allowed'
+                                  : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                            }`}
+                          >
+                            {option.label}
+                            <span className={`ml-1 ${option.selected ? 'text-blue-100' : 'text-gray-400'}`}>
+                              ({option.count})
+                            </span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+            </div>
+          ) : (
+            <p className="mt-4 text-sm text-gray-500">検索すると絞り込み候補と件数が表示されます</p>
+          )}
+
+          <div className="mt-4 text-xs text-gray-500 space-y-1">
+            <p>検索バーに条件を入力して絞り込めます（例: <code className="font-mono">gpu vram&gt;=12 price&lt;80000 brand:asus,msi rt:yes sort:price</code>）</p>
+            <p>price, brand, stock, socket, cores, tdp, igpu, vram, rt, chipset, ff, wifi, memtype, capacity, rgb, storage, watt, eff, modular, glass, cooler, height, cooling, type, sort</p>
           </div>
         </div>
       )}
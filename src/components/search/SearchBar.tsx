@@ -1,7 +1,8 @@
 // src/components/search/SearchBar.tsx
-import React, { useState } from 'react';
-import { Search, X, Filter, ChevronDown } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { Search, X, Filter, ChevronDown, AlertCircle } from 'lucide-react';
 import { PartCategory } from '@/types';
+import { QueryError, QueryToken, QueryTokenKind } from '@/types/search';
 
 interface SearchBarProps {
   searchTerm: string;
@@ -14,6 +15,8 @@ interface SearchBarProps {
   showCategoryFilter?: boolean;
   showAdvancedFilters?: boolean;
   onToggleFilters?: () => void;
+  highlightTokens?: QueryToken[];   // 構造化クエリのハイライト（指定時のみ）
+  queryErrors?: QueryError[];
   className?: string;
 }
 
@@ -30,6 +33,27 @@ const categoryNames: Record<PartCategory, string> = {
   other: 'その他'
 };
 
+const tokenColors: Record<QueryTokenKind, string> = {
+  category: 'text-purple-700 font-medium',
+  field: 'text-blue-700',
+  sort: 'text-green-700',
+  term: 'text-gray-900',
+  error: 'text-red-600 underline decoration-wavy'
+};
+
+// トークン間の空白も含めて入力文字列を色分け用の区間に分割
+const toSegments = (text: string, tokens: QueryToken[]): { text: string; className: string }[] => {
+  const segments: { text: string; className: string }[] = [];
+  let position = 0;
+  tokens.forEach(token => {
+    if (token.start > position) segments.push({ text: text.slice(position, token.start), className: '' });
+    segments.push({ text: text.slice(token.start, token.end), className: tokenColors[token.kind] });
+    position = token.end;
+  });
+  if (position < text.length) segments.push({ text: text.slice(position), className: '' });
+  return segments;
+};
+
 export const SearchBar: React.FC<SearchBarProps> = ({
   searchTerm,
   onSearchChange,
@@ -41,9 +65,19 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   showCategoryFilter = true,
   showAdvancedFilters = true,
   onToggleFilters,
+  highlightTokens,
+  queryErrors = [],
   className = ""
 }) => {
   const [isFocused, setIsFocused] = useState(false);
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  // 入力欄の横スクロールにハイライトを追従させる
+  const syncHighlightScroll = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -79,17 +113,36 @@ export const SearchBar: React.FC<SearchBarProps> = ({
 
         {/* 検索入力フィールド */}
         <div className="flex-1 relative">
-          <div className="relative">
+          <div className={`relative ${highlightTokens && isFocused ? 'bg-gray-50' : ''}`}>
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+
+            {/* 構造化クエリのハイライト（透明文字の入力欄の背面に重ねる） */}
+            {highlightTokens && (
+              <div
+                ref={highlightRef}
+                aria-hidden="true"
+                className="absolute inset-0 pl-10 pr-10 py-3 text-sm whitespace-pre overflow-hidden pointer-events-none"
+              >
+                {toSegments(searchTerm, highlightTokens).map((segment, index) => (
+                  <span key={index} className={segment.className}>{segment.text}</span>
+                ))}
+              </div>
+            )}
+
             <input
               type="text"
               value={searchTerm}
               onChange={(e) => onSearchChange(e.target.value)}
               onFocus={() => setIsFocused(true)}
               onBlur={() => setIsFocused(false)}
+              onScroll={syncHighlightScroll}
+              onSelect={syncHighlightScroll}
               placeholder={placeholder}
-              className={`w-full pl-10 pr-10 py-3 text-sm border-0 focus:ring-0 focus:outline-none ${
-                isFocused ? 'bg-gray-50' : 'bg-transparent'
+              spellCheck={highlightTokens ? false : undefined}
+              className={`relative w-full pl-10 pr-10 py-3 text-sm border-0 focus:ring-0 focus:outline-none ${
+                highlightTokens
+                  ? 'bg-transparent text-transparent caret-gray-900'
+                  : isFocused ? 'bg-gray-50' : 'bg-transparent'
               }`}
               disabled={isSearching}
             />
@@ -134,6 +187,21 @@ export const SearchBar: React.FC<SearchBarProps> = ({
           {isSearching ? '検索中...' : '検索'}
         </button>
       </form>
+
+      {/* クエリの構文エラー */}
+      {queryErrors.length > 0 && (
+        <div className="border-t border-gray-200 px-4 py-2 space-y-1">
+          {queryErrors.map(error => (
+            <div key={`${error.start}-${error.end}`} className="flex items-start gap-1 text-xs text-red-700">
+              <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              <span>
+                {error.message}
+                {error.hint && <span className="ml-2 text-gray-600">{error.hint}</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,106 @@
+// src/components/share/SharedBuildPreview.tsx
+// 🔗 共有された構成のプレビュー（読み取り専用）- ワークスペースへの取り込み
+
+import React from 'react';
+import { Link2, AlertTriangle, X } from 'lucide-react';
+import type { SharedBuild } from '@/services/shareLinkService';
+import { categoryNames } from '@/data/sampleParts';
+
+export interface SharedBuildPreviewProps {
+  build: SharedBuild;
+  onImport: (build: SharedBuild) => void;
+  onClose: () => void;
+}
+
+export const SharedBuildPreview: React.FC<SharedBuildPreviewProps> = ({
+  build,
+  onImport,
+  onClose
+}) => {
+  const resolvedItems = build.items.filter(item => item.part);
+  const remaining = build.budget !== undefined ? build.budget - build.totalPrice : undefined;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h2 className="text-base font-semibold text-gray-900 flex items-center gap-2">
+            <Link2 size={18} className="text-blue-600" />
+            共有された構成
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded transition-colors"
+            aria-label="閉じる"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 space-y-3 overflow-y-auto">
+          <div>
+            <div className="text-sm font-medium text-gray-900">{build.name}</div>
+            <div className="text-xs text-gray-500">
+              合計 ¥{build.totalPrice.toLocaleString()}
+              {build.budget !== undefined && ` / 予算 ¥${build.budget.toLocaleString()}`}
+              {remaining !== undefined && remaining < 0 && (
+                <span className="ml-1 text-red-600">（¥{Math.abs(remaining).toLocaleString()} 超過）</span>
+              )}
+            </div>
+          </div>
+
+          {build.missingPartIds.length > 0 && (
+            <div className="flex items-start gap-2 p-2 rounded-md bg-yellow-50 text-xs text-yellow-800">
+              <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+              <div>
+                {build.missingPartIds.length}件のパーツが現在のカタログに見つかりません。取り込み時は除外されます。
+                <div className="mt-1 font-mono text-yellow-700">{build.missingPartIds.join(', ')}</div>
+              </div>
+            </div>
+          )}
+
+          <table className="w-full text-xs">
+            <tbody>
+              {resolvedItems.map(item => (
+                <tr key={`${item.slot}-${item.partId}`} className="border-b border-gray-100 last:border-0">
+                  <td className="py-1 pr-2 text-gray-500 whitespace-nowrap">
+                    {categoryNames[item.part!.category] || item.part!.category}
+                  </td>
+                  <td className="py-1 pr-2 text-gray-900">
+                    {item.part!.name}
+                    {item.quantity > 1 && <span className="ml-1 text-gray-500">×{item.quantity}</span>}
+                  </td>
+                  <td className="py-1 text-right text-gray-700 whitespace-nowrap">
+                    ¥{(item.part!.price * item.quantity).toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {resolvedItems.length === 0 && (
+            <div className="text-xs text-gray-500">取り込めるパーツがありません</div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-500 hover:bg-gray-600 text-white text-sm rounded-md transition-colors"
+          >
+            閉じる
+          </button>
+          <button
+            onClick={() => onImport(build)}
+            disabled={resolvedItems.length === 0}
+            className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-sm rounded-md transition-colors"
+          >
+            自分のワークスペースに取り込む
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedBuildPreview;
@@ -0,0 +1,5 @@
+// src/components/share/index.ts
+// 共有リンク関連コンポーネントのエクスポート
+
+export { default as SharedBuildPreview } from './SharedBuildPreview';
+export type { SharedBuildPreviewProps } from './SharedBuildPreview';
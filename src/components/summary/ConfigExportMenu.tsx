@@ -0,0 +1,148 @@
+// src/components/summary/ConfigExportMenu.tsx
+// 📤 構成エクスポートメニュー - 形式・言語・通貨を選んでコピー/ダウンロード
+
+import React, { useState, useCallback } from 'react';
+import { Download, Copy, Check, Link2 } from 'lucide-react';
+import type { PCConfiguration } from '@/types';
+import type { ExportFormat, ExportOptions } from '@/types/config';
+import { ExportService } from '@/services/export';
+import { ShareLinkService } from '@/services/shareLinkService';
+
+interface ConfigExportMenuProps {
+  configuration: PCConfiguration;
+  className?: string;
+}
+
+const exportService = ExportService.getInstance();
+const shareLinkService = ShareLinkService.getInstance();
+
+const formatLabels: Partial<Record<ExportFormat, string>> = {
+  markdown: 'Markdown',
+  pcpartpicker: 'PCPartPicker形式',
+  csv: 'CSV',
+  html: 'HTML',
+  pdf: 'PDF（印刷）',
+  json: 'JSON'
+};
+
+// セクション選択用のオプション
+const sectionOptions: { key: keyof ExportOptions; label: string }[] = [
+  { key: 'includeSpecs', label: '仕様' },
+  { key: 'includeCompatibility', label: '互換性' },
+  { key: 'includePowerCalculation', label: '消費電力' },
+  { key: 'includePerformanceEstimate', label: '性能予測' }
+];
+
+export const ConfigExportMenu: React.FC<ConfigExportMenuProps> = ({
+  configuration,
+  className = ''
+}) => {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [options, setOptions] = useState<ExportOptions>(() => exportService.getDefaultOptions());
+  const [copied, setCopied] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const hasParts = Object.values(configuration.parts).some(Boolean);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      const output = exportService.export(configuration, format, options);
+      await navigator.clipboard.writeText(output.content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy export:', error);
+    }
+  }, [configuration, format, options]);
+
+  // 共有リンク（URLハッシュに構成をエンコード）
+  const handleCopyShareLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(shareLinkService.createShareUrl(configuration));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+    }
+  }, [configuration]);
+
+  const handleDownload = useCallback(() => {
+    exportService.download(exportService.export(configuration, format, options));
+  }, [configuration, format, options]);
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex gap-2">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className="flex-1 px-2 py-1 text-xs rounded bg-white/10 text-white border border-cyan-700"
+        >
+          {(Object.keys(formatLabels) as ExportFormat[]).map(key => (
+            <option key={key} value={key} className="text-gray-900">{formatLabels[key]}</option>
+          ))}
+        </select>
+        <select
+          value={options.language}
+          onChange={(e) => setOptions(prev => ({ ...prev, language: e.target.value as ExportOptions['language'] }))}
+          className="px-2 py-1 text-xs rounded bg-white/10 text-white border border-cyan-700"
+        >
+          <option value="ja" className="text-gray-900">日本語</option>
+          <option value="en" className="text-gray-900">English</option>
+        </select>
+        <select
+          value={options.currency}
+          onChange={(e) => setOptions(prev => ({ ...prev, currency: e.target.value as ExportOptions['currency'] }))}
+          className="px-2 py-1 text-xs rounded bg-white/10 text-white border border-cyan-700"
+        >
+          <option value="JPY" className="text-gray-900">JPY</option>
+          <option value="USD" className="text-gray-900">USD</option>
+          <option value="EUR" className="text-gray-900">EUR</option>
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-cyan-100">
+        {sectionOptions.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={Boolean(options[key])}
+              onChange={(e) => setOptions(prev => ({ ...prev, [key]: e.target.checked }))}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleCopy}
+          disabled={!hasParts}
+          className="flex-1 flex items-center justify-center gap-1 px-2 py-1 text-xs rounded bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white transition-colors"
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          {copied ? 'コピーしました' : 'コピー'}
+        </button>
+        <button
+          onClick={handleDownload}
+          disabled={!hasParts}
+          className="flex-1 flex items-center justify-center gap-1 px-2 py-1 text-xs rounded bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white transition-colors"
+        >
+          <Download className="w-3 h-3" />
+          ダウンロード
+        </button>
+      </div>
+
+      <button
+        onClick={handleCopyShareLink}
+        disabled={!hasParts}
+        className="w-full flex items-center justify-center gap-1 px-2 py-1 text-xs rounded bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white border border-cyan-700 transition-colors"
+      >
+        {linkCopied ? <Check className="w-3 h-3" /> : <Link2 className="w-3 h-3" />}
+        {linkCopied ? '共有リンクをコピーしました' : '共有リンクをコピー'}
+      </button>
+    </div>
+  );
+};
+
+export default ConfigExportMenu;
@@ -1,10 +1,14 @@
 // src/components/summary/ConfigSummary.tsx
 // 📱 レスポンシブ対応・グラデーションデザイン適用版 + 互換性チェック統合
 
-import React from 'react';
-import { Zap, ShoppingBag, AlertTriangle, CheckCircle, Cpu, HardDrive, Monitor, XCircle, Minus } from 'lucide-react';
+import React, { useMemo } from 'react';
+import { Zap, ShoppingBag, AlertTriangle, CheckCircle, Cpu, HardDrive, Monitor, XCircle, Minus, TrendingUp } from 'lucide-react';
 import type { PCConfiguration } from '@/types';
 import { useCompatibilityCheck } from '@/hooks/useCompatibilityCheck';
+import ConfigExportMenu from './ConfigExportMenu';
+import UpgradeabilityService from '@/services/upgradeabilityService';
+
+const upgradeabilityService = UpgradeabilityService.getInstance();
 
 interface ConfigSummaryProps {
   configuration: PCConfiguration;
@@ -44,6 +48,12 @@ export const ConfigSummary: React.FC<ConfigSummaryProps> = ({
   };
 
   const totalPowerConsumption = calculateTotalPower();
+
+  // 拡張性評価（パーツ未選択時は表示しない）
+  const upgradeability = useMemo(
+    () => (selectedPartsCount > 0 ? upgradeabilityService.evaluate(configuration) : null),
+    [configuration, selectedPartsCount]
+  );
   const psu = configuration.parts.psu;
   const psuWattage = psu ? 650 : 0; // PSUが選択されていない場合は0W、選択されている場合は推定650W
   const powerUsagePercentage = psuWattage > 0 ? (totalPowerConsumption / psuWattage) * 100 : 0;
@@ -343,6 +353,67 @@ export const ConfigSummary: React.FC<ConfigSummaryProps> = ({
         {/* カスタムHR */}
         <div className="custom-hr"></div>
 
+        {/* 拡張性 - summary-section適用 */}
+        <div className="summary-section mx-3">
+          <div className="flex items-center gap-2 mb-3">
+            <TrendingUp className="w-4 h-4 text-green-300" />
+            <span className="font-semibold text-white">🚀 拡張性</span>
+          </div>
+
+          <div className="custom-hr"></div>
+
+          {upgradeability ? (
+            <div className="space-y-2 mt-3">
+              <div className="flex justify-between text-sm">
+                <span className="text-cyan-200">拡張性スコア:</span>
+                <span className={`font-semibold ${
+                  upgradeability.overall >= 70 ? 'text-green-300' :
+                  upgradeability.overall >= 40 ? 'text-yellow-300' : 'text-red-300'
+                }`}>
+                  {upgradeability.overall}/100
+                </span>
+              </div>
+              <div className="grid grid-cols-4 gap-1 text-xs text-center">
+                {([['CPU', upgradeability.cpu], ['GPU', upgradeability.gpu], ['メモリ', upgradeability.memory], ['ストレージ', upgradeability.storage]] as const).map(([label, score]) => (
+                  <div key={label}>
+                    <div className="text-cyan-200">{label}</div>
+                    <div className="text-white">{score}</div>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-1 mt-2">
+                {upgradeability.suggestions.slice(0, 3).map(suggestion => (
+                  <div
+                    key={suggestion.description}
+                    className={`text-xs ${suggestion.priority === 'high' ? 'text-red-300' : suggestion.priority === 'medium' ? 'text-yellow-300' : 'text-cyan-100'}`}
+                  >
+                    • {suggestion.description}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-cyan-300 mt-3">パーツを選択すると拡張性を評価します</p>
+          )}
+        </div>
+
+        {/* カスタムHR */}
+        <div className="custom-hr"></div>
+
+        {/* エクスポート - summary-section適用 */}
+        <div className="summary-section mx-3">
+          <div className="flex items-center gap-2 mb-3">
+            <span className="font-semibold text-white">📤 エクスポート</span>
+          </div>
+
+          <div className="custom-hr"></div>
+
+          <ConfigExportMenu configuration={configuration} className="mt-3" />
+        </div>
+
+        {/* カスタムHR */}
+        <div className="custom-hr"></div>
+
         {/* 更新通知 - summary-section適用 */}
         <div className="summary-section mx-3">
           <div className="flex items-center gap-2 mb-3">
@@ -0,0 +1,219 @@
+// src/components/templates/TemplateGallery.tsx
+// 📋 構成テンプレートギャラリー - テンプレート/バリアントの選択・適用・保存
+
+import React, { useState, useCallback } from 'react';
+import { LayoutTemplate, Star, Trash2, Save, AlertTriangle, CheckCircle } from 'lucide-react';
+import type { Part, PCConfiguration } from '@/types';
+import type { ConfigurationPurpose, ConfigurationTemplate, TemplateApplicationResult } from '@/types/config';
+import TemplateService from '@/services/templateService';
+import { purposeNames } from '@/data/budgetRules';
+import { sampleParts } from '@/data/sampleParts';
+
+export interface TemplateGalleryProps {
+  catalog?: Part[];
+  configuration: PCConfiguration;    // 「テンプレートとして保存」の対象
+  onApply: (result: TemplateApplicationResult) => void;   // 適用結果の反映は構成を管理する親が行う
+  className?: string;
+}
+
+const templateService = TemplateService.getInstance();
+
+const difficultyLabels: Record<ConfigurationTemplate['difficulty'], string> = {
+  beginner: '初心者向け',
+  intermediate: '中級者向け',
+  advanced: '上級者向け'
+};
+
+export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
+  catalog = sampleParts,
+  configuration,
+  onApply,
+  className = ''
+}) => {
+  const [purposeFilter, setPurposeFilter] = useState<ConfigurationPurpose | ''>('');
+  const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({});
+  const [lastResult, setLastResult] = useState<TemplateApplicationResult | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [templatePurpose, setTemplatePurpose] = useState<ConfigurationPurpose | ''>('');
+  const [templates, setTemplates] = useState<ConfigurationTemplate[]>(() => templateService.getTemplates());
+
+  // 用途フィルター変更・ユーザーテンプレートの保存/削除後に再取得
+  const reloadTemplates = useCallback((purpose: ConfigurationPurpose | '') => {
+    setTemplates(templateService.getTemplates(purpose || undefined));
+  }, []);
+
+  const handlePurposeChange = useCallback((purpose: ConfigurationPurpose | '') => {
+    setPurposeFilter(purpose);
+    reloadTemplates(purpose);
+  }, [reloadTemplates]);
+
+  const handleApply = useCallback((template: ConfigurationTemplate) => {
+    const result = templateService.applyTemplate(template.id, catalog, {
+      variantName: selectedVariants[template.id] || undefined
+    });
+    setLastResult(result);
+    onApply(result);
+  }, [catalog, selectedVariants, onApply]);
+
+  const handleSave = useCallback(() => {
+    if (!templateName.trim() || !templatePurpose) return;
+
+    templateService.saveAsTemplate(configuration, {
+      name: templateName.trim(),
+      description: configuration.description,
+      purpose: templatePurpose,
+      tags: configuration.tags
+    });
+    setTemplateName('');
+    setTemplatePurpose('');
+    reloadTemplates(purposeFilter);
+  }, [configuration, templateName, templatePurpose, purposeFilter, reloadTemplates]);
+
+  const handleDelete = useCallback((id: string) => {
+    if (templateService.deleteUserTemplate(id)) {
+      reloadTemplates(purposeFilter);
+    }
+  }, [purposeFilter, reloadTemplates]);
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* ヘッダー・フィルター */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+            <LayoutTemplate size={20} className="text-blue-600" />
+            構成テンプレート
+          </h2>
+          <select
+            value={purposeFilter}
+            onChange={(e) => handlePurposeChange(e.target.value as ConfigurationPurpose | '')}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">すべての用途</option>
+            {(Object.keys(purposeNames) as ConfigurationPurpose[]).map(key => (
+              <option key={key} value={key}>{purposeNames[key]}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* 現在の構成を保存 */}
+        <div className="mt-3 flex items-center gap-2">
+          <input
+            type="text"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder="テンプレート名"
+            className="flex-1 px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={templatePurpose}
+            onChange={(e) => setTemplatePurpose(e.target.value as ConfigurationPurpose | '')}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">用途を選択</option>
+            {(Object.keys(purposeNames) as ConfigurationPurpose[]).map(key => (
+              <option key={key} value={key}>{purposeNames[key]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleSave}
+            disabled={!templateName.trim() || !templatePurpose}
+            className="flex items-center gap-1 px-3 py-1 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-300 text-white text-sm rounded-md transition-colors"
+          >
+            <Save size={14} />
+            現在の構成を保存
+          </button>
+        </div>
+      </div>
+
+      {/* 適用結果 */}
+      {lastResult && (
+        <div className={`rounded-lg border p-3 text-sm ${
+          lastResult.missingCount > 0 ? 'bg-red-50 border-red-200' :
+          lastResult.substitutedCount > 0 ? 'bg-yellow-50 border-yellow-200' :
+          'bg-green-50 border-green-200'
+        }`}>
+          <div className="font-medium flex items-center gap-1">
+            {lastResult.substitutedCount + lastResult.missingCount > 0
+              ? <AlertTriangle size={16} className="text-yellow-600" />
+              : <CheckCircle size={16} className="text-green-600" />}
+            「{lastResult.configuration.name}」を適用しました（¥{lastResult.configuration.totalPrice.toLocaleString()}）
+          </div>
+          {lastResult.resolutions.filter(r => r.reason).map(r => (
+            <div key={r.category} className="mt-1 text-xs text-gray-700">• {r.reason}</div>
+          ))}
+        </div>
+      )}
+
+      {/* テンプレート一覧 */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {templates.map(template => (
+          <div key={template.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-col">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <h3 className="font-semibold text-gray-900">{template.name}</h3>
+                <div className="mt-1 flex flex-wrap gap-1 text-xs">
+                  <span className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded">{purposeNames[template.purpose]}</span>
+                  <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded">{difficultyLabels[template.difficulty]}</span>
+                  {!template.isOfficial && (
+                    <span className="px-2 py-0.5 bg-purple-100 text-purple-700 rounded">マイテンプレート</span>
+                  )}
+                </div>
+              </div>
+              {template.isOfficial ? (
+                <span className="flex items-center gap-0.5 text-xs text-yellow-600">
+                  <Star size={12} fill="currentColor" />
+                  {template.popularity}
+                </span>
+              ) : (
+                <button
+                  onClick={() => handleDelete(template.id)}
+                  className="p-1 text-red-600 hover:bg-red-100 rounded"
+                  title="削除"
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+
+            <p className="mt-2 text-sm text-gray-600 flex-1">{template.description}</p>
+            <div className="mt-2 text-xs text-gray-500">
+              予算目安: ¥{template.budgetRange.min.toLocaleString()} 〜 ¥{template.budgetRange.max.toLocaleString()}
+            </div>
+
+            <div className="mt-3 flex items-center gap-2">
+              {template.variants.length > 0 && (
+                <select
+                  value={selectedVariants[template.id] || ''}
+                  onChange={(e) => setSelectedVariants(prev => ({ ...prev, [template.id]: e.target.value }))}
+                  className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                >
+                  <option value="">ベース構成</option>
+                  {template.variants.map(variant => (
+                    <option key={variant.name} value={variant.name}>
+                      {variant.name}（{variant.budgetAdjustment >= 0 ? '+' : ''}{variant.budgetAdjustment}%）
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() => handleApply(template)}
+                className="ml-auto px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md transition-colors"
+              >
+                適用
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {templates.length === 0 && (
+        <div className="text-center text-sm text-gray-500 py-8">
+          該当するテンプレートがありません
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateGallery;
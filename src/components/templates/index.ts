@@ -0,0 +1,5 @@
+// src/components/templates/index.ts
+// 構成テンプレート関連コンポーネントのエクスポート
+
+export { default as TemplateGallery } from './TemplateGallery';
+export type { TemplateGalleryProps } from './TemplateGallery';
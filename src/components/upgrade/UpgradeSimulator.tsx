@@ -28,6 +28,8 @@ import {
   PerformanceCategory
 } from '../../types/upgrade';
 import { PartCategory, Part, ExtendedPCConfiguration } from '@/types';
+import { ElectricityCostOptions } from '@/types/power';
+import ElectricityCostSettings from '@/components/calculators/ElectricityCostSettings';
 
 // ===========================================
 // 🎯 メインコンポーネント
@@ -160,6 +162,18 @@ export const UpgradeSimulator: React.FC<UpgradeSimulatorProps> = ({
     };
   };
   
+  // 電気代試算の条件変更（分析済みなら選択した条件で再試算）
+  const handleElectricityChange = (electricity: ElectricityCostOptions) => {
+    simulatorActions.updateSimulationConfig({ electricity });
+    if (simulatorState.powerAnalysis) {
+      simulatorActions.analyzePowerEfficiency(
+        createPCConfiguration(currentConfig),
+        createAfterConfig(plan, currentConfig),
+        electricity
+      );
+    }
+  };
+  
   // 初期化完了フラグ - 重複実行防止
   const initializedRef = useRef(false);
   const lastPlanIdRef = useRef<string | null>(null);
@@ -380,6 +394,8 @@ export const UpgradeSimulator: React.FC<UpgradeSimulatorProps> = ({
                 plan={plan}
                 currentConfig={currentConfig}
                 isLoading={simulatorState.loading}
+                electricity={simulatorState.simulationConfig.electricity}
+                onElectricityChange={handleElectricityChange}
                 onAnalyze={() => simulatorActions.analyzePowerEfficiency(
                   createPCConfiguration(currentConfig),  // beforeConfig
                   createAfterConfig(plan, currentConfig) // afterConfig
@@ -875,6 +891,8 @@ interface PowerTabProps {
   plan: UpgradeRecommendation;
   currentConfig: ExtendedPCConfiguration;
   isLoading: boolean;
+  electricity: ElectricityCostOptions;
+  onElectricityChange: (electricity: ElectricityCostOptions) => void;
   onAnalyze: () => void;
 }
 
@@ -883,6 +901,8 @@ const PowerTab: React.FC<PowerTabProps> = ({
   // plan,
   // currentConfig,
   isLoading,
+  electricity,
+  onElectricityChange,
   onAnalyze
 }) => {
   const powerData = useMemo(() => {
@@ -912,6 +932,12 @@ const PowerTab: React.FC<PowerTabProps> = ({
           ⚡ 電力効率分析
         </h3>
         
+        <ElectricityCostSettings
+          options={electricity}
+          onChange={onElectricityChange}
+          className="mb-4"
+        />
+        
         {analysis ? (
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="bg-white rounded-lg p-4 text-center">
@@ -1010,9 +1036,19 @@ const PowerTab: React.FC<PowerTabProps> = ({
                 <div className="flex justify-between">
                   <span className="text-sm text-gray-600">年間CO₂削減:</span>
                   <span className="font-medium text-green-600">
-                    {(Math.abs(analysis.monthlyCostDifference || 0) * 12 * 0.5).toFixed(1)}kg
+                    {Math.abs(analysis.annualCo2Difference || 0).toFixed(1)}kg
                   </span>
                 </div>
+                {analysis.projection && (
+                  <div className="flex justify-between">
+                    <span className="text-sm text-gray-600">
+                      {analysis.projection.after.years.length}年間の電気代差（{analysis.projection.after.tariff.region}・{analysis.projection.after.profile.name}）:
+                    </span>
+                    <span className="font-medium">
+                      ¥{(analysis.projection.after.totalCost - analysis.projection.before.totalCost).toLocaleString()}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-sm text-gray-600">電力効率ランク:</span>
                   <span className="font-medium">
@@ -1045,7 +1081,7 @@ const PowerTab: React.FC<PowerTabProps> = ({
                 <div className="flex items-start space-x-2">
                   <CheckCircle className="w-4 h-4 text-green-500 mt-0.5" />
                   <span className="text-sm text-gray-700">
-                    年間電気代を約¥{Math.abs(analysis.monthlyCostDifference || 0) * 12}節約できます
+                    年間電気代を約¥{(Math.abs(analysis.monthlyCostDifference || 0) * 12).toLocaleString()}節約できます
                   </span>
                 </div>
               </>
@@ -0,0 +1,54 @@
+// src/data/budgetRules.ts
+// 用途別の予算配分ルール（自動構成・テンプレートで使用）
+
+import type { PartCategory } from '@/types';
+import type { ConfigurationPurpose } from '@/types/config';
+
+// 自動構成の対象カテゴリ（探索順）
+export const AUTO_BUILD_CATEGORIES: PartCategory[] = [
+  'cpu',
+  'motherboard',
+  'memory',
+  'gpu',
+  'cooler',
+  'case',
+  'psu',
+  'storage'
+];
+
+// 内蔵GPUで代替できる用途（GPUは任意）
+export const GPU_OPTIONAL_PURPOSES: ConfigurationPurpose[] = ['office', 'htpc', 'server'];
+
+// 用途別の予算配分（%、合計100）
+export const PURPOSE_BUDGET_SPLIT: Record<ConfigurationPurpose, Partial<Record<PartCategory, number>>> = {
+  gaming:           { cpu: 20, gpu: 38, motherboard: 11, memory: 8,  storage: 7,  psu: 7, case: 5, cooler: 4 },
+  workstation:      { cpu: 32, gpu: 18, motherboard: 13, memory: 14, storage: 9,  psu: 6, case: 4, cooler: 4 },
+  office:           { cpu: 30, gpu: 10, motherboard: 15, memory: 12, storage: 12, psu: 9, case: 8, cooler: 4 },
+  htpc:             { cpu: 25, gpu: 15, motherboard: 15, memory: 10, storage: 15, psu: 8, case: 9, cooler: 3 },
+  server:           { cpu: 30, gpu: 5,  motherboard: 16, memory: 18, storage: 18, psu: 8, case: 3, cooler: 2 },
+  budget:           { cpu: 22, gpu: 30, motherboard: 12, memory: 9,  storage: 9,  psu: 8, case: 6, cooler: 4 },
+  high_end:         { cpu: 22, gpu: 40, motherboard: 12, memory: 8,  storage: 6,  psu: 6, case: 3, cooler: 3 },
+  compact:          { cpu: 22, gpu: 30, motherboard: 14, memory: 8,  storage: 7,  psu: 9, case: 7, cooler: 3 },
+  silent:           { cpu: 20, gpu: 28, motherboard: 11, memory: 8,  storage: 8,  psu: 9, case: 9, cooler: 7 },
+  overclocking:     { cpu: 28, gpu: 28, motherboard: 15, memory: 10, storage: 5,  psu: 7, case: 3, cooler: 4 },
+  content_creation: { cpu: 28, gpu: 28, motherboard: 11, memory: 13, storage: 10, psu: 5, case: 3, cooler: 2 },
+  ai_ml:            { cpu: 18, gpu: 45, motherboard: 10, memory: 12, storage: 7,  psu: 5, case: 2, cooler: 1 },
+  custom:           { cpu: 24, gpu: 30, motherboard: 12, memory: 10, storage: 8,  psu: 7, case: 5, cooler: 4 }
+};
+
+// 用途の日本語名
+export const purposeNames: Record<ConfigurationPurpose, string> = {
+  gaming: 'ゲーミング',
+  workstation: 'ワークステーション',
+  office: 'オフィス',
+  htpc: 'ホームシアター',
+  server: 'サーバー',
+  budget: '予算重視',
+  high_end: 'ハイエンド',
+  compact: 'コンパクト',
+  silent: '静音',
+  overclocking: 'オーバークロック',
+  content_creation: 'コンテンツ制作',
+  ai_ml: 'AI/機械学習',
+  custom: 'カスタム'
+};
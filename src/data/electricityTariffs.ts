@@ -0,0 +1,96 @@
+// src/data/electricityTariffs.ts
+// 💡 地域別電気料金データ - 大手電力会社の従量電灯（3段階料金）とCO2排出係数
+
+import type { ElectricityTariff } from '@/types/power';
+
+// 再生可能エネルギー発電促進賦課金（円/kWh）
+const RENEWABLE_SURCHARGE = 3.49;
+
+// 既定の料金プラン（関東・東京電力EP）
+export const defaultElectricityTariff: ElectricityTariff = {
+  id: 'tokyo',
+  region: '関東',
+  provider: '東京電力エナジーパートナー',
+  plan: '従量電灯B',
+  tiers: [
+    { upToKwh: 120, rate: 29.80 },
+    { upToKwh: 300, rate: 36.40 },
+    { upToKwh: null, rate: 40.49 }
+  ],
+  surcharge: RENEWABLE_SURCHARGE,
+  co2Factor: 0.423
+};
+
+// 単価は燃料費調整額を含まない目安、排出係数は各社の調整後排出係数
+export const electricityTariffs: ElectricityTariff[] = [
+  {
+    id: 'hokkaido',
+    region: '北海道',
+    provider: '北海道電力',
+    plan: '従量電灯B',
+    tiers: [
+      { upToKwh: 120, rate: 35.35 },
+      { upToKwh: 280, rate: 41.64 },
+      { upToKwh: null, rate: 45.36 }
+    ],
+    surcharge: RENEWABLE_SURCHARGE,
+    co2Factor: 0.549
+  },
+  {
+    id: 'tohoku',
+    region: '東北',
+    provider: '東北電力',
+    plan: '従量電灯B',
+    tiers: [
+      { upToKwh: 120, rate: 29.62 },
+      { upToKwh: 300, rate: 36.37 },
+      { upToKwh: null, rate: 40.32 }
+    ],
+    surcharge: RENEWABLE_SURCHARGE,
+    co2Factor: 0.457
+  },
+  defaultElectricityTariff,
+  {
+    id: 'chubu',
+    region: '中部',
+    provider: '中部電力ミライズ',
+    plan: '従量電灯B',
+    tiers: [
+      { upToKwh: 120, rate: 21.20 },
+      { upToKwh: 300, rate: 25.67 },
+      { upToKwh: null, rate: 28.62 }
+    ],
+    surcharge: RENEWABLE_SURCHARGE,
+    co2Factor: 0.388
+  },
+  {
+    id: 'kansai',
+    region: '関西',
+    provider: '関西電力',
+    plan: '従量電灯A',
+    tiers: [
+      { upToKwh: 120, rate: 20.21 },
+      { upToKwh: 300, rate: 25.61 },
+      { upToKwh: null, rate: 28.59 }
+    ],
+    surcharge: RENEWABLE_SURCHARGE,
+    co2Factor: 0.309
+  },
+  {
+    id: 'kyushu',
+    region: '九州',
+    provider: '九州電力',
+    plan: '従量電灯B',
+    tiers: [
+      { upToKwh: 120, rate: 18.37 },
+      { upToKwh: 300, rate: 23.97 },
+      { upToKwh: null, rate: 26.97 }
+    ],
+    surcharge: RENEWABLE_SURCHARGE,
+    co2Factor: 0.365
+  }
+];
+
+// 未指定・未登録のIDは既定の料金プラン
+export const getElectricityTariff = (id?: string): ElectricityTariff =>
+  electricityTariffs.find(tariff => tariff.id === id) ?? defaultElectricityTariff;
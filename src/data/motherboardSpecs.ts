@@ -1,6 +1,34 @@
 // src/data/motherboardSpecs.ts
 // 🔧 Phase 2.5: マザーボード仕様データベース - 物理制限精密化
 
+// PCIeレーンの供給元（CPU直結 / チップセット経由）
+export type PcieLaneSource = 'cpu' | 'chipset';
+
+// PCIe拡張スロット・M.2スロットの定義
+export interface PcieSlotDefinition {
+  id: string;                      // 'PCIEX16_1', 'M2_1' 等（マニュアル表記）
+  source: PcieLaneSource;
+  generation: number;              // PCIe世代（3, 4, 5）
+  lanes: number;                   // 最大レーン数
+}
+
+// 帯域共有ルール（trigger のスロット使用時に適用）
+export interface LaneSharingRule {
+  trigger: string;                 // 使用すると共有が発生するスロットID
+  disablesSataPorts?: number[];    // 無効になるSATAポート番号（1始まり）
+  reducesSlot?: {                  // レーン数が減るスロット
+    slotId: string;
+    lanes: number;
+  };
+}
+
+// レーン構成（スロットは優先順）
+export interface LaneTopology {
+  pcieSlots: PcieSlotDefinition[]; // 先頭がグラフィックボード用のプライマリスロット
+  m2Slots: PcieSlotDefinition[];
+  sharingRules: LaneSharingRule[];
+}
+
 export interface MotherboardSpec {
   socket: string;
   chipset: string;
@@ -27,6 +55,7 @@ export interface MotherboardSpec {
     bluetooth: boolean;
   };
   audio: string;
+  laneTopology: LaneTopology;
 }
 
 export const motherboardSpecsDatabase: Record<string, MotherboardSpec> = {
@@ -56,7 +85,24 @@ export const motherboardSpecsDatabase: Record<string, MotherboardSpec> = {
       wifi: true,
       bluetooth: true
     },
-    audio: 'Realtek ALC1220'
+    audio: 'Realtek ALC1220',
+    laneTopology: {
+      pcieSlots: [
+        { id: 'PCIEX16_1', source: 'cpu', generation: 5, lanes: 16 },
+        { id: 'PCIEX16_2', source: 'chipset', generation: 4, lanes: 4 },
+        { id: 'PCIEX1_1', source: 'chipset', generation: 3, lanes: 1 }
+      ],
+      m2Slots: [
+        { id: 'M2_1', source: 'cpu', generation: 4, lanes: 4 },
+        { id: 'M2_2', source: 'chipset', generation: 4, lanes: 4 },
+        { id: 'M2_3', source: 'chipset', generation: 4, lanes: 4 },
+        { id: 'M2_4', source: 'cpu', generation: 5, lanes: 4 }
+      ],
+      sharingRules: [
+        { trigger: 'M2_3', disablesSataPorts: [5, 6] },
+        { trigger: 'M2_4', reducesSlot: { slotId: 'PCIEX16_1', lanes: 8 } }
+      ]
+    }
   },
 
   // Intel Z690チップセット
@@ -85,7 +131,22 @@ export const motherboardSpecsDatabase: Record<string, MotherboardSpec> = {
       wifi: false,
       bluetooth: false
     },
-    audio: 'Realtek ALC897'
+    audio: 'Realtek ALC897',
+    laneTopology: {
+      pcieSlots: [
+        { id: 'PCIEX16_1', source: 'cpu', generation: 5, lanes: 16 },
+        { id: 'PCIEX16_2', source: 'chipset', generation: 3, lanes: 4 },
+        { id: 'PCIEX1_1', source: 'chipset', generation: 3, lanes: 1 }
+      ],
+      m2Slots: [
+        { id: 'M2_1', source: 'cpu', generation: 4, lanes: 4 },
+        { id: 'M2_2', source: 'chipset', generation: 4, lanes: 4 },
+        { id: 'M2_3', source: 'chipset', generation: 4, lanes: 4 }
+      ],
+      sharingRules: [
+        { trigger: 'M2_3', disablesSataPorts: [5, 6] }
+      ]
+    }
   },
 
   // AMD X670E チップセット
@@ -114,7 +175,23 @@ export const motherboardSpecsDatabase: Record<string, MotherboardSpec> = {
       wifi: true,
       bluetooth: true
     },
-    audio: 'Realtek ALC4080'
+    audio: 'Realtek ALC4080',
+    laneTopology: {
+      pcieSlots: [
+        { id: 'PCIEX16_1', source: 'cpu', generation: 5, lanes: 16 },
+        { id: 'PCIEX16_2', source: 'chipset', generation: 4, lanes: 4 },
+        { id: 'PCIEX1_1', source: 'chipset', generation: 4, lanes: 1 }
+      ],
+      m2Slots: [
+        { id: 'M2_1', source: 'cpu', generation: 5, lanes: 4 },
+        { id: 'M2_2', source: 'cpu', generation: 5, lanes: 4 },
+        { id: 'M2_3', source: 'chipset', generation: 4, lanes: 4 },
+        { id: 'M2_4', source: 'chipset', generation: 4, lanes: 4 }
+      ],
+      sharingRules: [
+        { trigger: 'M2_4', disablesSataPorts: [7, 8] }
+      ]
+    }
   },
 
   // AMD B650 チップセット（ミドルレンジ）
@@ -143,7 +220,21 @@ export const motherboardSpecsDatabase: Record<string, MotherboardSpec> = {
       wifi: false,
       bluetooth: false
     },
-    audio: 'Realtek ALC897'
+    audio: 'Realtek ALC897',
+    laneTopology: {
+      pcieSlots: [
+        { id: 'PCIEX16_1', source: 'cpu', generation: 4, lanes: 16 },
+        { id: 'PCIEX16_2', source: 'chipset', generation: 3, lanes: 4 },
+        { id: 'PCIEX1_1', source: 'chipset', generation: 3, lanes: 1 }
+      ],
+      m2Slots: [
+        { id: 'M2_1', source: 'cpu', generation: 5, lanes: 4 },
+        { id: 'M2_2', source: 'chipset', generation: 4, lanes: 4 }
+      ],
+      sharingRules: [
+        { trigger: 'M2_2', disablesSataPorts: [3, 4] }
+      ]
+    }
   },
 
   // Micro-ATX フォームファクター
@@ -172,7 +263,21 @@ export const motherboardSpecsDatabase: Record<string, MotherboardSpec> = {
       wifi: false,
       bluetooth: false
     },
-    audio: 'Realtek ALC897'
+    audio: 'Realtek ALC897',
+    laneTopology: {
+      pcieSlots: [
+        { id: 'PCIEX16_1', source: 'cpu', generation: 4, lanes: 16 },
+        { id: 'PCIEX16_2', source: 'chipset', generation: 3, lanes: 4 },
+        { id: 'PCIEX1_1', source: 'chipset', generation: 3, lanes: 1 }
+      ],
+      m2Slots: [
+        { id: 'M2_1', source: 'cpu', generation: 4, lanes: 4 },
+        { id: 'M2_2', source: 'chipset', generation: 4, lanes: 4 }
+      ],
+      sharingRules: [
+        { trigger: 'M2_2', disablesSataPorts: [4] }
+      ]
+    }
   },
 
   // Mini-ITX フォームファクター
@@ -201,7 +306,17 @@ export const motherboardSpecsDatabase: Record<string, MotherboardSpec> = {
       wifi: true,
       bluetooth: true
     },
-    audio: 'Realtek ALC4080'
+    audio: 'Realtek ALC4080',
+    laneTopology: {
+      pcieSlots: [
+        { id: 'PCIEX16_1', source: 'cpu', generation: 5, lanes: 16 }
+      ],
+      m2Slots: [
+        { id: 'M2_1', source: 'cpu', generation: 5, lanes: 4 },
+        { id: 'M2_2', source: 'cpu', generation: 5, lanes: 4 }
+      ],
+      sharingRules: []
+    }
   }
 };
 
@@ -237,5 +352,16 @@ export const defaultMotherboardSpec: MotherboardSpec = {
     wifi: false,
     bluetooth: false
   },
-  audio: 'Generic'
+  audio: 'Generic',
+  laneTopology: {
+    pcieSlots: [
+      { id: 'PCIEX16_1', source: 'cpu', generation: 4, lanes: 16 },
+      { id: 'PCIEX16_2', source: 'chipset', generation: 3, lanes: 4 }
+    ],
+    m2Slots: [
+      { id: 'M2_1', source: 'cpu', generation: 4, lanes: 4 },
+      { id: 'M2_2', source: 'chipset', generation: 3, lanes: 4 }
+    ],
+    sharingRules: []
+  }
 };
\ No newline at end of file
@@ -0,0 +1,78 @@
+// src/data/searchSynonyms.ts
+// 🔍 検索用の同義語辞書 - カタカナ表記のブランド・シリーズ名とカテゴリの俗称
+// キーは正規化後（全角→半角・ひらがな→カタカナ・小文字）の表記
+
+import type { PartCategory } from '@/types';
+
+// カタカナ読み → カタログ上の英字表記
+export const brandReadings: Record<string, string> = {
+  // メーカー
+  'インテル': 'intel',
+  'エーエムディー': 'amd',
+  'エヌビディア': 'nvidia',
+  'エヌヴィディア': 'nvidia',
+  'エイスース': 'asus',
+  'エイスーズ': 'asus',
+  'アスース': 'asus',
+  'エムエスアイ': 'msi',
+  'ギガバイト': 'gigabyte',
+  'アスロック': 'asrock',
+  'コルセア': 'corsair',
+  'ジースキル': 'g.skill',
+  'クルーシャル': 'crucial',
+  'キングストン': 'kingston',
+  'サムスン': 'samsung',
+  'サムソン': 'samsung',
+  'ウエスタンデジタル': 'western digital',
+  'ウェスタンデジタル': 'western digital',
+  'シーゲイト': 'seagate',
+  'シーソニック': 'seasonic',
+  'アンテック': 'antec',
+  'ノクチュア': 'noctua',
+  'ディープクール': 'deepcool',
+  'フラクタルデザイン': 'fractal design',
+  'フラクタル': 'fractal',
+  'クーラーマスター': 'cooler master',
+  'リアンリー': 'lian li',
+  'ゾタック': 'zotac',
+  'サファイア': 'sapphire',
+  // シリーズ
+  'コア': 'core',
+  'ライゼン': 'ryzen',
+  'ジーフォース': 'geforce',
+  'ラデオン': 'radeon',
+  'ベンジェンス': 'vengeance',
+  'トライデント': 'trident',
+  'フォーカス': 'focus',
+  'プライム': 'prime'
+};
+
+// カテゴリの俗称・略称 → カテゴリ
+export const categorySlang: Record<string, PartCategory> = {
+  'cpu': 'cpu',
+  'プロセッサ': 'cpu',
+  'プロセッサー': 'cpu',
+  'gpu': 'gpu',
+  'グラボ': 'gpu',
+  'グラフィックボード': 'gpu',
+  'グラフィックカード': 'gpu',
+  'ビデオカード': 'gpu',
+  'マザボ': 'motherboard',
+  'マザー': 'motherboard',
+  'マザーボード': 'motherboard',
+  'mb': 'motherboard',
+  'メモリ': 'memory',
+  'メモリー': 'memory',
+  'ram': 'memory',
+  'ストレージ': 'storage',
+  '電源': 'psu',
+  '電源ユニット': 'psu',
+  'psu': 'psu',
+  'ケース': 'case',
+  'pcケース': 'case',
+  'クーラー': 'cooler',
+  'cpuクーラー': 'cooler',
+  'モニター': 'monitor',
+  'モニタ': 'monitor',
+  'ディスプレイ': 'monitor'
+};
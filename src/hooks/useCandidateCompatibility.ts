@@ -0,0 +1,40 @@
+// src/hooks/useCandidateCompatibility.ts
+// 🔍 検索結果の候補パーツを選択中の構成で判定（非表示 / バッジ表示）
+import { useMemo } from 'react';
+import { Part } from '@/types';
+import { CandidateCompatibility } from '@/types/compatibility';
+import CandidateCompatibilityService, { CandidateConfiguration } from '@/services/candidateCompatibility';
+
+interface UseCandidateCompatibilityReturn {
+  visibleParts: Part[];                                  // hideIncompatible 時は不適合を除外
+  compatibility: Map<string, CandidateCompatibility>;   // partId → 判定結果
+  hiddenCount: number;
+}
+
+export const useCandidateCompatibility = (
+  configuration: CandidateConfiguration | undefined,
+  candidates: Part[],
+  hideIncompatible: boolean
+): UseCandidateCompatibilityReturn => {
+  const compatibility = useMemo(
+    () => configuration
+      ? CandidateCompatibilityService.getInstance().evaluateCandidates(configuration, candidates)
+      : new Map<string, CandidateCompatibility>(),
+    [configuration, candidates]
+  );
+
+  const visibleParts = useMemo(
+    () => hideIncompatible
+      ? candidates.filter(part => compatibility.get(part.id)?.status !== 'incompatible')
+      : candidates,
+    [candidates, compatibility, hideIncompatible]
+  );
+
+  return {
+    visibleParts,
+    compatibility,
+    hiddenCount: candidates.length - visibleParts.length
+  };
+};
+
+export default useCandidateCompatibility;
@@ -2,6 +2,9 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { PCConfig, ConfigStore, PartCategory, Part } from '@/types/index';
+import SpecNormalizerService from '@/services/specNormalizer';
+
+const specNormalizer = SpecNormalizerService.getInstance();
 
 const initialConfig: PCConfig = {
   id: 'current',
@@ -49,14 +52,8 @@ export const useConfigStore = create<ConfigStore>()(
             0
           );
           const totalPowerConsumption = Object.values(newParts).reduce(
-            (sum, p) => {
-              if (!p) return sum;
-              // specifications.power または specifications.tdp から電力消費量を取得
-              const power = (p.specifications?.power as number) || 
-                           (p.specifications?.tdp as number) || 
-                           0;
-              return sum + power;
-            },
+            // 正規化済み仕様の消費電力（power → tdp → powerConsumption）を合算
+            (sum, p) => sum + specNormalizer.getPowerDraw(p),
             0
           );
 
@@ -81,14 +78,8 @@ export const useConfigStore = create<ConfigStore>()(
             0
           );
           const totalPowerConsumption = Object.values(newParts).reduce(
-            (sum, p) => {
-              if (!p) return sum;
-              // specifications.power または specifications.tdp から電力消費量を取得
-              const power = (p.specifications?.power as number) || 
-                           (p.specifications?.tdp as number) || 
-                           0;
-              return sum + power;
-            },
+            // 正規化済み仕様の消費電力（power → tdp → powerConsumption）を合算
+            (sum, p) => sum + specNormalizer.getPowerDraw(p),
             0
           );
 
@@ -134,7 +125,16 @@ export const useConfigStore = create<ConfigStore>()(
         set((state) => ({
           savedConfigs: state.savedConfigs.filter((c) => c.id !== id),
         })),
-      
+
+      // 外部で管理している構成（App側の構成など）をそのまま保存
+      addSavedConfig: (config: PCConfig) =>
+        set((state) => ({
+          savedConfigs: [
+            ...state.savedConfigs,
+            { ...config, id: Date.now().toString(), createdAt: new Date(), updatedAt: new Date() },
+          ],
+        })),
+
       // 🔧 Phase 2 新メソッド追加
       updateMonitoringConfig: (config) =>
         set((state) => ({
@@ -1,8 +1,14 @@
 // src/hooks/usePowerCalculation.ts
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { PCConfiguration } from '@/types';
-import { PowerCalculationResult, PSUSpecification } from '@/types/power';
+import {
+  ElectricityCostOptions,
+  ElectricityCostProjection,
+  PowerCalculationResult,
+  PSUSpecification
+} from '@/types/power';
 import { PowerCalculatorService } from '@/services/powerCalculator';
+import ElectricityCostService from '@/services/electricityCostService';
 
 interface UsePowerCalculationOptions {
   autoCalculate?: boolean;
@@ -14,16 +20,12 @@ interface UsePowerCalculationReturn {
   isCalculating: boolean;
   error: string | null;
   recommendedPSUs: PSUSpecification[];
-  monthlyCost: {
-    idle: number;
-    normal: number;
-    peak: number;
-    total: number;
-  } | null;
+  electricityOptions: ElectricityCostOptions;
+  electricityProjection: ElectricityCostProjection | null;
   calculatePower: (config: PCConfiguration) => void;
   recalculate: () => void;
   clearError: () => void;
-  updateUsageSettings: (hours: number, rate: number) => void;
+  updateElectricitySettings: (options: ElectricityCostOptions) => void;
 }
 
 // デバウンス用ユーティリティ関数
@@ -50,8 +52,7 @@ export const usePowerCalculation = (
   const [powerResult, setPowerResult] = useState<PowerCalculationResult | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [usageHours, setUsageHours] = useState(8);
-  const [electricityRate, setElectricityRate] = useState(27);
+  const [electricityOptions, setElectricityOptions] = useState<ElectricityCostOptions>({});
 
   // PowerCalculator service instance
   const powerCalculator = useMemo(() => PowerCalculatorService.getInstance(), []);
@@ -93,21 +94,11 @@ export const usePowerCalculation = (
     return powerCalculator.getRecommendedPSUs(powerResult.recommendedPSU);
   }, [powerResult, powerCalculator]);
 
-  // 月間電気代を計算
-  const monthlyCost = useMemo(() => {
-    if (!powerResult) return null;
-    
-    const costs = powerCalculator.calculateMonthlyCost(
-      powerResult,
-      usageHours,
-      electricityRate
-    );
-    
-    return {
-      ...costs,
-      total: costs.idle + costs.normal + costs.peak
-    };
-  }, [powerResult, usageHours, electricityRate, powerCalculator]);
+  // 電気代を試算（使用プロファイル・地域別段階料金）
+  const electricityProjection = useMemo(() => {
+    if (!powerResult || !configuration) return null;
+    return ElectricityCostService.getInstance().project(configuration, electricityOptions, powerResult);
+  }, [powerResult, configuration, electricityOptions]);
 
   // 構成が変更された時の自動計算
   useEffect(() => {
@@ -128,10 +119,9 @@ export const usePowerCalculation = (
     setError(null);
   }, []);
 
-  // 使用設定の更新
-  const updateUsageSettings = useCallback((hours: number, rate: number) => {
-    setUsageHours(hours);
-    setElectricityRate(rate);
+  // 電気代試算の条件を更新
+  const updateElectricitySettings = useCallback((options: ElectricityCostOptions) => {
+    setElectricityOptions(options);
   }, []);
 
   return {
@@ -139,11 +129,12 @@ export const usePowerCalculation = (
     isCalculating,
     error,
     recommendedPSUs,
-    monthlyCost,
+    electricityOptions,
+    electricityProjection,
     calculatePower,
     recalculate,
     clearError,
-    updateUsageSettings
+    updateElectricitySettings
   };
 };
 
@@ -14,6 +14,11 @@ import {
   CurrentPCConfiguration,
   PCConfiguration
 } from '../types/upgrade';
+import ThermalService from '@/services/thermalService';
+import NoiseService from '@/services/noiseService';
+import ElectricityCostService from '@/services/electricityCostService';
+import { PowerCalculatorService } from '@/services/powerCalculator';
+import { ElectricityCostOptions } from '@/types/power';
 
 // ===========================================
 // 🎯 シミュレーター型定義
@@ -64,11 +69,11 @@ export interface UpgradeSimulatorActions {
   
   // 分析機能
   analyzePerformance: (beforeConfig: PCConfiguration, afterConfig: PCConfiguration) => Promise<ComparisonResult>;
-  analyzePowerEfficiency: (beforeConfig: PCConfiguration, afterConfig: PCConfiguration) => Promise<PowerAnalysis>;
+  analyzePowerEfficiency: (beforeConfig: PCConfiguration, afterConfig: PCConfiguration, electricity?: ElectricityCostOptions) => Promise<PowerAnalysis>;
   analyzeThermalProfile: (beforeConfig: PCConfiguration, afterConfig: PCConfiguration) => Promise<ThermalResult>;
   
   // ROI分析
-  calculateROI: (plan: UpgradeRecommendation, timeframe: number) => ROIAnalysis;
+  calculateROI: (plan: UpgradeRecommendation, timeframe: number, powerAnalysis?: PowerAnalysis) => ROIAnalysis;
   performCostBenefitAnalysis: (plan: UpgradeRecommendation, scenarios: UsageScenario[]) => CostBenefitAnalysis;
   
   // 設定管理
@@ -110,6 +115,9 @@ export interface SimulationConfig {
   futurePredictionMonths: number;
   includeMarketTrends: boolean;
   includeObsolescenceRisk: boolean;
+  
+  // 電気代試算の条件（地域・料金プラン・使用プロファイル）
+  electricity: ElectricityCostOptions;
 }
 
 // ベンチマーク比較
@@ -150,6 +158,7 @@ export interface ROIAnalysis {
   totalBenefit: number;
   netPresentValue: number;
   paybackPeriod: number; // 月数
+  powerPaybackPeriod?: number; // 電気代削減のみで投資を回収する月数（削減がない場合は未設定）
   roi: number; // %
   
   // リスク調整
@@ -271,7 +280,8 @@ export const useUpgradeSimulator = (): [UpgradeSimulatorState, UpgradeSimulatorA
       includeRealWorldBenchmarks: true,
       futurePredictionMonths: 24,
       includeMarketTrends: false,
-      includeObsolescenceRisk: true
+      includeObsolescenceRisk: true,
+      electricity: {}
     },
     isSimulating: false,
     simulationProgress: 0,
@@ -525,11 +535,12 @@ export const useUpgradeSimulator = (): [UpgradeSimulatorState, UpgradeSimulatorA
 
   const analyzePowerEfficiency = useCallback(async (
     beforeConfig: PCConfiguration, 
-    afterConfig: PCConfiguration
+    afterConfig: PCConfiguration,
+    electricity: ElectricityCostOptions = state.simulationConfig.electricity
   ): Promise<PowerAnalysis> => {
-    // 電力効率分析実装
-    const beforePower = calculateSystemPower(beforeConfig);
-    const afterPower = calculateSystemPower(afterConfig);
+    // 電力効率分析実装（使用プロファイル・段階料金による電気代試算）
+    const beforePower = calculateSystemPower(beforeConfig, electricity);
+    const afterPower = calculateSystemPower(afterConfig, electricity);
     
     const result: PowerAnalysis = {
       idle: {
@@ -540,16 +551,21 @@ export const useUpgradeSimulator = (): [UpgradeSimulatorState, UpgradeSimulatorA
         before: beforePower.load,
         after: afterPower.load
       },
-      annualCost: calculateAnnualPowerCost(afterPower),
-      monthlyCostDifference: (afterPower.averageUsage - beforePower.averageUsage) * 24 * 30 * 0.027, // 27円/kWh
-      efficiency: afterPower.averageUsage < beforePower.averageUsage ? 'improved' : 
-                  afterPower.averageUsage > beforePower.averageUsage ? 'increased' : 'unchanged'
+      annualCost: afterPower.projection.yearlyCost,
+      monthlyCostDifference: afterPower.projection.monthlyCost - beforePower.projection.monthlyCost,
+      annualCo2Difference: Math.round((afterPower.projection.yearlyCo2Kg - beforePower.projection.yearlyCo2Kg) * 10) / 10,
+      projection: {
+        before: beforePower.projection,
+        after: afterPower.projection
+      },
+      efficiency: afterPower.projection.monthlyKwh < beforePower.projection.monthlyKwh ? 'improved' : 
+                  afterPower.projection.monthlyKwh > beforePower.projection.monthlyKwh ? 'increased' : 'unchanged'
     };
     
     setState(prev => ({ ...prev, powerAnalysis: result }));
     
     return result;
-  }, []);
+  }, [state.simulationConfig.electricity]);
 
   const analyzeThermalProfile = useCallback(async (
     beforeConfig: PCConfiguration, 
@@ -584,7 +600,11 @@ export const useUpgradeSimulator = (): [UpgradeSimulatorState, UpgradeSimulatorA
   // 💰 ROI・コストベネフィット分析
   // ===========================================
 
-  const calculateROI = useCallback((plan: UpgradeRecommendation, timeframe: number): ROIAnalysis => {
+  const calculateROI = useCallback((
+    plan: UpgradeRecommendation,
+    timeframe: number,
+    powerAnalysis?: PowerAnalysis
+  ): ROIAnalysis => {
     const investmentCost = plan.totalCost;
     
     // 性能向上価値の推定
@@ -594,9 +614,11 @@ export const useUpgradeSimulator = (): [UpgradeSimulatorState, UpgradeSimulatorA
       frustrationReduction: plan.expectedImprovement.performanceGain * 50 // 主観的価値
     };
     
-    // コスト削減の推定
+    // コスト削減の推定（電気代は電力分析の試算があればその差額）
     const costSavings = {
-      powerSavings: plan.expectedImprovement.powerEfficiencyGain * 10, // 円/月
+      powerSavings: powerAnalysis?.monthlyCostDifference !== undefined
+        ? -powerAnalysis.monthlyCostDifference
+        : plan.expectedImprovement.powerEfficiencyGain * 10, // 円/月
       maintenanceReduction: plan.expectedImprovement.longevityExtension * 5, // 円/月
       downtimeReduction: 500 // 円/月 (固定値)
     };
@@ -618,6 +640,7 @@ export const useUpgradeSimulator = (): [UpgradeSimulatorState, UpgradeSimulatorA
       totalBenefit,
       netPresentValue,
       paybackPeriod,
+      powerPaybackPeriod: costSavings.powerSavings > 0 ? investmentCost / costSavings.powerSavings : undefined,
       roi,
       riskAdjustedROI: roi * 0.8, // 20%リスク調整
       uncertaintyRange: { min: roi * 0.6, max: roi * 1.4 },
@@ -784,7 +807,7 @@ export const useUpgradeSimulator = (): [UpgradeSimulatorState, UpgradeSimulatorA
       
       // 6. ROI分析
       updateProgress(90);
-      const roi = calculateROI(plan, 24);
+      const roi = calculateROI(plan, 24, power);
       
       // 7. コストベネフィット分析（引数で受け取ったシナリオを使用）
       updateProgress(95);
@@ -1188,31 +1211,23 @@ function generateWarnings(
   return [];
 }
 
-function calculateSystemPower(
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  _config: PCConfiguration
-) {
-  // システム電力計算（簡略化）
+function calculateSystemPower(config: PCConfiguration, electricity: ElectricityCostOptions) {
+  // システム電力計算（電源計算サービスの消費電力と電気代試算）
+  const powerResult = PowerCalculatorService.getInstance().calculatePowerConsumption(config);
   return {
-    idle: 100 + Math.random() * 50,
-    load: 300 + Math.random() * 200,
-    averageUsage: 200 + Math.random() * 100
+    idle: powerResult.totalIdlePower,
+    load: powerResult.totalMaxPower,
+    projection: ElectricityCostService.getInstance().project(config, electricity, powerResult)
   };
 }
 
-function calculateAnnualPowerCost(power: { averageUsage: number }): number {
-  // 年間電力コスト計算
-  return power.averageUsage * 24 * 365 * 0.027 / 1000; // 27円/kWh
-}
-
-function calculateSystemThermal(
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  _config: PCConfiguration
-) {
-  // システム温度計算（簡略化）
+function calculateSystemThermal(config: PCConfiguration) {
+  // ゲーミング負荷時の定常温度（熱設計サービスの推定値）
+  const thermalService = ThermalService.getInstance();
+  const gaming = thermalService.getScenario(thermalService.estimate(config), 'gaming');
   return {
-    cpu: 60 + Math.random() * 20,
-    gpu: 70 + Math.random() * 15
+    cpu: gaming?.cpuTemp ?? 0,
+    gpu: gaming?.gpuTemp ?? 0
   };
 }
 
@@ -1224,12 +1239,9 @@ function calculateCoolingEfficiency(
   return 80 + Math.random() * 15;
 }
 
-function calculateSystemNoise(
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  _config: PCConfiguration
-): number {
-  // システムノイズ計算（簡略化）
-  return 35 + Math.random() * 10;
+function calculateSystemNoise(config: PCConfiguration): number {
+  // ゲーミング負荷時の騒音（騒音推定サービスの推定値）
+  return NoiseService.getInstance().estimate(config).loadNoise;
 }
 
 function assessThermalThrottlingRisk(thermal: { cpu: number; gpu: number }): 'low' | 'medium' | 'high' {
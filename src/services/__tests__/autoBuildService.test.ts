@@ -0,0 +1,40 @@
+// src/services/__tests__/autoBuildService.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import AutoBuildService from '@/services/autoBuildService';
+import EnhancedCompatibilityCheckerService from '@/services/compatibilityChecker.enhanced';
+import { sampleParts } from '@/data/sampleParts';
+import { getPart } from './fixtures';
+
+const service = AutoBuildService.getInstance();
+
+describe('AutoBuildService', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('予算内で互換性のある構成を返す', () => {
+    const result = service.generate({ budget: 200000, purpose: 'gaming' }, sampleParts);
+
+    expect(result.candidates.length).toBeGreaterThan(0);
+    result.candidates.forEach(candidate => {
+      expect(candidate.totalPrice).toBeLessThanOrEqual(200000);
+      expect(candidate.compatibility.isCompatible).toBe(true);
+    });
+  });
+
+  it('GPUを省略した部分構成は内蔵GPUなしのCPUなら探索中に除外する', () => {
+    const cpu = getPart('cpu-1');
+    const cpuWithGraphics = { ...cpu, specifications: { ...cpu.specifications, integratedGraphics: true } };
+
+    expect(service.hasDisplayOutput({ cpu })).toBe(true);
+    expect(service.hasDisplayOutput({ cpu, gpu: null })).toBe(false);
+    expect(service.hasDisplayOutput({ cpu: cpuWithGraphics, gpu: null })).toBe(true);
+  });
+
+  it('内蔵GPUなしのCPUでGPUを省略した構成は完全チェックに回さない', () => {
+    const checkFullCompatibility = vi.spyOn(EnhancedCompatibilityCheckerService.getInstance(), 'checkFullCompatibility');
+    const result = service.generate({ budget: 150000, purpose: 'office', lockedParts: { cpu: getPart('cpu-1') } }, sampleParts);
+
+    expect(checkFullCompatibility).toHaveBeenCalled();
+    checkFullCompatibility.mock.calls.forEach(([configuration]) => expect(configuration.parts.gpu).toBeTruthy());
+    expect(result.candidates.every(candidate => !!candidate.configuration.parts.gpu)).toBe(true);
+  });
+});
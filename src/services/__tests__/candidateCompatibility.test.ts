@@ -0,0 +1,54 @@
+// src/services/__tests__/candidateCompatibility.test.ts
+import { beforeEach, describe, expect, it } from 'vitest';
+import CandidateCompatibilityService from '@/services/candidateCompatibility';
+import { createConfiguration, getPart } from './fixtures';
+
+const service = CandidateCompatibilityService.getInstance();
+
+describe('CandidateCompatibilityService', () => {
+  beforeEach(() => service.clearCache());
+
+  it('選択中の構成と適合する候補は compatible', () => {
+    const result = service.evaluateCandidate(createConfiguration('intel'), getPart('memory-1'));
+    expect(result.status).toBe('compatible');
+    expect(result.reasons).toEqual([]);
+  });
+
+  it('ソケットが異なるCPUは不適合で、理由にルールIDが付く', () => {
+    const result = service.evaluateCandidate(createConfiguration('intel'), getPart('cpu-2'));
+    expect(result.status).toBe('incompatible');
+    expect(result.reasons.map(reason => reason.ruleId)).toContain('socket.match');
+  });
+
+  it('coreComponents がある構成では候補を coreComponents にも差し替える', () => {
+    const config = createConfiguration('intel');
+    const extended = {
+      ...config,
+      coreComponents: {
+        cpu: getPart('cpu-1'),
+        motherboard: getPart('motherboard-1'),
+        memory: getPart('memory-1')
+      }
+    };
+    // DDR5専用マザーボードに差し替えると DDR4 の基本メモリが不適合
+    const result = service.evaluateCandidate(extended, getPart('motherboard-2'));
+    expect(result.reasons.map(reason => reason.ruleId)).toContain('memory.type');
+  });
+
+  it('追加パーツが異なる構成は別のキャッシュとして判定する', () => {
+    const config = createConfiguration('intel');
+    const withoutKits = { ...config, additionalComponents: { memory: [] } };
+    const withKit = { ...config, additionalComponents: { memory: [getPart('memory-2')] } };
+
+    expect(service.evaluateCandidate(withoutKits, getPart('memory-2')).status).toBe('compatible');
+    expect(service.evaluateCandidate(withKit, getPart('memory-2')).status).not.toBe('compatible');
+  });
+
+  it('電源容量は power.capacity ルールで判定する', () => {
+    const psu = getPart('psu-1');
+    const weakPsu = { ...psu, id: 'psu-weak', specifications: { ...psu.specifications, wattage: 150 } };
+    const result = service.evaluateCandidate(createConfiguration('intel'), weakPsu);
+    expect(result.status).toBe('incompatible');
+    expect(result.reasons.map(reason => reason.ruleId)).toContain('power.capacity');
+  });
+});
@@ -0,0 +1,41 @@
+// src/services/__tests__/electricityCostService.test.ts
+import { describe, expect, it } from 'vitest';
+import ElectricityCostService from '@/services/electricityCostService';
+import { defaultElectricityTariff, getElectricityTariff } from '@/data/electricityTariffs';
+import { USAGE_PROFILES } from '@/types/power';
+import { createConfiguration } from './fixtures';
+
+const service = ElectricityCostService.getInstance();
+const { surcharge } = defaultElectricityTariff;
+
+describe('ElectricityCostService', () => {
+  it('段階料金の境界をまたぐPC分は段ごとの単価で加算する', () => {
+    // 家庭 100kWh + PC 50kWh → 第1段 20kWh・第2段 30kWh
+    const expected = 20 * 29.80 + 30 * 36.40 + 50 * surcharge;
+    expect(service.calculateMarginalCost(defaultElectricityTariff, 100, 50)).toBeCloseTo(expected, 6);
+  });
+
+  it('最上段に入った後は最上段の単価で加算する', () => {
+    expect(service.calculateMarginalCost(defaultElectricityTariff, 400, 10)).toBeCloseTo(10 * (40.49 + surcharge), 6);
+    expect(service.calculateMarginalCost(defaultElectricityTariff, 260, 0)).toBe(0);
+  });
+
+  it('未登録の料金プラン・プロファイルは既定値で試算する', () => {
+    expect(getElectricityTariff('unknown')).toBe(defaultElectricityTariff);
+
+    const projection = service.project(createConfiguration('intel'), { tariffId: 'unknown', profileId: 'unknown' });
+    expect(projection.tariff).toBe(defaultElectricityTariff);
+    expect(projection.profile).toBe(USAGE_PROFILES[0]);
+  });
+
+  it('単価上昇率は年ごとに複利で反映し、累計は各年の合計になる', () => {
+    const projection = service.project(createConfiguration('intel'), { years: 3, annualRateIncrease: 0.1 });
+    const [first, second, third] = projection.years;
+
+    expect(projection.years).toHaveLength(3);
+    expect(second.cost).toBeCloseTo(first.cost * 1.1, -1);
+    expect(third.cost).toBeCloseTo(first.cost * 1.21, -1);
+    expect(projection.totalCost).toBeCloseTo(first.cost + second.cost + third.cost, -1);
+    expect(third.cumulativeCo2Kg).toBeCloseTo(projection.yearlyCo2Kg * 3, 0);
+  });
+});
@@ -0,0 +1,28 @@
+// src/services/__tests__/fixtures.ts
+// 🧪 テスト用の構成データ（sampleParts の互換構成から生成）
+
+import { Part, PartCategory, PCConfiguration } from '@/types';
+import { compatibleCombinations, sampleParts } from '@/data/sampleParts';
+
+export const getPart = (id: string): Part => {
+  const part = sampleParts.find(candidate => candidate.id === id);
+  if (!part) throw new Error(`テスト用パーツが見つかりません: ${id}`);
+  return part;
+};
+
+export const createConfiguration = (
+  build: keyof typeof compatibleCombinations = 'intel',
+  overrides: Partial<Record<PartCategory, Part | null>> = {}
+): PCConfiguration => {
+  const parts = Object.fromEntries(
+    Object.entries(compatibleCombinations[build]).map(([category, id]) => [category, getPart(id)])
+  ) as Partial<Record<PartCategory, Part | null>>;
+  const merged = { ...parts, ...overrides };
+
+  return {
+    id: `test-${build}`,
+    name: `テスト構成（${build}）`,
+    parts: merged,
+    totalPrice: Object.values(merged).reduce((sum, part) => sum + (part?.price || 0), 0)
+  };
+};
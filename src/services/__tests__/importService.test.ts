@@ -0,0 +1,28 @@
+// src/services/__tests__/importService.test.ts
+import { describe, expect, it } from 'vitest';
+import { ImportService } from '@/services/import';
+import { sampleParts } from '@/data/sampleParts';
+import { getPart } from './fixtures';
+
+const service = ImportService.getInstance();
+
+describe('ImportService', () => {
+  it('CSVの各行をカタログのパーツと照合する', () => {
+    const csv = ['category,name,price', `CPU,${getPart('cpu-1').name},30000`, `GPU,${getPart('gpu-1').name},45000`].join('\n');
+    const preview = service.preview(csv, sampleParts);
+
+    expect(preview.format).toBe('csv');
+    expect(preview.matches.map(match => match.selected?.id)).toEqual(['cpu-1', 'gpu-1']);
+  });
+
+  it('数量が2以上の行は1点のみ取り込み、警告で知らせる', () => {
+    const memory = getPart('memory-1');
+    const csv = ['name,quantity', `${memory.name},2`].join('\n');
+    const preview = service.preview(csv, sampleParts, 'csv');
+    const result = service.buildConfiguration(preview.matches);
+
+    expect(preview.matches[0].line.quantity).toBe(2);
+    expect(result.configuration.parts.memory?.id).toBe('memory-1');
+    expect(result.warnings.some(warning => warning.includes('数量2'))).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+// src/services/__tests__/powerConnectorService.test.ts
+import { describe, expect, it } from 'vitest';
+import PowerConnectorService from '@/services/powerConnectorService';
+import { Part } from '@/types';
+import { getPart } from './fixtures';
+
+const service = PowerConnectorService.getInstance();
+
+const withSpecs = (id: string, specifications: Part['specifications']): Part => {
+  const part = getPart(id);
+  return { ...part, id: `${id}-test`, specifications: { ...part.specifications, ...specifications } };
+};
+
+describe('PowerConnectorService', () => {
+  it('ネイティブケーブルを全GPUに先に割り当て、変換アダプタは残りで賄う', () => {
+    const psu = withSpecs('psu-1', { connectors: { '24pin': 1, 'cpu': 1, 'pcie8': 4 } });
+    const highPowerGpu = withSpecs('gpu-1', { powerConnectors: ['12VHPWR'], tdp: 450 });
+    const pcieGpu = withSpecs('gpu-2', { powerConnectors: ['2x 8pin'] });
+
+    // 先に並ぶ 12V-2x6 のGPUがアダプタ用に PCIe 8ピンを使い切らない
+    const check = service.check({
+      motherboard: getPart('motherboard-1'),
+      cpu: getPart('cpu-1'),
+      psu,
+      gpus: [highPowerGpu, pcieGpu],
+      storage: [],
+      fans: [],
+      accessories: [],
+      expansion: []
+    });
+
+    expect(check.shortages).toEqual([]);
+    expect(check.adapters).toHaveLength(1);
+    expect(check.adapters[0]).toMatchObject({ device: highPowerGpu.name, from: 'pcie8', fromCount: 2 });
+    expect(check.used.pcie8).toBe(4);
+  });
+
+  it('分割ケーブルでの代用は同種のケーブルの割り当て後に行う', () => {
+    const psu = withSpecs('psu-1', { connectors: { '24pin': 1, 'pcie8': 2 } });
+    const gpus = [withSpecs('gpu-1', { powerConnectors: ['6pin'] }), withSpecs('gpu-2', { powerConnectors: ['2x 8pin'] })];
+
+    const check = service.check({ psu, gpus, storage: [], fans: [], accessories: [], expansion: [] });
+
+    expect(check.shortages.map(shortage => shortage.connector)).toEqual(['pcie6']);
+  });
+});
@@ -0,0 +1,86 @@
+// src/services/__tests__/ruleEngine.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import CompatibilityRuleEngine from '@/services/compatibility/ruleEngine';
+import MemoryPopulationService from '@/services/memoryPopulationService';
+import { PowerCalculatorService } from '@/services/powerCalculator';
+import { Part } from '@/types';
+import { createConfiguration, getPart } from './fixtures';
+
+const engine = CompatibilityRuleEngine.getInstance();
+const MEMORY_RULE_IDS = ['memory.type', 'memory.capacity', 'memory.slots', 'memory.mixed_kits', 'memory.speed', 'memory.population'];
+
+const findResult = (results: ReturnType<typeof engine.evaluate>, ruleId: string) => {
+  const result = results.find(candidate => candidate.ruleId === ruleId);
+  if (!result) throw new Error(`ルール結果がありません: ${ruleId}`);
+  return result;
+};
+
+describe('CompatibilityRuleEngine - memory', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('メモリ系ルールの装着構成解析は1回の評価で1度だけ行う', () => {
+    const analyze = vi.spyOn(MemoryPopulationService.getInstance(), 'analyze');
+    engine.evaluate(createConfiguration('intel'), MEMORY_RULE_IDS);
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+
+  it('速度判定は追加メモリを含む全キットの動作速度で行う', () => {
+    const baseMemory = getPart('memory-1');
+    const slowKit: Part = {
+      ...baseMemory,
+      id: 'memory-slow',
+      specifications: { ...baseMemory.specifications, speed: 3000 }
+    };
+    const config = {
+      ...createConfiguration('intel'),
+      coreComponents: { memory: baseMemory },
+      additionalComponents: { memory: [slowKit] }
+    };
+
+    expect(findResult(engine.evaluate(createConfiguration('intel'), ['memory.speed']), 'memory.speed').status).toBe('pass');
+    const speed = findResult(engine.evaluate(config, ['memory.speed']), 'memory.speed');
+    expect(speed.status).toBe('warning');
+    expect(speed.findings[0].message).toContain('3000MHz');
+  });
+});
+
+describe('CompatibilityRuleEngine - power', () => {
+  const withPsuWattage = (wattage: number) => {
+    const psu = getPart('psu-1');
+    return createConfiguration('intel', { psu: { ...psu, specifications: { ...psu.specifications, wattage } } });
+  };
+
+  it('電源容量は電力計算の推奨容量で判定する', () => {
+    const config = createConfiguration('intel');
+    const { recommendedPSU } = PowerCalculatorService.getInstance().calculatePowerConsumption(config);
+
+    expect(findResult(engine.evaluate(withPsuWattage(recommendedPSU), ['power.capacity']), 'power.capacity').status).toBe('pass');
+    const short = findResult(engine.evaluate(withPsuWattage(recommendedPSU - 50), ['power.capacity']), 'power.capacity');
+    expect(short.status).toBe('warning');
+    expect(short.findings[0].message).toContain(`${recommendedPSU}W`);
+  });
+
+  it('定常最大消費電力を下回る電源は不適合', () => {
+    const result = findResult(engine.evaluate(withPsuWattage(150), ['power.capacity']), 'power.capacity');
+    expect(result.status).toBe('fail');
+  });
+});
+
+describe('CompatibilityRuleEngine - thermal', () => {
+  it('温度推定の警告はルールIDを持つ', () => {
+    const config = createConfiguration('intel', { cooler: null });
+    const { warnings } = engine.toIssuesAndWarnings(engine.evaluate(config));
+
+    expect(warnings.map(warning => warning.ruleId)).toContain('thermal.cooler_capacity');
+    expect(warnings.every(warning => !!warning.ruleId)).toBe(true);
+  });
+
+  it('TDP定格での冷却能力不足は cooling.tdp のみで報告する', () => {
+    const cooler = getPart('cooler-1');
+    const weakCooler = { ...cooler, specifications: { ...cooler.specifications, tdpRating: 30 } };
+    const results = engine.evaluate(createConfiguration('intel', { cooler: weakCooler }), ['cooling.tdp', 'thermal.cooler_capacity']);
+
+    expect(findResult(results, 'cooling.tdp').status).toBe('fail');
+    expect(findResult(results, 'thermal.cooler_capacity').findings).toEqual([]);
+  });
+});
@@ -0,0 +1,52 @@
+// src/services/__tests__/searchQueryLanguage.test.ts
+import { describe, expect, it } from 'vitest';
+import { formatSearchQuery, parseSearchQuery } from '@/services/searchQueryLanguage';
+
+const roundTrip = (text: string) => parseSearchQuery(formatSearchQuery(parseSearchQuery(text).query)).query;
+
+describe('parseSearchQuery', () => {
+  it('カテゴリ・範囲・リスト・真偽値・並び順を解釈する', () => {
+    const { query, errors } = parseSearchQuery('gpu vram>=12 price<80000 brand:asus,msi rt:yes sort:price');
+    expect(errors).toEqual([]);
+    expect(query.category).toBe('gpu');
+    expect(query.filters.memory).toEqual({ min: 12 });
+    expect(query.filters.priceRange).toEqual({ min: 0, max: 79999 });
+    expect(query.filters.brands).toEqual(['asus', 'msi']);
+    expect(query.filters.rayTracing).toBe(true);
+    expect(query.sortBy).toBe('price_low');
+  });
+
+  it('範囲は片側省略（上限のみ・下限のみ）も受け付ける', () => {
+    expect(parseSearchQuery('price:-80000').query.filters.priceRange).toEqual({ min: 0, max: 80000 });
+    expect(parseSearchQuery('price:50000-').query.filters.priceRange).toEqual({ min: 50000, max: Infinity });
+    expect(parseSearchQuery('price:5万-8万').query.filters.priceRange).toEqual({ min: 50000, max: 80000 });
+    expect(parseSearchQuery('price:-').errors).toHaveLength(1);
+  });
+
+  it('不明なフィールドには候補を提示する', () => {
+    const { errors } = parseSearchQuery('gpu vrma>=12');
+    expect(errors).toHaveLength(1);
+    expect(errors[0].hint).toBe('もしかして: vram');
+  });
+});
+
+describe('formatSearchQuery', () => {
+  it('解釈結果を文字列に戻して再解釈しても同じクエリになる', () => {
+    const texts = [
+      'gpu vram>=12 price<80000 brand:asus,msi rt:yes sort:-price',
+      'memory type:ddr5 capacity:32gb rgb:no',
+      'case ff:atx glass:yes rtx 4070'
+    ];
+    texts.forEach(text => expect(roundTrip(text)).toEqual(parseSearchQuery(text).query));
+  });
+
+  it('引用符付きの検索語はフィールド指定・カテゴリにならないよう引用符を保つ', () => {
+    const quoted = parseSearchQuery('"price:100" "gpu"').query;
+    expect(quoted.term).toBe('price:100 gpu');
+    expect(quoted.category).toBeUndefined();
+    expect(quoted.filters).toEqual({});
+
+    expect(formatSearchQuery(quoted)).toBe('"price:100" "gpu"');
+    expect(roundTrip('"price:100" "gpu"')).toEqual(quoted);
+  });
+});
@@ -0,0 +1,23 @@
+// src/services/__tests__/searchService.test.ts
+import { describe, expect, it } from 'vitest';
+import SearchService from '@/services/searchService';
+import { sampleParts } from '@/data/sampleParts';
+
+const productNames = async (term: string) => {
+  const { suggestions } = await SearchService.getInstance().autocomplete(term, sampleParts);
+  return suggestions.filter(suggestion => suggestion.type === 'product').map(suggestion => suggestion.text);
+};
+
+describe('SearchService.autocomplete', () => {
+  it('全角・区切りなしの型番でも検索インデックスと同様に候補を返す', async () => {
+    const name = sampleParts.find(part => part.id === 'gpu-1')!.name;
+    expect(await productNames('RTX４０６０')).toContain(name);
+    expect(await productNames('rtx4060')).toContain(name);
+    expect(await productNames('rtx 4060')).toContain(name);
+  });
+
+  it('仕様値やメーカーも照合対象にする', async () => {
+    const { products } = await SearchService.getInstance().autocomplete('LGA1700', sampleParts);
+    expect(products.map(part => part.id)).toContain('cpu-1');
+  });
+});
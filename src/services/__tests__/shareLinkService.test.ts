@@ -0,0 +1,40 @@
+// src/services/__tests__/shareLinkService.test.ts
+import { describe, expect, it } from 'vitest';
+import { ShareLinkService } from '@/services/shareLinkService';
+import { sampleParts } from '@/data/sampleParts';
+import { createConfiguration } from './fixtures';
+
+const service = ShareLinkService.getInstance();
+
+// ASCII のみのペイロードから v1 トークンを作る
+const toToken = (payload: unknown) =>
+  `v1.${btoa(JSON.stringify(payload)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+
+describe('ShareLinkService', () => {
+  it('エンコードした構成をカタログから復元する', () => {
+    const config = createConfiguration('intel');
+    const result = service.decode(service.encode(config), sampleParts);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.build.name).toBe(config.name);
+    expect(result.build.configuration.parts).toEqual(config.parts);
+    expect(result.build.missingPartIds).toEqual([]);
+  });
+
+  it('追加パーツの配置先コードを復元する', () => {
+    const result = service.decode(toToken({ n: 'test', p: [['memory-1', 2, 'm']] }), sampleParts);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.build.items[0].slot).toBe('memory');
+    expect(result.build.additionalComponents.memory).toHaveLength(2);
+  });
+
+  it('不明な配置先コードやプロトタイプのキーは拒否する', () => {
+    ['x', 'constructor', '__proto__', 'toString'].forEach(code => {
+      const result = service.decode(toToken({ n: 'test', p: [['memory-1', 1, code]] }), sampleParts);
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+// src/services/__tests__/specNormalizer.test.ts
+import { describe, expect, it } from 'vitest';
+import SpecNormalizerService from '@/services/specNormalizer';
+import { getPart } from './fixtures';
+
+const normalizer = SpecNormalizerService.getInstance();
+
+describe('SpecNormalizerService', () => {
+  it('カテゴリ別の型付き仕様に正規化する', () => {
+    expect(normalizer.getSpecs(getPart('cpu-1'), 'cpu')?.socket).toBe('LGA1700');
+    expect(normalizer.getSpecs(getPart('memory-1'), 'memory')).toMatchObject({ memoryType: 'DDR4', speedMHz: 3200 });
+    expect(normalizer.getSpecs(null, 'gpu')).toBeNull();
+  });
+
+  it('正規化結果はパーツ・カテゴリごとにキャッシュする', () => {
+    const cpu = getPart('cpu-1');
+    expect(normalizer.normalize(cpu, 'cpu')).toBe(normalizer.normalize(cpu));
+    expect(normalizer.normalize(cpu, 'cooler')).not.toBe(normalizer.normalize(cpu, 'cpu'));
+  });
+
+  it('別カテゴリとして解釈した場合は問題として記録する', () => {
+    const { specs, issues } = normalizer.normalize(getPart('cpu-1'), 'cooler');
+    expect(specs.category).toBe('cooler');
+    expect(issues.map(issue => issue.field)).toContain('category');
+  });
+});
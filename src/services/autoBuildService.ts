@@ -0,0 +1,489 @@
+// src/services/autoBuildService.ts
+// 🤖 自動構成サービス - 予算・用途・固定パーツから互換性のある構成を探索
+
+import { Part, PartCategory, PCConfiguration } from '@/types';
+import type { GpuSpecs } from '@/types/specs';
+import { BudgetAllocation, TemplateBudgetRules } from '@/types/config';
+import {
+  AutoBuildRequest,
+  AutoBuildResult,
+  AutoBuildCandidate,
+  BudgetSplitExplanation
+} from '@/types/autoBuild';
+import {
+  AUTO_BUILD_CATEGORIES,
+  GPU_OPTIONAL_PURPOSES,
+  PURPOSE_BUDGET_SPLIT,
+  purposeNames
+} from '@/data/budgetRules';
+import { categoryNames } from '@/data/sampleParts';
+import { EnhancedCompatibilityCheckerService } from '@/services/compatibilityChecker.enhanced';
+import { PowerCalculatorService } from '@/services/powerCalculator';
+import PerformancePredictionService from '@/services/performancePrediction';
+import SpecNormalizerService from '@/services/specNormalizer';
+
+// 探索中の部分構成
+type Selection = Partial<Record<PartCategory, Part | null>>;
+
+// 事前スコア付きの組み合わせ
+interface ScoredCombination {
+  selection: Selection;
+  totalPrice: number;
+  performanceScore: number;
+  balanceScore: number;
+}
+
+// TemplateBudgetRules のキーとカテゴリの対応
+const BUDGET_RULE_KEYS: Partial<Record<PartCategory, keyof TemplateBudgetRules>> = {
+  cpu: 'cpu',
+  gpu: 'gpu',
+  motherboard: 'motherboard',
+  memory: 'memory',
+  storage: 'storage',
+  psu: 'psu',
+  case: 'case',
+  cooler: 'cooling'
+};
+
+// 事前スコア（性能 70% + 予算配分 20%、残り 10% は完全チェック後の互換性スコア）
+const rankScore = (combination: ScoredCombination): number =>
+  combination.performanceScore * 0.7 + combination.balanceScore * 0.2;
+
+export class AutoBuildService {
+  private static instance: AutoBuildService;
+  private compatibilityChecker = EnhancedCompatibilityCheckerService.getInstance();
+  private powerCalculator = PowerCalculatorService.getInstance();
+  private performancePrediction = PerformancePredictionService.getInstance();
+  private specNormalizer = SpecNormalizerService.getInstance();
+
+  private constructor() {}
+
+  // シングルトンパターン
+  public static getInstance(): AutoBuildService {
+    if (!AutoBuildService.instance) {
+      AutoBuildService.instance = new AutoBuildService();
+    }
+    return AutoBuildService.instance;
+  }
+
+  /**
+   * 予算・用途・固定パーツから構成候補を生成
+   */
+  public generate(request: AutoBuildRequest, catalog: Part[]): AutoBuildResult {
+    const startTime = Date.now();
+    const {
+      budget,
+      purpose,
+      lockedParts = {},
+      maxResults = 3,
+      minPsuHeadroom = 20,
+      candidatesPerCategory = 5,
+      maxEvaluations = 300,
+      beamWidth = 1000
+    } = request;
+
+    const allocations = this.createBudgetAllocations(budget, purpose, request.budgetRules);
+    const stats = {
+      combinationsExplored: 0,
+      evaluated: 0,
+      rejectedByBudget: 0,
+      rejectedByCompatibility: 0,
+      rejectedByPower: 0
+    };
+
+    // 🎯 カテゴリ別の候補パーツを絞り込み
+    const gpuOptional = GPU_OPTIONAL_PURPOSES.includes(purpose);
+    const pools = new Map<PartCategory, (Part | null)[]>();
+    const unmetCategories: PartCategory[] = [];
+
+    AUTO_BUILD_CATEGORIES.forEach(category => {
+      const locked = lockedParts[category];
+      if (locked) {
+        pools.set(category, [locked]);
+        return;
+      }
+
+      const allocation = allocations.find(a => a.category === category);
+      const candidates: (Part | null)[] = this.selectCandidates(
+        catalog.filter(part => part.category === category),
+        allocation,
+        budget,
+        candidatesPerCategory
+      );
+
+      if (category === 'gpu' && gpuOptional) {
+        candidates.push(null);
+      }
+      if (candidates.length === 0) {
+        unmetCategories.push(category);
+      }
+      pools.set(category, candidates);
+    });
+
+    if (unmetCategories.length > 0) {
+      return {
+        request,
+        allocations,
+        candidates: [],
+        summary: `候補パーツが見つからないカテゴリがあります: ${unmetCategories.map(c => categoryNames[c] || c).join(', ')}`,
+        unmetCategories,
+        stats,
+        executionTime: Date.now() - startTime
+      };
+    }
+
+    // 🎯 ビーム探索: カテゴリごとに部分構成を展開し、事前スコア上位 beamWidth 件のみ次へ（予算・簡易互換性で枝刈り）
+    const partScores = this.calculatePartScores(pools);
+    const minRemaining = this.calculateMinRemainingCost(pools);
+    let beam: ScoredCombination[] = [{ selection: {}, totalPrice: 0, performanceScore: 0, balanceScore: 0 }];
+
+    AUTO_BUILD_CATEGORIES.forEach((category, index) => {
+      const expanded: ScoredCombination[] = [];
+
+      beam.forEach(({ selection, totalPrice }) => {
+        for (const part of pools.get(category) || []) {
+          const price = part?.price || 0;
+          if (totalPrice + price + minRemaining[index + 1] > budget) {
+            stats.rejectedByBudget++;
+            continue;
+          }
+          if (part && !this.isQuickCompatible(category, part, selection)) continue;
+
+          const next = { ...selection, [category]: part };
+          if (!this.hasDisplayOutput(next)) {
+            stats.rejectedByCompatibility++;
+            continue;
+          }
+
+          // 未選択カテゴリはどの部分構成でも同じ扱いのため、同じ段階どうしで比較できる
+          expanded.push(this.scoreCombination(next, totalPrice + price, allocations, partScores, budget));
+        }
+      });
+
+      beam = expanded.sort((a, b) => rankScore(b) - rankScore(a)).slice(0, beamWidth);
+    });
+
+    // 🎯 事前スコア上位（ビームは整列済み）から完全チェック（互換性・電源余裕）
+    stats.combinationsExplored = beam.length;
+
+    const candidates: AutoBuildCandidate[] = [];
+    for (const combination of beam.slice(0, maxEvaluations)) {
+      stats.evaluated++;
+      const configuration = this.buildConfiguration(combination, budget, purpose);
+
+      const compatibility = this.compatibilityChecker.checkFullCompatibility(configuration);
+      if (!compatibility.isCompatible) {
+        stats.rejectedByCompatibility++;
+        continue;
+      }
+
+      const power = this.powerCalculator.calculatePowerConsumption(configuration);
+      const psuHeadroom = Math.round((100 - power.psuLoadPercentage) * 10) / 10;
+      if (psuHeadroom < minPsuHeadroom) {
+        stats.rejectedByPower++;
+        continue;
+      }
+
+      const score = combination.performanceScore * 0.7 + combination.balanceScore * 0.2 + compatibility.score * 0.1;
+      candidates.push({
+        rank: 0,
+        configuration,
+        score: Math.round(score * 10) / 10,
+        performanceScore: Math.round(combination.performanceScore * 10) / 10,
+        balanceScore: Math.round(combination.balanceScore * 10) / 10,
+        totalPrice: combination.totalPrice,
+        remainingBudget: budget - combination.totalPrice,
+        psuHeadroom,
+        compatibility,
+        power,
+        budgetSplit: this.explainBudgetSplit(combination, allocations, lockedParts, budget)
+      });
+    }
+
+    const topCandidates = candidates
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxResults)
+      .map((candidate, index) => ({ ...candidate, rank: index + 1 }));
+
+    return {
+      request,
+      allocations,
+      candidates: topCandidates,
+      summary: this.createSummary(purpose, allocations, topCandidates.length),
+      unmetCategories,
+      stats,
+      executionTime: Date.now() - startTime
+    };
+  }
+
+  /**
+   * 用途別の予算配分を算出（budgetRules 指定があれば価格帯を上書き）
+   */
+  public createBudgetAllocations(
+    budget: number,
+    purpose: AutoBuildRequest['purpose'],
+    budgetRules?: Partial<TemplateBudgetRules>
+  ): BudgetAllocation[] {
+    const split = PURPOSE_BUDGET_SPLIT[purpose] || PURPOSE_BUDGET_SPLIT.custom;
+
+    return AUTO_BUILD_CATEGORIES.map(category => {
+      const percentage = split[category] || 0;
+      const target = budget * percentage / 100;
+      const ruleKey = BUDGET_RULE_KEYS[category];
+      const rule = ruleKey ? budgetRules?.[ruleKey] : undefined;
+
+      return {
+        category,
+        percentage,
+        minPrice: rule ? rule.min : Math.round(target * 0.5),
+        maxPrice: rule ? rule.max : Math.round(target * 1.5)
+      };
+    });
+  }
+
+  /**
+   * ソケット・メモリ規格・フォームファクターによる簡易チェック（選択済みパーツとの整合）
+   */
+  public isQuickCompatible(category: PartCategory, part: Part, selection: Selection): boolean {
+    const cpu = this.specNormalizer.getSpecs(selection.cpu, 'cpu');
+    const motherboard = this.specNormalizer.getSpecs(selection.motherboard, 'motherboard');
+
+    switch (category) {
+      case 'motherboard': {
+        const specs = this.specNormalizer.normalize(part, 'motherboard').specs;
+        return !cpu?.socket || !specs.socket || cpu.socket === specs.socket;
+      }
+      case 'memory': {
+        const specs = this.specNormalizer.normalize(part, 'memory').specs;
+        return !motherboard || motherboard.memoryTypes.length === 0 || !specs.memoryType ||
+          motherboard.memoryTypes.includes(specs.memoryType);
+      }
+      case 'cooler': {
+        const specs = this.specNormalizer.normalize(part, 'cooler').specs;
+        return !cpu?.socket || specs.supportedSockets.length === 0 || specs.supportedSockets.includes(cpu.socket);
+      }
+      case 'case': {
+        const specs = this.specNormalizer.normalize(part, 'case').specs;
+        return !motherboard?.formFactor || specs.supportedFormFactors.length === 0 ||
+          specs.supportedFormFactors.includes(motherboard.formFactor);
+      }
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * 映像出力の有無（GPUを省略した部分構成は内蔵GPU付きCPUのみ可、CPU・GPUとも決定後に判定）
+   */
+  public hasDisplayOutput(selection: Selection): boolean {
+    if (!('gpu' in selection) || selection.gpu || !selection.cpu) return true;
+    return !!this.specNormalizer.getSpecs(selection.cpu, 'cpu')?.integratedGraphics;
+  }
+
+  // ===========================================
+  // 🔧 候補選定・スコアリング
+  // ===========================================
+
+  // 目標金額に近い順に候補を選び、最安パーツも必ず含める
+  private selectCandidates(
+    parts: Part[],
+    allocation: BudgetAllocation | undefined,
+    budget: number,
+    limit: number
+  ): Part[] {
+    const affordable = parts.filter(part => part.price <= budget && part.availability !== 'discontinued');
+    if (affordable.length === 0) return [];
+
+    const inRange = allocation
+      ? affordable.filter(part => part.price >= allocation.minPrice && part.price <= allocation.maxPrice)
+      : affordable;
+    const target = allocation ? budget * allocation.percentage / 100 : 0;
+
+    const ranked = (inRange.length > 0 ? inRange : affordable)
+      .slice()
+      .sort((a, b) => Math.abs(a.price - target) - Math.abs(b.price - target))
+      .slice(0, limit);
+
+    const cheapest = affordable.reduce((min, part) => (part.price < min.price ? part : min));
+    if (!ranked.includes(cheapest)) {
+      ranked.push(cheapest);
+    }
+    return ranked;
+  }
+
+  // カテゴリ内で正規化した性能値（0-100）
+  private calculatePartScores(pools: Map<PartCategory, (Part | null)[]>): Map<Part, number> {
+    const scores = new Map<Part, number>();
+
+    pools.forEach((parts, category) => {
+      const values = parts
+        .filter((part): part is Part => part !== null)
+        .map(part => ({ part, value: this.getPartValue(part, category) }));
+      const maxValue = Math.max(...values.map(v => v.value), 1);
+
+      values.forEach(({ part, value }) => {
+        scores.set(part, (value / maxValue) * 100);
+      });
+    });
+
+    return scores;
+  }
+
+  // 性能の目安（GPUは性能データベース、その他は正規化済み仕様。仕様がないカテゴリは価格を代用）
+  private getPartValue(part: Part, category: PartCategory): number {
+    const specs = this.specNormalizer.normalize(part, category).specs;
+    const ratingFactor = part.rating ? 0.8 + part.rating * 0.04 : 1;
+    let value = part.price;
+
+    switch (specs.category) {
+      case 'cpu':
+        value = (specs.cores || 4) * (specs.boostClockGHz || specs.baseClockGHz || 3.5);
+        break;
+      case 'gpu':
+        value = this.performancePrediction.getGpuBenchmarkScore(part) ?? this.estimateGpuScore(specs);
+        break;
+      case 'memory':
+        value = (specs.capacityGB || 8) * ((specs.speedMHz || 3200) / 3200);
+        break;
+      case 'storage':
+        value = (specs.capacityGB || 256) * (specs.storageType === 'NVMe' ? 1.5 : 1);
+        break;
+      case 'cooler':
+        value = specs.tdpRatingW || part.price;
+        break;
+    }
+
+    return value * ratingFactor;
+  }
+
+  // 性能データにないGPUは消費電力（なければVRAM）から1440pスコア相当を推定
+  private estimateGpuScore(specs: GpuSpecs): number {
+    if (specs.tdpW) return Math.sqrt(specs.tdpW) * 9;
+    return Math.sqrt(specs.vramGB || 8) * 35;
+  }
+
+  private scoreCombination(
+    selection: Selection,
+    totalPrice: number,
+    allocations: BudgetAllocation[],
+    partScores: Map<Part, number>,
+    budget: number
+  ): ScoredCombination {
+    let weightedScore = 0;
+    let totalWeight = 0;
+    let deviation = 0;
+
+    allocations.forEach(allocation => {
+      const part = selection[allocation.category];
+      const weight = allocation.percentage;
+      totalWeight += weight;
+      if (part) {
+        weightedScore += (partScores.get(part) || 0) * weight;
+      }
+
+      const actualPercentage = budget > 0 ? ((part?.price || 0) / budget) * 100 : 0;
+      deviation += Math.abs(actualPercentage - allocation.percentage);
+    });
+
+    return {
+      selection,
+      totalPrice,
+      performanceScore: totalWeight > 0 ? weightedScore / totalWeight : 0,
+      balanceScore: Math.max(0, 100 - deviation)
+    };
+  }
+
+  // 後続カテゴリの最安合計（予算枝刈り用）
+  private calculateMinRemainingCost(pools: Map<PartCategory, (Part | null)[]>): number[] {
+    const minRemaining = new Array<number>(AUTO_BUILD_CATEGORIES.length + 1).fill(0);
+    for (let i = AUTO_BUILD_CATEGORIES.length - 1; i >= 0; i--) {
+      const prices = (pools.get(AUTO_BUILD_CATEGORIES[i]) || []).map(part => part?.price || 0);
+      minRemaining[i] = minRemaining[i + 1] + (prices.length > 0 ? Math.min(...prices) : 0);
+    }
+    return minRemaining;
+  }
+
+  // ===========================================
+  // 🔧 結果生成
+  // ===========================================
+
+  private buildConfiguration(
+    combination: ScoredCombination,
+    budget: number,
+    purpose: AutoBuildRequest['purpose']
+  ): PCConfiguration {
+    const now = new Date();
+    return {
+      id: `auto-build-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: `自動構成（${purposeNames[purpose]}）`,
+      parts: { ...combination.selection },
+      totalPrice: combination.totalPrice,
+      totalPowerConsumption: Object.values(combination.selection)
+        .reduce((sum, part) => sum + this.specNormalizer.getPowerDraw(part), 0),
+      budget,
+      createdAt: now,
+      updatedAt: now,
+      tags: ['auto-build', purpose]
+    };
+  }
+
+  private explainBudgetSplit(
+    combination: ScoredCombination,
+    allocations: BudgetAllocation[],
+    lockedParts: Partial<Record<PartCategory, Part>>,
+    budget: number
+  ): BudgetSplitExplanation[] {
+    return allocations.map(allocation => {
+      const part = combination.selection[allocation.category] || null;
+      const targetAmount = Math.round(budget * allocation.percentage / 100);
+      const actualAmount = part?.price || 0;
+      const locked = Boolean(lockedParts[allocation.category]);
+      const difference = actualAmount - targetAmount;
+
+      let reason: string;
+      if (locked) {
+        reason = '固定パーツのため配分対象外';
+      } else if (!part) {
+        reason = '内蔵GPUで代替し、予算を他カテゴリへ配分';
+      } else if (difference > targetAmount * 0.1) {
+        reason = `目標より¥${difference.toLocaleString()}多く配分（性能を優先）`;
+      } else if (difference < -targetAmount * 0.1) {
+        reason = `目標より¥${Math.abs(difference).toLocaleString()}抑えて他カテゴリへ配分`;
+      } else {
+        reason = '目標配分どおり';
+      }
+
+      return {
+        category: allocation.category,
+        categoryName: categoryNames[allocation.category] || allocation.category,
+        targetPercentage: allocation.percentage,
+        targetAmount,
+        actualAmount,
+        actualPercentage: budget > 0 ? Math.round((actualAmount / budget) * 1000) / 10 : 0,
+        partName: part?.name,
+        locked,
+        reason
+      };
+    });
+  }
+
+  private createSummary(
+    purpose: AutoBuildRequest['purpose'],
+    allocations: BudgetAllocation[],
+    candidateCount: number
+  ): string {
+    if (candidateCount === 0) {
+      return '予算・互換性・電源余裕の条件を満たす構成が見つかりませんでした';
+    }
+
+    const top = allocations
+      .slice()
+      .sort((a, b) => b.percentage - a.percentage)
+      .slice(0, 2)
+      .map(a => `${categoryNames[a.category] || a.category} ${a.percentage}%`);
+
+    return `${purposeNames[purpose]}向け: ${top.join('、')} を優先配分した${candidateCount}件の構成候補`;
+  }
+}
+
+export default AutoBuildService;
@@ -0,0 +1,141 @@
+// src/services/candidateCompatibility.ts
+// 🔍 検索候補の互換性判定 - 候補パーツを選択中の構成に組み込んだ場合のルール評価
+
+import { CoreComponents, Part, PartCategory, PCConfiguration } from '@/types';
+import {
+  CandidateCompatibility,
+  CandidateCompatibilityReason,
+  CandidateCompatibilityStatus,
+  CompatibilityRuleCategory
+} from '@/types/compatibility';
+import CompatibilityRuleEngine from '@/services/compatibility/ruleEngine';
+import type { RuleConfiguration } from '@/services/compatibility/rules';
+
+// 候補の判定に使わないルール（性能バランス・温度推定は構成全体の目安で、互換性ではない）
+const EXCLUDED_RULE_CATEGORIES: CompatibilityRuleCategory[] = ['performance', 'thermal'];
+
+// 構成 × 候補 の判定結果キャッシュ件数
+const CACHE_LIMIT = 500;
+
+// 複数搭載構成（coreComponents / additionalComponents）も受け付ける
+export type CandidateConfiguration = PCConfiguration & Omit<RuleConfiguration, 'parts'>;
+
+const CORE_CATEGORIES: (keyof CoreComponents)[] = ['cpu', 'motherboard', 'memory', 'gpu', 'psu', 'case', 'cooler'];
+
+export class CandidateCompatibilityService {
+  private static instance: CandidateCompatibilityService;
+  private ruleEngine = CompatibilityRuleEngine.getInstance();
+  private cache = new Map<string, CandidateCompatibility>();
+
+  private constructor() {}
+
+  // シングルトンパターン
+  public static getInstance(): CandidateCompatibilityService {
+    if (!CandidateCompatibilityService.instance) {
+      CandidateCompatibilityService.instance = new CandidateCompatibilityService();
+    }
+    return CandidateCompatibilityService.instance;
+  }
+
+  /**
+   * 候補パーツをまとめて判定（partId → 判定結果）
+   */
+  public evaluateCandidates(config: CandidateConfiguration, candidates: Part[]): Map<string, CandidateCompatibility> {
+    return new Map(candidates.map(candidate => [candidate.id, this.evaluateCandidate(config, candidate)]));
+  }
+
+  /**
+   * 候補パーツを同カテゴリの選択中パーツと差し替えた構成で判定
+   */
+  public evaluateCandidate(config: CandidateConfiguration, candidate: Part): CandidateCompatibility {
+    const category = candidate.category;
+    const candidateConfig = this.substituteCandidate(config, candidate);
+
+    const cacheKey = this.getCacheKey(candidateConfig, candidate);
+    const cached = this.cache.get(cacheKey);
+    if (cached) return cached;
+
+    const reasons = this.checkRules(candidateConfig, category);
+
+    const result: CandidateCompatibility = {
+      partId: candidate.id,
+      status: this.getStatus(reasons),
+      reasons
+    };
+
+    // 古いものから破棄
+    if (this.cache.size >= CACHE_LIMIT) {
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey !== undefined) this.cache.delete(oldestKey);
+    }
+    this.cache.set(cacheKey, result);
+    return result;
+  }
+
+  public clearCache(): void {
+    this.cache.clear();
+  }
+
+  // parts に加え、複数搭載構成では coreComponents（ストレージは追加パーツの先頭）も差し替え
+  private substituteCandidate(config: CandidateConfiguration, candidate: Part): CandidateConfiguration {
+    const category = candidate.category;
+    const candidateConfig: CandidateConfiguration = {
+      ...config,
+      parts: { ...config.parts, [category]: candidate }
+    };
+
+    if (config.coreComponents && CORE_CATEGORIES.includes(category as keyof CoreComponents)) {
+      candidateConfig.coreComponents = { ...config.coreComponents, [category]: candidate };
+    } else if (config.additionalComponents && category === 'storage') {
+      const storage = config.additionalComponents.storage || [];
+      candidateConfig.additionalComponents = {
+        ...config.additionalComponents,
+        storage: [candidate, ...storage.slice(1)]
+      };
+    }
+    return candidateConfig;
+  }
+
+  // 候補のカテゴリが関係するルールのみ評価
+  private checkRules(config: CandidateConfiguration, category: PartCategory): CandidateCompatibilityReason[] {
+    const ruleIds = this.ruleEngine.getRules()
+      .filter(rule => !EXCLUDED_RULE_CATEGORIES.includes(rule.category))
+      .filter(rule => (rule.affects || rule.requires).includes(category))
+      .map(rule => rule.id);
+
+    return this.ruleEngine.evaluate(config, ruleIds).flatMap(result =>
+      result.findings
+        .filter(finding => finding.status !== 'pass')
+        .map(finding => ({
+          ruleId: result.ruleId,
+          category: result.category,
+          label: result.name,
+          severity: finding.status as CandidateCompatibilityReason['severity'],
+          message: finding.message
+        }))
+    );
+  }
+
+  private getStatus(reasons: CandidateCompatibilityReason[]): CandidateCompatibilityStatus {
+    if (reasons.some(reason => reason.severity === 'fail')) return 'incompatible';
+    if (reasons.length > 0) return 'warning';
+    return 'compatible';
+  }
+
+  // 候補を差し替えた構成の parts / coreComponents / additionalComponents で一意
+  private getCacheKey(config: CandidateConfiguration, candidate: Part): string {
+    const selected = [
+      ...Object.entries(config.parts)
+        .flatMap(([category, part]) => part ? [`${category}:${part.id}`] : []),
+      ...Object.entries(config.coreComponents || {})
+        .flatMap(([category, part]) => part ? [`core.${category}:${part.id}`] : []),
+      ...Object.entries(config.additionalComponents || {})
+        .flatMap(([category, parts]) => parts && parts.length > 0
+          ? [`additional.${category}:${parts.map(part => part.id).join(',')}`]
+          : [])
+    ];
+    return `${candidate.category}:${candidate.id}@${selected.sort().join('|')}`;
+  }
+}
+
+export default CandidateCompatibilityService;
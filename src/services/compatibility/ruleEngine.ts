@@ -0,0 +1,136 @@
+// src/services/compatibility/ruleEngine.ts
+// 🧩 互換性ルールエンジン - 宣言的ルールを評価し、ルールID付きの結果を返す
+
+import type {
+  CompatibilityIssue,
+  CompatibilityRuleCategory,
+  CompatibilityWarning,
+  RuleFinding,
+  RuleResult
+} from '@/types/compatibility';
+import SpecNormalizerService from '@/services/specNormalizer';
+import CompatibilityDatabaseService from '@/services/compatibilityDatabase';
+import { defaultCompatibilityRules, CompatibilityRule, RuleConfiguration, RuleContext } from './rules';
+
+// 問題のカテゴリ表示名
+const CATEGORY_LABELS: Record<CompatibilityRuleCategory, string> = {
+  socket: 'ソケット互換性',
+  memory: 'メモリ互換性',
+  power: '電源コネクタ',
+  physical: '物理的サイズ',
+  cooling: '冷却互換性',
+  thermal: '熱設計',
+  performance: 'パフォーマンスバランス'
+};
+
+const DEFAULT_RECOMMENDATION = '構成を再確認することを推奨します';
+
+// 判定の重さ（大きいほど深刻）
+const STATUS_WEIGHT: Record<RuleFinding['status'], number> = {
+  pass: 0,
+  warning: 1,
+  fail: 2
+};
+
+export class CompatibilityRuleEngine {
+  private static instance: CompatibilityRuleEngine;
+  private specNormalizer = SpecNormalizerService.getInstance();
+  private database = CompatibilityDatabaseService.getInstance();
+  private rules: CompatibilityRule[] = [...defaultCompatibilityRules];
+
+  public static getInstance(): CompatibilityRuleEngine {
+    if (!CompatibilityRuleEngine.instance) {
+      CompatibilityRuleEngine.instance = new CompatibilityRuleEngine();
+    }
+    return CompatibilityRuleEngine.instance;
+  }
+
+  // ルールを追加（同じIDがあれば置き換え）
+  public registerRule(rule: CompatibilityRule): void {
+    this.rules = [...this.rules.filter(existing => existing.id !== rule.id), rule];
+  }
+
+  public getRules(): CompatibilityRule[] {
+    return [...this.rules];
+  }
+
+  // 🎯 ルールを評価（ruleIds 指定時はそのルールのみ）
+  public evaluate(config: RuleConfiguration, ruleIds?: string[]): RuleResult[] {
+    const context = this.createContext(config);
+    const rules = ruleIds ? this.rules.filter(rule => ruleIds.includes(rule.id)) : this.rules;
+
+    return rules.map(rule => {
+      const base = {
+        ruleId: rule.id,
+        name: rule.name,
+        category: rule.category,
+        affectedParts: rule.affects || rule.requires
+      };
+
+      // 必要なパーツが揃っていなければ未評価
+      if (rule.requires.some(category => !config.parts[category])) {
+        return { ...base, status: 'pending', findings: [] };
+      }
+
+      const findings = rule.evaluate(context);
+      const status = findings.reduce<RuleFinding['status']>(
+        (worst, finding) => STATUS_WEIGHT[finding.status] > STATUS_WEIGHT[worst] ? finding.status : worst,
+        'pass'
+      );
+      return { ...base, status, findings };
+    });
+  }
+
+  // 📋 評価結果を CompatibilityIssue / CompatibilityWarning に変換
+  public toIssuesAndWarnings(results: RuleResult[]): {
+    issues: CompatibilityIssue[];
+    warnings: CompatibilityWarning[];
+  } {
+    const issues: CompatibilityIssue[] = [];
+    const warnings: CompatibilityWarning[] = [];
+
+    results.forEach(result => {
+      const rule = this.rules.find(candidate => candidate.id === result.ruleId);
+      const failures = result.findings.filter(finding => finding.status === 'fail');
+      const cautions = result.findings.filter(finding => finding.status === 'warning');
+      const findingId = (index: number, count: number) => count > 1 ? `${result.ruleId}_${index}` : result.ruleId;
+
+      failures.forEach((finding, index) => {
+        issues.push({
+          id: findingId(index, failures.length),
+          type: rule?.issueType || 'missing_part',
+          severity: 'critical',
+          message: finding.message,
+          affectedParts: result.affectedParts,
+          solution: finding.solution,
+          category: CATEGORY_LABELS[result.category],
+          ruleId: result.ruleId
+        });
+      });
+
+      cautions.forEach((finding, index) => {
+        warnings.push({
+          id: findingId(index, cautions.length),
+          message: finding.message,
+          recommendation: finding.solution || DEFAULT_RECOMMENDATION,
+          priority: finding.priority || 'medium',
+          ruleId: result.ruleId
+        });
+      });
+    });
+
+    return { issues, warnings };
+  }
+
+  // ルール評価用のコンテキスト（詳細表示でも同じ仕様参照を使う）
+  public createContext(config: RuleConfiguration): RuleContext {
+    return {
+      config,
+      part: (category) => config.parts[category] || null,
+      specs: (category) => this.specNormalizer.getSpecs(config.parts[category], category),
+      database: this.database
+    };
+  }
+}
+
+export default CompatibilityRuleEngine;
@@ -0,0 +1,58 @@
+// src/services/compatibility/rules/coolingRules.ts
+// ❄️ CPUクーラーのルール（冷却能力・ソケット対応）
+// クーラー高さは physical.cooler_height で判定する
+
+import { CompatibilityRule, pass, warn, fail } from './types';
+
+// 冷却能力に余裕がないと判断する比率
+const COOLER_TDP_NEAR_LIMIT = 0.8;
+
+// CPU TDP に対するクーラーの冷却能力
+export const coolerTdpRule: CompatibilityRule = {
+  id: 'cooling.tdp',
+  name: 'TDP冷却能力',
+  category: 'cooling',
+  requires: ['cpu', 'cooler'],
+  issueType: 'cooling_insufficient',
+  evaluate: ({ specs }) => {
+    const cpuTdp = specs('cpu')?.tdpW || 0;
+    const coolerTdp = specs('cooler')?.tdpRatingW || 0;
+    if (cpuTdp <= 0 || coolerTdp <= 0) return [];
+
+    if (cpuTdp > coolerTdp) {
+      return [fail(
+        `クーラーの冷却能力不足 (CPU TDP: ${cpuTdp}W, クーラー: ${coolerTdp}W)`,
+        '十分な冷却能力を持つクーラーを検討してください'
+      )];
+    }
+    if (cpuTdp > coolerTdp * COOLER_TDP_NEAR_LIMIT) {
+      return [warn(
+        `クーラー冷却能力が上限に近いです (CPU: ${cpuTdp}W, クーラー: ${coolerTdp}W)`,
+        '冷却性能を再確認し、必要に応じてアップグレードを検討してください'
+      )];
+    }
+    return [pass(`CPU TDP ${cpuTdp}W ≤ クーラー ${coolerTdp}W`)];
+  }
+};
+
+// クーラーがCPUソケットに対応しているか
+export const coolerSocketRule: CompatibilityRule = {
+  id: 'cooling.socket',
+  name: 'クーラーソケット対応',
+  category: 'cooling',
+  requires: ['cpu', 'cooler'],
+  issueType: 'cooling_insufficient',
+  evaluate: ({ specs }) => {
+    const cpuSocket = specs('cpu')?.socket;
+    const supportedSockets = specs('cooler')?.supportedSockets || [];
+    if (!cpuSocket || supportedSockets.length === 0) return [];
+
+    if (!supportedSockets.includes(cpuSocket)) {
+      return [fail(
+        `クーラーが${cpuSocket}ソケットに対応していません`,
+        `${cpuSocket}対応のクーラー、またはマウンティングキットを用意してください`
+      )];
+    }
+    return [pass(`${cpuSocket} 対応`)];
+  }
+};
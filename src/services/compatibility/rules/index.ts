@@ -0,0 +1,58 @@
+// src/services/compatibility/rules/index.ts
+// 🧩 互換性ルール一覧
+
+import type { CompatibilityRule } from './types';
+import { socketMatchRule, socketChipsetRule, socketBiosRule } from './socketRules';
+import {
+  memoryTypeRule,
+  memoryCapacityRule,
+  memorySlotsRule,
+  memoryMixedKitsRule,
+  memorySpeedRule,
+  memoryPopulationRule
+} from './memoryRules';
+import { powerConnectorRule, powerCapacityRule } from './powerRules';
+import { formFactorRule, gpuLengthRule, gpuHeightRule, coolerHeightRule } from './physicalRules';
+import { coolerTdpRule, coolerSocketRule } from './coolingRules';
+import {
+  thermalCoolerCapacityRule,
+  thermalCpuThrottlingRule,
+  thermalGpuTemperatureRule,
+  thermalCaseAirflowRule
+} from './thermalRules';
+import { performanceBalanceRule } from './performanceRules';
+
+// 既定のルールセット（評価順）
+export const defaultCompatibilityRules: CompatibilityRule[] = [
+  socketMatchRule,
+  socketChipsetRule,
+  socketBiosRule,
+  memoryTypeRule,
+  memoryCapacityRule,
+  memorySlotsRule,
+  memoryMixedKitsRule,
+  memorySpeedRule,
+  memoryPopulationRule,
+  powerConnectorRule,
+  powerCapacityRule,
+  formFactorRule,
+  gpuLengthRule,
+  gpuHeightRule,
+  coolerHeightRule,
+  coolerTdpRule,
+  coolerSocketRule,
+  thermalCoolerCapacityRule,
+  thermalCpuThrottlingRule,
+  thermalGpuTemperatureRule,
+  thermalCaseAirflowRule,
+  performanceBalanceRule
+];
+
+export * from './types';
+export * from './socketRules';
+export * from './memoryRules';
+export * from './powerRules';
+export * from './physicalRules';
+export * from './coolingRules';
+export * from './thermalRules';
+export * from './performanceRules';
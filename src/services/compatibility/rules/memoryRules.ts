@@ -0,0 +1,204 @@
+// src/services/compatibility/rules/memoryRules.ts
+// 🧠 メモリのルール（memory-specs.json / cpu-motherboard.json 駆動）
+
+import type { Part } from '@/types';
+import type { MemoryPopulation } from '@/types/compatibility';
+import MemoryPopulationService from '@/services/memoryPopulationService';
+import { CompatibilityRule, RuleContext, pass, warn, fail } from './types';
+
+// マザーボードの対応メモリ規格（仕様になければソケットから）
+export const getSupportedMemoryTypes = ({ specs, database }: RuleContext): string[] => {
+  const motherboard = specs('motherboard');
+  if (!motherboard) return [];
+  if (motherboard.memoryTypes.length > 0) return motherboard.memoryTypes;
+  return motherboard.socket ? database.getCpuSocketCompatibility(motherboard.socket)?.memorySupport || [] : [];
+};
+
+// 基本メモリ + 追加メモリ（同じキットの複数購入はそれぞれ1キット）
+export const getMemoryKits = ({ config, part }: RuleContext): Part[] => {
+  // 複数搭載構成の parts.memory は追加メモリと重複しうるため coreComponents を優先
+  const baseMemory = config.coreComponents ? config.coreComponents.memory : part('memory');
+  return [baseMemory, ...(config.additionalComponents?.memory || [])].filter((kit): kit is Part => !!kit);
+};
+
+// 全キットの装着構成（メモリ系の各ルールで共有するため評価コンテキストごとに1回だけ解析）
+const populationCache = new WeakMap<RuleContext, MemoryPopulation>();
+
+export const analyzeMemoryPopulation = (context: RuleContext): MemoryPopulation => {
+  const cached = populationCache.get(context);
+  if (cached) return cached;
+
+  const population = MemoryPopulationService.getInstance().analyze(getMemoryKits(context), context.part('motherboard'));
+  populationCache.set(context, population);
+  return population;
+};
+
+// メモリ規格の一致（全キット）
+export const memoryTypeRule: CompatibilityRule = {
+  id: 'memory.type',
+  name: 'メモリ規格',
+  category: 'memory',
+  requires: ['memory', 'motherboard'],
+  issueType: 'memory_incompatible',
+  evaluate: (context) => {
+    const { kits, memoryTypes } = analyzeMemoryPopulation(context);
+    if (kits.some(kit => !kit.memoryType)) {
+      return [fail('メモリタイプ情報が不完全です', 'メモリの規格（DDR4/DDR5）を確認してください')];
+    }
+    if (memoryTypes.length > 1) {
+      return [fail(
+        `異なる規格のメモリが混在しています (${memoryTypes.join(', ')})`,
+        'すべてのメモリを同じ規格に揃えてください'
+      )];
+    }
+
+    const memoryType = memoryTypes[0];
+    const supportedTypes = getSupportedMemoryTypes(context);
+    if (supportedTypes.length > 0 && !supportedTypes.includes(memoryType)) {
+      return [fail(
+        `メモリタイプが対応していません (メモリ: ${memoryType}, 対応: ${supportedTypes.join(', ')})`,
+        `${supportedTypes.join('/')}対応のメモリを選択してください`
+      )];
+    }
+
+    const memoryData = context.database.getMemoryCompatibility(memoryType);
+    return [pass(`${memoryType} メモリで互換性があります${memoryData ? ` (${memoryData.description})` : ''}`)];
+  }
+};
+
+// 合計容量がマザーボードの上限以内か
+export const memoryCapacityRule: CompatibilityRule = {
+  id: 'memory.capacity',
+  name: 'メモリ容量',
+  category: 'memory',
+  requires: ['memory', 'motherboard'],
+  issueType: 'memory_incompatible',
+  evaluate: (context) => {
+    const { totalCapacityGB, maxCapacityGB } = analyzeMemoryPopulation(context);
+
+    if (totalCapacityGB > maxCapacityGB) {
+      return [fail(
+        `メモリ容量が上限を超えています (${totalCapacityGB}GB > ${maxCapacityGB}GB)`,
+        `合計${maxCapacityGB}GB以下のメモリ構成にしてください`
+      )];
+    }
+    return totalCapacityGB > 0 ? [pass(`メモリ容量 ${totalCapacityGB}GB（上限 ${maxCapacityGB}GB）`)] : [];
+  }
+};
+
+// モジュール枚数がメモリスロット数以内か
+export const memorySlotsRule: CompatibilityRule = {
+  id: 'memory.slots',
+  name: 'メモリスロット',
+  category: 'memory',
+  requires: ['memory', 'motherboard'],
+  issueType: 'memory_incompatible',
+  evaluate: (context) => {
+    const { totalModules, slotCount } = analyzeMemoryPopulation(context);
+
+    if (totalModules > slotCount) {
+      return [fail(
+        `メモリモジュール数がスロット数を超えています (${totalModules}枚 / ${slotCount}スロット)`,
+        `${slotCount}枚以内のメモリ構成にするか、大容量モジュールのキットを選択してください`
+      )];
+    }
+    if (totalModules === 1) {
+      return [warn(
+        '1枚構成ではデュアルチャンネルの性能が発揮されません',
+        '同容量のモジュール2枚組のキットを検討してください',
+        'low'
+      )];
+    }
+    if (totalModules % 2 === 1) {
+      return [warn(
+        `${totalModules}枚構成ではチャンネルごとの容量が揃いません`,
+        '偶数枚（2枚または4枚）の構成を推奨します',
+        'low'
+      )];
+    }
+    return [pass(`${totalModules}枚 / ${slotCount}スロット`)];
+  }
+};
+
+// 複数キットの混在
+export const memoryMixedKitsRule: CompatibilityRule = {
+  id: 'memory.mixed_kits',
+  name: 'メモリキット混在',
+  category: 'memory',
+  requires: ['memory', 'motherboard'],
+  issueType: 'memory_incompatible',
+  evaluate: (context) => {
+    const { kits, mixedKits, identicalKits, ratedSpeedMHz } = analyzeMemoryPopulation(context);
+    if (!mixedKits) return [];
+
+    if (identicalKits) {
+      return [warn(
+        `同一製品のキットを${kits.length}セット使用しています（キット間の動作は保証されません）`,
+        '必要な枚数・容量がセットになったキットを1つ購入すると確実です',
+        'low'
+      )];
+    }
+
+    const first = kits[0];
+    const differs = kits.some(kit =>
+      kit.speedMHz !== first.speedMHz || kit.timings !== first.timings || kit.moduleCapacityGB !== first.moduleCapacityGB
+    );
+    return [warn(
+      `異なるメモリキットが混在しています（${kits.map(kit => kit.name).join(' + ')}）` +
+        (differs && ratedSpeedMHz ? ` 最も遅い ${ratedSpeedMHz}MHz で動作します` : ''),
+      '異なる仕様のメモリモジュールの混在は推奨されません。同一キットに揃えてください'
+    )];
+  }
+};
+
+// 動作速度が規格の範囲内か（JEDEC標準 / XMP・EXPO）
+export const memorySpeedRule: CompatibilityRule = {
+  id: 'memory.speed',
+  name: 'メモリ速度',
+  category: 'memory',
+  requires: ['memory', 'motherboard'],
+  issueType: 'memory_incompatible',
+  evaluate: (context) => {
+    // 混在キットは最も遅いキットの定格で動作するため、その速度で判定（規格の混在は memory.type で検出）
+    const { memoryTypes, ratedSpeedMHz: speedMHz } = analyzeMemoryPopulation(context);
+    const memoryData = memoryTypes.length === 1 ? context.database.getMemoryCompatibility(memoryTypes[0]) : null;
+    if (!speedMHz || !memoryData) return [];
+
+    const jedecSpeeds: number[] = memoryData.jedecStandard || [];
+    const knownSpeeds: number[] = [...(memoryData.standardSpeeds || []), ...(memoryData.overclockingSpeeds || [])];
+
+    if (jedecSpeeds.includes(speedMHz)) {
+      return [pass(`${speedMHz}MHz はJEDEC標準速度です`)];
+    }
+    if (knownSpeeds.includes(speedMHz)) {
+      return [pass(`${speedMHz}MHz での動作にはXMP/EXPOの有効化が必要です`)];
+    }
+    return [warn(
+      `メモリ速度 ${speedMHz}MHz はオーバークロック設定が必要です`,
+      'JEDEC標準速度のメモリまたはオーバークロック対応マザーボードを検討してください'
+    )];
+  }
+};
+
+// 装着枚数・ランク数による速度低下
+export const memoryPopulationRule: CompatibilityRule = {
+  id: 'memory.population',
+  name: 'メモリ実効速度',
+  category: 'memory',
+  requires: ['memory', 'motherboard'],
+  issueType: 'memory_incompatible',
+  evaluate: (context) => {
+    const { ratedSpeedMHz, effectiveSpeedMHz, deratingReason, dimmsPerChannel } = analyzeMemoryPopulation(context);
+    if (!ratedSpeedMHz || !effectiveSpeedMHz) return [];
+
+    if (effectiveSpeedMHz < ratedSpeedMHz) {
+      return [warn(
+        `${deratingReason}、実効速度は約${effectiveSpeedMHz}MHzに低下する見込みです（定格 ${ratedSpeedMHz}MHz）`,
+        dimmsPerChannel === 2
+          ? '速度を重視する場合は大容量モジュールの2枚構成を検討してください'
+          : '速度を重視する場合はシングルランクのモジュールを検討してください'
+      )];
+    }
+    return [pass(`実効速度 ${effectiveSpeedMHz}MHz（定格どおり）`)];
+  }
+};
@@ -0,0 +1,149 @@
+// src/services/compatibility/rules/performanceRules.ts
+// 📊 CPU/GPUのパフォーマンスバランスのルール（価格帯ベース簡易版）
+
+import type { Part } from '@/types';
+import type { PerformanceCompatibility } from '@/types/compatibility';
+import { CompatibilityRule, pass, warn, fail } from './types';
+
+type PerformanceTier = 'entry' | 'mainstream' | 'high-end' | 'flagship';
+
+const TIERS: readonly PerformanceTier[] = ['entry', 'mainstream', 'high-end', 'flagship'];
+
+// 価格帯ごとの性能指標（実際の実装では外部APIやデータベース使用）
+const TIER_PERFORMANCE: Record<PerformanceTier, number> = {
+  'entry': 50,
+  'mainstream': 70,
+  'high-end': 85,
+  'flagship': 95
+};
+
+const CPU_TIER_MIN_PRICE: Record<PerformanceTier, number> = {
+  'entry': 0,
+  'mainstream': 25000,
+  'high-end': 50000,
+  'flagship': 80000
+};
+
+const GPU_TIER_MIN_PRICE: Record<PerformanceTier, number> = {
+  'entry': 0,
+  'mainstream': 40000,
+  'high-end': 80000,
+  'flagship': 150000
+};
+
+// GPU価格帯ごとの平均フレームレート
+const BASE_FRAME_RATES: Record<PerformanceTier, Record<string, number>> = {
+  'entry': { '1080p': 45, '1440p': 30, '4K': 20 },
+  'mainstream': { '1080p': 75, '1440p': 55, '4K': 35 },
+  'high-end': { '1080p': 120, '1440p': 95, '4K': 65 },
+  'flagship': { '1080p': 165, '1440p': 140, '4K': 95 }
+};
+
+const RECOMMENDED_RESOLUTION: Record<PerformanceTier, string> = {
+  'entry': '1080p',
+  'mainstream': '1080p',
+  'high-end': '1440p',
+  'flagship': '4K'
+};
+
+// 性能差のしきい値
+const SEVERE_DIFFERENCE = 20;
+const MILD_DIFFERENCE = 10;
+
+const getTier = (price: number, minPrices: Record<PerformanceTier, number>): PerformanceTier =>
+  [...TIERS].reverse().find(tier => price >= minPrices[tier]) || 'entry';
+
+const getHigherTier = (tier: PerformanceTier): PerformanceTier =>
+  TIERS[Math.min(TIERS.indexOf(tier) + 1, TIERS.length - 1)];
+
+// CPU/GPU の重み付きスコア
+const weightedScore = (cpuPerformance: number, gpuPerformance: number, cpuWeight: number) =>
+  Math.round(cpuPerformance * cpuWeight + gpuPerformance * (1 - cpuWeight));
+
+// CPU/GPUのバランス分析
+export const analyzePerformanceBalance = (cpu: Part, gpu: Part): PerformanceCompatibility => {
+  const cpuTier = getTier(cpu.price || 0, CPU_TIER_MIN_PRICE);
+  const gpuTier = getTier(gpu.price || 0, GPU_TIER_MIN_PRICE);
+  const cpuPerformance = TIER_PERFORMANCE[cpuTier];
+  const gpuPerformance = TIER_PERFORMANCE[gpuTier];
+
+  const bottlenecks: string[] = [];
+  const recommendations: string[] = [];
+  const performanceDifference = Math.abs(cpuPerformance - gpuPerformance);
+  let bottleneckType: 'cpu' | 'gpu' | 'balanced' = 'balanced';
+  let severity: 'none' | 'mild' | 'severe' = 'none';
+
+  if (performanceDifference > SEVERE_DIFFERENCE) {
+    severity = 'severe';
+    if (cpuPerformance < gpuPerformance) {
+      bottleneckType = 'cpu';
+      bottlenecks.push(`CPUがボトルネックになる可能性があります (CPU: ${cpuTier}, GPU: ${gpuTier})`);
+      recommendations.push(`より高性能なCPU（${getHigherTier(cpuTier)}クラス以上）を検討してください`);
+    } else {
+      bottleneckType = 'gpu';
+      bottlenecks.push(`GPUがボトルネックになる可能性があります (CPU: ${cpuTier}, GPU: ${gpuTier})`);
+      recommendations.push(`より高性能なGPU（${getHigherTier(gpuTier)}クラス以上）を検討してください`);
+    }
+  } else if (performanceDifference > MILD_DIFFERENCE) {
+    severity = 'mild';
+    bottlenecks.push(`軽微なパフォーマンス不均衡があります (${performanceDifference}点差)`);
+    recommendations.push('現在の構成でも十分ですが、将来のアップグレードで均衡を図ることを推奨します');
+  }
+
+  const overall = Math.round((cpuPerformance + gpuPerformance) / 2);
+  const balanced = bottlenecks.length === 0;
+
+  return {
+    balanced,
+    bottlenecks,
+    recommendations,
+    severity,
+    performanceScore: overall,
+    useCaseScores: {
+      gaming: weightedScore(cpuPerformance, gpuPerformance, 0.3),
+      contentCreation: weightedScore(cpuPerformance, gpuPerformance, 0.6),
+      workstation: weightedScore(cpuPerformance, gpuPerformance, 0.7),
+      overall
+    },
+    bottleneckAnalysis: {
+      cpuUtilization: bottleneckType === 'gpu' ? 100 : 80,
+      gpuUtilization: bottleneckType === 'cpu' ? 100 : 80,
+      bottleneckType,
+      severity,
+      ratio: gpuPerformance / cpuPerformance,
+      message: bottlenecks[0] || 'バランスの取れた構成です'
+    },
+    gamingPerformance: {
+      averageFps: BASE_FRAME_RATES[gpuTier],
+      recommendedResolution: RECOMMENDED_RESOLUTION[gpuTier],
+      rayTracingViable: gpuTier === 'high-end' || gpuTier === 'flagship',
+      dlssAvailable: gpu.name.toLowerCase().includes('rtx'),
+      performanceClass: gpuTier
+    },
+    message: balanced
+      ? `パフォーマンスバランスに問題ありません (CPU: ${cpuTier}, GPU: ${gpuTier})`
+      : `${bottlenecks.length}件のパフォーマンス課題があります (${severity}レベル)`
+  };
+};
+
+// CPU/GPUの性能差（大きい場合は構成の見直しが必要）
+export const performanceBalanceRule: CompatibilityRule = {
+  id: 'performance.balance',
+  name: 'パフォーマンスバランス',
+  category: 'performance',
+  requires: ['cpu', 'gpu'],
+  issueType: 'performance_imbalance',
+  evaluate: ({ part }) => {
+    const cpu = part('cpu');
+    const gpu = part('gpu');
+    if (!cpu || !gpu) return [];
+
+    const analysis = analyzePerformanceBalance(cpu, gpu);
+    if (analysis.balanced) return [pass(analysis.message)];
+
+    const finding = analysis.severity === 'severe' ? fail : warn;
+    return analysis.bottlenecks.map((bottleneck, index) =>
+      finding(bottleneck, analysis.recommendations[index] || 'バランスの取れた構成を検討してください')
+    );
+  }
+};
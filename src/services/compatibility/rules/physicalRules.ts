@@ -0,0 +1,124 @@
+// src/services/compatibility/rules/physicalRules.ts
+// 📏 ケース内の物理的なルール（case-dimensions.json 駆動）
+
+import { CompatibilityRule, RuleContext, pass, warn, fail } from './types';
+
+// 上限に近いと判断する比率
+const GPU_LENGTH_NEAR_LIMIT = 0.9;
+const COOLER_HEIGHT_NEAR_LIMIT = 0.95;
+// 上限不明時は判定しない
+const UNLIMITED = 1000;
+const DEFAULT_MAX_GPU_HEIGHT = 200;
+
+// ケースの搭載上限（パーツ仕様 → ケース形状データの順）
+export const getCaseLimits = ({ specs, database }: RuleContext) => {
+  const caseSpecs = specs('case');
+  const caseData = caseSpecs?.caseType ? database.getCaseFormFactor(caseSpecs.caseType.replace(/\s+/g, '_')) : null;
+
+  return {
+    caseType: caseSpecs?.caseType,
+    supportedFormFactors: (caseSpecs?.supportedFormFactors.length
+      ? caseSpecs.supportedFormFactors
+      : caseData?.supportedMotherboards || []) as string[],
+    maxGpuLength: caseSpecs?.maxGpuLengthMm || caseData?.maxGpuLength || UNLIMITED,
+    maxGpuHeight: caseSpecs?.maxGpuHeightMm || DEFAULT_MAX_GPU_HEIGHT,
+    maxCoolerHeight: caseSpecs?.maxCoolerHeightMm || caseData?.maxCpuCoolerHeight || UNLIMITED
+  };
+};
+
+// マザーボードのフォームファクターがケースに入るか
+export const formFactorRule: CompatibilityRule = {
+  id: 'physical.form_factor',
+  name: 'マザーボードフォームファクター',
+  category: 'physical',
+  requires: ['case', 'motherboard'],
+  issueType: 'size_conflict',
+  evaluate: (context) => {
+    const formFactor = context.specs('motherboard')?.formFactor;
+    const { supportedFormFactors } = getCaseLimits(context);
+    if (!formFactor || supportedFormFactors.length === 0) return [];
+
+    if (!supportedFormFactors.includes(formFactor)) {
+      return [fail(
+        `マザーボード ${formFactor} がケースに対応していません`,
+        `${supportedFormFactors.join('/')}のマザーボード、または${formFactor}対応のケースを選択してください`
+      )];
+    }
+
+    const formFactorData = (context.database.getFormFactorMatrix() as Record<string, { expansionSlots: number }>)[formFactor];
+    return [pass(`${formFactor} は対応しています${formFactorData ? ` (拡張スロット: ${formFactorData.expansionSlots})` : ''}`)];
+  }
+};
+
+// GPUの長さ
+export const gpuLengthRule: CompatibilityRule = {
+  id: 'physical.gpu_length',
+  name: 'GPU長さ',
+  category: 'physical',
+  requires: ['case', 'gpu'],
+  issueType: 'size_conflict',
+  evaluate: (context) => {
+    const length = context.specs('gpu')?.lengthMm || 0;
+    const { maxGpuLength } = getCaseLimits(context);
+    if (length <= 0) return [];
+
+    if (length > maxGpuLength) {
+      return [fail(
+        `GPU長 ${length}mm がケース上限 ${maxGpuLength}mm を超えています`,
+        'より大きなケースまたは短いGPUを検討してください'
+      )];
+    }
+    if (length > maxGpuLength * GPU_LENGTH_NEAR_LIMIT) {
+      return [warn(`GPU長がケース上限に近いです (${length}mm / ${maxGpuLength}mm)`, 'サイズを再確認することを推奨します')];
+    }
+    return [pass(`GPU長 ${length}mm (上限: ${maxGpuLength}mm)`)];
+  }
+};
+
+// GPUの高さ
+export const gpuHeightRule: CompatibilityRule = {
+  id: 'physical.gpu_height',
+  name: 'GPU高さ',
+  category: 'physical',
+  requires: ['case', 'gpu'],
+  issueType: 'size_conflict',
+  evaluate: (context) => {
+    const height = context.specs('gpu')?.heightMm || 0;
+    const { maxGpuHeight } = getCaseLimits(context);
+    if (height <= 0) return [];
+
+    if (height > maxGpuHeight) {
+      return [fail(
+        `GPU高 ${height}mm がケース上限 ${maxGpuHeight}mm を超えています`,
+        'より幅の広いケースまたは薄型のGPUを検討してください'
+      )];
+    }
+    return [pass(`GPU高 ${height}mm (上限: ${maxGpuHeight}mm)`)];
+  }
+};
+
+// CPUクーラーの高さ
+export const coolerHeightRule: CompatibilityRule = {
+  id: 'physical.cooler_height',
+  name: 'CPUクーラー高さ',
+  category: 'physical',
+  requires: ['case', 'cooler'],
+  affects: ['case', 'cooler'],
+  issueType: 'size_conflict',
+  evaluate: (context) => {
+    const height = context.specs('cooler')?.heightMm || 0;
+    const { maxCoolerHeight } = getCaseLimits(context);
+    if (height <= 0) return [];
+
+    if (height > maxCoolerHeight) {
+      return [fail(
+        `CPUクーラー高 ${height}mm がケース上限 ${maxCoolerHeight}mm を超えています`,
+        '背の低いCPUクーラーまたは簡易水冷を検討してください'
+      )];
+    }
+    if (height > maxCoolerHeight * COOLER_HEIGHT_NEAR_LIMIT) {
+      return [warn(`クーラー高がケース上限に近いです (${height}mm / ${maxCoolerHeight}mm)`, 'サイズを再確認することを推奨します')];
+    }
+    return [pass(`CPUクーラー高 ${height}mm (上限: ${maxCoolerHeight}mm)`)];
+  }
+};
@@ -0,0 +1,105 @@
+// src/services/compatibility/rules/powerRules.ts
+// ⚡ 電源のルール（コネクタ・容量）
+
+import type { Part } from '@/types';
+import type { RuleFinding } from '@/types/compatibility';
+import type { PowerConnectorCheck } from '@/types/power';
+import { PowerCalculatorService } from '@/services/powerCalculator';
+import PowerConnectorService, { POWER_CONNECTOR_LABELS } from '@/services/powerConnectorService';
+import { CompatibilityRule, RuleContext, pass, warn, fail } from './types';
+
+// 電源ケーブルの割り当て（複数搭載構成では追加GPU・ドライブ・ファンハブも集計）
+export const checkPowerConnectors = ({ config, part }: RuleContext): PowerConnectorCheck => {
+  const additional = config.additionalComponents;
+  const expansion = additional?.expansion || [];
+  const storage = config.coreComponents ? additional?.storage || [] : [part('storage')];
+
+  return PowerConnectorService.getInstance().check({
+    motherboard: part('motherboard'),
+    cpu: part('cpu'),
+    psu: part('psu'),
+    gpus: [part('gpu'), ...expansion.filter(card => card.category === 'gpu')].filter((gpu): gpu is Part => !!gpu),
+    storage: storage.filter((drive): drive is Part => !!drive),
+    fans: additional?.fans || [],
+    accessories: additional?.accessories || [],
+    expansion: expansion.filter(card => card.category !== 'gpu')
+  });
+};
+
+// 全パーツの推定消費電力（定常最大）と推奨電源容量（過渡スパイク込み）は電力計算に委譲
+export const estimatePowerRequirement = ({ config }: RuleContext) => {
+  const { sustainedPower, recommendedPSU } = PowerCalculatorService.getInstance().calculatePowerConsumption(config);
+  return {
+    totalPower: sustainedPower,
+    recommendedWattage: recommendedPSU
+  };
+};
+
+// 必要な電源コネクタが揃っているか
+export const powerConnectorRule: CompatibilityRule = {
+  id: 'power.connectors',
+  name: '電源コネクタ',
+  category: 'power',
+  requires: ['psu'],
+  affects: ['psu', 'gpu', 'motherboard'],
+  issueType: 'connector_missing',
+  evaluate: (context) => {
+    const { shortages, adapters, missing } = checkPowerConnectors(context);
+    const findings: RuleFinding[] = [];
+
+    if (shortages.length > 0) {
+      findings.push(fail(
+        `不足している電源コネクタ: ${missing.join(', ')}`,
+        shortages.some(shortage => shortage.connector === 'highPower')
+          ? '12V-2x6（12VHPWR）ケーブル付属の ATX 3.x 電源ユニットを選択してください'
+          : '必要なコネクタを持つ電源ユニットを選択してください'
+      ));
+    }
+
+    adapters.forEach(adapter => {
+      if (!adapter.recommended) {
+        findings.push(warn(adapter.note, `${POWER_CONNECTOR_LABELS[adapter.to]}ケーブルが足りる電源ユニットを推奨します`));
+      } else if (adapter.powerLimitW && adapter.deviceDrawW && adapter.deviceDrawW >= adapter.powerLimitW) {
+        findings.push(warn(
+          `${adapter.device}: ${adapter.note}`,
+          'ネイティブの12V-2x6ケーブルを持つ電源、または PCIe 8ピン4本での接続を検討してください',
+          adapter.deviceDrawW > adapter.powerLimitW ? 'high' : 'medium'
+        ));
+      } else {
+        findings.push(warn(`${adapter.device}: ${adapter.note}`, undefined, 'low'));
+      }
+    });
+
+    return findings.length > 0 ? findings : [pass('電源コネクタに問題ありません')];
+  }
+};
+
+// 電源容量が推定消費電力に対して十分か（定常最大で不足なら不適合、推奨容量未満なら注意）
+export const powerCapacityRule: CompatibilityRule = {
+  id: 'power.capacity',
+  name: '電源容量',
+  category: 'power',
+  requires: ['psu'],
+  affects: ['psu', 'cpu', 'gpu', 'motherboard', 'memory', 'storage', 'cooler'],
+  issueType: 'power_insufficient',
+  evaluate: (context) => {
+    const wattage = context.specs('psu')?.wattage || 0;
+    const { totalPower, recommendedWattage } = estimatePowerRequirement(context);
+    if (wattage <= 0 || totalPower <= 0) return [];
+
+    if (wattage < totalPower) {
+      return [fail(
+        `電源容量不足: 推定最大 ${Math.round(totalPower)}W に対して電源 ${wattage}W`,
+        `${recommendedWattage}W以上の電源ユニットを選択してください`
+      )];
+    }
+    if (wattage < recommendedWattage) {
+      return [warn(
+        `電源容量に余裕がありません (推奨: ${recommendedWattage}W以上, 現在: ${wattage}W)`,
+        'より大容量の電源ユニットを検討してください',
+        'high'
+      )];
+    }
+    return [pass(`電源容量 ${wattage}W（推奨 ${recommendedWattage}W以上）`)];
+  }
+};
@@ -0,0 +1,104 @@
+// src/services/compatibility/rules/socketRules.ts
+// 🔌 CPUソケット・チップセットのルール（cpu-motherboard.json 駆動）
+
+import { CompatibilityRule, pass, warn, fail } from './types';
+
+// CPUとマザーボードのソケット一致
+export const socketMatchRule: CompatibilityRule = {
+  id: 'socket.match',
+  name: 'CPUソケット',
+  category: 'socket',
+  requires: ['cpu', 'motherboard'],
+  issueType: 'socket_mismatch',
+  evaluate: ({ specs, database }) => {
+    const cpuSocket = specs('cpu')?.socket;
+    const motherboardSocket = specs('motherboard')?.socket;
+
+    if (!cpuSocket || !motherboardSocket) {
+      return [fail('ソケット情報が不完全です', 'CPUとマザーボードのソケット仕様を確認してください')];
+    }
+
+    const socketData = database.getCpuSocketCompatibility(cpuSocket);
+    if (cpuSocket !== motherboardSocket) {
+      return [fail(
+        `ソケットが一致しません (CPU: ${cpuSocket}, マザーボード: ${motherboardSocket})`,
+        `${cpuSocket}対応のマザーボードまたは${motherboardSocket}対応のCPUを選択してください`
+      )];
+    }
+
+    return [pass(`ソケット ${cpuSocket} で互換性があります${socketData ? ` (${socketData.description})` : ''}`)];
+  }
+};
+
+// マザーボードのチップセットがソケットの対応チップセットか
+export const socketChipsetRule: CompatibilityRule = {
+  id: 'socket.chipset',
+  name: 'チップセット',
+  category: 'socket',
+  requires: ['cpu', 'motherboard'],
+  issueType: 'socket_mismatch',
+  evaluate: ({ specs, database }) => {
+    const cpuSocket = specs('cpu')?.socket;
+    const { socket, chipset } = specs('motherboard') || {};
+
+    // ソケット不一致は socket.match で報告済み
+    if (!cpuSocket || cpuSocket !== socket || !chipset) return [];
+
+    const supportedChipsets = database.getSupportedChipsets(cpuSocket);
+    if (supportedChipsets.length === 0) return [];
+
+    const normalized = chipset.toUpperCase();
+    if (!supportedChipsets.some(supported => normalized.startsWith(supported.toUpperCase()))) {
+      return [warn(
+        `チップセット ${chipset} は${cpuSocket}の対応チップセット（${supportedChipsets.join(', ')}）に含まれていません`,
+        'マザーボードの対応CPUリストを確認してください'
+      )];
+    }
+
+    return [pass(`チップセット ${chipset} は${cpuSocket}に対応しています`)];
+  }
+};
+
+// CPUが動作するためにマザーボードのBIOS更新が必要か
+export const socketBiosRule: CompatibilityRule = {
+  id: 'socket.bios',
+  name: 'BIOS対応',
+  category: 'socket',
+  requires: ['cpu', 'motherboard'],
+  issueType: 'socket_mismatch',
+  evaluate: ({ part, specs, database }) => {
+    const cpu = part('cpu');
+    const cpuSocket = specs('cpu')?.socket;
+    const { socket, chipset, biosFlashback } = specs('motherboard') || {};
+
+    // ソケット不一致は socket.match で報告済み
+    if (!cpu || !cpuSocket || cpuSocket !== socket || !chipset) return [];
+
+    const biosRequirement = database.getBiosRequirement(cpuSocket, chipset, cpu.name);
+    if (!biosRequirement) return [];
+
+    const { requirement, flashback } = biosRequirement;
+    if (requirement.supported === false) {
+      return [fail(
+        `${requirement.series}は${biosRequirement.chipset}チップセットに対応していません（BIOS更新でも動作しません）`,
+        `${requirement.series}対応チップセットのマザーボードを選択してください`
+      )];
+    }
+
+    // 仕様に記載があればそれを優先し、なければチップセットの傾向で判断
+    let solution: string;
+    if (biosFlashback === true || (biosFlashback === undefined && flashback === 'common')) {
+      solution = 'BIOS Flashbackに対応しているため、CPUなしでUSBメモリからBIOSを更新できます';
+    } else if (biosFlashback === undefined && flashback === 'partial') {
+      solution = 'BIOS Flashbackは一部モデルのみ対応です。非対応の場合は旧世代CPUでの更新か、購入店のBIOS更新サービスを利用してください';
+    } else {
+      solution = 'BIOS Flashback非対応のため、更新には対応済みの旧世代CPUが必要です。購入店のBIOS更新サービスも検討してください';
+    }
+
+    return [warn(
+      `BIOS更新後に動作します: ${requirement.series}には${requirement.minimumBios || '対応BIOS'}が必要です（${biosRequirement.chipset}）`,
+      solution,
+      'high'
+    )];
+  }
+};
@@ -0,0 +1,100 @@
+// src/services/compatibility/rules/thermalRules.ts
+// 🌡️ 熱設計のルール（ThermalService の温度推定から判定）
+// TDP定格での冷却能力不足は cooling.tdp で判定する
+
+import type { ThermalEstimate, ThermalWarningType } from '@/types/config';
+import type { RuleFinding } from '@/types/compatibility';
+import ThermalService from '@/services/thermalService';
+import { coolerTdpRule } from './coolingRules';
+import { CompatibilityRule, RuleContext, pass, warn } from './types';
+
+// 温度推定（熱設計の各ルールで共有するため評価コンテキストごとに1回だけ推定）
+const estimateCache = new WeakMap<RuleContext, ThermalEstimate | null>();
+
+export const estimateThermals = (context: RuleContext): ThermalEstimate | null => {
+  const cached = estimateCache.get(context);
+  if (cached !== undefined) return cached;
+
+  const { parts } = context.config;
+  const estimate = parts.cpu || parts.gpu ? ThermalService.getInstance().estimate(context.config) : null;
+  estimateCache.set(context, estimate);
+  return estimate;
+};
+
+// 指定タイプの温度警告を判定に変換
+const thermalFindings = (estimate: ThermalEstimate, types: ThermalWarningType[]): RuleFinding[] =>
+  estimate.warnings
+    .filter(warning => types.includes(warning.type))
+    .map(warning => warn(warning.message, warning.recommendation, warning.severity));
+
+// CPU電力上限（PL2/PPT）に対するクーラーの冷却能力
+export const thermalCoolerCapacityRule: CompatibilityRule = {
+  id: 'thermal.cooler_capacity',
+  name: 'クーラー冷却余力',
+  category: 'thermal',
+  requires: ['cpu'],
+  affects: ['cpu', 'cooler'],
+  issueType: 'cooling_insufficient',
+  evaluate: (context) => {
+    const estimate = estimateThermals(context);
+    if (!estimate) return [];
+
+    // TDP定格で不足している場合は cooling.tdp の報告と重複させない
+    const tdpShortage = !!context.part('cooler') && coolerTdpRule.evaluate(context).some(finding => finding.status === 'fail');
+    const findings = thermalFindings(estimate, tdpShortage ? ['cooler_missing'] : ['cooler_missing', 'cooler_underrated']);
+    return findings.length > 0 || tdpShortage ? findings : [pass('CPUの電力上限に対して冷却能力は十分です')];
+  }
+};
+
+// 高負荷時のCPUサーマルスロットリング
+export const thermalCpuThrottlingRule: CompatibilityRule = {
+  id: 'thermal.cpu_throttling',
+  name: 'CPU温度',
+  category: 'thermal',
+  requires: ['cpu'],
+  affects: ['cpu', 'cooler', 'case'],
+  issueType: 'cooling_insufficient',
+  evaluate: (context) => {
+    const estimate = estimateThermals(context);
+    if (!estimate) return [];
+
+    const findings = thermalFindings(estimate, ['cpu_throttling']);
+    return findings.length > 0 ? findings : [pass(`高負荷時のCPU温度 約${estimate.cpuTemp.max}℃`)];
+  }
+};
+
+// ゲーミング時のGPU温度
+export const thermalGpuTemperatureRule: CompatibilityRule = {
+  id: 'thermal.gpu_temperature',
+  name: 'GPU温度',
+  category: 'thermal',
+  requires: ['gpu'],
+  affects: ['gpu', 'case'],
+  issueType: 'cooling_insufficient',
+  evaluate: (context) => {
+    const estimate = estimateThermals(context);
+    if (!estimate) return [];
+
+    const findings = thermalFindings(estimate, ['gpu_hot']);
+    return findings.length > 0 ? findings : [pass(`高負荷時のGPU温度 約${estimate.gpuTemp.max}℃`)];
+  }
+};
+
+// ケースのエアフロー（ケース未選択時は標準的なケースで推定）
+export const thermalCaseAirflowRule: CompatibilityRule = {
+  id: 'thermal.case_airflow',
+  name: 'ケースエアフロー',
+  category: 'thermal',
+  requires: [],
+  affects: ['case', 'cpu', 'gpu'],
+  issueType: 'cooling_insufficient',
+  evaluate: (context) => {
+    const estimate = estimateThermals(context);
+    if (!estimate) return [];
+
+    const findings = thermalFindings(estimate, ['case_airflow']);
+    return findings.length > 0
+      ? findings
+      : [pass(`推定風量 ${estimate.caseAirflowCfm}CFM（ケースファン ${estimate.caseFanCount}基）`)];
+  }
+};
@@ -0,0 +1,42 @@
+// src/services/compatibility/rules/types.ts
+// 🧩 互換性ルールの定義 - 1ルール = 1判定（ID付きで結果を追跡可能にする）
+
+import type { AdditionalComponents, CoreComponents, Part, PartCategory, PCConfiguration } from '@/types';
+import type { SpecsOf } from '@/types/specs';
+import type { CompatibilityIssueType, CompatibilityRuleCategory, RuleFinding } from '@/types/compatibility';
+import type { CompatibilityDatabaseService } from '@/services/compatibilityDatabase';
+
+// 評価対象の構成（core/additional は複数搭載構成の場合のみ）
+export type RuleConfiguration = Pick<PCConfiguration, 'parts'> & {
+  coreComponents?: Partial<CoreComponents>;
+  additionalComponents?: Partial<AdditionalComponents>;
+};
+
+// ルール評価時に渡される構成とデータ
+export interface RuleContext {
+  config: RuleConfiguration;
+  part: (category: PartCategory) => Part | null;
+  specs: <C extends PartCategory>(category: C) => SpecsOf<C> | null;
+  database: CompatibilityDatabaseService;
+}
+
+export interface CompatibilityRule {
+  id: string;                          // 'socket.match' 形式（カテゴリ.判定内容）
+  name: string;
+  category: CompatibilityRuleCategory;
+  requires: PartCategory[];            // すべて選択済みの場合のみ評価
+  affects?: PartCategory[];            // 関連パーツ（省略時は requires）
+  issueType: CompatibilityIssueType;   // fail 時の問題タイプ
+  evaluate: (context: RuleContext) => RuleFinding[];
+}
+
+// 判定の生成ヘルパー
+export const pass = (message: string): RuleFinding => ({ status: 'pass', message });
+
+export const warn = (
+  message: string,
+  solution?: string,
+  priority: RuleFinding['priority'] = 'medium'
+): RuleFinding => ({ status: 'warning', message, solution, priority });
+
+export const fail = (message: string, solution?: string): RuleFinding => ({ status: 'fail', message, solution });
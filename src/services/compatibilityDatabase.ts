@@ -15,6 +15,30 @@ export interface CompatibilityDatabase {
   version: string;
 }
 
+// ソケットの世代サポート状況（cpu-motherboard.json の lifecycle）
+export interface SocketLifecycle {
+  status: 'active' | 'end_of_life';
+  finalCpu: string;           // このソケットで換装できる最上位CPU
+  upgradePath: string;
+}
+
+// チップセットのBIOS Flashback 搭載状況（common: 大半のモデル / partial: 一部モデル / none: 非搭載）
+export type BiosFlashbackAvailability = 'common' | 'partial' | 'none';
+
+// CPUシリーズごとのBIOS要件（cpu-motherboard.json の biosRequirements）
+export interface CpuBiosRequirement {
+  series: string;
+  cpuPattern: string;         // CPU名に対する正規表現
+  minimumBios?: string;
+  supported?: boolean;        // false: BIOS更新でも非対応
+}
+
+export interface ChipsetBiosRequirement {
+  chipset: string;
+  flashback: BiosFlashbackAvailability;
+  requirement: CpuBiosRequirement;
+}
+
 export class CompatibilityDatabaseService {
   private static instance: CompatibilityDatabaseService;
   private database: CompatibilityDatabase;
@@ -43,12 +67,46 @@ export class CompatibilityDatabaseService {
     return (this.database.cpuMotherboard.socketCompatibility as any)[socket] || null;
   }
 
+  // ソケットの世代サポート状況取得
+  public getSocketLifecycle(socket: string): SocketLifecycle | null {
+    return this.getCpuSocketCompatibility(socket)?.lifecycle || null;
+  }
+
+  // CPUとチップセットの組み合わせで必要なBIOS要件を取得（要件なしは null）
+  public getBiosRequirement(socket: string, chipset: string, cpuName: string): ChipsetBiosRequirement | null {
+    const requirements: Record<string, { flashback: BiosFlashbackAvailability; cpuRequirements: CpuBiosRequirement[] }> =
+      this.getCpuSocketCompatibility(socket)?.biosRequirements || {};
+
+    // 'B650E' と 'B650' のような前方一致は長いキーを優先
+    const normalized = chipset.toUpperCase();
+    const key = Object.keys(requirements)
+      .filter(candidate => normalized.startsWith(candidate.toUpperCase()))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!key) return null;
+
+    const requirement = requirements[key].cpuRequirements.find(entry => new RegExp(entry.cpuPattern, 'i').test(cpuName));
+    return requirement ? { chipset: key, flashback: requirements[key].flashback, requirement } : null;
+  }
+
   // メモリ互換性データ取得
   public getMemoryCompatibility(memoryType: string) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     return (this.database.memorySpecs.memoryCompatibility as any)[memoryType] || null;
   }
 
+  // 装着枚数（DPC）とランク数による実用上限速度（不明は null）
+  public getMemorySpeedLimit(memoryType: string, dimmsPerChannel: 1 | 2, ranks: 1 | 2): number | null {
+    const limits = (this.database.memorySpecs.populationSpeedLimits as Record<string, unknown>)[memoryType] as
+      Record<string, number> | undefined;
+    return limits?.[`${dimmsPerChannel}DPC_${ranks}R`] ?? null;
+  }
+
+  // このモジュール容量以上はデュアルランクとみなす（GB）
+  public getDualRankThreshold(memoryType: string): number | null {
+    const thresholds: Record<string, number> = this.database.memorySpecs.populationSpeedLimits.dualRankThresholdGB;
+    return thresholds[memoryType] ?? null;
+  }
+
   // 電源要件データ取得
   public getGpuPowerRequirements(gpuModel: string) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -80,6 +138,28 @@ export class CompatibilityDatabaseService {
     return (this.database.powerRequirements.powerSupplyConnectors as any)[psuCategory] || null;
   }
 
+  // 容量帯から標準的な電源コネクタ構成を取得（コネクタ仕様がない電源用）
+  public getTypicalPsuConnectors(wattage: number): Record<string, number> | null {
+    const categories = Object.values(this.database.powerRequirements.powerSupplyConnectors);
+    const match = categories.find(({ range }) => {
+      const [min, max] = range.match(/\d+/g)?.map(Number) || [];
+      return wattage >= min && (max === undefined || wattage <= max);
+    });
+    // 容量帯の隙間（例: 600〜650W）は直下の容量帯を使用
+    const fallback = [...categories].reverse().find(({ range }) => wattage >= Number(range.match(/\d+/)?.[0]));
+    return (match || fallback)?.connectors || null;
+  }
+
+  // 12V-2x6 変換アダプタの供給上限（PCIe 8ピンの本数ごと）
+  public getHighPowerAdapterLimit(pcie8Count: number): number | null {
+    const { powerLimits } = this.database.powerRequirements.connectorAdapters.highPowerFromPcie8;
+    return (powerLimits as Record<string, number>)[String(pcie8Count)] ?? null;
+  }
+
+  public getConnectorAdapters() {
+    return this.database.powerRequirements.connectorAdapters;
+  }
+
   // メモリ推奨構成取得
   public getMemoryRecommendations(memoryType: string, useCase: string) {
     const memoryData = this.getMemoryCompatibility(memoryType);
@@ -0,0 +1,218 @@
+// src/services/configurationComparison.ts
+// ⚖️ 構成比較サービス - 保存済み構成（2〜4件）の指標比較と用途別おすすめ
+
+import { PCConfiguration, PartCategory } from '@/types';
+import {
+  ConfigurationComparison,
+  ComparisonMetrics,
+  ComparisonPartDifference,
+  ComparisonRecommendation,
+  ComparisonUseCase,
+  ComparisonValue
+} from '@/types/config';
+import { EnhancedCompatibilityCheckerService } from '@/services/compatibilityChecker.enhanced';
+import { PowerCalculatorService } from '@/services/powerCalculator';
+import PerformancePredictionService from '@/services/performancePrediction';
+import NoiseService from '@/services/noiseService';
+import UpgradeabilityService from '@/services/upgradeabilityService';
+
+export const MIN_COMPARISON_CONFIGS = 2;
+export const MAX_COMPARISON_CONFIGS = 4;
+
+// 比較表の行順
+const COMPARISON_CATEGORIES: PartCategory[] = [
+  'cpu', 'cooler', 'motherboard', 'memory', 'storage', 'gpu', 'case', 'psu', 'monitor'
+];
+
+// 1構成分の算出値
+interface ConfigurationMeasurement {
+  configId: string;
+  price: number;
+  performance: number;
+  fps: number;
+  useCases: Record<ComparisonUseCase, number>;
+  compatibility: number;
+  power: number;
+  noise: number;
+  upgradeability: number;
+}
+
+export class ConfigurationComparisonService {
+  private static instance: ConfigurationComparisonService;
+  private compatibilityChecker = EnhancedCompatibilityCheckerService.getInstance();
+  private powerCalculator = PowerCalculatorService.getInstance();
+  private performancePrediction = PerformancePredictionService.getInstance();
+  private noiseService = NoiseService.getInstance();
+  private upgradeabilityService = UpgradeabilityService.getInstance();
+
+  private constructor() {}
+
+  // シングルトンパターン
+  public static getInstance(): ConfigurationComparisonService {
+    if (!ConfigurationComparisonService.instance) {
+      ConfigurationComparisonService.instance = new ConfigurationComparisonService();
+    }
+    return ConfigurationComparisonService.instance;
+  }
+
+  /**
+   * 構成を比較（2〜4件）
+   */
+  public compare(configurations: PCConfiguration[]): ConfigurationComparison {
+    if (configurations.length < MIN_COMPARISON_CONFIGS || configurations.length > MAX_COMPARISON_CONFIGS) {
+      throw new Error(`Comparison requires ${MIN_COMPARISON_CONFIGS}-${MAX_COMPARISON_CONFIGS} configurations`);
+    }
+
+    const measurements = configurations.map(config => this.measure(config));
+    const metrics = this.createMetrics(measurements);
+
+    return {
+      configurations,
+      metrics,
+      differences: this.createDifferences(configurations),
+      recommendations: this.createRecommendations(configurations, measurements, metrics),
+      comparedAt: new Date()
+    };
+  }
+
+  // ===========================================
+  // 🔧 指標の算出
+  // ===========================================
+
+  private measure(config: PCConfiguration): ConfigurationMeasurement {
+    const hasParts = Object.values(config.parts).some(Boolean);
+    const performance = this.performancePrediction.predictPerformance(config);
+    const power = hasParts ? this.powerCalculator.calculatePowerConsumption(config) : null;
+    const compatibility = hasParts ? this.compatibilityChecker.checkFullCompatibility(config) : null;
+
+    return {
+      configId: config.id,
+      price: Object.values(config.parts).reduce((sum, part) => sum + (part?.price || 0), 0),
+      performance: performance.overallScore,
+      fps: performance.gamingPerformance.averageFps['1440p'] || 0,
+      useCases: {
+        gaming: performance.useCaseScores.gaming,
+        contentCreation: performance.useCaseScores.contentCreation,
+        workstation: performance.useCaseScores.workstation
+      },
+      compatibility: compatibility?.score ?? 0,
+      power: power?.totalMaxPower ?? 0,
+      noise: hasParts ? this.noiseService.estimate(config).loadNoise : 0,
+      upgradeability: hasParts ? this.upgradeabilityService.evaluate(config).overall : 0
+    };
+  }
+
+  private createMetrics(measurements: ConfigurationMeasurement[]): ComparisonMetrics {
+    const rank = (select: (m: ConfigurationMeasurement) => number, lowerIsBetter = false) =>
+      this.rankValues(measurements.map(m => ({ configId: m.configId, value: select(m) })), lowerIsBetter);
+
+    return {
+      price: rank(m => m.price, true),
+      performance: rank(m => m.performance),
+      fps: rank(m => m.fps),
+      useCases: {
+        gaming: rank(m => m.useCases.gaming),
+        contentCreation: rank(m => m.useCases.contentCreation),
+        workstation: rank(m => m.useCases.workstation)
+      },
+      compatibility: rank(m => m.compatibility),
+      power: rank(m => m.power, true),
+      noise: rank(m => m.noise, true),
+      upgradeability: rank(m => m.upgradeability)
+    };
+  }
+
+  // 同値は同順位、percentageDiff は最良値との差（%）
+  private rankValues(values: { configId: string; value: number }[], lowerIsBetter: boolean): ComparisonValue[] {
+    const sorted = [...values].sort((a, b) => (lowerIsBetter ? a.value - b.value : b.value - a.value));
+    const best = sorted[0]?.value ?? 0;
+
+    return values.map(({ configId, value }) => ({
+      configId,
+      value,
+      rank: sorted.findIndex(entry => entry.value === value) + 1,
+      percentageDiff: best !== 0 ? Math.round(((value - best) / Math.abs(best)) * 1000) / 10 : 0
+    }));
+  }
+
+  private createDifferences(configurations: PCConfiguration[]): ComparisonPartDifference[] {
+    return COMPARISON_CATEGORIES
+      .filter(category => configurations.some(config => config.parts[category]))
+      .map(category => {
+        const parts = Object.fromEntries(configurations.map(config => [config.id, config.parts[category] || null]));
+        const ids = new Set(configurations.map(config => config.parts[category]?.id || null));
+        return { category, parts, isSame: ids.size === 1 };
+      });
+  }
+
+  // ===========================================
+  // 🔧 おすすめ判定
+  // ===========================================
+
+  private createRecommendations(
+    configurations: PCConfiguration[],
+    measurements: ConfigurationMeasurement[],
+    metrics: ComparisonMetrics
+  ): ComparisonRecommendation[] {
+    const nameOf = (configId: string) => configurations.find(c => c.id === configId)?.name || configId;
+    const pickBest = (select: (m: ConfigurationMeasurement) => number, lowerIsBetter = false) =>
+      [...measurements]
+        .filter(m => m.price > 0)
+        .sort((a, b) => (lowerIsBetter ? select(a) - select(b) : select(b) - select(a)))[0];
+
+    const recommendations: ComparisonRecommendation[] = [];
+    const add = (
+      type: ComparisonRecommendation['type'],
+      best: ConfigurationMeasurement | undefined,
+      score: number,
+      reasoning: string
+    ) => {
+      if (best && score > 0) recommendations.push({ type, configId: best.configId, score: Math.round(score), reasoning });
+    };
+
+    const gaming = pickBest(m => m.useCases.gaming);
+    add('best_gaming', gaming, gaming?.useCases.gaming ?? 0,
+      `${nameOf(gaming?.configId || '')}はゲーミングスコアが最も高く、1440pで平均${gaming?.fps ?? 0}FPSが見込めます`);
+
+    const creation = pickBest(m => m.useCases.contentCreation);
+    add('best_content_creation', creation, creation?.useCases.contentCreation ?? 0,
+      `${nameOf(creation?.configId || '')}は動画編集・3D制作向けのスコアが最も高い構成です`);
+
+    const workstation = pickBest(m => m.useCases.workstation);
+    add('best_workstation', workstation, workstation?.useCases.workstation ?? 0,
+      `${nameOf(workstation?.configId || '')}はマルチスレッド処理・業務用途に最も適しています`);
+
+    const performance = pickBest(m => m.performance);
+    add('best_performance', performance, performance?.performance ?? 0,
+      `${nameOf(performance?.configId || '')}は総合性能スコアが最も高い構成です`);
+
+    // 1万円あたりの性能スコア
+    const valueOf = (m: ConfigurationMeasurement) => (m.price > 0 ? m.performance / (m.price / 10000) : 0);
+    const value = pickBest(valueOf);
+    add('best_value', value, value ? valueOf(value) : 0,
+      `${nameOf(value?.configId || '')}は価格あたりの性能が最も高い構成です`);
+
+    // 消費電力あたりの性能スコア
+    const efficiencyOf = (m: ConfigurationMeasurement) => (m.power > 0 ? (m.performance / m.power) * 100 : 0);
+    const efficient = pickBest(efficiencyOf);
+    add('most_efficient', efficient, efficient ? efficiencyOf(efficient) : 0,
+      `${nameOf(efficient?.configId || '')}は消費電力あたりの性能が最も高く、最大${efficient?.power ?? 0}Wに収まります`);
+
+    const upgradeable = pickBest(m => m.upgradeability);
+    add('most_upgradeable', upgradeable, upgradeable?.upgradeability ?? 0,
+      `${nameOf(upgradeable?.configId || '')}はプラットフォームと電源に最も拡張余地があります`);
+
+    // 各指標の順位の平均が最も良い構成
+    const averageRank = (configId: string) => {
+      const ranks = [metrics.price, metrics.performance, metrics.compatibility, metrics.power, metrics.upgradeability].map(values => values.find(v => v.configId === configId)?.rank || measurements.length);
+      return ranks.reduce((sum, r) => sum + r, 0) / ranks.length;
+    };
+    const balanced = pickBest(m => averageRank(m.configId), true);
+    add('most_balanced', balanced, balanced ? (measurements.length - averageRank(balanced.configId) + 1) / measurements.length * 100 : 0,
+      `${nameOf(balanced?.configId || '')}は価格・性能・互換性・消費電力のバランスが最も良い構成です`);
+
+    return recommendations;
+  }
+}
+
+export default ConfigurationComparisonService;
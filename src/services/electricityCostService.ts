@@ -0,0 +1,153 @@
+// src/services/electricityCostService.ts
+// 💡 電気代・CO2試算サービス - 使用プロファイル × 負荷シナリオ × 電源効率曲線 × 地域別段階料金
+
+import { PCConfiguration } from '@/types';
+import {
+  ElectricityCostOptions,
+  ElectricityCostProjection,
+  ElectricityTariff,
+  LOAD_SCENARIOS,
+  PowerCalculationResult,
+  ScenarioEnergy,
+  USAGE_PROFILES,
+  UsageProfile,
+  YearlyElectricityProjection
+} from '@/types/power';
+import { getElectricityTariff } from '@/data/electricityTariffs';
+import { PowerCalculatorService } from '@/services/powerCalculator';
+
+const DEFAULT_YEARS = 5;
+// 一般家庭（2〜3人世帯）の月間使用量の目安 (kWh)
+const DEFAULT_HOUSEHOLD_BASE_KWH = 260;
+
+const WEEKDAYS_PER_WEEK = 5;
+const WEEKEND_DAYS_PER_WEEK = 2;
+const WEEKS_PER_MONTH = 365 / 12 / 7;
+
+export class ElectricityCostService {
+  private static instance: ElectricityCostService;
+  private powerCalculator = PowerCalculatorService.getInstance();
+
+  private constructor() {}
+
+  // シングルトンパターン
+  public static getInstance(): ElectricityCostService {
+    if (!ElectricityCostService.instance) {
+      ElectricityCostService.instance = new ElectricityCostService();
+    }
+    return ElectricityCostService.instance;
+  }
+
+  /**
+   * 構成の電気代・CO2排出量を複数年で試算
+   */
+  public project(
+    config: PCConfiguration,
+    options: ElectricityCostOptions = {},
+    powerResult: PowerCalculationResult = this.powerCalculator.calculatePowerConsumption(config)
+  ): ElectricityCostProjection {
+    const profile = this.getUsageProfile(options.profileId);
+    const tariff = getElectricityTariff(options.tariffId);
+    const years = Math.max(1, Math.round(options.years ?? DEFAULT_YEARS));
+    const householdBaseKwh = options.householdBaseKwh ?? DEFAULT_HOUSEHOLD_BASE_KWH;
+    const annualRateIncrease = options.annualRateIncrease ?? 0;
+
+    const { psuCapacity, curve } = powerResult.psuEfficiency;
+
+    const scenarios = LOAD_SCENARIOS.map(scenario => {
+      const weeklyHours = (profile.weekdayHours[scenario.name] || 0) * WEEKDAYS_PER_WEEK +
+        (profile.weekendHours[scenario.name] || 0) * WEEKEND_DAYS_PER_WEEK;
+      const dcPower = this.getScenarioPower(powerResult, scenario.cpuLoad, scenario.gpuLoad, scenario.systemLoad);
+      const load = psuCapacity > 0 ? dcPower / psuCapacity : 0;
+      const efficiency = this.powerCalculator.interpolateEfficiency(curve, load);
+      const wallPower = dcPower / efficiency;
+
+      const energy: ScenarioEnergy = {
+        scenario: scenario.name,
+        description: scenario.description,
+        dcPower: Math.round(dcPower),
+        loadPercentage: Math.round(load * 100),
+        efficiency: Math.round(efficiency * 1000) / 1000,
+        wallPower: Math.round(wallPower),
+        weeklyHours,
+        monthlyKwh: (wallPower * weeklyHours * WEEKS_PER_MONTH) / 1000
+      };
+      return energy;
+    });
+
+    const monthlyKwh = scenarios.reduce((sum, scenario) => sum + scenario.monthlyKwh, 0);
+    const monthlyCost = this.calculateMarginalCost(tariff, householdBaseKwh, monthlyKwh);
+
+    let cumulativeCost = 0;
+    let cumulativeCo2Kg = 0;
+    const yearly: YearlyElectricityProjection[] = Array.from({ length: years }, (_, index) => {
+      const cost = monthlyCost * 12 * Math.pow(1 + annualRateIncrease, index);
+      const co2Kg = monthlyKwh * 12 * tariff.co2Factor;
+      cumulativeCost += cost;
+      cumulativeCo2Kg += co2Kg;
+      return {
+        year: index + 1,
+        kwh: Math.round(monthlyKwh * 12),
+        cost: Math.round(cost),
+        co2Kg: Math.round(co2Kg * 10) / 10,
+        cumulativeCost: Math.round(cumulativeCost),
+        cumulativeCo2Kg: Math.round(cumulativeCo2Kg * 10) / 10
+      };
+    });
+
+    return {
+      profile,
+      tariff,
+      psuCapacity,
+      scenarios,
+      monthlyKwh: Math.round(monthlyKwh * 10) / 10,
+      monthlyCost: Math.round(monthlyCost),
+      yearlyKwh: Math.round(monthlyKwh * 12),
+      yearlyCost: Math.round(monthlyCost * 12),
+      yearlyCo2Kg: Math.round(monthlyKwh * 12 * tariff.co2Factor * 10) / 10,
+      years: yearly,
+      totalCost: Math.round(cumulativeCost),
+      totalCo2Kg: Math.round(cumulativeCo2Kg * 10) / 10
+    };
+  }
+
+  public getUsageProfile(id?: string): UsageProfile {
+    return USAGE_PROFILES.find(profile => profile.id === id) || USAGE_PROFILES[0];
+  }
+
+  /**
+   * 段階料金で、家庭の基本使用量に上乗せされるPC分の電気代を計算
+   */
+  public calculateMarginalCost(tariff: ElectricityTariff, householdBaseKwh: number, pcKwh: number): number {
+    return this.calculateEnergyCharge(tariff, householdBaseKwh + pcKwh) - this.calculateEnergyCharge(tariff, householdBaseKwh);
+  }
+
+  // 月間使用量に対する電力量料金（基本料金は使用量に依存しないため含めない）
+  private calculateEnergyCharge(tariff: ElectricityTariff, kwh: number): number {
+    let charge = 0;
+    let lowerBound = 0;
+    for (const tier of tariff.tiers) {
+      const upperBound = tier.upToKwh ?? Infinity;
+      if (kwh > lowerBound) {
+        charge += (Math.min(kwh, upperBound) - lowerBound) * tier.rate;
+      }
+      lowerBound = upperBound;
+    }
+    return charge + kwh * tariff.surcharge;
+  }
+
+  // シナリオの負荷率でアイドル〜最大の間を補間（CPU/GPU以外はシステム負荷率）
+  private getScenarioPower(
+    powerResult: PowerCalculationResult,
+    cpuLoad: number,
+    gpuLoad: number,
+    systemLoad: number
+  ): number {
+    return powerResult.consumptions.reduce((sum, consumption) => {
+      const load = consumption.category === 'cpu' ? cpuLoad : consumption.category === 'gpu' ? gpuLoad : systemLoad;
+      return sum + consumption.idlePower + (consumption.maxPower - consumption.idlePower) * load;
+    }, 0);
+  }
+}
+
+export default ElectricityCostService;
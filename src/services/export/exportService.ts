@@ -0,0 +1,339 @@
+// src/services/export/exportService.ts
+// 📤 構成エクスポートサービス - 形式別エクスポーターの登録と出力コンテキスト生成
+
+import { PCConfiguration, PartCategory, CompatibilityResult, PowerCalculationResult } from '@/types';
+import { ExportFormat, ExportOptions } from '@/types/config';
+import { EnhancedCompatibilityCheckerService } from '@/services/compatibilityChecker.enhanced';
+import { PowerCalculatorService } from '@/services/powerCalculator';
+import PerformancePredictionService, { PerformancePredictionResult } from '@/services/performancePrediction';
+import { BUILTIN_EXPORTERS } from './exporters';
+
+// エクスポーター（形式ごとのレンダラー）
+export interface ConfigurationExporter {
+  format: ExportFormat;
+  extension: string;
+  mimeType: string;
+  render(context: ExportContext): string;
+}
+
+// パーツ1行分の出力データ
+export interface ExportPartRow {
+  category: PartCategory;
+  categoryLabel: string;
+  name: string;
+  manufacturer: string;
+  price: number;              // 出力通貨に換算済み
+  priceText: string;
+  specs: [string, string][];  // includeSpecs 時のみ
+  imageUrl?: string;          // includeImages 時のみ
+  url?: string;
+}
+
+// 各エクスポーターに渡すコンテキスト
+export interface ExportContext {
+  configuration: PCConfiguration;
+  options: ExportOptions;
+  labels: ExportLabels;
+  rows: ExportPartRow[];
+  totalPriceText: string;
+  budgetText?: string;
+  remainingText?: string;
+  compatibility?: CompatibilityResult;
+  power?: PowerCalculationResult;
+  performance?: PerformancePredictionResult;
+  exportedAt: Date;
+  formatPrice: (priceJpy: number) => string;
+  formatDate: (date: Date) => string;
+}
+
+export interface ExportOutput {
+  format: ExportFormat;
+  content: string;
+  mimeType: string;
+  filename: string;
+}
+
+export type ExportLabels = typeof EXPORT_LABELS['ja'];
+
+// 出力ラベル（言語別）
+const EXPORT_LABELS = {
+  ja: {
+    title: 'PC構成',
+    category: 'カテゴリ',
+    part: 'パーツ',
+    manufacturer: 'メーカー',
+    price: '価格',
+    specs: '仕様',
+    total: '合計',
+    budget: '予算',
+    remaining: '残り予算',
+    summary: '概要',
+    compatibility: '互換性チェック',
+    compatible: '互換性に問題はありません',
+    incompatible: '互換性に問題があります',
+    score: 'スコア',
+    issues: '問題',
+    warnings: '警告',
+    power: '消費電力',
+    basePower: '通常時',
+    maxPower: '最大',
+    idlePower: 'アイドル時',
+    recommendedPsu: '推奨電源容量',
+    psuLoad: '電源負荷率',
+    performance: '性能予測',
+    overallScore: '総合スコア',
+    recommendedResolution: '推奨解像度',
+    bottleneck: 'ボトルネック',
+    averageFps: '平均FPS',
+    exportedAt: '出力日時',
+    generatedBy: 'PC DESIGN STUDIO で作成',
+    noParts: 'パーツが選択されていません',
+    categories: {
+      cpu: 'CPU',
+      motherboard: 'マザーボード',
+      memory: 'メモリ',
+      storage: 'ストレージ',
+      gpu: 'グラフィックボード',
+      psu: '電源ユニット',
+      case: 'PCケース',
+      cooler: 'CPUクーラー',
+      monitor: 'モニター',
+      other: 'その他'
+    } as Record<PartCategory, string>
+  },
+  en: {
+    title: 'PC Build',
+    category: 'Type',
+    part: 'Item',
+    manufacturer: 'Manufacturer',
+    price: 'Price',
+    specs: 'Specs',
+    total: 'Total',
+    budget: 'Budget',
+    remaining: 'Remaining',
+    summary: 'Summary',
+    compatibility: 'Compatibility',
+    compatible: 'No compatibility issues found',
+    incompatible: 'Compatibility issues found',
+    score: 'Score',
+    issues: 'Issues',
+    warnings: 'Warnings',
+    power: 'Power Consumption',
+    basePower: 'Typical',
+    maxPower: 'Peak',
+    idlePower: 'Idle',
+    recommendedPsu: 'Recommended PSU',
+    psuLoad: 'PSU Load',
+    performance: 'Performance Estimate',
+    overallScore: 'Overall Score',
+    recommendedResolution: 'Recommended Resolution',
+    bottleneck: 'Bottleneck',
+    averageFps: 'Average FPS',
+    exportedAt: 'Exported',
+    generatedBy: 'Generated by PC DESIGN STUDIO',
+    noParts: 'No parts selected',
+    categories: {
+      cpu: 'CPU',
+      motherboard: 'Motherboard',
+      memory: 'Memory',
+      storage: 'Storage',
+      gpu: 'Video Card',
+      psu: 'Power Supply',
+      case: 'Case',
+      cooler: 'CPU Cooler',
+      monitor: 'Monitor',
+      other: 'Other'
+    } as Record<PartCategory, string>
+  }
+};
+
+// 円からの参考換算レート（価格データは円建て）
+const EXCHANGE_RATES_FROM_JPY: Record<ExportOptions['currency'], number> = {
+  JPY: 1,
+  USD: 0.0067,
+  EUR: 0.0062
+};
+
+// 出力順
+const CATEGORY_ORDER: PartCategory[] = [
+  'cpu', 'cooler', 'motherboard', 'memory', 'storage', 'gpu', 'case', 'psu', 'monitor', 'other'
+];
+
+const DEFAULT_OPTIONS: ExportOptions = {
+  includeImages: false,
+  includePrices: true,
+  includeSpecs: false,
+  includeCompatibility: true,
+  includePowerCalculation: true,
+  includePerformanceEstimate: false,
+  language: 'ja',
+  currency: 'JPY',
+  theme: 'light'
+};
+
+export class ExportService {
+  private static instance: ExportService;
+  private exporters = new Map<ExportFormat, ConfigurationExporter>();
+  private compatibilityChecker = EnhancedCompatibilityCheckerService.getInstance();
+  private powerCalculator = PowerCalculatorService.getInstance();
+  private performancePrediction = PerformancePredictionService.getInstance();
+
+  private constructor() {
+    BUILTIN_EXPORTERS.forEach(exporter => this.registerExporter(exporter));
+  }
+
+  // シングルトンパターン
+  public static getInstance(): ExportService {
+    if (!ExportService.instance) {
+      ExportService.instance = new ExportService();
+    }
+    return ExportService.instance;
+  }
+
+  /**
+   * エクスポーターを登録（同じ形式は上書き）
+   */
+  public registerExporter(exporter: ConfigurationExporter): void {
+    this.exporters.set(exporter.format, exporter);
+  }
+
+  public getSupportedFormats(): ExportFormat[] {
+    return Array.from(this.exporters.keys());
+  }
+
+  public getDefaultOptions(overrides: Partial<ExportOptions> = {}): ExportOptions {
+    return { ...DEFAULT_OPTIONS, ...overrides };
+  }
+
+  /**
+   * 構成を指定形式で出力
+   */
+  public export(
+    configuration: PCConfiguration,
+    format: ExportFormat,
+    options: Partial<ExportOptions> = {}
+  ): ExportOutput {
+    const exporter = this.exporters.get(format);
+    if (!exporter) {
+      throw new Error(`Unsupported export format: ${format}`);
+    }
+
+    const context = this.createContext(configuration, this.getDefaultOptions(options));
+    return {
+      format,
+      content: exporter.render(context),
+      mimeType: exporter.mimeType,
+      filename: `${this.sanitizeFilename(configuration.name)}.${exporter.extension}`
+    };
+  }
+
+  /**
+   * 出力をダウンロード（PDFは印刷ダイアログから「PDFに保存」）
+   */
+  public download(output: ExportOutput): void {
+    if (output.format === 'pdf') {
+      const printWindow = window.open('', '_blank');
+      if (printWindow) {
+        printWindow.document.write(output.content);
+        printWindow.document.close();
+        return;
+      }
+    }
+
+    const blob = new Blob([output.content], { type: output.mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = output.filename;
+    // Firefox 等は DOM に追加されていないリンクのクリックを無視するため一時的に追加
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // クリック直後に破棄するとダウンロード開始前に URL が無効になるブラウザがあるため遅延
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  // ===========================================
+  // 🔧 コンテキスト生成
+  // ===========================================
+
+  private createContext(configuration: PCConfiguration, options: ExportOptions): ExportContext {
+    const labels = EXPORT_LABELS[options.language] || EXPORT_LABELS.ja;
+    const rate = EXCHANGE_RATES_FROM_JPY[options.currency] ?? 1;
+    const numberFormat = new Intl.NumberFormat(options.language === 'en' ? 'en-US' : 'ja-JP', {
+      style: 'currency',
+      currency: options.currency,
+      maximumFractionDigits: options.currency === 'JPY' ? 0 : 2
+    });
+    const formatPrice = (priceJpy: number) => numberFormat.format(priceJpy * rate);
+    const formatDate = (date: Date) => date.toLocaleString(options.language === 'en' ? 'en-US' : 'ja-JP');
+
+    const rows: ExportPartRow[] = CATEGORY_ORDER.flatMap(category => {
+      const part = configuration.parts[category];
+      if (!part) return [];
+      return [{
+        category,
+        categoryLabel: labels.categories[category] || category,
+        name: part.name,
+        manufacturer: part.manufacturer || part.brand || '',
+        price: part.price * rate,
+        priceText: formatPrice(part.price),
+        specs: options.includeSpecs ? this.formatSpecs(part.specifications) : [],
+        imageUrl: options.includeImages ? this.getImageUrl(part.specifications) : undefined,
+        url: part.url
+      }];
+    });
+
+    const totalPrice = rows.length > 0
+      ? Object.values(configuration.parts).reduce((sum, part) => sum + (part?.price || 0), 0)
+      : 0;
+    const hasCpuAndGpu = Boolean(configuration.parts.cpu && configuration.parts.gpu);
+
+    return {
+      configuration,
+      options,
+      labels,
+      rows,
+      totalPriceText: formatPrice(totalPrice),
+      budgetText: configuration.budget ? formatPrice(configuration.budget) : undefined,
+      remainingText: configuration.budget ? formatPrice(configuration.budget - totalPrice) : undefined,
+      compatibility: options.includeCompatibility && rows.length > 0
+        ? this.compatibilityChecker.checkFullCompatibility(configuration)
+        : undefined,
+      power: options.includePowerCalculation && rows.length > 0
+        ? this.powerCalculator.calculatePowerConsumption(configuration)
+        : undefined,
+      performance: options.includePerformanceEstimate && hasCpuAndGpu
+        ? this.performancePrediction.predictPerformance(configuration)
+        : undefined,
+      exportedAt: new Date(),
+      formatPrice,
+      formatDate
+    };
+  }
+
+  // 表示用のため元の仕様値をそのまま文字列化
+  private formatSpecs(specifications: Record<string, unknown>): [string, string][] {
+    return Object.entries(specifications || {})
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(([key, value]) => {
+        if (Array.isArray(value)) return [key, value.join(', ')];
+        if (typeof value === 'object') {
+          return [key, Object.entries(value as Record<string, unknown>).map(([k, v]) => `${k}: ${v}`).join(', ')];
+        }
+        if (typeof value === 'boolean') return [key, value ? 'Yes' : 'No'];
+        return [key, String(value)];
+      });
+  }
+
+  private getImageUrl(specifications: Record<string, unknown>): string | undefined {
+    const imageUrl = specifications?.imageUrl;
+    return typeof imageUrl === 'string' ? imageUrl : undefined;
+  }
+
+  private sanitizeFilename(name: string): string {
+    return (name || 'pc-configuration').replace(/[\\/:*?"<>|\s]+/g, '_');
+  }
+}
+
+export default ExportService;
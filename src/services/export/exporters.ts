@@ -0,0 +1,278 @@
+// src/services/export/exporters.ts
+// 📤 組み込みエクスポーター（JSON / CSV / Markdown / HTML / PDF / PCPartPicker / カスタム）
+
+import type { ConfigurationExporter, ExportContext } from './exportService';
+
+// ===========================================
+// 🔧 共通ヘルパー
+// ===========================================
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeMarkdownCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+// 互換性・電力・性能のサマリー行（key, value）
+const summaryLines = (context: ExportContext): [string, string][] => {
+  const { labels, compatibility, power, performance } = context;
+  const lines: [string, string][] = [];
+
+  if (compatibility) {
+    lines.push([
+      labels.compatibility,
+      `${compatibility.isCompatible ? labels.compatible : labels.incompatible} (${labels.score}: ${compatibility.score})`
+    ]);
+    compatibility.issues.forEach(issue => lines.push([labels.issues, issue.message]));
+    compatibility.warnings.forEach(warning => lines.push([labels.warnings, warning.message]));
+  }
+
+  if (power) {
+    lines.push([labels.power, `${labels.basePower} ${power.totalBasePower}W / ${labels.maxPower} ${power.totalMaxPower}W / ${labels.idlePower} ${power.totalIdlePower}W`]);
+    lines.push([labels.recommendedPsu, `${power.recommendedPSU}W`]);
+    if (power.psuLoadPercentage > 0) {
+      lines.push([labels.psuLoad, `${Math.round(power.psuLoadPercentage)}%`]);
+    }
+  }
+
+  if (performance) {
+    lines.push([labels.overallScore, String(performance.overallScore)]);
+    lines.push([labels.recommendedResolution, performance.gamingPerformance.recommendedResolution]);
+    lines.push([labels.bottleneck, performance.bottleneckAnalysis.message]);
+    const fps = Object.entries(performance.gamingPerformance.averageFps)
+      .map(([resolution, value]) => `${resolution}: ${value}`)
+      .join(' / ');
+    if (fps) lines.push([labels.averageFps, fps]);
+  }
+
+  return lines;
+};
+
+// ===========================================
+// 📄 各形式
+// ===========================================
+
+const jsonExporter: ConfigurationExporter = {
+  format: 'json',
+  extension: 'json',
+  mimeType: 'application/json',
+  // LocalStorageService.importConfiguration と同じ封筒形式
+  render: (context) => JSON.stringify({
+    version: '1.0',
+    exportedAt: context.exportedAt.toISOString(),
+    configuration: context.configuration,
+    ...(context.compatibility && { compatibility: context.compatibility }),
+    ...(context.power && { power: context.power }),
+    ...(context.performance && { performance: context.performance })
+  }, null, 2)
+};
+
+const csvExporter: ConfigurationExporter = {
+  format: 'csv',
+  extension: 'csv',
+  mimeType: 'text/csv;charset=utf-8',
+  render: (context) => {
+    const { labels, options, rows } = context;
+    const header = [labels.category, labels.part, labels.manufacturer];
+    if (options.includePrices) header.push(`${labels.price} (${options.currency})`);
+    if (options.includeSpecs) header.push(labels.specs);
+
+    const lines = [header.map(escapeCsv).join(',')];
+    rows.forEach(row => {
+      const cells: (string | number)[] = [row.categoryLabel, row.name, row.manufacturer];
+      if (options.includePrices) cells.push(Math.round(row.price * 100) / 100);
+      if (options.includeSpecs) cells.push(row.specs.map(([key, value]) => `${key}: ${value}`).join('; '));
+      lines.push(cells.map(escapeCsv).join(','));
+    });
+
+    if (options.includePrices) {
+      lines.push('');
+      lines.push([labels.total, context.totalPriceText].map(escapeCsv).join(','));
+      if (context.budgetText) lines.push([labels.budget, context.budgetText].map(escapeCsv).join(','));
+    }
+    summaryLines(context).forEach(line => lines.push(line.map(escapeCsv).join(',')));
+
+    // Excel で文字化けしないよう BOM を付与
+    return '\uFEFF' + lines.join('\r\n');
+  }
+};
+
+const markdownExporter: ConfigurationExporter = {
+  format: 'markdown',
+  extension: 'md',
+  mimeType: 'text/markdown;charset=utf-8',
+  render: (context) => {
+    const { labels, options, rows, configuration } = context;
+    const lines: string[] = [`# ${configuration.name || labels.title}`, ''];
+    if (configuration.description) lines.push(configuration.description, '');
+
+    if (rows.length === 0) {
+      lines.push(labels.noParts);
+    } else {
+      const header = [labels.category, labels.part];
+      if (options.includePrices) header.push(labels.price);
+      lines.push(`| ${header.join(' | ')} |`, `|${header.map(() => ' --- ').join('|')}|`);
+
+      rows.forEach(row => {
+        const name = row.url ? `[${escapeMarkdownCell(row.name)}](${row.url})` : escapeMarkdownCell(row.name);
+        const cells = [`**${row.categoryLabel}**`, name];
+        if (options.includePrices) cells.push(row.priceText);
+        lines.push(`| ${cells.join(' | ')} |`);
+      });
+
+      if (options.includePrices) {
+        lines.push(`| | **${labels.total}** | **${context.totalPriceText}** |`);
+      }
+    }
+
+    if (options.includeSpecs) {
+      rows.filter(row => row.specs.length > 0).forEach(row => {
+        lines.push('', `### ${row.categoryLabel}: ${row.name}`);
+        row.specs.forEach(([key, value]) => lines.push(`- ${key}: ${value}`));
+      });
+    }
+
+    const summary = summaryLines(context);
+    if (summary.length > 0) {
+      lines.push('', `## ${labels.summary}`, '');
+      summary.forEach(([key, value]) => lines.push(`- **${key}**: ${value}`));
+    }
+
+    lines.push('', `_${labels.generatedBy} (${context.formatDate(context.exportedAt)})_`);
+    return lines.join('\n');
+  }
+};
+
+// HTML本文（HTML/PDF共通）
+const renderHtmlDocument = (context: ExportContext, printable: boolean): string => {
+  const { labels, options, rows, configuration } = context;
+  const dark = options.theme === 'dark' && !printable;
+  const title = escapeHtml(configuration.name || labels.title);
+
+  const partRows = rows.map(row => `
+      <tr>
+        <th>${escapeHtml(row.categoryLabel)}</th>
+        <td>
+          ${row.imageUrl ? `<img src="${escapeHtml(row.imageUrl)}" alt="" />` : ''}
+          ${row.url ? `<a href="${escapeHtml(row.url)}">${escapeHtml(row.name)}</a>` : escapeHtml(row.name)}
+          <div class="muted">${escapeHtml(row.manufacturer)}</div>
+          ${row.specs.length > 0 ? `<ul class="specs">${row.specs.map(([key, value]) => `<li>${escapeHtml(key)}: ${escapeHtml(value)}</li>`).join('')}</ul>` : ''}
+        </td>
+        ${options.includePrices ? `<td class="price">${escapeHtml(row.priceText)}</td>` : ''}
+      </tr>`).join('');
+
+  const summary = summaryLines(context);
+
+  return `<!DOCTYPE html>
+<html lang="${options.language}">
+<head>
+<meta charset="utf-8" />
+<title>${title}</title>
+<style>
+  body { font-family: system-ui, -apple-system, "Hiragino Sans", "Noto Sans JP", sans-serif; margin: 2rem; color: ${dark ? '#e5e7eb' : '#111827'}; background: ${dark ? '#111827' : '#ffffff'}; }
+  table { width: 100%; border-collapse: collapse; margin: 1rem 0; }
+  th, td { padding: 0.5rem; border-bottom: 1px solid ${dark ? '#374151' : '#e5e7eb'}; text-align: left; vertical-align: top; }
+  th { width: 10rem; }
+  .price { text-align: right; white-space: nowrap; }
+  .total td, .total th { font-weight: bold; border-top: 2px solid currentColor; }
+  .muted { color: ${dark ? '#9ca3af' : '#6b7280'}; font-size: 0.85em; }
+  .specs { margin: 0.25rem 0 0; padding-left: 1.25rem; font-size: 0.85em; }
+  img { max-width: 64px; max-height: 64px; float: right; }
+  a { color: ${dark ? '#93c5fd' : '#2563eb'}; }
+  ${printable ? '@page { size: A4; margin: 15mm; } @media print { body { margin: 0; } }' : ''}
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+${configuration.description ? `<p>${escapeHtml(configuration.description)}</p>` : ''}
+${rows.length === 0 ? `<p>${escapeHtml(labels.noParts)}</p>` : `<table>
+  <thead><tr><th>${escapeHtml(labels.category)}</th><th>${escapeHtml(labels.part)}</th>${options.includePrices ? `<th class="price">${escapeHtml(labels.price)}</th>` : ''}</tr></thead>
+  <tbody>${partRows}
+  </tbody>
+  ${options.includePrices ? `<tfoot>
+    <tr class="total"><th>${escapeHtml(labels.total)}</th><td></td><td class="price">${escapeHtml(context.totalPriceText)}</td></tr>
+    ${context.budgetText ? `<tr><th>${escapeHtml(labels.budget)}</th><td></td><td class="price">${escapeHtml(context.budgetText)}</td></tr>` : ''}
+    ${context.remainingText ? `<tr><th>${escapeHtml(labels.remaining)}</th><td></td><td class="price">${escapeHtml(context.remainingText)}</td></tr>` : ''}
+  </tfoot>` : ''}
+</table>`}
+${summary.length > 0 ? `<table>${summary.map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>` : ''}
+<p class="muted">${escapeHtml(labels.generatedBy)} / ${escapeHtml(labels.exportedAt)}: ${escapeHtml(context.formatDate(context.exportedAt))}</p>
+${printable ? '<script>window.addEventListener("load", function () { window.print(); });</script>' : ''}
+</body>
+</html>`;
+};
+
+const htmlExporter: ConfigurationExporter = {
+  format: 'html',
+  extension: 'html',
+  mimeType: 'text/html;charset=utf-8',
+  render: (context) => renderHtmlDocument(context, false)
+};
+
+// 印刷用HTML（ブラウザの印刷ダイアログから PDF として保存）
+const pdfExporter: ConfigurationExporter = {
+  format: 'pdf',
+  extension: 'html',
+  mimeType: 'text/html;charset=utf-8',
+  render: (context) => renderHtmlDocument(context, true)
+};
+
+// PCPartPicker のテキスト形式パーツリスト
+const pcPartPickerExporter: ConfigurationExporter = {
+  format: 'pcpartpicker',
+  extension: 'txt',
+  mimeType: 'text/plain;charset=utf-8',
+  render: (context) => {
+    const { labels, options, rows, power } = context;
+    const lines = rows.map(row =>
+      options.includePrices ? `${row.categoryLabel}: ${row.name}  (${row.priceText})` : `${row.categoryLabel}: ${row.name}`
+    );
+
+    if (power) {
+      lines.push(`${options.language === 'en' ? 'Estimated Wattage' : '推定消費電力'}: ${power.totalMaxPower}W`);
+    }
+    if (options.includePrices) {
+      lines.push(`${labels.total}: ${context.totalPriceText}`);
+    }
+    lines.push(`${labels.generatedBy} ${context.exportedAt.toISOString().slice(0, 10)}`);
+    return lines.join('\n');
+  }
+};
+
+// customTemplate の {{placeholder}} を置換
+const customExporter: ConfigurationExporter = {
+  format: 'custom',
+  extension: 'txt',
+  mimeType: 'text/plain;charset=utf-8',
+  render: (context) => {
+    const template = context.options.customTemplate || '{{name}}\n{{parts}}\n{{total}}';
+    const values: Record<string, string> = {
+      name: context.configuration.name || context.labels.title,
+      parts: context.rows.map(row => `${row.categoryLabel}: ${row.name} ${context.options.includePrices ? row.priceText : ''}`.trim()).join('\n'),
+      total: context.totalPriceText,
+      budget: context.budgetText || '',
+      power: context.power ? `${context.power.totalMaxPower}W` : '',
+      date: context.formatDate(context.exportedAt)
+    };
+    return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
+  }
+};
+
+export const BUILTIN_EXPORTERS: ConfigurationExporter[] = [
+  jsonExporter,
+  csvExporter,
+  markdownExporter,
+  htmlExporter,
+  pdfExporter,
+  pcPartPickerExporter,
+  customExporter
+];
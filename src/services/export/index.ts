@@ -0,0 +1,12 @@
+// src/services/export/index.ts
+// エクスポートサービス統合エクスポート
+
+export {
+  ExportService,
+  type ConfigurationExporter,
+  type ExportContext,
+  type ExportPartRow,
+  type ExportOutput,
+  type ExportLabels
+} from './exportService';
+export { BUILTIN_EXPORTERS } from './exporters';
@@ -0,0 +1,177 @@
+// src/services/import/importService.ts
+// 📥 構成インポートサービス - 外部パーツリストの解析とカタログ照合
+
+import { Part, PartCategory } from '@/types';
+import type {
+  ImportBuildResult,
+  ImportedLine,
+  ImportLineMatch,
+  ImportPreview,
+  ImportSourceFormat
+} from '@/types/import';
+import SearchService from '@/services/searchService';
+import SpecNormalizerService from '@/services/specNormalizer';
+import { localStorageService } from '@/services/storage';
+import { categoryNames } from '@/data/sampleParts';
+import { detectFormat, parseCsv, parseKakaku, parsePcPartPicker } from './parsers';
+
+// 照合の判定しきい値
+const MATCH_THRESHOLD = 0.85;
+const AMBIGUOUS_THRESHOLD = 0.5;
+const MIN_SCORE_GAP = 0.08;
+const CLEAR_LEAD_THRESHOLD = 0.75;  // 2位以下と大差があれば一致とみなす
+const CLEAR_LEAD_GAP = 0.3;
+
+export class ImportService {
+  private static instance: ImportService;
+  private searchService = SearchService.getInstance();
+  private specNormalizer = SpecNormalizerService.getInstance();
+
+  private constructor() {}
+
+  // シングルトンパターン
+  public static getInstance(): ImportService {
+    if (!ImportService.instance) {
+      ImportService.instance = new ImportService();
+    }
+    return ImportService.instance;
+  }
+
+  /**
+   * 入力テキストを解析してカタログと照合（確定は buildConfiguration で行う）
+   */
+  public preview(text: string, catalog: Part[], format?: ImportSourceFormat): ImportPreview {
+    const resolvedFormat = format || detectFormat(text);
+    const warnings: string[] = [];
+
+    if (resolvedFormat === 'json') {
+      return { format: resolvedFormat, matches: this.matchJsonConfiguration(text, catalog, warnings), warnings };
+    }
+
+    const lines = this.parse(text, resolvedFormat);
+    if (lines.length === 0) {
+      warnings.push('パーツ行を読み取れませんでした。形式を確認してください');
+    }
+
+    const matches = lines.map(line => this.matchLine(line, catalog));
+    const unmatched = matches.filter(m => m.status === 'unmatched').length;
+    if (unmatched > 0) {
+      warnings.push(`${unmatched}件のパーツがカタログに見つかりませんでした`);
+    }
+
+    return { format: resolvedFormat, matches, warnings };
+  }
+
+  public parse(text: string, format: Exclude<ImportSourceFormat, 'json'>): ImportedLine[] {
+    switch (format) {
+      case 'pcpartpicker':
+        return parsePcPartPicker(text);
+      case 'kakaku':
+        return parseKakaku(text);
+      case 'csv':
+      default:
+        return parseCsv(text);
+    }
+  }
+
+  /**
+   * 照合結果（照合画面での選択を反映済み）から構成を生成
+   */
+  public buildConfiguration(
+    matches: ImportLineMatch[],
+    options: { name?: string; budget?: number } = {}
+  ): ImportBuildResult {
+    const parts: Partial<Record<PartCategory, Part | null>> = {};
+    const warnings: string[] = [];
+
+    matches.forEach(({ line, selected }) => {
+      if (!selected) return;
+
+      const category = selected.category;
+      if (line.quantity && line.quantity > 1) {
+        warnings.push(`「${line.name}」は数量${line.quantity}ですが、1点のみ取り込みました（複数搭載は構成画面で追加してください）`);
+      }
+      if (parts[category]) {
+        warnings.push(`${categoryNames[category] || category}が複数あるため「${line.name}」は除外しました`);
+        return;
+      }
+      parts[category] = selected;
+    });
+
+    const selectedParts = Object.values(parts);
+    const now = new Date();
+    return {
+      configuration: {
+        id: `import-${now.getTime()}`,
+        name: options.name || 'インポートした構成',
+        parts,
+        totalPrice: selectedParts.reduce((sum, part) => sum + (part?.price || 0), 0),
+        totalPowerConsumption: selectedParts.reduce((sum, part) => sum + this.specNormalizer.getPowerDraw(part), 0),
+        budget: options.budget,
+        createdAt: now,
+        updatedAt: now,
+        tags: ['imported']
+      },
+      warnings
+    };
+  }
+
+  // ===========================================
+  // 🔧 照合
+  // ===========================================
+
+  private matchLine(line: ImportedLine, catalog: Part[]): ImportLineMatch {
+    // 価格.com の製品IDがカタログのURLと一致すれば確定
+    const { externalId } = line;
+    if (externalId) {
+      const linked = catalog.find(part => part.url?.includes(externalId));
+      if (linked) {
+        return { line, candidates: [{ part: linked, score: 1 }], selected: linked, status: 'matched' };
+      }
+    }
+
+    if (!line.name) {
+      return { line, candidates: [], selected: null, status: 'unmatched' };
+    }
+
+    const candidates = this.searchService.findSimilarParts(line.name, catalog, { category: line.category });
+    const [top, second] = candidates;
+
+    if (!top || top.score < AMBIGUOUS_THRESHOLD) {
+      return { line, candidates, selected: null, status: 'unmatched' };
+    }
+
+    const gap = second ? top.score - second.score : 1;
+    const isClear = (top.score >= MATCH_THRESHOLD && gap >= MIN_SCORE_GAP) ||
+      (top.score >= CLEAR_LEAD_THRESHOLD && gap >= CLEAR_LEAD_GAP);
+    return { line, candidates, selected: top.part, status: isClear ? 'matched' : 'ambiguous' };
+  }
+
+  // 自前のJSONエクスポートはIDでカタログと再照合
+  private matchJsonConfiguration(text: string, catalog: Part[], warnings: string[]): ImportLineMatch[] {
+    const configuration = localStorageService.importConfiguration(text);
+    if (!configuration) {
+      warnings.push('JSONの形式が正しくありません');
+      return [];
+    }
+
+    return Object.entries(configuration.parts).flatMap(([category, part], index) => {
+      if (!part) return [];
+
+      const line: ImportedLine = {
+        lineNumber: index + 1,
+        raw: part.name,
+        name: part.name,
+        category: category as PartCategory,
+        price: part.price,
+        currency: 'JPY'
+      };
+      const catalogPart = catalog.find(p => p.id === part.id);
+      return [catalogPart
+        ? { line, candidates: [{ part: catalogPart, score: 1 }], selected: catalogPart, status: 'matched' as const }
+        : this.matchLine(line, catalog)];
+    });
+  }
+}
+
+export default ImportService;
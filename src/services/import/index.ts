@@ -0,0 +1,13 @@
+// src/services/import/index.ts
+// インポートサービス統合エクスポート
+
+export { ImportService } from './importService';
+export type {
+  ImportSourceFormat,
+  ImportedLine,
+  ImportMatchStatus,
+  ImportLineMatch,
+  ImportPreview,
+  ImportBuildResult
+} from '@/types/import';
+export { detectFormat } from './parsers';
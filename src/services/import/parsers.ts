@@ -0,0 +1,230 @@
+// src/services/import/parsers.ts
+// 📥 外部パーツリストのパーサー（PCPartPicker / CSV / 価格.com）
+
+import Papa from 'papaparse';
+import type { PartCategory } from '@/types';
+import type { ImportedLine, ImportSourceFormat } from '@/types/import';
+
+// 外部リストのカテゴリ表記 → PartCategory
+const CATEGORY_ALIASES: Record<string, PartCategory> = {
+  'cpu': 'cpu',
+  'processor': 'cpu',
+  'cpu cooler': 'cooler',
+  'cooler': 'cooler',
+  'cpuクーラー': 'cooler',
+  'motherboard': 'motherboard',
+  'マザーボード': 'motherboard',
+  'memory': 'memory',
+  'ram': 'memory',
+  'メモリ': 'memory',
+  'storage': 'storage',
+  'ssd': 'storage',
+  'hdd': 'storage',
+  'ストレージ': 'storage',
+  'video card': 'gpu',
+  'gpu': 'gpu',
+  'graphics card': 'gpu',
+  'グラフィックボード': 'gpu',
+  'ビデオカード': 'gpu',
+  'case': 'case',
+  'pcケース': 'case',
+  'ケース': 'case',
+  'power supply': 'psu',
+  'psu': 'psu',
+  '電源ユニット': 'psu',
+  '電源': 'psu',
+  'monitor': 'monitor',
+  'モニター': 'monitor',
+  'ディスプレイ': 'monitor'
+};
+
+// リスト内のカテゴリ以外の行（合計・フッター等）
+const SKIP_LINE_PATTERN = /^(total|合計|estimated wattage|推定消費電力|generated by|prices include|custom:|type\s*\|)/i;
+
+const KAKAKU_URL_PATTERN = /https?:\/\/(?:www\.)?kakaku\.com\/item\/(K\d{10})\/?\S*/i;
+
+export const resolveCategory = (label: string | undefined): PartCategory | undefined => {
+  if (!label) return undefined;
+  return CATEGORY_ALIASES[label.replace(/\*/g, '').trim().toLowerCase()];
+};
+
+// 価格表記（$199.99 / ¥32,000 / 32,000円）を数値化
+export const parsePrice = (text: string | undefined): { price?: number; currency?: string } => {
+  if (!text) return {};
+  const match = text.match(/([$¥￥€])\s*([\d,]+(?:\.\d+)?)|([\d,]+)\s*円/);
+  if (!match) return {};
+
+  const symbol = match[1];
+  const value = parseFloat((match[2] || match[3]).replace(/,/g, ''));
+  if (isNaN(value)) return {};
+
+  const currency = symbol === '$' ? 'USD' : symbol === '€' ? 'EUR' : 'JPY';
+  return { price: value, currency };
+};
+
+/**
+ * 入力内容から形式を推定
+ */
+export const detectFormat = (text: string): ImportSourceFormat => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) return 'json';
+  if (KAKAKU_URL_PATTERN.test(trimmed)) return 'kakaku';
+  if (/pcpartpicker/i.test(trimmed) || /^\s*\*\*[^*]+\*\*\s*\|/m.test(trimmed)) return 'pcpartpicker';
+
+  // 「カテゴリ: 製品名」形式の行が多ければ PCPartPicker テキスト
+  const lines = trimmed.split(/\r?\n/).filter(line => line.trim());
+  const colonLines = lines.filter(line => resolveCategory(line.split(':')[0])).length;
+  return colonLines > 0 && colonLines >= lines.length / 2 ? 'pcpartpicker' : 'csv';
+};
+
+/**
+ * PCPartPicker のパーツリスト（Reddit/Markdown 表形式・テキスト形式）
+ */
+export const parsePcPartPicker = (text: string): ImportedLine[] => {
+  const lines: ImportedLine[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || SKIP_LINE_PATTERN.test(line.replace(/^[|\s*]+/, '')) || /^[:\-|\s]+$/.test(line)) return;
+
+    // Markdown: **CPU** | [Name](url) | $199.99 @ Amazon
+    if (line.includes('|')) {
+      const cells = line.split('|').map(cell => cell.trim()).filter((cell, i, all) => cell || (i > 0 && i < all.length - 1));
+      const category = resolveCategory(cells[0]);
+      if (!category || !cells[1]) return;
+
+      const link = cells[1].match(/\[([^\]]+)\]\(([^)]+)\)/);
+      lines.push({
+        lineNumber: index + 1,
+        raw: rawLine,
+        category,
+        name: link ? link[1] : cells[1].replace(/\*/g, ''),
+        url: link?.[2],
+        ...parsePrice(cells[2])
+      });
+      return;
+    }
+
+    // テキスト: CPU: Name  ($199.99 @ Amazon)
+    const colonIndex = line.indexOf(':');
+    if (colonIndex <= 0) return;
+    const category = resolveCategory(line.slice(0, colonIndex));
+    if (!category) return;
+
+    const rest = line.slice(colonIndex + 1).trim();
+    const priceMatch = rest.match(/\s*\(([^)]*[$¥￥€\d][^)]*)\)\s*$/);
+    lines.push({
+      lineNumber: index + 1,
+      raw: rawLine,
+      category,
+      name: priceMatch ? rest.slice(0, priceMatch.index).trim() : rest,
+      ...parsePrice(priceMatch?.[1])
+    });
+  });
+
+  return lines;
+};
+
+// CSV の列名候補
+const CSV_COLUMNS = {
+  category: ['category', 'type', 'カテゴリ', '種類', '分類'],
+  name: ['name', 'item', 'part', 'product', 'パーツ', '製品名', '商品名', '品名'],
+  price: ['price', '価格', '金額', '最安価格'],
+  url: ['url', 'link', 'リンク'],
+  quantity: ['quantity', 'qty', '数量']
+};
+
+/**
+ * 汎用CSV（ヘッダーあり／なし）
+ * ヘッダーが認識できない場合は「カテゴリ, 製品名, 価格」の列順とみなす
+ */
+export const parseCsv = (text: string): ImportedLine[] => {
+  const parsed = Papa.parse<string[]>(text.replace(/^\uFEFF/, '').trim(), { skipEmptyLines: true });
+  const rows = parsed.data.filter(row => row.some(cell => cell.trim()));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase().replace(/\s*\(.*\)$/, ''));
+  const findColumn = (names: string[]) => header.findIndex(cell => names.includes(cell));
+  const hasHeader = findColumn(CSV_COLUMNS.name) >= 0;
+
+  const columns = hasHeader
+    ? {
+        category: findColumn(CSV_COLUMNS.category),
+        name: findColumn(CSV_COLUMNS.name),
+        price: findColumn(CSV_COLUMNS.price),
+        url: findColumn(CSV_COLUMNS.url),
+        quantity: findColumn(CSV_COLUMNS.quantity)
+      }
+    : { category: 0, name: 1, price: 2, url: -1, quantity: -1 };
+
+  const cell = (row: string[], column: number) => (column >= 0 ? row[column]?.trim() : undefined);
+
+  return rows.slice(hasHeader ? 1 : 0).flatMap((row, index) => {
+    const name = cell(row, columns.name);
+    if (!name || SKIP_LINE_PATTERN.test(cell(row, columns.category) || name)) return [];
+
+    const priceText = cell(row, columns.price);
+    const priceInfo = parsePrice(priceText);
+    const quantity = parseInt(cell(row, columns.quantity) || '', 10);
+
+    return [{
+      lineNumber: index + (hasHeader ? 2 : 1),
+      raw: row.join(','),
+      category: resolveCategory(cell(row, columns.category)),
+      name,
+      url: cell(row, columns.url) || undefined,
+      // 通貨記号のない数値は円とみなす
+      ...(priceInfo.price !== undefined
+        ? priceInfo
+        : priceText && !isNaN(parseFloat(priceText.replace(/,/g, '')))
+          ? { price: parseFloat(priceText.replace(/,/g, '')), currency: 'JPY' }
+          : {}),
+      ...(quantity > 0 && { quantity })
+    }];
+  });
+};
+
+/**
+ * 価格.com の製品URLリスト・欲しいものリストの貼り付け
+ * URL と同じ行、または直前の行を製品名として扱う
+ */
+export const parseKakaku = (text: string): ImportedLine[] => {
+  const lines: ImportedLine[] = [];
+  const rawLines = text.split(/\r?\n/);
+  let pendingName: string | undefined;
+  let pendingPrice: string | undefined;
+
+  rawLines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const urlMatch = line.match(KAKAKU_URL_PATTERN);
+    if (!urlMatch) {
+      // 価格のみの行は直前の製品名に紐づける
+      if (parsePrice(line).price !== undefined && line.replace(/[$¥￥€\d,.円\s]/g, '').length === 0) {
+        pendingPrice = line;
+      } else {
+        pendingName = line;
+        pendingPrice = undefined;
+      }
+      return;
+    }
+
+    const inlineText = line.replace(urlMatch[0], '').replace(/[\t|]+/g, ' ').trim();
+    const priceInfo = parsePrice(inlineText || pendingPrice);
+    const name = (inlineText.replace(/([$¥￥€]\s*[\d,]+|[\d,]+\s*円)/g, '').trim()) || pendingName || '';
+
+    lines.push({
+      lineNumber: index + 1,
+      raw: rawLine,
+      name,
+      url: urlMatch[0],
+      externalId: urlMatch[1],
+      ...priceInfo
+    });
+    pendingName = undefined;
+    pendingPrice = undefined;
+  });
+
+  return lines;
+};
@@ -0,0 +1,112 @@
+// src/services/memoryPopulationService.ts
+// 🧠 メモリ装着構成の分析サービス - 枚数・容量・ランク数から実効速度を推定
+
+import { Part } from '@/types';
+import { MemoryKitSummary, MemoryPopulation } from '@/types/compatibility';
+import SpecNormalizerService from '@/services/specNormalizer';
+import CompatibilityDatabaseService from '@/services/compatibilityDatabase';
+import { getMotherboardSpec, defaultMotherboardSpec } from '@/data/motherboardSpecs';
+
+// メインストリーム向けはデュアルチャンネル
+const MEMORY_CHANNELS = 2;
+const MINI_ITX_MEMORY_SLOTS = 2;
+const DEFAULT_MAX_MEMORY_GB = 128;
+
+export class MemoryPopulationService {
+  private static instance: MemoryPopulationService;
+  private specNormalizer = SpecNormalizerService.getInstance();
+  private database = CompatibilityDatabaseService.getInstance();
+
+  public static getInstance(): MemoryPopulationService {
+    if (!MemoryPopulationService.instance) {
+      MemoryPopulationService.instance = new MemoryPopulationService();
+    }
+    return MemoryPopulationService.instance;
+  }
+
+  // 🎯 メモリキット群とマザーボードから装着構成を分析
+  public analyze(kits: Part[], motherboard?: Part | null): MemoryPopulation {
+    const summaries = kits.map(kit => this.summarizeKit(kit));
+    const memoryTypes = [...new Set(summaries.map(kit => kit.memoryType).filter((type): type is string => !!type))];
+    const totalModules = summaries.reduce((sum, kit) => sum + kit.modules, 0);
+    const slotCount = this.getSlotCount(motherboard);
+
+    // 4スロットの半分を超えると1チャンネルに2枚（2DPC）
+    const dimmsPerChannel: 1 | 2 = slotCount > MEMORY_CHANNELS && totalModules > MEMORY_CHANNELS ? 2 : 1;
+    const ranks: 1 | 2 = summaries.some(kit => kit.ranks === 2) ? 2 : 1;
+
+    // 混在時は最も遅いキットに合わせて動作
+    const speeds = summaries.map(kit => kit.speedMHz).filter((speed): speed is number => !!speed);
+    const ratedSpeedMHz = speeds.length > 0 ? Math.min(...speeds) : undefined;
+    const speedLimit = memoryTypes.length === 1
+      ? this.database.getMemorySpeedLimit(memoryTypes[0], dimmsPerChannel, ranks)
+      : null;
+    const effectiveSpeedMHz = ratedSpeedMHz && speedLimit ? Math.min(ratedSpeedMHz, speedLimit) : ratedSpeedMHz;
+
+    return {
+      kits: summaries,
+      memoryTypes,
+      totalModules,
+      totalCapacityGB: summaries.reduce((sum, kit) => sum + kit.capacityGB, 0),
+      slotCount,
+      maxCapacityGB: this.getMaxCapacity(motherboard),
+      dimmsPerChannel,
+      ranks,
+      ratedSpeedMHz,
+      effectiveSpeedMHz,
+      deratingReason: ratedSpeedMHz && effectiveSpeedMHz && effectiveSpeedMHz < ratedSpeedMHz
+        ? this.describeDerating(dimmsPerChannel, ranks, totalModules)
+        : undefined,
+      mixedKits: summaries.length > 1,
+      identicalKits: summaries.length > 1 && summaries.every(kit => kit.partId === summaries[0].partId)
+    };
+  }
+
+  private summarizeKit(kit: Part): MemoryKitSummary {
+    const specs = this.specNormalizer.normalize(kit, 'memory').specs;
+    const modules = specs.modules
+      || (specs.capacityGB && specs.moduleCapacityGB ? Math.round(specs.capacityGB / specs.moduleCapacityGB) : 1);
+    const moduleCapacityGB = specs.moduleCapacityGB || (specs.capacityGB ? specs.capacityGB / modules : 0);
+    const dualRankThreshold = specs.memoryType ? this.database.getDualRankThreshold(specs.memoryType) : null;
+
+    return {
+      partId: kit.id,
+      name: kit.name,
+      memoryType: specs.memoryType,
+      speedMHz: specs.speedMHz,
+      modules,
+      moduleCapacityGB,
+      capacityGB: specs.capacityGB || moduleCapacityGB * modules,
+      // 記載がなければ大容量モジュールをデュアルランクとみなす
+      ranks: specs.ranks || (dualRankThreshold && moduleCapacityGB >= dualRankThreshold ? 2 : 1),
+      ranksAssumed: specs.ranks === undefined,
+      timings: specs.timings
+    };
+  }
+
+  private getSlotCount(motherboard?: Part | null): number {
+    const specs = this.specNormalizer.getSpecs(motherboard, 'motherboard');
+    if (specs?.memorySlots) return specs.memorySlots;
+    if (specs?.formFactor === 'Mini-ITX') return MINI_ITX_MEMORY_SLOTS;
+    return (getMotherboardSpec(specs?.chipset) || defaultMotherboardSpec).physicalLimits.memorySlots;
+  }
+
+  private getMaxCapacity(motherboard?: Part | null): number {
+    const specs = this.specNormalizer.getSpecs(motherboard, 'motherboard');
+    const socketData = specs?.socket ? this.database.getCpuSocketCompatibility(specs.socket) : null;
+    return specs?.maxMemoryGB
+      || getMotherboardSpec(specs?.chipset)?.physicalLimits.maxMemoryCapacity
+      || socketData?.maxMemoryCapacity
+      || DEFAULT_MAX_MEMORY_GB;
+  }
+
+  private describeDerating(dimmsPerChannel: 1 | 2, ranks: 1 | 2, totalModules: number): string {
+    const causes = [
+      dimmsPerChannel === 2 ? `${totalModules}枚挿し（1チャンネル2枚）` : '',
+      ranks === 2 ? 'デュアルランクモジュール' : ''
+    ].filter(Boolean);
+    return `${causes.join('・')}のため`;
+  }
+}
+
+export default MemoryPopulationService;
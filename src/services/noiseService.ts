@@ -0,0 +1,256 @@
+// src/services/noiseService.ts
+// 🔊 騒音推定サービス - 部品ごとの騒音（dBA）を負荷シナリオ別に対数加算
+
+import { PCConfiguration, PartCategory } from '@/types';
+import {
+  NoiseBreakdown,
+  NoiseEstimate,
+  NoiseScenarioEstimate,
+  NoiseSuggestion,
+  ThermalScenarioEstimate
+} from '@/types/config';
+import SpecNormalizerService from '@/services/specNormalizer';
+import ThermalService, { ThermalEstimateOptions } from '@/services/thermalService';
+
+// 負荷時の代表シナリオ
+const LOAD_SCENARIO = 'gaming';
+
+// 定格騒音が不明な場合の既定値（dBA・最大回転時）
+const DEFAULT_COOLER_NOISE = { Air: 30, AIO: 33, Custom: 28 } as const;
+const AIO_PUMP_NOISE = 20;
+// リテールクーラー相当（小型ファン・高回転）
+const STOCK_COOLER = { noise: 36, rating: 65 };
+const CASE_FAN_NOISE = 25;          // 120mmファン1基
+const PSU_FAN_NOISE = 30;
+const HDD_NOISE = { idle: 24, active: 28 };
+
+// ファン回転数の下限（最大回転に対する比率）と回転数による騒音の変化
+const MIN_FAN_SPEED = { cooler: 0.3, case: 0.4, psu: 0.4 };
+const FAN_SPEED_DB_FACTOR = 30;
+// GPUはTDPに応じて最大騒音が上がる（上限あり）、低負荷ではファン停止
+const GPU_NOISE_BASE = 30;
+const GPU_NOISE_PER_WATT = 0.04;
+const GPU_NOISE_MAX = 45;
+const GPU_ZERO_RPM_LOAD = 0.3;
+// セミファンレス電源のファン始動負荷率
+const PSU_SEMI_PASSIVE_THRESHOLD = 0.4;
+const BASE_SYSTEM_POWER = 50;
+
+// 騒音評価のしきい値（負荷時dBA）
+const RATING_THRESHOLDS = { silent: 30, quiet: 35, moderate: 42 };
+// 改善提案で想定する騒音低下（対策した音源を-6dBとみなす）
+const SUGGESTION_REDUCTION_DB = 6;
+
+// 音源ごとの改善提案
+const SUGGESTION_MESSAGES: Record<string, string> = {
+  cooler: '大型ヒートシンクや低回転ファンのCPUクーラーに変更すると静かになります',
+  case: '140mmファンへの置き換えや、低回転設定（ファンカーブ調整）を検討してください',
+  gpu: '大型クーラー搭載モデルへの変更や、電力制限・アンダーボルトで回転数を抑えられます',
+  psu: 'セミファンレス（低負荷時ファン停止）対応の電源ユニットを検討してください',
+  storage: 'HDDをSSDに置き換えると回転音・シーク音がなくなります'
+};
+
+// 1音源のシナリオ別騒音
+interface NoiseSource {
+  component: PartCategory;
+  source: string;
+  partName?: string;
+  noiseAt: (scenario: ThermalScenarioEstimate, index: number) => number;
+}
+
+export class NoiseService {
+  private static instance: NoiseService;
+  private specNormalizer = SpecNormalizerService.getInstance();
+  private thermalService = ThermalService.getInstance();
+
+  private constructor() {}
+
+  // シングルトンパターン
+  public static getInstance(): NoiseService {
+    if (!NoiseService.instance) {
+      NoiseService.instance = new NoiseService();
+    }
+    return NoiseService.instance;
+  }
+
+  /**
+   * 構成の騒音を推定（LOAD_SCENARIOS 全シナリオ）
+   */
+  public estimate(config: PCConfiguration, options: ThermalEstimateOptions = {}): NoiseEstimate {
+    const thermal = this.thermalService.estimate(config, options);
+    const sources = this.collectSources(config, thermal.caseFanCount);
+
+    const components: NoiseBreakdown[] = sources.map(source => {
+      const scenarioNoise = Object.fromEntries(
+        thermal.scenarios.map((scenario, index) => [scenario.scenario, this.round(source.noiseAt(scenario, index))])
+      );
+      return {
+        component: source.component,
+        source: source.source,
+        partName: source.partName,
+        idleNoise: scenarioNoise[thermal.scenarios[0].scenario] || 0,
+        loadNoise: scenarioNoise[LOAD_SCENARIO] || 0,
+        scenarioNoise
+      };
+    });
+
+    const scenarios: NoiseScenarioEstimate[] = thermal.scenarios.map(scenario => ({
+      scenario: scenario.scenario,
+      description: scenario.description,
+      noise: this.round(this.sumDecibels(components.map(c => c.scenarioNoise[scenario.scenario])))
+    }));
+
+    const idleNoise = scenarios[0]?.noise || 0;
+    const loadNoise = scenarios.find(s => s.scenario === LOAD_SCENARIO)?.noise || 0;
+
+    return {
+      idleNoise,
+      loadNoise,
+      components,
+      rating: this.getRating(loadNoise),
+      scenarios,
+      suggestions: this.createSuggestions(components, loadNoise)
+    };
+  }
+
+  /**
+   * 騒音の対数加算 L = 10·log10(Σ 10^(Li/10))（0 は停止中として除外）
+   */
+  public sumDecibels(levels: number[]): number {
+    const energy = levels.filter(level => level > 0).reduce((sum, level) => sum + Math.pow(10, level / 10), 0);
+    return energy > 0 ? 10 * Math.log10(energy) : 0;
+  }
+
+  public getRating(loadNoise: number): NoiseEstimate['rating'] {
+    if (loadNoise < RATING_THRESHOLDS.silent) return 'silent';
+    if (loadNoise < RATING_THRESHOLDS.quiet) return 'quiet';
+    if (loadNoise < RATING_THRESHOLDS.moderate) return 'moderate';
+    return 'loud';
+  }
+
+  // ===========================================
+  // 🔧 音源
+  // ===========================================
+
+  private collectSources(config: PCConfiguration, caseFanCount: number): NoiseSource[] {
+    const sources: NoiseSource[] = [];
+    const { cpu, cooler, gpu, psu, storage } = config.parts;
+
+    // CPUクーラー（発熱/定格の比率で回転数が上がる）
+    const coolerSpecs = this.specNormalizer.getSpecs(cooler, 'cooler');
+    if (cooler && coolerSpecs) {
+      const coolerType = coolerSpecs.coolerType || 'Air';
+      const maxNoise = coolerSpecs.noiseLevelDb || DEFAULT_COOLER_NOISE[coolerType];
+      const rating = coolerSpecs.tdpRatingW || 0;
+      sources.push({
+        component: 'cooler',
+        source: 'CPUクーラー',
+        partName: cooler.name,
+        noiseAt: scenario => {
+          const fan = this.fanNoise(maxNoise, MIN_FAN_SPEED.cooler, rating > 0 ? scenario.cpuPower / rating : 1);
+          return coolerType === 'AIO' ? this.sumDecibels([fan, AIO_PUMP_NOISE]) : fan;
+        }
+      });
+    } else if (cpu) {
+      // リテールクーラー相当
+      sources.push({
+        component: 'cooler',
+        source: 'CPUクーラー（リテール想定）',
+        noiseAt: scenario => this.fanNoise(STOCK_COOLER.noise, MIN_FAN_SPEED.cooler, scenario.cpuPower / STOCK_COOLER.rating)
+      });
+    }
+
+    // ケースファン（システム負荷に応じて回転）
+    if (caseFanCount > 0) {
+      sources.push({
+        component: 'case',
+        source: `ケースファン×${caseFanCount}`,
+        partName: config.parts.case?.name,
+        noiseAt: (scenario, index) => {
+          const load = (scenario.cpuPower + scenario.gpuPower) / Math.max(1, this.peakHeat(config));
+          const single = this.fanNoise(CASE_FAN_NOISE, MIN_FAN_SPEED.case, index === 0 ? 0 : load);
+          return single + 10 * Math.log10(caseFanCount);
+        }
+      });
+    }
+
+    // GPUファン（低負荷ではファン停止）
+    const gpuSpecs = this.specNormalizer.getSpecs(gpu, 'gpu');
+    const gpuTdp = gpuSpecs?.tdpW || gpuSpecs?.powerW || 0;
+    if (gpu && gpuTdp > 0) {
+      const maxNoise = Math.min(GPU_NOISE_MAX, GPU_NOISE_BASE + gpuTdp * GPU_NOISE_PER_WATT);
+      sources.push({
+        component: 'gpu',
+        source: 'GPUファン',
+        partName: gpu.name,
+        noiseAt: scenario => {
+          const load = scenario.gpuPower / gpuTdp;
+          return load < GPU_ZERO_RPM_LOAD ? 0 : this.fanNoise(maxNoise, GPU_ZERO_RPM_LOAD, load);
+        }
+      });
+    }
+
+    // 電源ファン（ファン制御方式と負荷率）
+    const psuSpecs = this.specNormalizer.getSpecs(psu, 'psu');
+    if (psu && psuSpecs && psuSpecs.fanMode !== 'fanless') {
+      const wattage = psuSpecs.wattage || 0;
+      sources.push({
+        component: 'psu',
+        source: psuSpecs.fanMode === 'semi-passive' ? '電源ファン（セミファンレス）' : '電源ファン',
+        partName: psu.name,
+        noiseAt: scenario => {
+          const load = wattage > 0 ? (scenario.cpuPower + scenario.gpuPower + BASE_SYSTEM_POWER) / wattage : 0.5;
+          if (psuSpecs.fanMode === 'semi-passive' && load < PSU_SEMI_PASSIVE_THRESHOLD) return 0;
+          return this.fanNoise(PSU_FAN_NOISE, MIN_FAN_SPEED.psu, load);
+        }
+      });
+    }
+
+    // HDD（回転・シーク音）
+    if (this.specNormalizer.getSpecs(storage, 'storage')?.storageType === 'HDD') {
+      sources.push({
+        component: 'storage',
+        source: 'HDD',
+        partName: storage?.name,
+        noiseAt: (_scenario, index) => (index === 0 ? HDD_NOISE.idle : HDD_NOISE.active)
+      });
+    }
+
+    return sources;
+  }
+
+  // ファン騒音: 実測ではおおむね 30·log10(回転比) で低下する
+  private fanNoise(maxNoise: number, minSpeed: number, load: number): number {
+    const speed = minSpeed + (1 - minSpeed) * Math.max(0, Math.min(1, load));
+    return Math.max(0, maxNoise + FAN_SPEED_DB_FACTOR * Math.log10(speed));
+  }
+
+  private peakHeat(config: PCConfiguration): number {
+    return this.specNormalizer.getPowerDraw(config.parts.cpu) + this.specNormalizer.getPowerDraw(config.parts.gpu);
+  }
+
+  private createSuggestions(components: NoiseBreakdown[], loadNoise: number): NoiseSuggestion[] {
+    return [...components]
+      .filter(component => component.loadNoise > 0)
+      .sort((a, b) => b.loadNoise - a.loadNoise)
+      .slice(0, 2)
+      .map(target => {
+        const reduced = this.sumDecibels(components.map(c =>
+          c === target ? c.loadNoise - SUGGESTION_REDUCTION_DB : c.loadNoise
+        ));
+        return {
+          component: target.component,
+          source: target.source,
+          message: SUGGESTION_MESSAGES[target.component] || '低騒音モデルへの変更を検討してください',
+          expectedReduction: this.round(loadNoise - reduced)
+        };
+      })
+      .filter(suggestion => suggestion.expectedReduction >= 0.5);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
+
+export default NoiseService;
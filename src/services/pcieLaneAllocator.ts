@@ -0,0 +1,247 @@
+// src/services/pcieLaneAllocator.ts
+// 🔌 PCIeレーン割り当てサービス - M.2/SATAの帯域共有とスロットのレーン数低下を計算
+
+import { Part, LimitViolation, PcieDeviceAllocation, PcieLaneAllocation } from '@/types';
+import {
+  getMotherboardSpec,
+  defaultMotherboardSpec,
+  LaneSharingRule,
+  LaneTopology,
+  PcieSlotDefinition
+} from '@/data/motherboardSpecs';
+import SpecNormalizerService from '@/services/specNormalizer';
+
+// 割り当て対象のデバイス
+export interface PcieAllocationInput {
+  motherboard?: Part | null;
+  gpu?: Part | null;
+  storage: Part[];
+  expansion: Part[];
+}
+
+// 仕様に世代・レーン数がない場合の想定値
+const DEFAULT_GPU_LANES = 16;
+const DEFAULT_NVME_LANES = 4;
+const DEFAULT_EXPANSION_LANES = 4;
+
+// 仕様上のM.2スロット数がレーン構成より多い場合の補完スロット
+const FALLBACK_M2_SLOT: Omit<PcieSlotDefinition, 'id'> = { source: 'chipset', generation: 4, lanes: 4 };
+
+export class PcieLaneAllocatorService {
+  private static instance: PcieLaneAllocatorService;
+  private specNormalizer = SpecNormalizerService.getInstance();
+
+  public static getInstance(): PcieLaneAllocatorService {
+    if (!PcieLaneAllocatorService.instance) {
+      PcieLaneAllocatorService.instance = new PcieLaneAllocatorService();
+    }
+    return PcieLaneAllocatorService.instance;
+  }
+
+  // 🎯 デバイスをスロットに割り当て、共有による無効化・低下を報告
+  public allocate({ motherboard, gpu, storage, expansion }: PcieAllocationInput): PcieLaneAllocation {
+    const mbSpecs = this.specNormalizer.getSpecs(motherboard, 'motherboard');
+    const mbSpec = getMotherboardSpec(mbSpecs?.chipset) || defaultMotherboardSpec;
+    const topology = this.resolveTopology(mbSpec.laneTopology, mbSpecs?.m2Slots);
+    const sataConnectors = mbSpecs?.sataConnectors ?? mbSpec.physicalLimits.sataConnectors;
+
+    const nvmeDrives = storage.filter(drive => this.specNormalizer.getSpecs(drive, 'storage')?.storageType === 'NVMe');
+    const sataDrives = storage.filter(drive => !nvmeDrives.includes(drive));
+
+    // 共有ルールのないスロットから順に使用
+    const m2Slots = [...topology.m2Slots].sort(
+      (a, b) => Number(this.hasSharing(topology, a.id)) - Number(this.hasSharing(topology, b.id))
+    );
+    const usedM2Slots = m2Slots.slice(0, nvmeDrives.length);
+    const activeRules = topology.sharingRules.filter(rule => usedM2Slots.some(slot => slot.id === rule.trigger));
+
+    const disabledSataPorts = [...new Set(activeRules.flatMap(rule => rule.disablesSataPorts || []))]
+      .filter(port => port <= sataConnectors)
+      .sort((a, b) => a - b);
+    const enabledSataPorts = Array.from({ length: sataConnectors }, (_, index) => index + 1)
+      .filter(port => !disabledSataPorts.includes(port));
+
+    const devices: PcieDeviceAllocation[] = [];
+    const [primarySlot, ...otherSlots] = topology.pcieSlots;
+
+    if (gpu) {
+      devices.push(this.assignPcie(gpu, 'gpu', primarySlot, activeRules, DEFAULT_GPU_LANES));
+    }
+    nvmeDrives.forEach((drive, index) => {
+      devices.push(this.assignPcie(drive, 'nvme', usedM2Slots[index], activeRules, DEFAULT_NVME_LANES));
+    });
+    // GPUがない場合はプライマリスロットも拡張カードに使用
+    const expansionSlots = gpu ? otherSlots : topology.pcieSlots;
+    expansion.forEach((card, index) => {
+      devices.push(this.assignPcie(card, 'expansion', expansionSlots[index], activeRules, DEFAULT_EXPANSION_LANES));
+    });
+    sataDrives.forEach((drive, index) => {
+      const port = enabledSataPorts[index];
+      devices.push({
+        partId: drive.id,
+        partName: drive.name,
+        deviceType: 'sata',
+        slotId: port ? `SATA_${port}` : undefined,
+        degraded: false,
+        note: port ? undefined : '空きSATAポートがありません'
+      });
+    });
+
+    return {
+      devices,
+      m2SlotsUsed: nvmeDrives.length,
+      sataPortsUsed: sataDrives.length,
+      availableSataPorts: enabledSataPorts.length,
+      disabledSataPorts,
+      violations: this.buildViolations({
+        devices,
+        m2SlotCount: topology.m2Slots.length,
+        nvmeCount: nvmeDrives.length,
+        sataCount: sataDrives.length,
+        sataConnectors,
+        enabledSataPorts: enabledSataPorts.length,
+        disabledSataPorts,
+        activeRules
+      })
+    };
+  }
+
+  // マザーボード仕様のM.2スロット数に合わせてレーン構成を調整
+  private resolveTopology(topology: LaneTopology, m2SlotCount?: number): LaneTopology {
+    if (m2SlotCount === undefined || m2SlotCount === topology.m2Slots.length) return topology;
+
+    const m2Slots = topology.m2Slots.slice(0, m2SlotCount);
+    for (let index = m2Slots.length; index < m2SlotCount; index++) {
+      m2Slots.push({ id: `M2_${index + 1}`, ...FALLBACK_M2_SLOT });
+    }
+    return {
+      ...topology,
+      m2Slots,
+      sharingRules: topology.sharingRules.filter(rule => m2Slots.some(slot => slot.id === rule.trigger))
+    };
+  }
+
+  private hasSharing(topology: LaneTopology, slotId: string): boolean {
+    return topology.sharingRules.some(rule => rule.trigger === slotId);
+  }
+
+  // デバイスとスロットの世代・レーン数の低い方で動作
+  private assignPcie(
+    part: Part,
+    deviceType: PcieDeviceAllocation['deviceType'],
+    slot: PcieSlotDefinition | undefined,
+    activeRules: LaneSharingRule[],
+    defaultLanes: number
+  ): PcieDeviceAllocation {
+    const base = { partId: part.id, partName: part.name, deviceType };
+    if (!slot) {
+      return { ...base, degraded: false, note: '空きスロットがありません' };
+    }
+
+    const requested = this.readPcieLink(part, deviceType);
+    const reduction = activeRules.find(rule => rule.reducesSlot?.slotId === slot.id);
+    const slotLanes = reduction?.reducesSlot ? Math.min(slot.lanes, reduction.reducesSlot.lanes) : slot.lanes;
+    const generation = requested.generation ? Math.min(requested.generation, slot.generation) : slot.generation;
+    const lanes = Math.min(requested.lanes || defaultLanes, slotLanes);
+
+    const notes = [
+      reduction ? `${reduction.trigger} 使用により x${slotLanes} に低下` : '',
+      requested.generation && requested.generation > slot.generation ? `スロットは PCIe ${slot.generation}.0 まで` : ''
+    ].filter(Boolean);
+
+    return {
+      ...base,
+      slotId: slot.id,
+      source: slot.source,
+      generation,
+      lanes,
+      degraded: lanes < (requested.lanes || defaultLanes) || generation < (requested.generation || generation),
+      note: notes.length > 0 ? notes.join('、') : undefined
+    };
+  }
+
+  // 'PCIe 4.0 x4' / 'Gen4' / '4.0' 形式から世代とレーン数を取得
+  private readPcieLink(part: Part, deviceType: PcieDeviceAllocation['deviceType']): { generation?: number; lanes?: number } {
+    const text = deviceType === 'gpu'
+      ? this.specNormalizer.getSpecs(part, 'gpu')?.pcieVersion
+      : [part.specifications?.interface, part.specifications?.pcieVersion].find(value => typeof value === 'string');
+    if (typeof text !== 'string') return {};
+
+    const generation = text.match(/(?:pcie\s*|gen\s*|^)(\d)(?:\.\d)?/i)?.[1];
+    const lanes = text.match(/x(\d{1,2})\b/i)?.[1];
+    return {
+      generation: generation ? parseInt(generation, 10) : undefined,
+      lanes: lanes ? parseInt(lanes, 10) : undefined
+    };
+  }
+
+  private buildViolations({
+    devices,
+    m2SlotCount,
+    nvmeCount,
+    sataCount,
+    sataConnectors,
+    enabledSataPorts,
+    disabledSataPorts,
+    activeRules
+  }: {
+    devices: PcieDeviceAllocation[];
+    m2SlotCount: number;
+    nvmeCount: number;
+    sataCount: number;
+    sataConnectors: number;
+    enabledSataPorts: number;
+    disabledSataPorts: number[];
+    activeRules: LaneSharingRule[];
+  }): LimitViolation[] {
+    const violations: LimitViolation[] = [];
+    const sharingTriggers = activeRules.filter(rule => rule.disablesSataPorts?.length).map(rule => rule.trigger);
+    const disabledLabel = disabledSataPorts.map(port => `SATA_${port}`).join(', ');
+
+    if (nvmeCount > m2SlotCount) {
+      violations.push({
+        type: 'slot_overflow',
+        message: `M.2スロット数が超過しています (${nvmeCount}/${m2SlotCount})`,
+        severity: 'error'
+      });
+    }
+
+    if (sataCount > enabledSataPorts) {
+      violations.push({
+        type: sataCount > sataConnectors ? 'slot_overflow' : 'lane_sharing',
+        message: `SATAコネクタ数が超過しています (${sataCount}/${enabledSataPorts})` +
+          (disabledSataPorts.length > 0 ? `（${sharingTriggers.join(', ')} 使用により ${disabledLabel} が無効）` : ''),
+        severity: 'error'
+      });
+    } else if (disabledSataPorts.length > 0) {
+      violations.push({
+        type: 'lane_sharing',
+        message: `${sharingTriggers.join(', ')} 使用により ${disabledLabel} が無効になります（使用可能なSATAポート ${enabledSataPorts}/${sataConnectors}）`,
+        severity: 'warning'
+      });
+    }
+
+    activeRules.forEach(rule => {
+      const affected = devices.find(device => device.slotId === rule.reducesSlot?.slotId);
+      if (!rule.reducesSlot || !affected) return;
+      violations.push({
+        type: 'lane_sharing',
+        message: `${rule.trigger} 使用により ${affected.partName} が PCIe ${affected.generation}.0 x${affected.lanes} で動作します`,
+        severity: 'warning'
+      });
+    });
+
+    const unplacedCards = devices.filter(device => device.deviceType === 'expansion' && !device.slotId).length;
+    if (unplacedCards > 0) {
+      violations.push({
+        type: 'slot_overflow',
+        message: `拡張カードを装着できるPCIeスロットが不足しています (${unplacedCards}枚)`,
+        severity: 'error'
+      });
+    }
+
+    return violations;
+  }
+}
+
+export default PcieLaneAllocatorService;
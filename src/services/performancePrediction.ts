@@ -1,8 +1,9 @@
 // src/services/performancePrediction.ts
 // パフォーマンス予測・ボトルネック分析サービス
 
-import { PCConfiguration } from '@/types';
+import { PCConfiguration, Part } from '@/types';
 import performanceData from '@/data/compatibility/performance-database.json';
+import SpecNormalizerService from '@/services/specNormalizer';
 
 // 🔧 CPU・GPU性能データの型定義（型安全性向上）
 interface CpuPerformanceData {
@@ -13,6 +14,10 @@ interface CpuPerformanceData {
   };
   tier: string;
   architecture?: string;
+  cores?: number;
+  pCores?: number;
+  eCores?: number;
+  l3CacheMB?: number;
 }
 
 interface GpuPerformanceData {
@@ -25,10 +30,66 @@ interface GpuPerformanceData {
     dlss?: number;
     fsr?: number;
   };
+  vram?: number;
+  memoryBandwidthGBps?: number;
+  encoder?: { name: string; units: number; codecs: string[] };
   architecture: string;
   tier: string;
 }
 
+// ゲームプロファイル（CPU/GPU負荷の比重・VRAM要件・レイトレ/アップスケーラー係数）
+interface GameProfile {
+  rayTracingSupport: boolean;
+  dlssSupport: boolean;
+  fsrSupport: boolean;
+  performanceMultipliers: Record<string, number>;
+  cpuWeight: number;          // CPU処理がGPU処理と重ならずフレーム時間に加算される割合
+  cpuFpsPerScore: number;     // CPUゲーミングスコア1あたりのCPU律速FPS
+  onePercentLowRatio: number; // 1% Low / 平均FPS
+  vramRequirementGB: Record<string, Record<GameQualityPreset, number>>;
+  rayTracing: { gpuFactor: number; cpuFactor: number; vramExtraGB: number } | null;
+  upscalers: Partial<Record<Exclude<UpscalerType, 'none'>, number>>;
+}
+
+interface QualityPresetFactors {
+  label: string;
+  gpuFactor: number;
+  cpuFactor: number;
+}
+
+// 作業負荷プロファイル（モデルごとに使うパラメータが異なる）
+interface WorkloadProfile {
+  name: string;
+  description: string;
+  model: 'render' | 'encode' | 'compile' | 'llm';
+  referenceSeconds?: number;         // 基準機での所要時間（render/encode/compile）
+  cpuReferenceSeconds?: number;      // render: 基準機CPUでの所要時間
+  softwareReferenceSeconds?: number; // encode: 基準機CPUのソフトウェアエンコード時間
+  parallelFraction?: number;         // Amdahl則の並列化可能な割合
+  gpuScalingExponent?: number;
+  sceneVramGB?: number;
+  architectureEfficiency?: Record<string, number>;
+  codec?: string;
+  encoderUnitScaling?: number;       // エンコーダー2基目以降の寄与率
+  cacheSensitivity?: number;
+  memoryBandwidthSensitivity?: number;
+  memoryPerJobGB?: number;
+  modelSizeGB?: number;
+  tokens?: number;
+  vramOverheadGB?: number;
+  systemMemoryReserveGB?: number;
+  gpuBandwidthEfficiency?: number;
+  cpuBandwidthEfficiency?: number;
+}
+
+// 作業時間推定に使うマシン構成
+interface WorkloadMachine {
+  cpu: CpuPerformanceData;
+  gpu: GpuPerformanceData;
+  memoryBandwidthGBps: number;
+  memoryCapacityGB: number;
+}
+
 interface MemoryData {
   specifications?: {
     capacity?: number;
@@ -42,6 +103,7 @@ export interface PerformancePredictionResult {
   bottleneckAnalysis: BottleneckAnalysis;
   gamingPerformance: GamingPerformanceResult;
   useCaseScores: UseCaseScores;
+  workloadEstimates: WorkloadEstimate[];
   recommendations: PerformanceRecommendation[];
   optimizations: OptimizationSuggestion[];
   predictedAt: Date;
@@ -66,6 +128,50 @@ export interface GamingPerformanceResult {
   performanceClass: 'entry' | 'mainstream' | 'high-end' | 'flagship';
 }
 
+export type GameQualityPreset = 'medium' | 'high' | 'ultra';
+export type UpscalerType = 'none' | 'dlss' | 'fsr';
+
+export interface GameFpsOptions {
+  resolutions?: string[];
+  qualities?: GameQualityPreset[];
+  rayTracing?: boolean;                 // 対応ゲームのみレイトレーシングを有効化
+  upscaler?: UpscalerType | 'auto';     // auto: DLSS > FSR の順で対応するものを使用
+}
+
+// ゲーム・解像度・画質プリセット別の予測FPS
+export interface GameFpsEntry {
+  game: string;
+  resolution: string;
+  quality: GameQualityPreset;
+  averageFps: number;
+  onePercentLowFps: number;
+  boundBy: 'cpu' | 'gpu';
+  vramRequiredGB: number;
+  vramShortfallGB: number;
+  rayTracing: boolean;
+  upscaler: UpscalerType;
+}
+
+export interface GameFpsWarning {
+  game: string;
+  resolution: string;
+  quality: GameQualityPreset;
+  severity: 'warning' | 'critical';
+  message: string;
+}
+
+export interface GameFpsPrediction {
+  available: boolean;
+  message?: string;
+  games: string[];
+  resolutions: string[];
+  qualities: GameQualityPreset[];
+  qualityLabels: Record<GameQualityPreset, string>;
+  gpuVramGB?: number;
+  entries: GameFpsEntry[];
+  warnings: GameFpsWarning[];
+}
+
 export interface UseCaseScores {
   gaming: number; // 0-100
   contentCreation: number; // 0-100  
@@ -74,6 +180,22 @@ export interface UseCaseScores {
   details: Record<string, { score: number; explanation: string }>;
 }
 
+export type WorkloadDevice = 'cpu' | 'gpu' | 'hardware_encoder';
+
+// 作業別の所要時間推定（基準機との比較）
+export interface WorkloadEstimate {
+  id: string;
+  name: string;
+  description: string;
+  device: WorkloadDevice;
+  feasible: boolean;         // メモリ不足などで実用的に実行できない場合は false
+  estimatedSeconds: number;
+  referenceSeconds: number;
+  relativeSpeed: number;     // 基準機 = 1.0（大きいほど速い）
+  limitingFactor: string;
+  notes: string[];
+}
+
 export interface PerformanceRecommendation {
   type: 'upgrade' | 'optimize' | 'alternative';
   priority: 'high' | 'medium' | 'low';
@@ -92,9 +214,37 @@ export interface OptimizationSuggestion {
   difficulty: 'easy' | 'medium' | 'hard';
 }
 
+const GAME_RESOLUTIONS = ['1080p', '1440p', '4K'];
+const GAME_QUALITIES: GameQualityPreset[] = ['medium', 'high', 'ultra'];
+
+// ベンチマークスコアから実用FPSへの換算
+const GPU_FPS_SCALE = 0.6;
+// CPU律速では1% Lowがさらに落ちやすい
+const CPU_BOUND_LOW_FACTOR = 0.9;
+// VRAM不足時はテクスチャのスワップでスタッタが発生
+const VRAM_SHORTFALL_AVG_FACTOR = 0.8;
+const VRAM_SHORTFALL_LOW_FACTOR = 0.6;
+const VRAM_CRITICAL_SHORTFALL_GB = 2;
+// GPUのレイトレーシング性能（ラスタ性能比）の補正範囲
+const RT_STRENGTH_RANGE = { min: 0.6, max: 1.1 };
+
+// メモリ帯域幅 = 転送速度(MT/s) × 8バイト × チャネル数（コンシューマ向けは最大デュアルチャネル）
+const MEMORY_BUS_BYTES = 8;
+const MAX_MEMORY_CHANNELS = 2;
+const DEFAULT_MEMORY_CAPACITY_GB = 16;
+
+interface WorkloadModelResult {
+  seconds: number;
+  device: WorkloadDevice;
+  feasible: boolean;
+  limitingFactor: string;
+  notes: string[];
+}
+
 export class PerformancePredictionService {
   private static instance: PerformancePredictionService;
   private database: typeof performanceData;
+  private specNormalizer = SpecNormalizerService.getInstance();
 
   private constructor() {
     this.database = performanceData;
@@ -135,6 +285,9 @@ export class PerformancePredictionService {
     const memoryData = memory ? this.convertPartToMemoryData(memory) : undefined;
     const useCaseScores = this.calculateUseCaseScores(cpuData, gpuData, memoryData);
 
+    // 作業別の所要時間推定（基準機比）
+    const workloadEstimates = this.estimateWorkloads(cpuData, gpuData, memory);
+
     // 推奨事項生成
     const recommendations = this.generateRecommendations(cpuData, gpuData, bottleneckAnalysis, useCaseScores);
 
@@ -149,12 +302,155 @@ export class PerformancePredictionService {
       bottleneckAnalysis,
       gamingPerformance,
       useCaseScores,
+      workloadEstimates,
       recommendations,
       optimizations,
       predictedAt: new Date()
     };
   }
 
+  /**
+   * ゲーム・解像度・画質プリセット別の平均FPSと1% Lowを予測
+   */
+  public predictGameFps(config: PCConfiguration, options: GameFpsOptions = {}): GameFpsPrediction {
+    const resolutions = options.resolutions || GAME_RESOLUTIONS;
+    const qualities = options.qualities || GAME_QUALITIES;
+    const presets = this.database.qualityPresets as Record<GameQualityPreset, QualityPresetFactors>;
+    const profiles = this.database.gamePerformanceProfiles as Record<string, GameProfile>;
+    const base: GameFpsPrediction = {
+      available: false,
+      games: Object.keys(profiles),
+      resolutions,
+      qualities,
+      qualityLabels: {
+        medium: presets.medium.label,
+        high: presets.high.label,
+        ultra: presets.ultra.label
+      },
+      entries: [],
+      warnings: []
+    };
+
+    const cpu = config.parts.cpu;
+    const gpu = config.parts.gpu;
+    if (!cpu || !gpu) {
+      return { ...base, message: 'CPU またはGPU が選択されていません' };
+    }
+
+    const cpuData = this.getCpuPerformanceData(cpu.name || '');
+    const gpuData = this.getGpuPerformanceData(gpu.name || '');
+    if (!cpuData || !gpuData) {
+      return { ...base, message: 'CPU または GPU の性能データが見つかりません' };
+    }
+
+    const entries: GameFpsEntry[] = [];
+    const warnings: GameFpsWarning[] = [];
+    Object.entries(profiles).forEach(([game, profile]) => {
+      resolutions.forEach(resolution => {
+        qualities.forEach(quality => {
+          const entry = this.predictGameEntry(game, profile, cpuData, gpuData, resolution, quality, options);
+          entries.push(entry);
+
+          if (entry.vramShortfallGB > 0) {
+            warnings.push({
+              game,
+              resolution,
+              quality,
+              severity: entry.vramShortfallGB >= VRAM_CRITICAL_SHORTFALL_GB ? 'critical' : 'warning',
+              message: `${game}（${resolution}・${presets[quality].label}${entry.rayTracing ? '・レイトレ' : ''}）はVRAMが${entry.vramShortfallGB}GB不足します` +
+                `（必要 ${entry.vramRequiredGB}GB / 搭載 ${gpuData.vram}GB）。スタッタが発生しやすくなります`
+            });
+          }
+        });
+      });
+    });
+
+    return { ...base, available: true, gpuVramGB: gpuData.vram, entries, warnings };
+  }
+
+  /**
+   * GPUの基準解像度（1440p）ベンチマークスコア（性能データがなければ null）
+   */
+  public getGpuBenchmarkScore(gpu: Part): number | null {
+    return this.getGpuPerformanceData(gpu.name || '')?.benchmarkScores['1440p'] ?? null;
+  }
+
+  // 🎯 1タイトル・1設定のFPS予測（CPU/GPUのフレーム時間を合成）
+  private predictGameEntry(
+    game: string,
+    profile: GameProfile,
+    cpuData: CpuPerformanceData,
+    gpuData: GpuPerformanceData,
+    resolution: string,
+    quality: GameQualityPreset,
+    options: GameFpsOptions
+  ): GameFpsEntry {
+    const preset = (this.database.qualityPresets as Record<GameQualityPreset, QualityPresetFactors>)[quality];
+    const rayTracing = !!options.rayTracing && profile.rayTracingSupport && !!profile.rayTracing;
+    const upscaler = this.resolveUpscaler(profile, gpuData, options.upscaler);
+
+    const rasterScore = gpuData.benchmarkScores[this.normalizeResolutionKey(resolution)] || 0;
+    const rtStrength = Math.min(
+      RT_STRENGTH_RANGE.max,
+      Math.max(RT_STRENGTH_RANGE.min, gpuData.benchmarkScores.rayTracing / (gpuData.benchmarkScores['1440p'] || 1))
+    );
+
+    let gpuFps = rasterScore * (profile.performanceMultipliers[resolution] || 1) * GPU_FPS_SCALE * preset.gpuFactor;
+    let cpuFps = cpuData.benchmarkScores.gaming * profile.cpuFpsPerScore * preset.cpuFactor;
+    if (rayTracing && profile.rayTracing) {
+      gpuFps *= profile.rayTracing.gpuFactor * rtStrength;
+      cpuFps *= profile.rayTracing.cpuFactor;
+    }
+    if (upscaler !== 'none') {
+      gpuFps *= profile.upscalers[upscaler] || 1;
+    }
+
+    // 遅い方がフレーム時間を決め、速い方も cpuWeight の割合だけ加算される
+    const cpuFrameTime = 1 / Math.max(cpuFps, 1);
+    const gpuFrameTime = 1 / Math.max(gpuFps, 1);
+    const frameTime = Math.max(cpuFrameTime, gpuFrameTime) + profile.cpuWeight * Math.min(cpuFrameTime, gpuFrameTime);
+    const boundBy: GameFpsEntry['boundBy'] = cpuFrameTime > gpuFrameTime ? 'cpu' : 'gpu';
+
+    const vramRequiredGB = (profile.vramRequirementGB[resolution]?.[quality] || 0) +
+      (rayTracing && profile.rayTracing ? profile.rayTracing.vramExtraGB : 0);
+    const vramShortfallGB = gpuData.vram ? Math.max(0, vramRequiredGB - gpuData.vram) : 0;
+
+    let averageFps = 1 / frameTime;
+    let onePercentLowFps = averageFps * profile.onePercentLowRatio * (boundBy === 'cpu' ? CPU_BOUND_LOW_FACTOR : 1);
+    if (vramShortfallGB > 0) {
+      averageFps *= VRAM_SHORTFALL_AVG_FACTOR;
+      onePercentLowFps *= VRAM_SHORTFALL_LOW_FACTOR;
+    }
+
+    return {
+      game,
+      resolution,
+      quality,
+      averageFps: Math.round(averageFps),
+      onePercentLowFps: Math.round(onePercentLowFps),
+      boundBy,
+      vramRequiredGB,
+      vramShortfallGB,
+      rayTracing,
+      upscaler
+    };
+  }
+
+  // ゲームとGPUの両方が対応するアップスケーラー（DLSS は GeForce RTX のみ）
+  private resolveUpscaler(profile: GameProfile, gpuData: GpuPerformanceData, requested: GameFpsOptions['upscaler'] = 'none'): UpscalerType {
+    const dlss = profile.dlssSupport && !!profile.upscalers.dlss && this.supportsDlss(gpuData);
+    const fsr = profile.fsrSupport && !!profile.upscalers.fsr;
+
+    if (requested === 'auto') return dlss ? 'dlss' : fsr ? 'fsr' : 'none';
+    if (requested === 'dlss') return dlss ? 'dlss' : 'none';
+    if (requested === 'fsr') return fsr ? 'fsr' : 'none';
+    return 'none';
+  }
+
+  private supportsDlss(gpuData: GpuPerformanceData): boolean {
+    return gpuData.architecture === 'Ada Lovelace' || gpuData.architecture === 'Ampere';
+  }
+
   // CPU性能データ取得（🔧 型安全性向上）
   private getCpuPerformanceData(cpuName: string): CpuPerformanceData | null {
     // CPU名を正規化して検索
@@ -282,19 +578,15 @@ export class PerformancePredictionService {
       averageFps[resolution] = Math.round(fps * 0.6); // 実用FPSに調整
     });
 
-    // ゲーム別FPS予測
+    // ゲーム別FPS予測（高画質プリセット・レイトレ/アップスケーラーなし）
     const gameSpecificFps: Record<string, Record<string, number>> = {};
     games.forEach(game => {
-      const gameProfile = (this.database.gamePerformanceProfiles as Record<string, { performanceMultipliers: Record<string, number> }>)[game];
+      const gameProfile = (this.database.gamePerformanceProfiles as Record<string, GameProfile>)[game];
       gameSpecificFps[game] = {};
       
       resolutions.forEach(resolution => {
-        const resolutionKey = this.normalizeResolutionKey(resolution);
-        const baselineScore = gpuData.benchmarkScores[resolutionKey] || 0;
-        const multiplier = gameProfile.performanceMultipliers[resolution] || 1;
-        const predictedFps = Math.round(baselineScore * multiplier * 0.6);
-        
-        gameSpecificFps[game][resolution] = predictedFps;
+        gameSpecificFps[game][resolution] =
+          this.predictGameEntry(game, gameProfile, cpuData, gpuData, resolution, 'high', {}).averageFps;
       });
     });
 
@@ -308,8 +600,7 @@ export class PerformancePredictionService {
 
     // レイトレ・DLSS対応判定
     const rayTracingViable = gpuData.benchmarkScores.rayTracing >= 120;
-    const dlssAvailable = gpuData.architecture === 'Ada Lovelace' || 
-                         gpuData.architecture === 'Ampere';
+    const dlssAvailable = this.supportsDlss(gpuData);
 
     // 性能クラス判定
     let performanceClass: GamingPerformanceResult['performanceClass'] = 'entry';
@@ -395,6 +686,225 @@ export class PerformancePredictionService {
     };
   }
 
+  // 🎯 作業別の所要時間推定（同じモデルで基準機の時間も求め、比率を算出）
+  private estimateWorkloads(
+    cpuData: CpuPerformanceData,
+    gpuData: GpuPerformanceData,
+    memory: Part | null | undefined
+  ): WorkloadEstimate[] {
+    const reference = this.getReferenceMachine();
+    if (!reference) return [];
+
+    const machine: WorkloadMachine = { cpu: cpuData, gpu: gpuData, ...this.getMemoryMetrics(memory, reference) };
+    const profiles = this.database.workloadProfiles as Record<string, WorkloadProfile>;
+
+    return Object.entries(profiles).map(([id, profile]) => {
+      const result = this.runWorkloadModel(profile, machine, reference);
+      const referenceResult = this.runWorkloadModel(profile, reference, reference);
+
+      return {
+        id,
+        name: profile.name,
+        description: profile.description,
+        device: result.device,
+        feasible: result.feasible,
+        estimatedSeconds: Math.round(result.seconds * 10) / 10,
+        referenceSeconds: Math.round(referenceResult.seconds * 10) / 10,
+        relativeSpeed: Math.round((referenceResult.seconds / result.seconds) * 100) / 100,
+        limitingFactor: result.limitingFactor,
+        notes: result.notes
+      };
+    });
+  }
+
+  private runWorkloadModel(profile: WorkloadProfile, machine: WorkloadMachine, reference: WorkloadMachine): WorkloadModelResult {
+    switch (profile.model) {
+      case 'render':
+        return this.estimateRender(profile, machine, reference);
+      case 'encode':
+        return this.estimateEncode(profile, machine, reference);
+      case 'compile':
+        return this.estimateCompile(profile, machine, reference);
+      case 'llm':
+        return this.estimateLlm(profile, machine);
+    }
+  }
+
+  // レンダリング: GPU演算性能でスケール、シーンがVRAMに収まらなければCPUレンダリング
+  private estimateRender(profile: WorkloadProfile, machine: WorkloadMachine, reference: WorkloadMachine): WorkloadModelResult {
+    const sceneVram = profile.sceneVramGB ?? 0;
+    const vram = machine.gpu.vram ?? 0;
+
+    if (vram < sceneVram) {
+      return {
+        seconds: this.scaleCpuTime(profile.cpuReferenceSeconds ?? 0, profile.parallelFraction ?? 1, machine.cpu, reference.cpu),
+        device: 'cpu',
+        feasible: true,
+        limitingFactor: 'CPUマルチスレッド性能',
+        notes: [`シーンに必要なVRAM ${sceneVram}GB に対し搭載 ${vram}GB のため、CPUレンダリングで推定`]
+      };
+    }
+
+    const efficiencies = profile.architectureEfficiency || {};
+    const efficiency = efficiencies[machine.gpu.architecture] ?? 1;
+    const referenceEfficiency = efficiencies[reference.gpu.architecture] ?? 1;
+    const ratio = (reference.gpu.benchmarkScores.productivity * referenceEfficiency) /
+      (machine.gpu.benchmarkScores.productivity * efficiency);
+    const notes = efficiency < 1
+      ? [`${machine.gpu.architecture} はレンダラーのGPUバックエンド最適化が限定的なため、割り引いて推定`]
+      : [];
+
+    return {
+      seconds: (profile.referenceSeconds ?? 0) * Math.pow(ratio, profile.gpuScalingExponent ?? 1),
+      device: 'gpu',
+      feasible: true,
+      limitingFactor: 'GPU演算性能',
+      notes
+    };
+  }
+
+  // エンコード: 対応コーデックのハードウェアエンコーダーがあれば基数でスケール、なければソフトウェア
+  private estimateEncode(profile: WorkloadProfile, machine: WorkloadMachine, reference: WorkloadMachine): WorkloadModelResult {
+    const codec = profile.codec || '';
+    const encoder = machine.gpu.encoder;
+
+    if (encoder && encoder.codecs.includes(codec)) {
+      const unitScaling = profile.encoderUnitScaling ?? 1;
+      const throughput = (units: number) => 1 + (units - 1) * unitScaling;
+      const referenceUnits = reference.gpu.encoder?.units ?? 1;
+
+      return {
+        seconds: (profile.referenceSeconds ?? 0) * throughput(referenceUnits) / throughput(encoder.units),
+        device: 'hardware_encoder',
+        feasible: true,
+        limitingFactor: `ハードウェアエンコーダー（${encoder.name} ×${encoder.units}）`,
+        notes: ['ハードウェアエンコードは速度優先のため、同じビットレートではソフトウェアエンコードより画質が劣る場合があります']
+      };
+    }
+
+    return {
+      seconds: this.scaleCpuTime(profile.softwareReferenceSeconds ?? 0, profile.parallelFraction ?? 1, machine.cpu, reference.cpu),
+      device: 'cpu',
+      feasible: true,
+      limitingFactor: 'CPUマルチスレッド性能',
+      notes: [`${codec} 対応のハードウェアエンコーダーがないため、ソフトウェアエンコードで推定`]
+    };
+  }
+
+  // コンパイル: Amdahl則 × キャッシュ・メモリ帯域補正、メモリ容量で並列ジョブ数を制限
+  private estimateCompile(profile: WorkloadProfile, machine: WorkloadMachine, reference: WorkloadMachine): WorkloadModelResult {
+    const threads = this.getThreadCount(machine.cpu);
+    const memoryPerJob = profile.memoryPerJobGB ?? 0;
+    const maxJobs = memoryPerJob > 0 ? Math.floor(machine.memoryCapacityGB / memoryPerJob) : threads;
+    const jobs = Math.max(1, Math.min(threads, maxJobs));
+    // SMTによる上積みは小さいため、ジョブ数が物理コア数を下回った分だけ並列性能が落ちるとみなす
+    const physicalCores = (machine.cpu.pCores ?? machine.cpu.cores ?? 1) + (machine.cpu.eCores ?? 0);
+    const parallelThroughput = Math.min(1, jobs / physicalCores);
+    const notes: string[] = [];
+
+    const referenceCache = reference.cpu.l3CacheMB ?? 32;
+    const cacheFactor = Math.pow(referenceCache / (machine.cpu.l3CacheMB ?? referenceCache), profile.cacheSensitivity ?? 0);
+    const bandwidthFactor = Math.pow(reference.memoryBandwidthGBps / machine.memoryBandwidthGBps, profile.memoryBandwidthSensitivity ?? 0);
+    const seconds = this.scaleCpuTime(profile.referenceSeconds ?? 0, profile.parallelFraction ?? 1, machine.cpu, reference.cpu, parallelThroughput) *
+      cacheFactor * bandwidthFactor;
+
+    if (jobs < threads) {
+      notes.push(`並列 ${threads} ジョブには約 ${threads * memoryPerJob}GB 必要ですが、搭載 ${machine.memoryCapacityGB}GB のため ${jobs} ジョブに制限して推定`);
+    }
+
+    return {
+      seconds,
+      device: 'cpu',
+      feasible: maxJobs >= 1,
+      limitingFactor: parallelThroughput < 1 ? 'メモリ容量（並列ジョブ数）' : 'CPUマルチスレッド性能',
+      notes
+    };
+  }
+
+  // LLM推論: トークン生成はモデル全体を毎回読み出すため、メモリ帯域幅 / モデルサイズで決まる
+  private estimateLlm(profile: WorkloadProfile, machine: WorkloadMachine): WorkloadModelResult {
+    const modelSize = profile.modelSizeGB ?? 1;
+    const tokens = profile.tokens ?? 0;
+    const vramRequired = modelSize + (profile.vramOverheadGB ?? 0);
+    const gpuBandwidth = machine.gpu.memoryBandwidthGBps;
+
+    if (gpuBandwidth && (machine.gpu.vram ?? 0) >= vramRequired) {
+      const tokensPerSecond = gpuBandwidth * (profile.gpuBandwidthEfficiency ?? 1) / modelSize;
+      return {
+        seconds: tokens / tokensPerSecond,
+        device: 'gpu',
+        feasible: true,
+        limitingFactor: 'VRAM帯域幅',
+        notes: [`約 ${tokensPerSecond.toFixed(1)} トークン/秒`]
+      };
+    }
+
+    const tokensPerSecond = machine.memoryBandwidthGBps * (profile.cpuBandwidthEfficiency ?? 1) / modelSize;
+    const memoryRequired = modelSize + (profile.systemMemoryReserveGB ?? 0);
+    const feasible = machine.memoryCapacityGB >= memoryRequired;
+    const notes = [
+      `モデルに必要なVRAM ${vramRequired}GB に対し搭載 ${machine.gpu.vram ?? 0}GB のため、CPU推論で推定`,
+      `約 ${tokensPerSecond.toFixed(1)} トークン/秒`
+    ];
+    if (!feasible) {
+      notes.push(`メインメモリ ${machine.memoryCapacityGB}GB ではモデルを読み込めません（${memoryRequired}GB 以上推奨）`);
+    }
+
+    return {
+      seconds: tokens / tokensPerSecond,
+      device: 'cpu',
+      feasible,
+      limitingFactor: 'メインメモリ帯域幅',
+      notes
+    };
+  }
+
+  // Amdahl則: 逐次部分はシングルスレッド性能、並列部分はマルチスレッド性能でスケール
+  private scaleCpuTime(
+    referenceSeconds: number,
+    parallelFraction: number,
+    cpuData: CpuPerformanceData,
+    referenceCpu: CpuPerformanceData,
+    parallelThroughput = 1
+  ): number {
+    const serial = (1 - parallelFraction) * referenceCpu.benchmarkScores.singleCore / cpuData.benchmarkScores.singleCore;
+    const parallel = parallelFraction * referenceCpu.benchmarkScores.multiCore / (cpuData.benchmarkScores.multiCore * parallelThroughput);
+    return referenceSeconds * (serial + parallel);
+  }
+
+  // Pコアはハイパースレッディング/SMTで2スレッド、Eコアは1スレッド
+  private getThreadCount(cpuData: CpuPerformanceData): number {
+    const pCores = cpuData.pCores ?? cpuData.cores ?? 1;
+    return pCores * 2 + (cpuData.eCores ?? 0);
+  }
+
+  private getReferenceMachine(): WorkloadMachine | null {
+    const reference = this.database.referenceMachine;
+    const cpu = this.getCpuPerformanceData(reference.cpu);
+    const gpu = this.getGpuPerformanceData(reference.gpu);
+    if (!cpu || !gpu) return null;
+
+    return {
+      cpu,
+      gpu,
+      memoryBandwidthGBps: reference.memoryBandwidthGBps,
+      memoryCapacityGB: reference.memoryCapacityGB
+    };
+  }
+
+  // メモリ未選択・速度不明の場合は基準機の帯域幅を仮定
+  private getMemoryMetrics(memory: Part | null | undefined, reference: WorkloadMachine): Pick<WorkloadMachine, 'memoryBandwidthGBps' | 'memoryCapacityGB'> {
+    const specs = this.specNormalizer.getSpecs(memory, 'memory');
+    const channels = Math.min(specs?.modules ?? 1, MAX_MEMORY_CHANNELS);
+
+    return {
+      memoryBandwidthGBps: specs?.speedMHz
+        ? specs.speedMHz * MEMORY_BUS_BYTES * channels / 1000
+        : reference.memoryBandwidthGBps,
+      memoryCapacityGB: specs?.capacityGB ?? DEFAULT_MEMORY_CAPACITY_GB
+    };
+  }
+
   // 推奨事項生成（🔧 型安全性向上）
   private generateRecommendations(
     _cpuData: CpuPerformanceData, 
@@ -532,7 +1042,7 @@ export class PerformancePredictionService {
     const patterns = [
       /RTX (\d{4})/i,
       /GTX (\d{4})/i,
-      /RX (\d{4} [A-Z]*)/i
+      /RX \d{4}(?: (?:XTX|XT|GRE)\b)?/i
     ];
     
     for (const pattern of patterns) {
@@ -595,6 +1105,7 @@ export class PerformancePredictionService {
         overall: 0,
         details: {}
       },
+      workloadEstimates: [],
       recommendations: [],
       optimizations: [],
       predictedAt: new Date()
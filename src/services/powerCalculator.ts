@@ -1,11 +1,25 @@
 // src/services/powerCalculator.ts
 import { Part, PartCategory, PCConfiguration } from '@/types';
 import { 
+  CYBENETICS_EFFICIENCY_CURVES,
+  EfficiencyCurve,
   PowerCalculationResult, 
   PowerWarning,
   PowerConsumption,
+  PowerTransientAnalysis,
+  PowerTransientSpike,
+  PSU_EFFICIENCY_CURVES,
+  PsuAtxStandard,
+  PsuEfficiencyAnalysis,
+  PsuEfficiencyPoint,
+  PsuEfficiencyProfile,
   PSUSpecification
 } from '@/types/power';
+import SpecNormalizerService from '@/services/specNormalizer';
+import powerSpecsData from '@/data/static/powerSpecs.json';
+
+// 電力計算は選択パーツのみ参照（互換性ルールの評価構成もそのまま渡せる）
+export type PowerConfiguration = Pick<PCConfiguration, 'parts'>;
 
 // デフォルト電力仕様データ（後でJSONファイルから読み込み予定）
 const DEFAULT_POWER_SPECS = {
@@ -50,8 +64,52 @@ const DEFAULT_POWER_SPECS = {
   }
 };
 
+// 過渡スパイク特性（定常最大に対する数ミリ秒単位のピーク倍率、先頭から一致）
+const TRANSIENT_PROFILES: Record<'cpu' | 'gpu', Array<{ family: string; pattern: RegExp; spikeFactor: number }>> = {
+  gpu: [
+    { family: 'RTX 30 (上位)', pattern: /rtx\s*30(80|90)/i, spikeFactor: 2.2 },
+    { family: 'RTX 30', pattern: /rtx\s*30\d0/i, spikeFactor: 1.8 },
+    { family: 'RTX 40', pattern: /rtx\s*40\d0/i, spikeFactor: 1.5 },
+    { family: 'RTX 50', pattern: /rtx\s*50\d0/i, spikeFactor: 1.6 },
+    { family: 'RX 6000', pattern: /rx\s*6\d00/i, spikeFactor: 1.9 },
+    { family: 'RX 7000', pattern: /rx\s*7\d00/i, spikeFactor: 1.7 },
+    { family: 'RX 9000', pattern: /rx\s*9\d{3}/i, spikeFactor: 1.6 }
+  ],
+  cpu: [
+    { family: 'Intel Core', pattern: /intel|core\s*(i\d|ultra)/i, spikeFactor: 1.25 },
+    { family: 'AMD Ryzen', pattern: /ryzen/i, spikeFactor: 1.1 }
+  ]
+};
+const DEFAULT_SPIKE_FACTORS = { cpu: 1.2, gpu: 1.6 };
+
+// 電源規格ごとの瞬間的な過負荷の許容倍率（ATX 3.x は10msで定格の160%、2.x はOCPが先に作動）
+const PSU_TRANSIENT_TOLERANCE: Record<Exclude<PsuAtxStandard, 'unknown'>, number> = {
+  'ATX 3.x': 1.6,
+  'ATX 2.x': 1.2
+};
+
+// 瞬間最大がこれを超えるGPUは ATX 3.x 電源を推奨
+const HIGH_SPIKE_GPU_THRESHOLD = 400;
+
+// powerSpecs.json の電源エントリ（製品別の効率曲線・Cybenetics認証）
+interface PsuPowerSpecEntry {
+  partId: string;
+  modelNumber?: string;
+  name: string;
+  efficiencyCert?: string;
+  cybenetics?: { eta?: string; lambda?: string };
+  efficiencyCurve?: EfficiencyCurve;
+}
+const PSU_POWER_SPECS: PsuPowerSpecEntry[] = powerSpecsData.psu;
+
+// 認証情報がない電源は 80 PLUS Bronze 相当とみなす
+const DEFAULT_EFFICIENCY_TIER = '80 PLUS Bronze';
+// 20%未満の低負荷域は効率が落ちる（10%負荷で20%時から何ポイント下がるか）
+const LOW_LOAD_EFFICIENCY_DROP = 0.08;
+
 export class PowerCalculatorService {
   private static instance: PowerCalculatorService;
+  private specNormalizer = SpecNormalizerService.getInstance();
   
   // シングルトンパターン
   public static getInstance(): PowerCalculatorService {
@@ -62,7 +120,7 @@ export class PowerCalculatorService {
   }
 
   // 設定の消費電力を計算
-  public calculatePowerConsumption(config: PCConfiguration): PowerCalculationResult {
+  public calculatePowerConsumption(config: PowerConfiguration): PowerCalculationResult {
     const consumptions: PowerConsumption[] = [];
     const warnings: PowerWarning[] = [];
     
@@ -101,21 +159,30 @@ export class PowerCalculatorService {
     totalMaxPower += systemOverhead.max;
     totalIdlePower += systemOverhead.idle;
 
-    // 推奨電源容量を計算（20%の安全マージン）
+    // 推奨電源容量を計算（定常最大に20%の安全マージン、過渡スパイクは電源規格の許容量で判定）
     const safetyMargin = 0.2;
-    const recommendedPSU = Math.ceil((totalMaxPower * (1 + safetyMargin)) / 50) * 50; // 50W単位で切り上げ
+    const transient = this.analyzeTransients(config, consumptions, totalMaxPower, safetyMargin);
+    const recommendedPSU = transient.recommendedPSU;
 
     // 電力効率を計算
     const powerEfficiency = this.calculateOverallEfficiency(consumptions);
 
     // 警告を生成
     warnings.push(...this.generatePowerWarnings(config, totalMaxPower, recommendedPSU));
+    warnings.push(...this.generateTransientWarnings(transient));
 
     // PSU負荷率を計算
     const currentPSU = config.parts.psu;
     const psuLoadPercentage = currentPSU ? 
       (totalMaxPower / this.extractPSUCapacity(currentPSU)) * 100 : 0;
 
+    // 負荷率別の電源効率（未選択時は推奨容量の電源を想定）
+    const psuEfficiency = this.analyzePsuEfficiency(
+      currentPSU,
+      currentPSU ? this.extractPSUCapacity(currentPSU) : recommendedPSU,
+      { idle: totalIdlePower, base: totalBasePower, max: totalMaxPower }
+    );
+
     // 最適化判定
     const isOptimal = this.isPowerConfigOptimal(config, totalMaxPower, recommendedPSU);
 
@@ -124,9 +191,13 @@ export class PowerCalculatorService {
       totalMaxPower,
       totalIdlePower,
       recommendedPSU,
+      sustainedPower: transient.sustainedPower,
+      transientPower: transient.transientPower,
+      transient,
       safetyMargin: safetyMargin * 100,
       powerEfficiency,
       psuLoadPercentage,
+      psuEfficiency,
       consumptions,
       warnings,
       isOptimal
@@ -174,40 +245,143 @@ export class PowerCalculatorService {
       }
     }
 
+    const specs = this.specNormalizer.normalize(part, category).specs;
+    const defaultSpec = (categorySpecs as Record<string, {idle: number; base: number; max: number; efficiency: number}>).default;
+
+    // 仕様に消費電力がある場合はデフォルト値をその最大値に合わせてスケーリング
+    if (specs.powerW && defaultSpec) {
+      const scale = specs.powerW / defaultSpec.max;
+      return {
+        idle: Math.round(defaultSpec.idle * scale),
+        base: Math.round(defaultSpec.base * scale),
+        max: specs.powerW,
+        efficiency: defaultSpec.efficiency
+      };
+    }
+
     // フォームファクターベースのマッチング（マザーボード等）
-    if (category === 'motherboard' && part.specifications?.formFactor) {
-      const formFactor = typeof part.specifications.formFactor === 'string' 
-        ? part.specifications.formFactor.toLowerCase().replace(' ', '-')
-        : '';
-      const formFactorSpec = (categorySpecs as Record<string, {idle: number; base: number; max: number; efficiency: number}>)[formFactor];
+    if (specs.category === 'motherboard' && specs.formFactor) {
+      const formFactorSpec = (categorySpecs as Record<string, {idle: number; base: number; max: number; efficiency: number}>)[specs.formFactor.toLowerCase()];
       if (formFactorSpec) return formFactorSpec;
     }
 
     // メモリタイプでのマッチング
-    if (category === 'memory' && part.specifications?.type) {
-      const memType = typeof part.specifications.type === 'string'
-        ? part.specifications.type.toLowerCase()
-        : '';
-      const memSpec = (categorySpecs as Record<string, {idle: number; base: number; max: number; efficiency: number}>)[memType];
+    if (specs.category === 'memory' && specs.memoryType) {
+      const memSpec = (categorySpecs as Record<string, {idle: number; base: number; max: number; efficiency: number}>)[specs.memoryType.toLowerCase()];
       if (memSpec) return memSpec;
     }
 
     // ストレージタイプでのマッチング
-    if (category === 'storage' && part.specifications?.type) {
-      const storageType = typeof part.specifications.type === 'string'
-        ? part.specifications.type.toLowerCase()
-        : '';
-      const storageSpec = (categorySpecs as Record<string, {idle: number; base: number; max: number; efficiency: number}>)[storageType];
+    if (specs.category === 'storage' && specs.storageType) {
+      const storageKey = { 'NVMe': 'nvme', 'SATA SSD': 'ssd', 'HDD': 'hdd' }[specs.storageType];
+      const storageSpec = (categorySpecs as Record<string, {idle: number; base: number; max: number; efficiency: number}>)[storageKey];
       if (storageSpec) return storageSpec;
     }
 
     // デフォルト値を返す
-    return (categorySpecs as Record<string, {idle: number; base: number; max: number; efficiency: number}>).default || { idle: 5, base: 10, max: 20, efficiency: 85 };
+    return defaultSpec || { idle: 5, base: 10, max: 20, efficiency: 85 };
+  }
+
+  // 🎯 過渡スパイク分析（CPU・GPUの瞬間ピークと電源規格の許容量）
+  private analyzeTransients(
+    config: PowerConfiguration,
+    consumptions: PowerConsumption[],
+    sustainedPower: number,
+    safetyMargin: number
+  ): PowerTransientAnalysis {
+    const spikes: PowerTransientSpike[] = consumptions
+      .filter(consumption => consumption.category === 'cpu' || consumption.category === 'gpu')
+      .map(consumption => {
+        const category = consumption.category as 'cpu' | 'gpu';
+        const profile = TRANSIENT_PROFILES[category].find(item => item.pattern.test(consumption.partName));
+        const spikeFactor = profile?.spikeFactor ?? DEFAULT_SPIKE_FACTORS[category];
+        const transientPower = Math.round(consumption.maxPower * spikeFactor);
+        consumption.peakPower = transientPower;
+        return {
+          partId: consumption.partId,
+          partName: consumption.partName,
+          category,
+          family: profile?.family || '一般',
+          sustainedPower: consumption.maxPower,
+          spikeFactor,
+          transientPower
+        };
+      });
+
+    const transientPower = Math.round(
+      sustainedPower + spikes.reduce((sum, spike) => sum + spike.transientPower - spike.sustainedPower, 0)
+    );
+    const sustainedRequirement = sustainedPower * (1 + safetyMargin);
+    const roundUp = (watts: number) => Math.ceil(watts / 50) * 50; // 50W単位で切り上げ
+    const recommendedByStandard = {
+      atx2: roundUp(Math.max(sustainedRequirement, transientPower / PSU_TRANSIENT_TOLERANCE['ATX 2.x'])),
+      atx3: roundUp(Math.max(sustainedRequirement, transientPower / PSU_TRANSIENT_TOLERANCE['ATX 3.x']))
+    };
+
+    const psu = config.parts.psu;
+    const psuStandard = this.getPsuStandard(psu);
+    // 規格不明の電源は ATX 2.x として扱う
+    const tolerance = PSU_TRANSIENT_TOLERANCE[psuStandard === 'ATX 3.x' ? 'ATX 3.x' : 'ATX 2.x'];
+
+    return {
+      sustainedPower,
+      transientPower,
+      recommendedPSU: psuStandard === 'ATX 3.x' ? recommendedByStandard.atx3 : recommendedByStandard.atx2,
+      recommendedByStandard,
+      psuStandard,
+      psuTransientCapacity: psu ? Math.round(this.extractPSUCapacity(psu) * tolerance) : undefined,
+      spikes,
+      highSpikeGpu: spikes.some(spike => spike.category === 'gpu' && spike.transientPower >= HIGH_SPIKE_GPU_THRESHOLD)
+    };
+  }
+
+  // 電源のATX規格（仕様・製品名に記載がなければ不明）
+  private getPsuStandard(psu?: Part | null): PsuAtxStandard {
+    const atxVersion = this.specNormalizer.getSpecs(psu, 'psu')?.atxVersion;
+    if (atxVersion === undefined) return 'unknown';
+    return atxVersion >= 3 ? 'ATX 3.x' : 'ATX 2.x';
+  }
+
+  // 過渡スパイク関連の警告
+  private generateTransientWarnings(transient: PowerTransientAnalysis): PowerWarning[] {
+    const warnings: PowerWarning[] = [];
+    const { transientPower, psuTransientCapacity, psuStandard, recommendedByStandard } = transient;
+
+    if (psuTransientCapacity && transientPower > psuTransientCapacity) {
+      warnings.push({
+        id: 'transient-overload',
+        type: 'transient_spike',
+        severity: 'high',
+        message: `瞬間的な電力スパイク（推定 ${transientPower}W）が電源の許容範囲（約 ${psuTransientCapacity}W）を超え、保護回路が作動してシャットダウンする可能性があります`,
+        value: transientPower,
+        threshold: psuTransientCapacity,
+        suggestion: psuStandard === 'ATX 3.x'
+          ? `${recommendedByStandard.atx3}W以上の電源を推奨します`
+          : `ATX 3.x 対応の${recommendedByStandard.atx3}W以上、または${recommendedByStandard.atx2}W以上の電源を推奨します`
+      });
+    }
+
+    if (psuTransientCapacity && transient.highSpikeGpu && psuStandard !== 'ATX 3.x') {
+      const gpuSpike = Math.max(...transient.spikes.filter(spike => spike.category === 'gpu').map(spike => spike.transientPower));
+      warnings.push({
+        id: 'atx2-high-spike-gpu',
+        type: 'transient_spike',
+        severity: psuStandard === 'ATX 2.x' ? 'medium' : 'low',
+        message: psuStandard === 'ATX 2.x'
+          ? `ATX 2.x 電源と瞬間的な電力スパイクの大きいGPU（推定 ${gpuSpike}W）の組み合わせです`
+          : `電源の ATX 3.x 対応が確認できません。GPUの瞬間的な電力スパイク（推定 ${gpuSpike}W）に注意してください`,
+        value: gpuSpike,
+        threshold: HIGH_SPIKE_GPU_THRESHOLD,
+        suggestion: 'ATX 3.0 以降に対応した電源を推奨します（瞬間的な過負荷への耐性が規格で定められています）'
+      });
+    }
+
+    return warnings;
   }
 
   // システムオーバーヘッドを計算
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private calculateSystemOverhead(_config: PCConfiguration): {
+  private calculateSystemOverhead(_config: PowerConfiguration): {
     base: number;
     max: number;
     idle: number;
@@ -243,7 +417,7 @@ export class PowerCalculatorService {
 
   // 電源関連の警告を生成
   private generatePowerWarnings(
-    config: PCConfiguration,
+    config: PowerConfiguration,
     totalMaxPower: number,
     recommendedPSU: number
   ): PowerWarning[] {
@@ -340,26 +514,98 @@ export class PowerCalculatorService {
     return warnings;
   }
 
-  // 電源容量をパーツから抽出
-  private extractPSUCapacity(psu: Part): number {
-    // specifications から取得
-    if (psu.specifications?.capacity) {
-      const capacity = psu.specifications.capacity;
-      if (typeof capacity === 'number') {
-        return capacity;
-      }
-      if (typeof capacity === 'string') {
-        const parsed = parseInt(capacity, 10);
-        if (!isNaN(parsed)) {
-          return parsed;
-        }
+  /**
+   * 電源の効率曲線（製品別実測 > Cybenetics ETA > 80 PLUS > 既定値）
+   */
+  public getPsuEfficiencyProfile(psu?: Part | null): PsuEfficiencyProfile {
+    const specs = this.specNormalizer.getSpecs(psu, 'psu');
+    const entry = psu ? this.findPsuPowerSpec(psu) : undefined;
+
+    if (entry?.efficiencyCurve) {
+      const eta = this.specNormalizer.normalizeCybeneticsEta(entry.cybenetics);
+      return {
+        curve: entry.efficiencyCurve,
+        source: 'model',
+        rating: eta ? `Cybenetics ${eta}` : specs?.efficiency || this.specNormalizer.normalizeEfficiency(entry.efficiencyCert) || DEFAULT_EFFICIENCY_TIER
+      };
+    }
+
+    const eta = specs?.cybeneticsEta || this.specNormalizer.normalizeCybeneticsEta(entry?.cybenetics);
+    if (eta && CYBENETICS_EFFICIENCY_CURVES[eta]) {
+      return { curve: CYBENETICS_EFFICIENCY_CURVES[eta], source: 'cybenetics', rating: `Cybenetics ${eta}` };
+    }
+
+    const tier = specs?.efficiency || this.specNormalizer.normalizeEfficiency(entry?.efficiencyCert);
+    if (tier && PSU_EFFICIENCY_CURVES[tier]) {
+      return { curve: PSU_EFFICIENCY_CURVES[tier], source: '80plus', rating: tier };
+    }
+
+    return { curve: PSU_EFFICIENCY_CURVES[DEFAULT_EFFICIENCY_TIER], source: 'default', rating: `${DEFAULT_EFFICIENCY_TIER}相当` };
+  }
+
+  /**
+   * 効率曲線を負荷率 (0-1) で線形補間
+   */
+  public interpolateEfficiency(curve: EfficiencyCurve, load: number): number {
+    const points: Array<[number, number]> = [
+      [0.1, curve.load20 - LOW_LOAD_EFFICIENCY_DROP],
+      [0.2, curve.load20],
+      [0.5, curve.load50],
+      [0.8, curve.load80],
+      [1.0, curve.load100]
+    ];
+
+    if (load <= points[0][0]) return points[0][1];
+    for (let index = 1; index < points.length; index++) {
+      const [x1, y1] = points[index];
+      if (load <= x1) {
+        const [x0, y0] = points[index - 1];
+        return y0 + ((y1 - y0) * (load - x0)) / (x1 - x0);
       }
     }
+    return curve.load100;
+  }
 
-    // パーツ名から容量を抽出（例: "750W Gold電源" -> 750）
-    const match = psu.name.match(/(\d+)W/i);
-    if (match) {
-      return parseInt(match[1]);
+  // 🎯 アイドル・通常・最大の各負荷点での効率とコンセント側消費電力
+  private analyzePsuEfficiency(
+    psu: Part | null | undefined,
+    psuCapacity: number,
+    dcPower: { idle: number; base: number; max: number }
+  ): PsuEfficiencyAnalysis {
+    const profile = this.getPsuEfficiencyProfile(psu);
+    const point = (power: number): PsuEfficiencyPoint => {
+      const load = psuCapacity > 0 ? power / psuCapacity : 0;
+      const efficiency = this.interpolateEfficiency(profile.curve, load);
+      return {
+        dcPower: Math.round(power),
+        loadPercentage: Math.round(load * 100),
+        efficiency: Math.round(efficiency * 1000) / 1000,
+        wallPower: Math.round(power / efficiency)
+      };
+    };
+
+    return {
+      ...profile,
+      psuCapacity,
+      idle: point(dcPower.idle),
+      base: point(dcPower.base),
+      max: point(dcPower.max)
+    };
+  }
+
+  // powerSpecs.json の電源エントリを検索（パーツID → 型番の部分一致）
+  private findPsuPowerSpec(psu: Part): PsuPowerSpecEntry | undefined {
+    const name = psu.name.toLowerCase();
+    return PSU_POWER_SPECS.find(entry => entry.partId === psu.id) ||
+      PSU_POWER_SPECS.find(entry => entry.modelNumber && name.includes(entry.modelNumber.toLowerCase()));
+  }
+
+  // 電源容量をパーツから抽出
+  private extractPSUCapacity(psu: Part): number {
+    // 正規化済み仕様から取得（仕様にない場合はパーツ名 "750W Gold電源" 等から抽出済み）
+    const wattage = this.specNormalizer.normalize(psu, 'psu').specs.wattage;
+    if (wattage) {
+      return wattage;
     }
 
     // デフォルト値
@@ -369,8 +615,7 @@ export class PowerCalculatorService {
   // 効率認証があるかチェック
   private hasEfficiencyCertification(psu: Part): boolean {
     const name = psu.name.toLowerCase();
-    const efficiency = psu.specifications?.efficiency;
-    const efficiencyStr = typeof efficiency === 'string' ? efficiency.toLowerCase() : '';
+    const efficiency = this.specNormalizer.normalize(psu, 'psu').specs.efficiency || '';
     
     return name.includes('80+') || 
            name.includes('bronze') ||
@@ -378,12 +623,12 @@ export class PowerCalculatorService {
            name.includes('gold') ||
            name.includes('platinum') ||
            name.includes('titanium') ||
-           efficiencyStr.includes('80+');
+           efficiency.startsWith('80 PLUS');
   }
 
   // 電源設定が最適かどうかを判定
   private isPowerConfigOptimal(
-    config: PCConfiguration,
+    config: PowerConfiguration,
     totalMaxPower: number,
     recommendedPSU: number
   ): boolean {
@@ -465,25 +710,4 @@ export class PowerCalculatorService {
     // 必要な容量以上のPSUのみをフィルタリング
     return baseRecommendations.filter(psu => psu.capacity >= requiredWattage);
   }
-
-  // 月間電気代を計算
-  public calculateMonthlyCost(
-    powerResult: PowerCalculationResult,
-    usageHours: number,
-    electricityRate: number
-  ): { idle: number; normal: number; peak: number } {
-    const daysInMonth = 30;
-    const idleHours = 24 - usageHours;
-    
-    // kWh単位に変換
-    const idleCost = (powerResult.totalIdlePower / 1000) * idleHours * daysInMonth * electricityRate;
-    const normalCost = (powerResult.totalBasePower / 1000) * usageHours * daysInMonth * electricityRate;
-    const peakCost = (powerResult.totalMaxPower / 1000) * (usageHours * 0.1) * daysInMonth * electricityRate; // ピーク使用は10%程度と仮定
-
-    return {
-      idle: idleCost,
-      normal: normalCost,
-      peak: peakCost
-    };
-  }
 }
\ No newline at end of file
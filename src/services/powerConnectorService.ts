@@ -0,0 +1,320 @@
+// src/services/powerConnectorService.ts
+// 🔌 電源コネクタ集計サービス - 電源のネイティブケーブルと各デバイスの必要本数を突き合わせ
+
+import { Part } from '@/types';
+import {
+  PowerAdapterUsage,
+  PowerConnectorAvailable,
+  PowerConnectorCheck,
+  PowerConnectorRequirements,
+  PowerConnectorShortage,
+  PowerConnectorType
+} from '@/types/power';
+import SpecNormalizerService from '@/services/specNormalizer';
+import CompatibilityDatabaseService from '@/services/compatibilityDatabase';
+
+// 集計対象のパーツ
+export interface PowerConnectorInput {
+  motherboard?: Part | null;
+  cpu?: Part | null;
+  psu?: Part | null;
+  gpus: Part[];
+  storage: Part[];
+  fans: Part[];
+  accessories: Part[];
+  expansion: Part[];
+}
+
+// コネクタの表示名
+export const POWER_CONNECTOR_LABELS: Record<PowerConnectorType, string> = {
+  atx24: 'ATX 24ピン',
+  eps8: 'CPU 8ピン',
+  eps4: 'CPU 4ピン',
+  pcie8: 'PCIe 8ピン',
+  pcie6: 'PCIe 6ピン',
+  highPower: '12V-2x6 (12VHPWR)',
+  sata: 'SATA電源',
+  molex: 'Molex'
+};
+
+// 不足時に代用できるネイティブケーブル（同一ケーブルの分割・上位互換のみ）
+const CONNECTOR_SUBSTITUTES: Partial<Record<PowerConnectorType, PowerConnectorType>> = {
+  eps4: 'eps8',                    // 4+4ピンの片側
+  pcie6: 'pcie8'                   // 6+2ピンの6ピン側
+};
+
+// バス給電（75W）を超えるGPUは PCIe 8ピン（150W）単位で補助電源が必要
+const PCIE_SLOT_POWER = 75;
+const PCIE_8PIN_POWER = 150;
+
+// SATA電源を使うファンハブ・コントローラー
+const FAN_HUB_PATTERN = /hub|ハブ|コントローラー|controller/i;
+
+// CPU・GPU用の補助電源ケーブル（SATA・Molexは1本に複数口）
+export const AUXILIARY_POWER_CONNECTORS: readonly PowerConnectorType[] = ['eps8', 'eps4', 'pcie8', 'pcie6', 'highPower'];
+
+type ConnectorContext = 'cpu' | 'gpu' | 'psu' | 'peripheral';
+
+const emptyCounts = (): PowerConnectorAvailable => ({
+  atx24: 0,
+  eps8: 0,
+  eps4: 0,
+  pcie8: 0,
+  pcie6: 0,
+  highPower: 0,
+  sata: 0,
+  molex: 0
+});
+
+export class PowerConnectorService {
+  private static instance: PowerConnectorService;
+  private specNormalizer = SpecNormalizerService.getInstance();
+  private database = CompatibilityDatabaseService.getInstance();
+
+  public static getInstance(): PowerConnectorService {
+    if (!PowerConnectorService.instance) {
+      PowerConnectorService.instance = new PowerConnectorService();
+    }
+    return PowerConnectorService.instance;
+  }
+
+  // 🎯 必要コネクタを電源のケーブルに割り当て、アダプタ使用と不足を集計
+  public check(input: PowerConnectorInput): PowerConnectorCheck {
+    const required = this.collectRequirements(input);
+    const available = this.getAvailable(input.psu);
+    const pool = { ...available };
+    const adapters: PowerAdapterUsage[] = [];
+    const unmet: Array<{ connector: PowerConnectorType; device: string }> = [];
+
+    // 全デバイスで 同種のネイティブ → 分割・上位互換のケーブル → 変換アダプタ の順に割り当て
+    // （パーツの並び順で先のデバイスがアダプタ用にケーブルを使い切らないように）
+    const units = required.flatMap(requirement => Array.from({ length: requirement.count }, () => requirement));
+    units
+      .filter(requirement => !this.take(pool, requirement.connector))
+      .filter(requirement => !this.takeSubstitute(pool, requirement.connector))
+      .forEach(requirement => {
+        const adapter = this.tryAdapter(pool, requirement);
+        if (adapter) {
+          adapters.push(adapter);
+        } else {
+          unmet.push({ connector: requirement.connector, device: requirement.device });
+        }
+      });
+
+    const shortages: PowerConnectorShortage[] = [...new Set(unmet.map(item => item.connector))].map(connector => {
+      const items = unmet.filter(item => item.connector === connector);
+      return {
+        connector,
+        required: required.filter(r => r.connector === connector).reduce((sum, r) => sum + r.count, 0),
+        available: available[connector],
+        missing: items.length,
+        devices: [...new Set(items.map(item => item.device))]
+      };
+    });
+
+    const used = emptyCounts();
+    (Object.keys(available) as PowerConnectorType[]).forEach(type => {
+      used[type] = available[type] - pool[type];
+    });
+
+    return {
+      required,
+      available,
+      used,
+      adapters,
+      shortages,
+      sufficient: shortages.length === 0,
+      missing: shortages.map(shortage =>
+        `${POWER_CONNECTOR_LABELS[shortage.connector]} ×${shortage.missing} (${shortage.devices.join(', ')})`
+      )
+    };
+  }
+
+  // 電源のネイティブケーブル（仕様がなければ容量帯の標準構成）
+  public getAvailable(psu?: Part | null): PowerConnectorAvailable {
+    const specs = this.specNormalizer.getSpecs(psu, 'psu');
+    if (!specs) return emptyCounts();
+
+    const connectors = Object.keys(specs.connectors).length > 0
+      ? specs.connectors
+      : (specs.wattage ? this.database.getTypicalPsuConnectors(specs.wattage) : null) || {};
+
+    const counts = emptyCounts();
+    Object.entries(connectors).forEach(([name, count]) => {
+      const type = this.toConnectorType(name, 'psu');
+      if (type) counts[type] += count;
+    });
+    return counts;
+  }
+
+  private collectRequirements(input: PowerConnectorInput): PowerConnectorRequirements[] {
+    const required: PowerConnectorRequirements[] = [];
+    const add = (
+      list: Array<{ connector: PowerConnectorType; count: number }>,
+      device: string,
+      purpose: string,
+      deviceDrawW?: number
+    ) => {
+      list.forEach(({ connector, count }) => required.push({ connector, count, device, purpose, deviceDrawW }));
+    };
+
+    if (input.motherboard) {
+      const cpuConnector = this.specNormalizer.getSpecs(input.motherboard, 'motherboard')?.cpuPowerConnector;
+      add([{ connector: 'atx24', count: 1 }], input.motherboard.name, 'メイン電源');
+      add(
+        cpuConnector ? this.parseConnectors(cpuConnector, 'cpu') : [{ connector: 'eps8', count: 1 }],
+        input.cpu?.name || 'CPU',
+        'CPU電源'
+      );
+    }
+
+    input.gpus.forEach(gpu => {
+      const specs = this.specNormalizer.getSpecs(gpu, 'gpu');
+      add(this.getGpuConnectors(gpu), gpu.name, 'GPU電源', specs?.tdpW || specs?.powerW);
+    });
+
+    input.storage.forEach(drive => {
+      const specs = this.specNormalizer.getSpecs(drive, 'storage');
+      // M.2 はマザーボードから給電
+      if (specs?.storageType === 'NVMe' || specs?.formFactor?.includes('M.2')) return;
+      add([{ connector: 'sata', count: 1 }], drive.name, 'ストレージ電源');
+    });
+
+    [...input.fans, ...input.accessories, ...input.expansion].forEach(part => {
+      const declared = this.readDeclaredConnectors(part);
+      if (declared.length > 0) {
+        add(declared, part.name, '周辺機器電源');
+      } else if (FAN_HUB_PATTERN.test(part.name)) {
+        add([{ connector: 'sata', count: 1 }], part.name, 'ファンハブ電源');
+      }
+    });
+
+    return required;
+  }
+
+  // GPUの補助電源（仕様 → 電源要件データ → 消費電力から推定）
+  private getGpuConnectors(gpu: Part): Array<{ connector: PowerConnectorType; count: number }> {
+    const specs = this.specNormalizer.getSpecs(gpu, 'gpu');
+    const declared = (specs?.powerConnectors || []).flatMap(value => this.parseConnectors(value, 'gpu'));
+    if (declared.length > 0) return declared;
+
+    const model = gpu.name.match(/(RTX|GTX|RX)\s*\d{4}(\s*XTX|\s*XT)?/i)?.[0];
+    const known: string[] | undefined = model ? this.database.getGpuPowerRequirements(model)?.connectors : undefined;
+    if (known?.length) return known.flatMap(value => this.parseConnectors(value, 'gpu'));
+
+    const powerW = specs?.tdpW || specs?.powerW || 0;
+    if (powerW <= PCIE_SLOT_POWER) return [];
+    return [{ connector: 'pcie8', count: Math.ceil((powerW - PCIE_SLOT_POWER) / PCIE_8PIN_POWER) }];
+  }
+
+  private readDeclaredConnectors(part: Part): Array<{ connector: PowerConnectorType; count: number }> {
+    const value = part.specifications?.powerConnectors ?? part.specifications?.powerConnector;
+    const values = Array.isArray(value) ? value : [value];
+    return values
+      .filter((item): item is string => typeof item === 'string')
+      .flatMap(item => this.parseConnectors(item, 'peripheral'));
+  }
+
+  // '8+4pin' / '2x 8pin' / '12VHPWR' 形式を種別と本数に分解
+  private parseConnectors(value: string, context: ConnectorContext): Array<{ connector: PowerConnectorType; count: number }> {
+    const text = value.trim().toLowerCase();
+    // '12V-2x6' の '2x6' は本数ではない
+    const multiplier = /12v/.test(text) ? null : text.match(/^(\d)\s*[x×]\s*|\s*[x×]\s*(\d)$/);
+    const count = multiplier ? parseInt(multiplier[1] || multiplier[2], 10) : 1;
+    const body = multiplier ? text.replace(multiplier[0], '') : text;
+
+    // CPU電源の '8+4pin' / '8+8pin' は複数ケーブル（'4+4pin' は1本）
+    const split = context === 'cpu' ? body.match(/^(\d)\s*\+\s*(\d)\s*pin/) : null;
+    if (split && !(split[1] === '4' && split[2] === '4')) {
+      return [split[1], split[2]]
+        .map(pins => this.toConnectorType(`${pins}pin`, context))
+        .filter((connector): connector is PowerConnectorType => !!connector)
+        .map(connector => ({ connector, count }));
+    }
+
+    const connector = this.toConnectorType(body, context);
+    return connector ? [{ connector, count }] : [];
+  }
+
+  private toConnectorType(name: string, context: ConnectorContext): PowerConnectorType | null {
+    const text = name.toLowerCase().replace(/[\s_-]/g, '');
+    if (/12vhpwr|12v2x6|16pin|12pin/.test(text)) return 'highPower';
+    if (/24pin|atx/.test(text)) return 'atx24';
+    if (/sata/.test(text)) return 'sata';
+    if (/molex|peripheral/.test(text)) return 'molex';
+    if (/pcie|pci|6\+2/.test(text)) return /6pin/.test(text) && !/6\+2/.test(text) ? 'pcie6' : 'pcie8';
+    if (/cpu|eps|4\+4/.test(text)) return /4pin/.test(text) && !/4\+4/.test(text) ? 'eps4' : 'eps8';
+    // 種別のない '8pin' は用途で判断（電源側はCPU用として扱う）
+    if (/8pin/.test(text)) return context === 'gpu' ? 'pcie8' : 'eps8';
+    if (/6pin/.test(text)) return 'pcie6';
+    if (/4pin/.test(text)) return context === 'peripheral' ? 'molex' : 'eps4';
+    return null;
+  }
+
+  private take(pool: PowerConnectorAvailable, connector: PowerConnectorType): boolean {
+    if (pool[connector] > 0) {
+      pool[connector]--;
+      return true;
+    }
+    return false;
+  }
+
+  private takeSubstitute(pool: PowerConnectorAvailable, connector: PowerConnectorType): boolean {
+    const substitute = CONNECTOR_SUBSTITUTES[connector];
+    return !!substitute && this.take(pool, substitute);
+  }
+
+  // 変換アダプタで代用（12V-2x6 ← PCIe 8ピン、SATA ← Molex）
+  private tryAdapter(pool: PowerConnectorAvailable, requirement: PowerConnectorRequirements): PowerAdapterUsage | null {
+    const adapters = this.database.getConnectorAdapters();
+
+    if (requirement.connector === 'highPower') {
+      const { minConnectors, maxConnectors } = adapters.highPowerFromPcie8;
+      const drawW = requirement.deviceDrawW;
+      // 消費電力を賄える本数（足りなければ使える分だけ）
+      const needed = Math.min(maxConnectors, Math.max(minConnectors, Math.ceil((drawW || 0) / PCIE_8PIN_POWER)));
+      const fromCount = Math.min(needed, pool.pcie8);
+      if (fromCount < minConnectors) return null;
+
+      pool.pcie8 -= fromCount;
+      const powerLimitW = this.database.getHighPowerAdapterLimit(fromCount) ?? fromCount * PCIE_8PIN_POWER;
+      return {
+        device: requirement.device,
+        from: 'pcie8',
+        fromCount,
+        to: 'highPower',
+        powerLimitW,
+        deviceDrawW: drawW,
+        recommended: true,
+        note: this.describeHighPowerAdapter(fromCount, powerLimitW, drawW)
+      };
+    }
+
+    if (requirement.connector === 'sata' && pool.molex > 0) {
+      pool.molex--;
+      return {
+        device: requirement.device,
+        from: 'molex',
+        fromCount: 1,
+        to: 'sata',
+        recommended: adapters.sataFromMolex.recommended,
+        note: `${requirement.device}: ${adapters.sataFromMolex.description}`
+      };
+    }
+
+    return null;
+  }
+
+  private describeHighPowerAdapter(fromCount: number, powerLimitW: number, drawW?: number): string {
+    const adapter = `PCIe 8ピン×${fromCount} → 12V-2x6 変換アダプタ（上限 ${powerLimitW}W）`;
+    if (drawW && drawW > powerLimitW) {
+      return `${adapter}: 消費電力 ${drawW}W に対して供給が不足し、電力制限により性能が低下します`;
+    }
+    if (drawW && drawW >= powerLimitW) {
+      return `${adapter}: 電力上限が ${powerLimitW}W に固定され、パワーリミットの引き上げはできません`;
+    }
+    return `${adapter}を使用します`;
+  }
+}
+
+export default PowerConnectorService;
@@ -0,0 +1,387 @@
+// src/services/searchFacets.ts
+// 📋 検索ファセット - カテゴリごとのフィルタ項目定義、値ごとの件数集計、選択の切り替え
+
+import type { Part, PartCategory } from '@/types';
+import type { PartSpecs, SpecsOf } from '@/types/specs';
+import type { FilterOption, NumberRange, SearchFilters, SelectOption } from '@/types/search';
+
+type FacetValue = string | number | boolean;
+
+interface FacetBucket {
+  label: string;
+  min?: number;
+  max?: number;
+}
+
+export interface FacetDefinition {
+  key: keyof SearchFilters;
+  label: string;
+  type: 'multiselect' | 'range' | 'boolean';
+  categories?: PartCategory[];          // 省略時は全カテゴリ共通
+  unit?: string;
+  read: (part: Part, getSpecs: () => PartSpecs) => FacetValue | undefined;   // 仕様は必要な項目のみ正規化
+  buckets?: FacetBucket[];              // range のみ
+  labels?: Record<string, string>;      // 値の表示名
+}
+
+// カテゴリ固有の仕様値を読む
+const fromSpecs = <C extends PartCategory>(category: C, read: (specs: SpecsOf<C>) => FacetValue | undefined) =>
+  (part: Part, getSpecs: () => PartSpecs): FacetValue | undefined => {
+    if (part.category !== category) return undefined;
+    const specs = getSpecs();
+    return specs.category === category ? read(specs as SpecsOf<C>) : undefined;
+  };
+
+// 真偽値の仕様は正規化で未記載が false になるため、元データにキーがある場合のみ読む（未記載は集計しない）
+const fromRawBoolean = <C extends PartCategory>(
+  category: C,
+  rawKeys: readonly string[],
+  read: (specs: SpecsOf<C>) => FacetValue | undefined
+) => {
+  const readSpecs = fromSpecs(category, read);
+  return (part: Part, getSpecs: () => PartSpecs): FacetValue | undefined => {
+    const hasRaw = rawKeys.some(key => {
+      const value = part.specifications?.[key];
+      return value !== undefined && value !== null && value !== '';
+    });
+    return hasRaw ? readSpecs(part, getSpecs) : undefined;
+  };
+};
+
+const BOOLEAN_LABELS = { true: 'あり', false: 'なし' };
+
+const FACET_DEFINITIONS: FacetDefinition[] = [
+  // 共通
+  {
+    key: 'priceRange',
+    label: '価格',
+    type: 'range',
+    unit: '円',
+    read: part => part.price,
+    buckets: [
+      { label: '〜1万円', max: 9999 },
+      { label: '1万〜3万円', min: 10000, max: 29999 },
+      { label: '3万〜6万円', min: 30000, max: 59999 },
+      { label: '6万〜10万円', min: 60000, max: 99999 },
+      { label: '10万円〜', min: 100000 }
+    ]
+  },
+  { key: 'brands', label: 'ブランド', type: 'multiselect', read: part => part.manufacturer },
+  {
+    key: 'availability',
+    label: '在庫',
+    type: 'multiselect',
+    read: part => part.availability || 'in_stock',
+    labels: { in_stock: '在庫あり', limited: '残りわずか', out_of_stock: '在庫切れ' }
+  },
+
+  // CPU
+  { key: 'sockets', label: 'ソケット', type: 'multiselect', categories: ['cpu'], read: fromSpecs('cpu', specs => specs.socket) },
+  {
+    key: 'coreCount',
+    label: 'コア数',
+    type: 'range',
+    categories: ['cpu'],
+    read: fromSpecs('cpu', specs => specs.cores),
+    buckets: [
+      { label: '〜6コア', max: 6 },
+      { label: '8〜12コア', min: 7, max: 12 },
+      { label: '14コア〜', min: 13 }
+    ]
+  },
+  {
+    key: 'tdp',
+    label: 'TDP',
+    type: 'range',
+    categories: ['cpu'],
+    unit: 'W',
+    read: fromSpecs('cpu', specs => specs.tdpW),
+    buckets: [
+      { label: '〜65W', max: 65 },
+      { label: '66〜125W', min: 66, max: 125 },
+      { label: '126W〜', min: 126 }
+    ]
+  },
+  {
+    key: 'integratedGraphics',
+    label: '内蔵GPU',
+    type: 'boolean',
+    categories: ['cpu'],
+    read: fromRawBoolean('cpu', ['integratedGraphics', 'igpu'], specs => specs.integratedGraphics),
+    labels: BOOLEAN_LABELS
+  },
+
+  // GPU
+  {
+    key: 'memory',
+    label: 'VRAM',
+    type: 'range',
+    categories: ['gpu'],
+    unit: 'GB',
+    read: fromSpecs('gpu', specs => specs.vramGB),
+    buckets: [
+      { label: '〜8GB', max: 8 },
+      { label: '10〜12GB', min: 9, max: 12 },
+      { label: '16GB', min: 13, max: 16 },
+      { label: '20GB〜', min: 17 }
+    ]
+  },
+  {
+    key: 'rayTracing',
+    label: 'レイトレーシング',
+    type: 'boolean',
+    categories: ['gpu'],
+    read: fromRawBoolean('gpu', ['rayTracing'], specs => specs.rayTracing),
+    labels: BOOLEAN_LABELS
+  },
+
+  // マザーボード
+  { key: 'chipsets', label: 'チップセット', type: 'multiselect', categories: ['motherboard'], read: fromSpecs('motherboard', specs => specs.chipset) },
+  { key: 'formFactors', label: 'フォームファクタ', type: 'multiselect', categories: ['motherboard'], read: fromSpecs('motherboard', specs => specs.formFactor) },
+  {
+    key: 'wifi',
+    label: 'Wi-Fi',
+    type: 'boolean',
+    categories: ['motherboard'],
+    read: fromSpecs('motherboard', specs => specs.wifi),
+    labels: BOOLEAN_LABELS
+  },
+
+  // メモリ
+  { key: 'ramMemoryType', label: 'メモリ規格', type: 'multiselect', categories: ['memory'], read: fromSpecs('memory', specs => specs.memoryType) },
+  {
+    key: 'capacity',
+    label: '容量',
+    type: 'range',
+    categories: ['memory'],
+    unit: 'GB',
+    read: fromSpecs('memory', specs => specs.capacityGB),
+    buckets: [
+      { label: '〜16GB', max: 16 },
+      { label: '32GB', min: 17, max: 32 },
+      { label: '48GB〜', min: 33 }
+    ]
+  },
+  {
+    key: 'rgb',
+    label: 'RGB',
+    type: 'boolean',
+    categories: ['memory'],
+    read: fromSpecs('memory', specs => specs.rgb),
+    labels: BOOLEAN_LABELS
+  },
+
+  // ストレージ
+  { key: 'storageTypes', label: '種別', type: 'multiselect', categories: ['storage'], read: fromSpecs('storage', specs => specs.storageType) },
+  {
+    key: 'storageCapacity',
+    label: '容量',
+    type: 'range',
+    categories: ['storage'],
+    unit: 'GB',
+    read: fromSpecs('storage', specs => specs.capacityGB),
+    buckets: [
+      { label: '〜500GB', max: 500 },
+      { label: '1TB', min: 501, max: 1000 },
+      { label: '2TB', min: 1001, max: 2000 },
+      { label: '4TB〜', min: 2001 }
+    ]
+  },
+
+  // 電源
+  {
+    key: 'wattage',
+    label: '容量',
+    type: 'range',
+    categories: ['psu'],
+    unit: 'W',
+    read: fromSpecs('psu', specs => specs.wattage),
+    buckets: [
+      { label: '〜550W', max: 550 },
+      { label: '551〜750W', min: 551, max: 750 },
+      { label: '751〜1000W', min: 751, max: 1000 },
+      { label: '1001W〜', min: 1001 }
+    ]
+  },
+  { key: 'efficiency', label: '80 PLUS認証', type: 'multiselect', categories: ['psu'], read: fromSpecs('psu', specs => specs.efficiency) },
+  {
+    key: 'modular',
+    label: 'モジュラー',
+    type: 'multiselect',
+    categories: ['psu'],
+    read: fromSpecs('psu', specs => specs.modular !== 'none' ? 'modular' : 'non-modular'),
+    labels: { modular: 'モジュラー', 'non-modular': '非モジュラー' }
+  },
+
+  // ケース
+  { key: 'caseFormFactors', label: 'フォームファクタ', type: 'multiselect', categories: ['case'], read: fromSpecs('case', specs => specs.formFactor) },
+  {
+    key: 'temperedGlass',
+    label: '強化ガラス',
+    type: 'boolean',
+    categories: ['case'],
+    read: fromSpecs('case', specs => specs.temperedGlass),
+    labels: BOOLEAN_LABELS
+  },
+
+  // CPUクーラー
+  {
+    key: 'coolerTypes',
+    label: '種別',
+    type: 'multiselect',
+    categories: ['cooler'],
+    read: fromSpecs('cooler', specs => specs.coolerType),
+    labels: { Air: '空冷', AIO: '簡易水冷', Custom: '本格水冷' }
+  },
+  {
+    key: 'coolerHeight',
+    label: '高さ',
+    type: 'range',
+    categories: ['cooler'],
+    unit: 'mm',
+    read: fromSpecs('cooler', specs => specs.heightMm),
+    buckets: [
+      { label: '〜70mm（ロープロファイル）', max: 70 },
+      { label: '71〜160mm', min: 71, max: 160 },
+      { label: '161mm〜', min: 161 }
+    ]
+  },
+  {
+    key: 'tdpRating',
+    label: '冷却能力',
+    type: 'range',
+    categories: ['cooler'],
+    unit: 'W',
+    read: fromSpecs('cooler', specs => specs.tdpRatingW),
+    buckets: [
+      { label: '〜150W', max: 150 },
+      { label: '151〜220W', min: 151, max: 220 },
+      { label: '221W〜', min: 221 }
+    ]
+  }
+];
+
+/**
+ * カテゴリに関係するファセット定義（カテゴリ未指定時は共通項目のみ）
+ */
+export const getFacetDefinitions = (category?: PartCategory): FacetDefinition[] =>
+  FACET_DEFINITIONS.filter(definition =>
+    !definition.categories || (category !== undefined && definition.categories.includes(category))
+  );
+
+/**
+ * ファセットの値ごとの件数を集計
+ * @param parts そのファセット自身の選択を除いた条件での該当パーツ
+ */
+export const buildFacet = (
+  definition: FacetDefinition,
+  parts: Part[],
+  filters: SearchFilters,
+  getSpecs: (part: Part) => PartSpecs
+): FilterOption => {
+  const values = parts
+    .map(part => definition.read(part, () => getSpecs(part)))
+    .filter((value): value is FacetValue => value !== undefined && value !== '');
+
+  return {
+    key: definition.key,
+    label: definition.label,
+    type: definition.type,
+    unit: definition.unit,
+    categories: definition.categories || [],
+    options: definition.type === 'range'
+      ? buildRangeOptions(definition, values as number[], filters)
+      : buildValueOptions(definition, values, filters)
+  };
+};
+
+/**
+ * ファセットの値の選択・解除を切り替えたフィルタを返す
+ */
+export const toggleFacetOption = (filters: SearchFilters, facet: FilterOption, option: SelectOption): SearchFilters => {
+  const key = facet.key as keyof SearchFilters;
+  const next: SearchFilters = { ...filters };
+  const updates = next as Record<string, unknown>;
+
+  if (facet.type === 'multiselect') {
+    const current = (filters[key] || []) as string[];
+    const value = String(option.value);
+    const selected = option.selected
+      ? current.filter(item => item.toLowerCase() !== value.toLowerCase())
+      : [...current, value];
+    if (selected.length > 0) {
+      updates[key] = selected;
+    } else {
+      delete next[key];
+    }
+    return next;
+  }
+
+  if (option.selected) {
+    delete next[key];
+  } else if (facet.type === 'range' && option.range) {
+    updates[key] = key === 'priceRange'
+      ? { min: option.range.min ?? 0, max: option.range.max ?? Infinity }
+      : { ...option.range };
+  } else {
+    updates[key] = option.value;
+  }
+  return next;
+};
+
+// 値の出現件数（選択中で件数0の値も解除できるよう残す）
+const buildValueOptions = (definition: FacetDefinition, values: FacetValue[], filters: SearchFilters): SelectOption[] => {
+  const counts = new Map<FacetValue, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+
+  const current = filters[definition.key];
+  if (definition.type === 'multiselect' && Array.isArray(current)) {
+    current
+      .filter(value => ![...counts.keys()].some(key => String(key).toLowerCase() === value.toLowerCase()))
+      .forEach(value => counts.set(value, 0));
+  }
+  if (definition.type === 'boolean' && typeof current === 'boolean') {
+    counts.set(current, counts.get(current) || 0);
+  }
+
+  return [...counts.entries()]
+    .map(([value, count]) => ({
+      value,
+      label: definition.labels?.[String(value)] || String(value),
+      count,
+      selected: isSelected(definition, current, value)
+    }))
+    .sort((a, b) => definition.type === 'boolean'
+      ? Number(b.value) - Number(a.value)
+      : b.count - a.count || a.label.localeCompare(b.label));
+};
+
+const buildRangeOptions = (definition: FacetDefinition, values: number[], filters: SearchFilters): SelectOption[] => {
+  const current = filters[definition.key] as NumberRange | undefined;
+
+  return (definition.buckets || []).map(bucket => {
+    const range: NumberRange = { min: bucket.min, max: bucket.max };
+    return {
+      value: bucket.label,
+      label: bucket.label,
+      count: values.filter(value => inRange(value, range)).length,
+      range,
+      selected: current !== undefined && isSameRange(current, range)
+    };
+  });
+};
+
+const isSelected = (definition: FacetDefinition, current: unknown, value: FacetValue): boolean => {
+  if (definition.type === 'boolean') return current === value;
+  return Array.isArray(current) && current.some(item => String(item).toLowerCase() === String(value).toLowerCase());
+};
+
+const inRange = (value: number, range: NumberRange): boolean =>
+  (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+
+// 価格範囲の 0 / Infinity は未指定と同じ扱い
+const isSameRange = (a: NumberRange, b: NumberRange): boolean => {
+  const lower = (range: NumberRange) => range.min || undefined;
+  const upper = (range: NumberRange) => range.max !== undefined && Number.isFinite(range.max) ? range.max : undefined;
+  return lower(a) === lower(b) && upper(a) === upper(b);
+};
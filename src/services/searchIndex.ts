@@ -0,0 +1,459 @@
+// src/services/searchIndex.ts
+// 🔍 パーツ検索用の転置インデックス - n-gramで候補を絞り込み、照合テキストで確定する
+
+import { Part, PartCategory } from '@/types';
+import {
+  BrandIndex,
+  CategoryIndex,
+  IndexedPart,
+  SearchIndex,
+  SearchKeywordGroup,
+  SearchTerm
+} from '@/types/search';
+import SpecNormalizerService from '@/services/specNormalizer';
+import { joinModelNumbers, normalizeSearchText } from '@/utils/searchNormalizer';
+
+const INDEX_VERSION = '1.0.0';
+
+// 部分一致の候補抽出に使うn-gram長（2文字のキーワードはバイグラムで引く）
+const GRAM_SIZES = [2, 3];
+const MAX_GRAM_SIZE = 3;
+
+// あいまい検索: 3文字以上のキーワードで、長さの20%までの編集距離を許容
+const FUZZY_MIN_LENGTH = 3;
+const FUZZY_TOLERANCE = 0.2;
+
+// 差し替え・削除で無効になった文書がこの割合を超えたら詰め直す
+const COMPACTION_MIN_DEAD = 1000;
+const COMPACTION_RATIO = 0.5;
+
+export type EditDistance = (a: string, b: string) => number;
+
+interface IndexedDocument {
+  part: Part;
+  text: string;            // 照合用テキスト（normalizeSearchText で正規化済み）
+  searchTerms: string[];   // 単語＋仕様由来の語句（"16gb", "lga1700" 等）
+  alive: boolean;
+}
+
+/**
+ * あいまい一致で許容する編集距離（0 ならあいまい一致なし）
+ */
+export const getFuzzyMaxDistance = (keyword: string): number =>
+  keyword.length < FUZZY_MIN_LENGTH ? 0 : Math.floor(keyword.length * FUZZY_TOLERANCE);
+
+/**
+ * 検索照合用テキスト（パーツ名・メーカー・型番・仕様値、末尾に区切りを詰めた名前を併記）
+ */
+export const buildSearchableText = (part: Part): string => {
+  const text = normalizeSearchText([
+    part.name,
+    part.manufacturer,
+    part.model || '',
+    ...(part.specifications ? Object.values(part.specifications).map(String) : [])
+  ].join(' '));
+  const name = normalizeSearchText(part.name);
+  const joinedName = joinModelNumbers(name);
+  return joinedName === name ? text : `${text} ${joinedName}`;
+};
+
+export class PartSearchIndex {
+  private specNormalizer = SpecNormalizerService.getInstance();
+  private documents: IndexedDocument[] = [];
+  private documentIds = new Map<string, number>();
+  // 投稿リストは文書番号の昇順（追加のみ・詰め直し時も順序を維持）
+  private grams = new Map<string, number[]>();
+  private terms = new Map<string, number[]>();
+  private categories = new Map<PartCategory, number[]>();
+  private deadCount = 0;
+  private revision = 0;
+  private lastUpdated = new Date();
+
+  // インデックス内容が変わるたびに増える（結果キャッシュの無効化用）
+  get version(): number {
+    return this.revision;
+  }
+
+  get size(): number {
+    return this.documentIds.size;
+  }
+
+  /**
+   * パーツを追加・差し替え（同じIDで別オブジェクトなら再インデックス）
+   * @returns 追加・更新した件数
+   */
+  public update(parts: Part[]): number {
+    let changed = 0;
+
+    parts.forEach(part => {
+      const current = this.documentIds.get(part.id);
+      if (current !== undefined && this.documents[current].part === part) return;
+      if (current !== undefined) this.markDead(current);
+      this.addDocument(part);
+      changed++;
+    });
+
+    if (changed > 0) this.touch();
+    return changed;
+  }
+
+  /**
+   * パーツをインデックスから削除
+   * @returns 削除した件数
+   */
+  public remove(partIds: string[]): number {
+    let removed = 0;
+
+    partIds.forEach(id => {
+      const current = this.documentIds.get(id);
+      if (current === undefined) return;
+      this.markDead(current);
+      this.documentIds.delete(id);
+      removed++;
+    });
+
+    if (removed > 0) this.touch();
+    return removed;
+  }
+
+  /**
+   * すべてのキーワードグループに一致するパーツIDを返す
+   * グループ内はいずれかの語に部分一致（またはあいまい一致）、またはカテゴリ一致でヒット
+   */
+  public matchAll(groups: SearchKeywordGroup[], editDistance: EditDistance): Set<string> {
+    let scope: Set<number> | null = null;
+
+    for (const group of groups) {
+      scope = this.matchGroup(group, scope, editDistance);
+      if (scope.size === 0) break;
+    }
+
+    const partIds = new Set<string>();
+    scope?.forEach(docId => partIds.add(this.documents[docId].part.id));
+    return partIds;
+  }
+
+  /**
+   * SearchIndex 形式のスナップショット
+   */
+  public getSnapshot(): SearchIndex {
+    const alive = this.documents.filter(doc => doc.alive);
+
+    const parts: IndexedPart[] = alive.map(doc => ({
+      ...doc.part,
+      searchTerms: doc.searchTerms,
+      popularity: doc.part.popularity || 0
+    }));
+
+    const terms: SearchTerm[] = [];
+    this.terms.forEach((docIds, term) => {
+      const liveIds = docIds.filter(docId => this.documents[docId].alive);
+      if (liveIds.length === 0) return;
+      const categories = new Set(liveIds.map(docId => this.documents[docId].part.category));
+      terms.push({
+        term,
+        partIds: liveIds.map(docId => this.documents[docId].part.id),
+        frequency: liveIds.length,
+        ...(categories.size === 1 && { category: [...categories][0] })
+      });
+    });
+
+    return {
+      parts,
+      terms: terms.sort((a, b) => b.frequency - a.frequency),
+      categories: this.buildCategoryIndex(alive.map(doc => doc.part)),
+      brands: this.buildBrandIndex(alive.map(doc => doc.part)),
+      lastUpdated: this.lastUpdated,
+      version: INDEX_VERSION
+    };
+  }
+
+  // 1グループ分の照合（scope は前のグループまでの一致文書）
+  private matchGroup(group: SearchKeywordGroup, scope: Set<number> | null, editDistance: EditDistance): Set<number> {
+    if (group.terms.length === 1 && group.categories.length === 0) {
+      return this.matchKeyword(group.terms[0], scope, editDistance);
+    }
+
+    const matched = new Set<number>();
+    group.categories.forEach(category => {
+      this.forEachCandidate(this.categories.get(category) || [], scope, docId => matched.add(docId));
+    });
+    group.terms.forEach(term => {
+      this.matchKeyword(term, scope, editDistance).forEach(docId => matched.add(docId));
+    });
+    return matched;
+  }
+
+  private matchKeyword(keyword: string, scope: Set<number> | null, editDistance: EditDistance): Set<number> {
+    const matched = new Set<number>();
+
+    this.forEachCandidate(this.findCandidates(keyword), scope, docId => {
+      if (this.documents[docId].text.includes(keyword)) matched.add(docId);
+    });
+
+    // 編集距離 d 以内で一致するなら、キーワードを d+1 分割した断片のどれかは無変更で現れる
+    const maxDistance = getFuzzyMaxDistance(keyword);
+    if (maxDistance > 0) {
+      const fragments = this.splitFragments(keyword, maxDistance + 1);
+      const candidates = this.findFragmentCandidates(fragments);
+      this.forEachCandidate(candidates, scope, docId => {
+        if (!matched.has(docId) && this.fuzzyMatch(this.documents[docId].text, keyword, fragments, maxDistance, editDistance)) {
+          matched.add(docId);
+        }
+      });
+    }
+
+    return matched;
+  }
+
+  /**
+   * 本文中にキーワードと同じ長さで編集距離 maxDistance 以内の部分文字列があるか
+   * 断片の出現位置から前後 maxDistance の範囲の窓だけを照合する
+   */
+  private fuzzyMatch(
+    text: string,
+    keyword: string,
+    fragments: { text: string; offset: number }[],
+    maxDistance: number,
+    editDistance: EditDistance
+  ): boolean {
+    const lastStart = text.length - keyword.length;
+    const checked = new Set<number>();
+
+    for (const fragment of fragments) {
+      for (let position = text.indexOf(fragment.text); position !== -1; position = text.indexOf(fragment.text, position + 1)) {
+        const from = Math.max(0, position - fragment.offset - maxDistance);
+        const to = Math.min(lastStart, position - fragment.offset + maxDistance);
+        for (let start = from; start <= to; start++) {
+          if (checked.has(start)) continue;
+          checked.add(start);
+          if (editDistance(text.substring(start, start + keyword.length), keyword) <= maxDistance) return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  private forEachCandidate(candidates: number[] | null, scope: Set<number> | null, callback: (docId: number) => void): void {
+    if (candidates) {
+      candidates.forEach(docId => {
+        if (this.documents[docId].alive && (!scope || scope.has(docId))) callback(docId);
+      });
+    } else if (scope) {
+      scope.forEach(callback);
+    } else {
+      this.documents.forEach((doc, docId) => {
+        if (doc.alive) callback(docId);
+      });
+    }
+  }
+
+  // 部分文字列を含みうる文書（null は絞り込み不可＝全件）
+  private findCandidates(fragment: string): number[] | null {
+    if (fragment.length < GRAM_SIZES[0]) return null;
+
+    const size = Math.min(fragment.length, MAX_GRAM_SIZE);
+    const postings = this.extractGrams(fragment, size).map(gram => this.grams.get(gram) || []);
+    postings.sort((a, b) => a.length - b.length);
+
+    return postings.reduce((result, posting) => this.intersectSorted(result, posting));
+  }
+
+  private splitFragments(keyword: string, pieces: number): { text: string; offset: number }[] {
+    const pieceLength = keyword.length / pieces;
+    return Array.from({ length: pieces }, (_, index) => {
+      const offset = Math.round(index * pieceLength);
+      return { text: keyword.slice(offset, Math.round((index + 1) * pieceLength)), offset };
+    });
+  }
+
+  // 断片のいずれかを含みうる文書の和集合
+  private findFragmentCandidates(fragments: { text: string; offset: number }[]): number[] | null {
+    const merged = new Set<number>();
+
+    for (const fragment of fragments) {
+      const candidates = this.findCandidates(fragment.text);
+      if (!candidates) return null;
+      candidates.forEach(docId => merged.add(docId));
+    }
+
+    return [...merged].sort((a, b) => a - b);
+  }
+
+  private intersectSorted(a: number[], b: number[]): number[] {
+    const result: number[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        result.push(a[i]);
+        i++;
+        j++;
+      } else if (a[i] < b[j]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    return result;
+  }
+
+  private addDocument(part: Part): void {
+    const docId = this.documents.length;
+    const text = buildSearchableText(part);
+    const searchTerms = [...new Set([...this.tokenize(text), ...this.extractSpecTerms(part)])];
+
+    this.documents.push({ part, text, searchTerms, alive: true });
+    this.documentIds.set(part.id, docId);
+
+    const grams = new Set(GRAM_SIZES.flatMap(size => this.extractGrams(text, size)));
+    grams.forEach(gram => this.appendPosting(this.grams, gram, docId));
+    searchTerms.forEach(term => this.appendPosting(this.terms, term, docId));
+    this.appendPosting(this.categories, part.category, docId);
+  }
+
+  private appendPosting<K>(postings: Map<K, number[]>, key: K, docId: number): void {
+    const list = postings.get(key);
+    if (list) {
+      list.push(docId);
+    } else {
+      postings.set(key, [docId]);
+    }
+  }
+
+  private markDead(docId: number): void {
+    this.documents[docId].alive = false;
+    this.deadCount++;
+  }
+
+  private touch(): void {
+    this.revision++;
+    this.lastUpdated = new Date();
+    if (this.deadCount >= COMPACTION_MIN_DEAD && this.deadCount > this.documents.length * COMPACTION_RATIO) {
+      this.compact();
+    }
+  }
+
+  // 無効文書を除いて作り直す（文書番号が振り直されるため投稿リストも再構築）
+  private compact(): void {
+    const parts = this.documents.filter(doc => doc.alive).map(doc => doc.part);
+    this.documents = [];
+    this.documentIds.clear();
+    this.grams.clear();
+    this.terms.clear();
+    this.categories.clear();
+    this.deadCount = 0;
+    parts.forEach(part => this.addDocument(part));
+  }
+
+  private extractGrams(text: string, size: number): string[] {
+    const grams: string[] = [];
+    for (let i = 0; i <= text.length - size; i++) {
+      grams.push(text.substring(i, i + size));
+    }
+    return grams;
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .replace(/[()（）[\]【】,、/|]+/g, ' ')
+      .split(/\s+/)
+      .filter(token => token.length > 0);
+  }
+
+  // 正規化済み仕様から検索語を生成（"16gb", "lga1700", "850w" 等）
+  private extractSpecTerms(part: Part): string[] {
+    const specs = this.specNormalizer.normalize(part).specs;
+    const terms: (string | undefined)[] = [];
+
+    switch (specs.category) {
+      case 'cpu':
+        terms.push(specs.socket, specs.cores ? `${specs.cores}core` : undefined);
+        break;
+      case 'gpu':
+        terms.push(specs.vramGB ? `${specs.vramGB}gb` : undefined);
+        break;
+      case 'motherboard':
+        terms.push(specs.socket, specs.chipset, specs.formFactor, ...specs.memoryTypes);
+        break;
+      case 'memory':
+        terms.push(specs.memoryType, specs.capacityGB ? `${specs.capacityGB}gb` : undefined);
+        break;
+      case 'storage':
+        terms.push(specs.storageType, specs.capacityGB ? this.formatCapacity(specs.capacityGB) : undefined);
+        break;
+      case 'psu':
+        terms.push(specs.wattage ? `${specs.wattage}w` : undefined, specs.efficiency);
+        break;
+      case 'case':
+        terms.push(specs.formFactor);
+        break;
+      case 'cooler':
+        terms.push(specs.coolerType);
+        break;
+    }
+
+    return terms
+      .filter((term): term is string => Boolean(term))
+      .map(term => term.toLowerCase().replace(/\s+/g, ''));
+  }
+
+  private formatCapacity(capacityGB: number): string {
+    return capacityGB >= 1000 && capacityGB % 1000 === 0 ? `${capacityGB / 1000}tb` : `${capacityGB}gb`;
+  }
+
+  private buildCategoryIndex(parts: Part[]): CategoryIndex[] {
+    const groups = this.groupBy(parts, part => part.category);
+
+    return [...groups.entries()].map(([category, categoryParts]) => ({
+      category,
+      count: categoryParts.length,
+      popularBrands: this.rankBrands(categoryParts).slice(0, 5),
+      priceRange: this.getPriceRange(categoryParts)
+    }));
+  }
+
+  private buildBrandIndex(parts: Part[]): BrandIndex[] {
+    const groups = this.groupBy(parts, part => part.manufacturer);
+
+    return [...groups.entries()]
+      .map(([brand, brandParts]) => ({
+        brand,
+        count: brandParts.length,
+        categories: [...new Set(brandParts.map(part => part.category))],
+        priceRange: this.getPriceRange(brandParts),
+        popularity: brandParts.reduce((sum, part) => sum + (part.popularity || 0), 0)
+      }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  private groupBy<K>(parts: Part[], getKey: (part: Part) => K): Map<K, Part[]> {
+    const groups = new Map<K, Part[]>();
+    parts.forEach(part => {
+      const key = getKey(part);
+      const group = groups.get(key);
+      if (group) {
+        group.push(part);
+      } else {
+        groups.set(key, [part]);
+      }
+    });
+    return groups;
+  }
+
+  private rankBrands(parts: Part[]): string[] {
+    const counts = new Map<string, number>();
+    parts.forEach(part => counts.set(part.manufacturer, (counts.get(part.manufacturer) || 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([brand]) => brand);
+  }
+
+  private getPriceRange(parts: Part[]): { min: number; max: number } {
+    return parts.reduce(
+      (range, part) => ({ min: Math.min(range.min, part.price), max: Math.max(range.max, part.price) }),
+      { min: Infinity, max: -Infinity }
+    );
+  }
+}
+
+export default PartSearchIndex;
@@ -0,0 +1,562 @@
+// src/services/searchQueryLanguage.ts
+// 🔍 検索バーの構造化クエリ
+// 「gpu vram>=12 price<80000 brand:asus,msi rt:yes sort:price」⇔ SearchQuery の相互変換
+
+import type { PartCategory } from '@/types';
+import type {
+  FilterBuilder,
+  NumberRange,
+  ParsedSearchQuery,
+  QueryBuilder,
+  QueryError,
+  QueryFilterClause,
+  QueryOperator,
+  QueryToken,
+  SearchFilters,
+  SearchQuery,
+  SortOption
+} from '@/types/search';
+import { categorySlang } from '@/data/searchSynonyms';
+import { normalizeSearchText } from '@/utils/searchNormalizer';
+import SpecNormalizerService from '@/services/specNormalizer';
+import SearchService from '@/services/searchService';
+
+type FieldKind = 'range' | 'list' | 'boolean';
+type ListFilterKey = { [K in keyof SearchFilters]-?: SearchFilters[K] extends string[] | undefined ? K : never }[keyof SearchFilters];
+type BooleanFilterKey = { [K in keyof SearchFilters]-?: SearchFilters[K] extends boolean | undefined ? K : never }[keyof SearchFilters];
+
+interface QueryField {
+  kind: FieldKind;
+  label: string;
+  // カテゴリによって対応するフィルタが変わるフィールドがある（ff, capacity）
+  key: (category?: PartCategory) => keyof SearchFilters;
+  normalize?: (value: string) => string | undefined;    // list: 入力値 → フィルタ値
+  format?: (value: string) => string;                   // list: フィルタ値 → 入力値
+  units?: Record<string, number>;                       // range: 単位 → 倍率
+}
+
+const specNormalizer = SpecNormalizerService.getInstance();
+
+const PART_CATEGORIES: PartCategory[] = [
+  'cpu', 'gpu', 'motherboard', 'memory', 'storage', 'psu', 'case', 'cooler', 'monitor', 'other'
+];
+
+const PRICE_UNITS = { k: 1000, '万': 10000, '円': 1 };
+const CAPACITY_UNITS = { gb: 1, tb: 1000 };
+
+const QUERY_FIELDS: Record<string, QueryField> = {
+  price: { kind: 'range', label: '価格', key: () => 'priceRange', units: PRICE_UNITS },
+  brand: { kind: 'list', label: 'ブランド', key: () => 'brands' },
+  stock: {
+    kind: 'list',
+    label: '在庫',
+    key: () => 'availability',
+    normalize: value => ({ in_stock: 'in_stock', instock: 'in_stock', yes: 'in_stock', limited: 'limited', out_of_stock: 'out_of_stock', no: 'out_of_stock' } as Record<string, string>)[value]
+  },
+  socket: { kind: 'list', label: 'ソケット', key: () => 'sockets', normalize: value => value.toUpperCase() },
+  cores: { kind: 'range', label: 'コア数', key: () => 'coreCount' },
+  tdp: { kind: 'range', label: 'TDP', key: () => 'tdp', units: { w: 1 } },
+  igpu: { kind: 'boolean', label: '内蔵GPU', key: () => 'integratedGraphics' },
+  vram: { kind: 'range', label: 'VRAM', key: () => 'memory', units: CAPACITY_UNITS },
+  rt: { kind: 'boolean', label: 'レイトレーシング', key: () => 'rayTracing' },
+  chipset: { kind: 'list', label: 'チップセット', key: () => 'chipsets', normalize: value => value.toUpperCase() },
+  ff: {
+    kind: 'list',
+    label: 'フォームファクタ',
+    key: category => category === 'case' ? 'caseFormFactors' : 'formFactors',
+    normalize: value => specNormalizer.normalizeFormFactor(value),
+    format: value => value.toLowerCase()
+  },
+  wifi: { kind: 'boolean', label: 'Wi-Fi', key: () => 'wifi' },
+  memtype: {
+    kind: 'list',
+    label: 'メモリ規格',
+    key: () => 'ramMemoryType',
+    normalize: value => specNormalizer.normalizeMemoryType(value),
+    format: value => value.toLowerCase()
+  },
+  capacity: {
+    kind: 'range',
+    label: '容量',
+    key: category => category === 'storage' ? 'storageCapacity' : 'capacity',
+    units: CAPACITY_UNITS
+  },
+  rgb: { kind: 'boolean', label: 'RGB', key: () => 'rgb' },
+  storage: {
+    kind: 'list',
+    label: 'ストレージ種別',
+    key: () => 'storageTypes',
+    normalize: value => ({ nvme: 'NVMe', sata: 'SATA SSD', ssd: 'SATA SSD', hdd: 'HDD' } as Record<string, string>)[value],
+    format: value => value === 'SATA SSD' ? 'sata' : value.toLowerCase()
+  },
+  watt: { kind: 'range', label: '電源容量', key: () => 'wattage', units: { w: 1 } },
+  eff: {
+    kind: 'list',
+    label: '80 PLUS認証',
+    key: () => 'efficiency',
+    normalize: value => specNormalizer.normalizeEfficiency(value),
+    format: value => value.replace(/^80 PLUS\s*/, '').toLowerCase() || 'standard'
+  },
+  modular: {
+    kind: 'list',
+    label: 'モジュラー',
+    key: () => 'modular',
+    normalize: value => ({ yes: 'modular', modular: 'modular', no: 'non-modular', 'non-modular': 'non-modular' } as Record<string, string>)[value],
+    format: value => value === 'modular' ? 'yes' : 'no'
+  },
+  glass: { kind: 'boolean', label: '強化ガラス', key: () => 'temperedGlass' },
+  cooler: {
+    kind: 'list',
+    label: 'クーラー種別',
+    key: () => 'coolerTypes',
+    normalize: value => ({ air: 'Air', '空冷': 'Air', aio: 'AIO', '水冷': 'AIO', custom: 'Custom' } as Record<string, string>)[value],
+    format: value => value.toLowerCase()
+  },
+  height: { kind: 'range', label: 'クーラー高', key: () => 'coolerHeight', units: { mm: 1 } },
+  cooling: { kind: 'range', label: '冷却能力', key: () => 'tdpRating', units: { w: 1 } }
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  '価格': 'price',
+  maker: 'brand',
+  manufacturer: 'brand',
+  'メーカー': 'brand',
+  'ブランド': 'brand',
+  availability: 'stock',
+  '在庫': 'stock',
+  core: 'cores',
+  'コア': 'cores',
+  raytracing: 'rt',
+  formfactor: 'ff',
+  form: 'ff',
+  ram: 'memtype',
+  wattage: 'watt',
+  w: 'watt',
+  efficiency: 'eff',
+  '容量': 'capacity'
+};
+
+// type:xxx はカテゴリに応じて解決
+const TYPE_FIELD_BY_CATEGORY: Partial<Record<PartCategory, string>> = {
+  memory: 'memtype',
+  storage: 'storage',
+  cooler: 'cooler'
+};
+
+const SORT_NAMES: Partial<Record<SortOption, string>> = {
+  price_low: 'price',
+  name: 'name',
+  brand: 'brand',
+  rating: 'rating',
+  popularity: 'popular',
+  release_date: 'new',
+  performance: 'performance'
+};
+
+const SORT_ALIASES: Record<string, SortOption> = {
+  price: 'price_low',
+  price_low: 'price_low',
+  name: 'name',
+  brand: 'brand',
+  rating: 'rating',
+  popular: 'popularity',
+  popularity: 'popularity',
+  new: 'release_date',
+  newest: 'release_date',
+  release_date: 'release_date',
+  performance: 'performance',
+  relevance: 'relevance'
+};
+
+const TRUE_VALUES = ['yes', 'true', 'on', '1', 'あり', '有'];
+const FALSE_VALUES = ['no', 'false', 'off', '0', 'なし', '無'];
+
+// 候補提示に使う類似度の下限
+const HINT_MIN_SIMILARITY = 0.5;
+
+const FIELD_PATTERN = /^([a-z_぀-ヿ一-鿿]+)(>=|<=|>|<|:|=)(.*)$/;
+
+/**
+ * フィルタ構築ヘルパー（フィールド名はクエリ言語の表記: rt, socket, vram 等）
+ */
+export class SearchFilterBuilder implements FilterBuilder {
+  private filters: SearchFilters = {};
+  private targetCategory?: PartCategory;
+
+  reset(): SearchFilterBuilder {
+    this.filters = {};
+    this.targetCategory = undefined;
+    return this;
+  }
+
+  // カテゴリ依存のフィールド（ff, capacity, type）の解決に使用
+  category(category: PartCategory): SearchFilterBuilder {
+    this.targetCategory = category;
+    return this;
+  }
+
+  priceRange(min: number, max: number): SearchFilterBuilder {
+    this.filters.priceRange = { min, max };
+    return this;
+  }
+
+  brands(brands: string[]): SearchFilterBuilder {
+    this.filters.brands = brands;
+    return this;
+  }
+
+  availability(availability: string[]): SearchFilterBuilder {
+    return this.custom('stock', availability.join(','));
+  }
+
+  custom(key: string, value: string | number | boolean): SearchFilterBuilder {
+    const error = this.apply(key, ':', typeof value === 'boolean' ? (value ? 'yes' : 'no') : String(value));
+    if (error) throw new Error(error);
+    return this;
+  }
+
+  range(key: string, operator: QueryOperator, value: number): SearchFilterBuilder {
+    const error = this.apply(key, operator, String(value));
+    if (error) throw new Error(error);
+    return this;
+  }
+
+  build(): SearchFilters {
+    return { ...this.filters };
+  }
+
+  /**
+   * フィールドに条件を追加
+   * @returns エラーメッセージ（正常時は undefined）
+   */
+  apply(name: string, operator: QueryOperator, rawValue: string): string | undefined {
+    const fieldName = resolveFieldName(name, this.targetCategory);
+    const field = fieldName ? QUERY_FIELDS[fieldName] : undefined;
+    if (name === 'type' && !field) return '「type」はカテゴリ（memory / storage / cooler）と併せて指定してください';
+    if (!fieldName || !field) return `不明なフィールド「${name}」`;
+
+    const value = rawValue.trim();
+    if (!value) return `「${fieldName}」の値がありません`;
+
+    const key = field.key(this.targetCategory);
+    switch (field.kind) {
+      case 'boolean':
+        return this.applyBoolean(fieldName, key as BooleanFilterKey, operator, value);
+      case 'list':
+        return this.applyList(fieldName, field, key as ListFilterKey, operator, value);
+      case 'range':
+        return this.applyRange(fieldName, field, key, operator, value);
+    }
+  }
+
+  private applyBoolean(fieldName: string, key: BooleanFilterKey, operator: QueryOperator, value: string): string | undefined {
+    if (operator !== ':' && operator !== '=') return `「${fieldName}」には ${fieldName}:yes / ${fieldName}:no の形式で指定してください`;
+    if (TRUE_VALUES.includes(value)) {
+      this.filters[key] = true;
+    } else if (FALSE_VALUES.includes(value)) {
+      this.filters[key] = false;
+    } else {
+      return `「${fieldName}」には yes / no を指定してください`;
+    }
+    return undefined;
+  }
+
+  private applyList(fieldName: string, field: QueryField, key: ListFilterKey, operator: QueryOperator, value: string): string | undefined {
+    if (operator !== ':' && operator !== '=') return `「${fieldName}」には ${fieldName}:値1,値2 の形式で指定してください`;
+
+    const values: string[] = [];
+    for (const item of splitList(value)) {
+      const normalized = field.normalize ? field.normalize(item.toLowerCase()) : item;
+      if (!normalized) return `「${fieldName}」に「${item}」は指定できません`;
+      values.push(normalized);
+    }
+
+    const current = (this.filters[key] || []) as string[];
+    (this.filters as Record<string, unknown>)[key] = [...new Set([...current, ...values])];
+    return undefined;
+  }
+
+  private applyRange(fieldName: string, field: QueryField, key: keyof SearchFilters, operator: QueryOperator, value: string): string | undefined {
+    // 範囲指定（80000-120000）。片側省略（-80000 / 80000-）は上限・下限のみ
+    const bounds = value.match(/^(.*?)(?:-|\.\.)(.*)$/);
+    if (bounds && (bounds[1] || bounds[2]) && (operator === ':' || operator === '=')) {
+      return (bounds[1] ? this.applyRange(fieldName, field, key, '>=', bounds[1]) : undefined) ||
+        (bounds[2] ? this.applyRange(fieldName, field, key, '<=', bounds[2]) : undefined);
+    }
+
+    const number = parseNumber(value, field.units);
+    if (number === undefined) return `「${fieldName}」には数値を指定してください`;
+
+    const range: NumberRange = key === 'priceRange'
+      ? { ...this.filters.priceRange }
+      : { ...(this.filters[key] as NumberRange | undefined) };
+
+    if (operator === '>=' || operator === ':' || operator === '=') range.min = number;
+    if (operator === '<=' || operator === ':' || operator === '=') range.max = number;
+    if (operator === '>') range.min = number + 1;
+    if (operator === '<') range.max = number - 1;
+
+    if (key === 'priceRange') {
+      this.filters.priceRange = { min: range.min ?? 0, max: range.max ?? Infinity };
+    } else {
+      (this.filters as Record<string, unknown>)[key] = range;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * 検索クエリ構築ヘルパー
+ */
+export class SearchQueryBuilder implements QueryBuilder {
+  private query: SearchQuery = createDefaultQuery();
+
+  term(term: string): SearchQueryBuilder {
+    this.query.term = term;
+    return this;
+  }
+
+  category(category: PartCategory): SearchQueryBuilder {
+    this.query.category = category;
+    return this;
+  }
+
+  filters(filters: SearchFilters): SearchQueryBuilder {
+    this.query.filters = filters;
+    return this;
+  }
+
+  sortBy(field: SortOption, order: 'asc' | 'desc' = 'asc'): SearchQueryBuilder {
+    this.query.sortBy = field;
+    this.query.sortOrder = order;
+    return this;
+  }
+
+  page(page: number, limit?: number): SearchQueryBuilder {
+    this.query.page = page;
+    if (limit !== undefined) this.query.limit = limit;
+    return this;
+  }
+
+  build(): SearchQuery {
+    return { ...this.query, filters: { ...this.query.filters } };
+  }
+}
+
+/**
+ * 検索バーの入力を SearchQuery に変換（ハイライト用トークンとエラーも返す）
+ */
+export const parseSearchQuery = (text: string): ParsedSearchQuery => {
+  const rawTokens = tokenize(text);
+  const tokens: QueryToken[] = [];
+  const errors: QueryError[] = [];
+  const terms: string[] = [];
+  const queryBuilder = new SearchQueryBuilder();
+  const filterBuilder = new SearchFilterBuilder();
+
+  // カテゴリ依存フィールドの解決のため、カテゴリを先に確定
+  let category: PartCategory | undefined;
+  const categoryTokens = new Set<number>();
+  rawTokens.forEach((token, index) => {
+    if (category || token.quoted) return;
+    const field = token.normalized.match(FIELD_PATTERN);
+    const resolved = field
+      ? (['cat', 'category', 'カテゴリ'].includes(field[1]) ? resolveCategory(field[3]) : undefined)
+      : resolveCategory(token.normalized);
+    if (resolved) {
+      category = resolved;
+      categoryTokens.add(index);
+    }
+  });
+  if (category) {
+    queryBuilder.category(category);
+    filterBuilder.category(category);
+  }
+
+  rawTokens.forEach((token, index) => {
+    const position = { text: token.text, start: token.start, end: token.end };
+    if (categoryTokens.has(index)) {
+      tokens.push({ ...position, kind: 'category' });
+      return;
+    }
+
+    const field = token.quoted ? null : token.normalized.match(FIELD_PATTERN);
+    if (!field) {
+      tokens.push({ ...position, kind: 'term' });
+      terms.push(token.value);
+      return;
+    }
+
+    const [, name, operator, value] = field;
+    if (['cat', 'category', 'カテゴリ'].includes(name)) {
+      errors.push({ start: token.start, end: token.end, message: `カテゴリ「${value}」は指定できません（または複数指定されています）` });
+      tokens.push({ ...position, kind: 'error' });
+      return;
+    }
+
+    if (name === 'sort' || name === 'order') {
+      const error = applySort(queryBuilder, name, value);
+      if (error) errors.push({ start: token.start, end: token.end, message: error });
+      tokens.push({ ...position, kind: error ? 'error' : 'sort' });
+      return;
+    }
+
+    const error = filterBuilder.apply(name, operator as QueryOperator, value);
+    if (error) {
+      const hint = resolveFieldName(name, category) || name === 'type' ? undefined : suggestField(name);
+      errors.push({ start: token.start, end: token.end, message: error, ...(hint && { hint: `もしかして: ${hint}` }) });
+    }
+    tokens.push({ ...position, kind: error ? 'error' : 'field' });
+  });
+
+  const query = queryBuilder.term(terms.join(' ')).filters(filterBuilder.build()).build();
+  return { query, tokens, errors };
+};
+
+/**
+ * SearchQuery（フィルタパネルの状態）を検索バーの入力文字列に戻す
+ */
+export const formatSearchQuery = (query: Pick<SearchQuery, 'term' | 'category' | 'filters' | 'sortBy' | 'sortOrder'>): string => {
+  const parts: string[] = [];
+  if (query.category) parts.push(query.category);
+  parts.push(...query.term.split(/\s+/).filter(Boolean).map(formatTerm));
+  parts.push(...getFilterClauses(query.filters, query.category).map(clause => clause.text));
+
+  if (query.sortBy !== 'relevance') {
+    const descending = (query.sortBy === 'price_high') !== (query.sortOrder === 'desc');
+    const name = query.sortBy === 'price_high' ? 'price' : SORT_NAMES[query.sortBy];
+    if (name) parts.push(`sort:${descending ? '-' : ''}${name}`);
+  }
+
+  return parts.join(' ');
+};
+
+/**
+ * 設定中のフィルタをクエリ表記に分解（フィルタパネルのチップ表示用）
+ */
+export const getFilterClauses = (filters: SearchFilters, category?: PartCategory): QueryFilterClause[] =>
+  Object.entries(QUERY_FIELDS).flatMap(([fieldName, field]) => {
+    const keys = category
+      ? [field.key(category)]
+      : [...new Set(PART_CATEGORIES.map(partCategory => field.key(partCategory)))];
+
+    return keys.flatMap(key => {
+      const value = filters[key];
+      if (value === undefined) return [];
+      const text = formatFilter(fieldName, field, value).join(' ');
+      return text ? [{ key, label: field.label, text }] : [];
+    });
+  });
+
+const formatFilter = (fieldName: string, field: QueryField, value: unknown): string[] => {
+  if (field.kind === 'boolean') return [`${fieldName}:${value ? 'yes' : 'no'}`];
+
+  if (field.kind === 'list') {
+    const values = (value as string[]).map(item => quoteValue(field.format ? field.format(item) : item));
+    return values.length > 0 ? [`${fieldName}:${values.join(',')}`] : [];
+  }
+
+  const range = value as NumberRange;
+  const min = range.min !== undefined && range.min > 0 && Number.isFinite(range.min) ? range.min : undefined;
+  const max = range.max !== undefined && Number.isFinite(range.max) ? range.max : undefined;
+  if (min !== undefined && min === max) return [`${fieldName}:${min}`];
+  return [
+    ...(min !== undefined ? [`${fieldName}>=${min}`] : []),
+    ...(max !== undefined ? [`${fieldName}<=${max}`] : [])
+  ];
+};
+
+const applySort = (builder: SearchQueryBuilder, name: string, value: string): string | undefined => {
+  if (name === 'order') {
+    const query = builder.build();
+    if (value !== 'asc' && value !== 'desc') return 'order には asc / desc を指定してください';
+    builder.sortBy(query.sortBy, value);
+    return undefined;
+  }
+
+  const descending = value.startsWith('-');
+  const sortBy = SORT_ALIASES[value.replace(/^-/, '')];
+  if (!sortBy) return `並び順「${value}」は指定できません（${Object.values(SORT_NAMES).join(' / ')}）`;
+  builder.sortBy(sortBy, sortBy === 'relevance' ? 'desc' : descending ? 'desc' : 'asc');
+  return undefined;
+};
+
+const createDefaultQuery = (): SearchQuery => ({
+  term: '',
+  filters: {},
+  sortBy: 'relevance',
+  sortOrder: 'desc',
+  page: 1,
+  limit: 20
+});
+
+const resolveFieldName = (name: string, category?: PartCategory): string | undefined => {
+  if (name === 'type') return category ? TYPE_FIELD_BY_CATEGORY[category] : undefined;
+  if (QUERY_FIELDS[name]) return name;
+  return FIELD_ALIASES[name];
+};
+
+const resolveCategory = (value: string): PartCategory | undefined =>
+  PART_CATEGORIES.find(category => category === value) || categorySlang[value];
+
+const suggestField = (name: string): string | undefined => {
+  const searchService = SearchService.getInstance();
+  const candidates = [...Object.keys(QUERY_FIELDS), ...Object.keys(FIELD_ALIASES), 'sort', 'type', 'category'];
+  const best = candidates
+    .map(candidate => ({ candidate, score: searchService.calculateSimilarity(name, candidate) }))
+    .sort((a, b) => b.score - a.score)[0];
+  if (!best || best.score < HINT_MIN_SIMILARITY) return undefined;
+  return resolveFieldName(best.candidate) || best.candidate;
+};
+
+// 数値と単位（80000, 8万, 80k, 12gb, 1tb, 850w）
+const parseNumber = (value: string, units: Record<string, number> = {}): number | undefined => {
+  const match = value.replace(/[,¥]/g, '').match(/^(\d+(?:\.\d+)?)([a-z぀-ヿ一-鿿]*)$/);
+  if (!match) return undefined;
+  const multiplier = match[2] ? units[match[2]] : 1;
+  return multiplier === undefined ? undefined : Math.round(parseFloat(match[1]) * multiplier);
+};
+
+const splitList = (value: string): string[] =>
+  (value.match(/"[^"]*"|[^,]+/g) || [])
+    .map(item => item.replace(/^"|"$/g, '').trim())
+    .filter(item => item.length > 0);
+
+const quoteValue = (value: string): string => /[\s,]/.test(value) ? `"${value}"` : value;
+
+// フィールド指定・カテゴリとして解釈される検索語は引用符で囲む（price:100 等を検索語のまま戻す）
+const formatTerm = (term: string): string => {
+  const normalized = normalizeSearchText(term);
+  return FIELD_PATTERN.test(normalized) || resolveCategory(normalized) ? `"${term}"` : term;
+};
+
+interface RawToken {
+  text: string;        // 入力そのまま
+  normalized: string;  // 全角→半角・小文字化済み
+  value: string;       // 引用符を除いた検索語
+  quoted: boolean;
+  start: number;
+  end: number;
+}
+
+// 空白区切り（引用符内の空白は区切らない）で、入力上の位置を保持して分割
+const tokenize = (text: string): RawToken[] => {
+  const tokens: RawToken[] = [];
+  const pattern = /(?:[^\s"]*"[^"]*"?)+[^\s"]*|[^\s]+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const raw = match[0];
+    const normalized = normalizeSearchText(raw);
+    tokens.push({
+      text: raw,
+      normalized,
+      value: raw.replace(/"/g, ''),
+      quoted: raw.startsWith('"'),
+      start: match.index,
+      end: match.index + raw.length
+    });
+  }
+
+  return tokens;
+};
@@ -5,12 +5,53 @@ import {
   SearchResult, 
   SearchFilters, 
   AutocompleteResult,
+  PartNameMatch,
   SearchHistory,
-  SearchStats
+  SearchStats,
+  SearchIndex,
+  SearchMetrics,
+  SearchConfig,
+  ActiveFilters,
+  FilterOption
 } from '@/types/search';
+import {
+  CpuSpecs,
+  GpuSpecs,
+  MotherboardSpecs,
+  MemorySpecs,
+  StorageSpecs,
+  PsuSpecs,
+  CaseSpecs,
+  CoolerSpecs,
+  FormFactor
+} from '@/types/specs';
+import SpecNormalizerService from '@/services/specNormalizer';
+import PartSearchIndex, { buildSearchableText } from '@/services/searchIndex';
+import { buildFacet, getFacetDefinitions } from '@/services/searchFacets';
+import { buildKeywordGroups, normalizeSearchText } from '@/utils/searchNormalizer';
+import { categoryNames } from '@/data/sampleParts';
+
+// テキスト照合結果のキャッシュ上限（インデックス更新時は全破棄）
+const TEXT_MATCH_CACHE_SIZE = 200;
+
+const DEFAULT_SEARCH_CONFIG: SearchConfig = {
+  fuzzySearch: true,
+  stemming: true,
+  synonyms: true,
+  autoCorrect: false,
+  personalizedResults: false,
+  maxSuggestions: 10,
+  cacheResults: true,
+  cacheDuration: 300
+};
 
 class SearchService {
   private static instance: SearchService;
+  private specNormalizer = SpecNormalizerService.getInstance();
+  private config: SearchConfig = { ...DEFAULT_SEARCH_CONFIG };
+  private index = new PartSearchIndex();
+  private textMatchCache = new Map<string, Set<string>>();
+  private textMatchCacheVersion = -1;
   private searchHistory: SearchHistory[] = [];
   private searchStats: SearchStats = {
     totalSearches: 0,
@@ -36,19 +77,35 @@ class SearchService {
     const startTime = performance.now();
     
     try {
-      // 1. テキスト検索
-      let filteredParts = this.searchByText(allParts, query.term);
+      // 0. インデックスを渡されたカタログに同期（未登録・差し替えのパーツのみ）
+      this.index.update(allParts);
+
+      // 1. テキスト検索（転置インデックス）
+      const indexStart = performance.now();
+      const textMatch = this.searchByText(allParts, query.term);
+      let filteredParts = textMatch.parts;
+      const indexTime = performance.now() - indexStart;
       
       // 2. カテゴリフィルタ
+      const filterStart = performance.now();
       if (query.category) {
         filteredParts = filteredParts.filter(part => part.category === query.category);
       }
+      const facetCandidates = filteredParts;
       
       // 3. 詳細フィルタ適用
       filteredParts = this.applyFilters(filteredParts, query.filters);
+      const filterTime = performance.now() - filterStart;
+
+      // 3.5 ファセット集計（各項目は自身の選択を除いた条件で数える）
+      const facetStart = performance.now();
+      const facets = this.buildFacets(facetCandidates, filteredParts, query);
+      const facetTime = performance.now() - facetStart;
       
       // 4. ソート
+      const sortStart = performance.now();
       filteredParts = this.sortParts(filteredParts, query.sortBy, query.sortOrder);
+      const sortTime = performance.now() - sortStart;
       
       // 5. ページネーション
       const totalCount = filteredParts.length;
@@ -60,6 +117,16 @@ class SearchService {
       this.updateSearchStats(query, totalCount);
       
       const executionTime = performance.now() - startTime;
+      const metrics: SearchMetrics = {
+        queryTime: indexTime + filterTime + facetTime + sortTime,
+        indexTime,
+        filterTime,
+        sortTime,
+        facetTime,
+        totalTime: executionTime,
+        cacheHit: textMatch.cacheHit,
+        resultCount: totalCount
+      };
       
       return {
         parts: paginatedParts,
@@ -68,9 +135,11 @@ class SearchService {
         totalPages: Math.ceil(totalCount / query.limit),
         hasNextPage: endIndex < totalCount,
         hasPreviousPage: query.page > 1,
-        filters: this.getActiveFilters(filteredParts),
+        filters: this.getActiveFilters(filteredParts, facets),
         suggestions: this.generateSuggestions(query, totalCount),
-        executionTime
+        executionTime,
+        metrics,
+        facets
       };
       
     } catch (error) {
@@ -80,49 +149,67 @@ class SearchService {
   }
 
   /**
-   * テキスト検索
+   * 検索設定の取得・変更（正規化・同義語展開の切り替え等）
    */
-  private searchByText(parts: Part[], searchTerm: string): Part[] {
-    if (!searchTerm.trim()) {
-      return parts;
-    }
+  getConfig(): SearchConfig {
+    return { ...this.config };
+  }
 
-    const term = searchTerm.toLowerCase().trim();
-    const keywords = term.split(/\s+/);
+  setConfig(config: Partial<SearchConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.textMatchCache.clear();
+  }
 
-    return parts.filter(part => {
-      const searchableText = [
-        part.name,
-        part.manufacturer,
-        part.model || '',
-        ...(part.specifications ? Object.values(part.specifications).map(String) : [])
-      ].join(' ').toLowerCase();
-
-      // すべてのキーワードが含まれている場合にマッチ
-      return keywords.every(keyword => 
-        searchableText.includes(keyword) ||
-        this.fuzzyMatch(searchableText, keyword)
-      );
-    });
+  /**
+   * 検索インデックスを更新（追加・差し替え）
+   */
+  async updateIndex(parts: Part[]): Promise<void> {
+    this.index.update(parts);
   }
 
   /**
-   * あいまい検索
+   * 検索インデックスからパーツを削除
    */
-  private fuzzyMatch(text: string, keyword: string): boolean {
-    if (keyword.length < 3) return false;
-    
-    // 簡易的なあいまい検索（編集距離ベース）
-    const maxDistance = Math.floor(keyword.length * 0.2); // 20%まで許容
-    
-    for (let i = 0; i <= text.length - keyword.length; i++) {
-      const substring = text.substring(i, i + keyword.length);
-      if (this.levenshteinDistance(substring, keyword) <= maxDistance) {
-        return true;
+  async removeFromIndex(partIds: string[]): Promise<void> {
+    this.index.remove(partIds);
+  }
+
+  /**
+   * 検索インデックスのスナップショット取得
+   */
+  getIndex(): SearchIndex {
+    return this.index.getSnapshot();
+  }
+
+  /**
+   * テキスト検索（正規化・同義語展開したすべてのキーワードに部分一致またはあいまい一致）
+   */
+  private searchByText(parts: Part[], searchTerm: string): { parts: Part[]; cacheHit: boolean } {
+    if (!searchTerm.trim()) {
+      return { parts, cacheHit: false };
+    }
+
+    const term = searchTerm.toLowerCase().trim();
+    if (this.textMatchCacheVersion !== this.index.version) {
+      this.textMatchCache.clear();
+      this.textMatchCacheVersion = this.index.version;
+    }
+
+    let matchedIds = this.textMatchCache.get(term);
+    const cacheHit = matchedIds !== undefined;
+    if (!matchedIds) {
+      const groups = buildKeywordGroups(term, { stemming: this.config.stemming, synonyms: this.config.synonyms });
+      matchedIds = this.index.matchAll(groups, (a, b) => this.levenshteinDistance(a, b));
+      if (this.textMatchCache.size >= TEXT_MATCH_CACHE_SIZE) {
+        const oldestTerm = this.textMatchCache.keys().next().value;
+        if (oldestTerm !== undefined) this.textMatchCache.delete(oldestTerm);
       }
+      this.textMatchCache.set(term, matchedIds);
     }
-    
-    return false;
+
+    // カタログの並び順を維持
+    const matched = matchedIds;
+    return { parts: parts.filter(part => matched.has(part.id)), cacheHit };
   }
 
   /**
@@ -164,8 +251,10 @@ class SearchService {
 
     // ブランドフィルタ
     if (filters.brands && filters.brands.length > 0) {
+      // 検索バーの brand:asus 等を許容するため大文字小文字は区別しない
+      const brands = filters.brands.map(brand => brand.toLowerCase());
       result = result.filter(part => 
-        filters.brands!.includes(part.manufacturer)
+        brands.includes(part.manufacturer.toLowerCase())
       );
     }
 
@@ -184,13 +273,13 @@ class SearchService {
   }
 
   /**
-   * カテゴリ固有フィルタ
+   * カテゴリ固有フィルタ（正規化済み仕様で判定）
    */
   private applyCategorySpecificFilters(parts: Part[], filters: SearchFilters): Part[] {
     return parts.filter(part => {
-      const specs = part.specifications || {};
+      const specs = this.specNormalizer.normalize(part).specs;
 
-      switch (part.category) {
+      switch (specs.category) {
         case 'cpu':
           return this.applyCPUFilters(specs, filters);
         case 'gpu':
@@ -213,99 +302,100 @@ class SearchService {
     });
   }
 
-  private applyCPUFilters(specs: Record<string, unknown>, filters: SearchFilters): boolean {
+  private applyCPUFilters(specs: CpuSpecs, filters: SearchFilters): boolean {
     // CPUソケット
     if (filters.sockets && filters.sockets.length > 0) {
-      if (!filters.sockets.includes(String(specs.socket || ''))) return false;
+      if (!filters.sockets.includes(specs.socket || '')) return false;
     }
 
     // コア数
     if (filters.coreCount) {
-      const coreCount = Number(specs.cores || 0);
+      const coreCount = specs.cores || 0;
       if (filters.coreCount.min && coreCount < filters.coreCount.min) return false;
       if (filters.coreCount.max && coreCount > filters.coreCount.max) return false;
     }
 
     // TDP
     if (filters.tdp) {
-      const tdp = Number(specs.tdp || 0);
+      const tdp = specs.tdpW || 0;
       if (filters.tdp.min && tdp < filters.tdp.min) return false;
       if (filters.tdp.max && tdp > filters.tdp.max) return false;
     }
 
     // 内蔵GPU
     if (filters.integratedGraphics !== undefined) {
-      if (Boolean(specs.integratedGraphics) !== filters.integratedGraphics) return false;
+      if (specs.integratedGraphics !== filters.integratedGraphics) return false;
     }
 
     return true;
   }
 
-  private applyGPUFilters(specs: Record<string, unknown>, filters: SearchFilters): boolean {
+  private applyGPUFilters(specs: GpuSpecs, filters: SearchFilters): boolean {
     // VRAM容量
     if (filters.memory) {
-      const memory = Number(specs.memory || 0);
+      const memory = specs.vramGB || 0;
       if (filters.memory.min && memory < filters.memory.min) return false;
       if (filters.memory.max && memory > filters.memory.max) return false;
     }
 
     // レイトレーシング
     if (filters.rayTracing !== undefined) {
-      if (Boolean(specs.rayTracing) !== filters.rayTracing) return false;
+      if (specs.rayTracing !== filters.rayTracing) return false;
     }
 
     return true;
   }
 
-  private applyMotherboardFilters(specs: Record<string, unknown>, filters: SearchFilters): boolean {
+  private applyMotherboardFilters(specs: MotherboardSpecs, filters: SearchFilters): boolean {
     // チップセット
     if (filters.chipsets && filters.chipsets.length > 0) {
-      if (!filters.chipsets.includes(String(specs.chipset || ''))) return false;
+      if (!filters.chipsets.includes(specs.chipset || '')) return false;
     }
 
     // フォームファクタ
     if (filters.formFactors && filters.formFactors.length > 0) {
-      if (!filters.formFactors.includes(String(specs.formFactor || ''))) return false;
+      if (!this.matchesFormFactor(filters.formFactors, specs.formFactor)) return false;
     }
 
     // Wi-Fi
     if (filters.wifi !== undefined) {
-      if (Boolean(specs.wifi) !== filters.wifi) return false;
+      if (specs.wifi !== filters.wifi) return false;
     }
 
     return true;
   }
 
-  private applyMemoryFilters(specs: Record<string, unknown>, filters: SearchFilters): boolean {
+  private applyMemoryFilters(specs: MemorySpecs, filters: SearchFilters): boolean {
     // メモリタイプ
     if (filters.ramMemoryType && filters.ramMemoryType.length > 0) {
-      if (!filters.ramMemoryType.includes(String(specs.type || ''))) return false;
+      const types = filters.ramMemoryType.map(type => this.specNormalizer.normalizeMemoryType(type));
+      if (!specs.memoryType || !types.includes(specs.memoryType)) return false;
     }
 
     // 容量
     if (filters.capacity) {
-      const capacity = Number(specs.capacity || 0);
+      const capacity = specs.capacityGB || 0;
       if (filters.capacity.min && capacity < filters.capacity.min) return false;
       if (filters.capacity.max && capacity > filters.capacity.max) return false;
     }
 
     // RGB
     if (filters.rgb !== undefined) {
-      if (Boolean(specs.rgb) !== filters.rgb) return false;
+      if (specs.rgb !== filters.rgb) return false;
     }
 
     return true;
   }
 
-  private applyStorageFilters(specs: Record<string, unknown>, filters: SearchFilters): boolean {
+  private applyStorageFilters(specs: StorageSpecs, filters: SearchFilters): boolean {
     // ストレージタイプ
     if (filters.storageTypes && filters.storageTypes.length > 0) {
-      if (!filters.storageTypes.includes(String(specs.type || ''))) return false;
+      if (!filters.storageTypes.includes(specs.storageType || '')) return false;
     }
 
     // 容量
     if (filters.storageCapacity) {
-      const capacity = Number(specs.capacity || 0);
+      const capacity = specs.capacityGB || 0;
       if (filters.storageCapacity.min && capacity < filters.storageCapacity.min) return false;
       if (filters.storageCapacity.max && capacity > filters.storageCapacity.max) return false;
     }
@@ -313,58 +403,72 @@ class SearchService {
     return true;
   }
 
-  private applyPSUFilters(specs: Record<string, unknown>, filters: SearchFilters): boolean {
+  private applyPSUFilters(specs: PsuSpecs, filters: SearchFilters): boolean {
     // ワット数
     if (filters.wattage) {
-      const wattage = Number(specs.wattage || 0);
+      const wattage = specs.wattage || 0;
       if (filters.wattage.min && wattage < filters.wattage.min) return false;
       if (filters.wattage.max && wattage > filters.wattage.max) return false;
     }
 
     // 効率
     if (filters.efficiency && filters.efficiency.length > 0) {
-      if (!filters.efficiency.includes(String(specs.efficiency || ''))) return false;
+      const efficiencies = filters.efficiency.map(value => this.specNormalizer.normalizeEfficiency(value));
+      if (!efficiencies.includes(specs.efficiency)) return false;
     }
 
     // モジュラー
     if (filters.modular && filters.modular.length > 0) {
-      const modularType = specs.modular ? 'modular' : 'non-modular';
+      const modularType = specs.modular !== 'none' ? 'modular' : 'non-modular';
       if (!filters.modular.includes(modularType)) return false;
     }
 
     return true;
   }
 
-  private applyCaseFilters(specs: Record<string, unknown>, filters: SearchFilters): boolean {
+  private applyCaseFilters(specs: CaseSpecs, filters: SearchFilters): boolean {
     // フォームファクタ
     if (filters.caseFormFactors && filters.caseFormFactors.length > 0) {
-      if (!filters.caseFormFactors.includes(String(specs.formFactor || ''))) return false;
+      if (!this.matchesFormFactor(filters.caseFormFactors, specs.formFactor)) return false;
     }
 
     // 強化ガラス
     if (filters.temperedGlass !== undefined) {
-      if (Boolean(specs.temperedGlass) !== filters.temperedGlass) return false;
+      if (specs.temperedGlass !== filters.temperedGlass) return false;
     }
 
     return true;
   }
 
-  private applyCoolerFilters(specs: Record<string, unknown>, filters: SearchFilters): boolean {
+  private applyCoolerFilters(specs: CoolerSpecs, filters: SearchFilters): boolean {
     // クーラータイプ
     if (filters.coolerTypes && filters.coolerTypes.length > 0) {
-      if (!filters.coolerTypes.includes(String(specs.type || ''))) return false;
+      if (!filters.coolerTypes.includes(specs.coolerType || '')) return false;
     }
 
     // 高さ
     if (filters.coolerHeight) {
-      const height = Number(specs.height || 0);
+      const height = specs.heightMm || 0;
       if (filters.coolerHeight.min && height < filters.coolerHeight.min) return false;
       if (filters.coolerHeight.max && height > filters.coolerHeight.max) return false;
     }
 
+    // 冷却能力
+    if (filters.tdpRating) {
+      const tdpRating = specs.tdpRatingW || 0;
+      if (filters.tdpRating.min && tdpRating < filters.tdpRating.min) return false;
+      if (filters.tdpRating.max && tdpRating > filters.tdpRating.max) return false;
+    }
+
     return true;
   }
 
+  // フォームファクタ表記ゆれ（mATX / Micro-ATX 等）を吸収して比較
+  private matchesFormFactor(selected: string[], formFactor: FormFactor | undefined): boolean {
+    if (!formFactor) return false;
+    return selected.some(value => this.specNormalizer.normalizeFormFactor(value) === formFactor);
+  }
+
   /**
    * ソート処理
    */
@@ -411,23 +515,38 @@ class SearchService {
   /**
    * アクティブフィルタ取得
    */
-  private getActiveFilters(parts: Part[]): { [key: string]: { value: string | number | boolean; label: string; count: number; }[] } {
-    // 実装簡略化のため、基本的な情報のみ返す
-    const brands = [...new Set(parts.map(p => p.manufacturer))];
+  private getActiveFilters(parts: Part[], facets: FilterOption[]): ActiveFilters {
     const categories = [...new Set(parts.map(p => p.category))];
-    
-    return {
-      brands: brands.map(brand => ({
-        value: brand,
-        label: brand,
-        count: parts.filter(p => p.manufacturer === brand).length
-      })),
+    const activeFilters: ActiveFilters = {
       categories: categories.map(category => ({
         value: category,
         label: category,
         count: parts.filter(p => p.category === category).length
       }))
     };
+
+    facets.forEach(facet => {
+      activeFilters[facet.key] = (facet.options || []).map(({ value, label, count }) => ({ value, label, count: count || 0 }));
+    });
+    return activeFilters;
+  }
+
+  /**
+   * ファセット集計（選択中の項目は、その項目の条件だけを外した結果で数える）
+   */
+  private buildFacets(candidates: Part[], filteredParts: Part[], query: SearchQuery): FilterOption[] {
+    const getSpecs = (part: Part) => this.specNormalizer.normalize(part).specs;
+
+    return getFacetDefinitions(query.category).map(definition => {
+      const ownSelection = query.filters[definition.key];
+      if (ownSelection === undefined) {
+        return buildFacet(definition, filteredParts, query.filters, getSpecs);
+      }
+
+      const otherFilters = { ...query.filters };
+      delete otherFilters[definition.key];
+      return buildFacet(definition, this.applyFilters(candidates, otherFilters), query.filters, getSpecs);
+    });
   }
 
   /**
@@ -470,11 +589,31 @@ class SearchService {
    * オートコンプリート
    */
   async autocomplete(term: string, allParts: Part[], limit = 10): Promise<AutocompleteResult> {
-    const lowercaseTerm = term.toLowerCase();
-    
+    // 入力途中の語にも辞書を前方一致で適用（「ジーフォ」→ GeForce）
+    const groups = buildKeywordGroups(term, {
+      stemming: this.config.stemming,
+      synonyms: this.config.synonyms,
+      prefix: true
+    });
+    const normalize = (text: string) => this.config.stemming ? normalizeSearchText(text) : text.toLowerCase();
+    // 検索インデックスと同じ照合用テキスト（「RTX４０６０」「rtx4060」も型番に一致）
+    const matchesPart = (part: Part) => {
+      const text = buildSearchableText(part);
+      return groups.every(group =>
+        group.terms.some(keyword => text.includes(keyword)) || group.categories.includes(part.category)
+      );
+    };
+    const matchesBrand = (brand: string) => {
+      const name = normalize(brand);
+      return groups.some(group => group.terms.some(keyword => name.includes(keyword)));
+    };
+
+    const matchedParts = allParts.filter(matchesPart);
+    const matchedBrands = [...new Set(allParts.map(p => p.manufacturer))].filter(matchesBrand).slice(0, 5);
+    const matchedCategories = [...new Set(groups.flatMap(group => group.categories))];
+
     // 商品名からの候補
-    const productSuggestions = allParts
-      .filter(part => part.name.toLowerCase().includes(lowercaseTerm))
+    const productSuggestions = matchedParts
       .slice(0, limit)
       .map(part => ({
         text: part.name,
@@ -484,27 +623,85 @@ class SearchService {
       }));
 
     // ブランド名からの候補
-    const brands = [...new Set(allParts.map(p => p.manufacturer))]
-      .filter(brand => brand.toLowerCase().includes(lowercaseTerm))
-      .slice(0, 5)
-      .map(brand => ({
-        text: brand,
-        type: 'brand' as const,
-        count: allParts.filter(p => p.manufacturer === brand).length
-      }));
+    const brands = matchedBrands.map(brand => ({
+      text: brand,
+      type: 'brand' as const,
+      count: allParts.filter(p => p.manufacturer === brand).length
+    }));
+
+    // カテゴリの俗称からの候補（「グラボ」→ グラフィックボード）
+    const categories = matchedCategories.map(category => ({
+      text: categoryNames[category] || category,
+      type: 'category' as const,
+      category,
+      count: allParts.filter(p => p.category === category).length
+    }));
 
     return {
-      suggestions: [...productSuggestions, ...brands],
-      products: allParts.filter(part => 
-        part.name.toLowerCase().includes(lowercaseTerm)
-      ).slice(0, 3),
-      categories: [],
-      brands: [...new Set(allParts.map(p => p.manufacturer))]
-        .filter(brand => brand.toLowerCase().includes(lowercaseTerm))
-        .slice(0, 5)
+      suggestions: [...categories, ...productSuggestions, ...brands],
+      products: matchedParts.slice(0, 3),
+      categories: matchedCategories,
+      brands: matchedBrands
     };
   }
 
+  /**
+   * 自由入力のパーツ名に近いカタログパーツを類似度順に取得
+   * カタログ名の各トークンが入力内にどれだけ含まれるかを編集距離で評価するため、
+   * 「Intel Core i5-13400F 2.5 GHz 10-Core Processor」のような冗長な表記にも対応
+   */
+  findSimilarParts(
+    name: string,
+    allParts: Part[],
+    options: { category?: PartCategory; limit?: number; minScore?: number } = {}
+  ): PartNameMatch[] {
+    const { category, limit = 5, minScore = 0.3 } = options;
+    const inputTokens = this.tokenizeName(name);
+    if (inputTokens.length === 0) return [];
+
+    return allParts
+      .filter(part => !category || part.category === category)
+      .map(part => ({ part, score: this.calculateNameSimilarity(inputTokens, part) }))
+      .filter(match => match.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * 文字列の類似度（0-1、レーベンシュタイン距離ベース）
+   */
+  calculateSimilarity(str1: string, str2: string): number {
+    const a = str1.toLowerCase();
+    const b = str2.toLowerCase();
+    const maxLength = Math.max(a.length, b.length);
+    if (maxLength === 0) return 1;
+    return 1 - this.levenshteinDistance(a, b) / maxLength;
+  }
+
+  private calculateNameSimilarity(inputTokens: string[], part: Part): number {
+    const partTokens = this.tokenizeName(`${part.manufacturer} ${part.name}`);
+    if (partTokens.length === 0) return 0;
+
+    // カタログ名の各トークンについて、入力中で最も近いトークンとの類似度を平均
+    const coverage = partTokens.reduce((sum, token) =>
+      sum + Math.max(...inputTokens.map(input => this.calculateSimilarity(token, input))), 0
+    ) / partTokens.length;
+
+    // 入力側の余分な語は軽く減点
+    const extraRatio = Math.max(0, inputTokens.length - partTokens.length) / inputTokens.length;
+    return Math.max(0, coverage - extraRatio * 0.1);
+  }
+
+  private tokenizeName(name: string): string[] {
+    return [...new Set(
+      name
+        .toLowerCase()
+        .replace(/[()（）[\]【】,、/|]+/g, ' ')
+        .split(/[\s-]+/)
+        .filter(token => token.length > 0)
+    )];
+  }
+
   /**
    * 検索履歴取得
    */
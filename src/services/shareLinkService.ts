@@ -0,0 +1,264 @@
+// src/services/shareLinkService.ts
+// 🔗 共有リンクサービス - 構成をURLハッシュにエンコード/デコード
+
+import {
+  Part,
+  PartCategory,
+  PCConfiguration,
+  AdditionalComponents,
+  UnifiedPCConfiguration,
+  isExtendedConfiguration
+} from '@/types';
+import SpecNormalizerService from '@/services/specNormalizer';
+
+// ハッシュのキーとペイロードのバージョン（形式を変える場合はバージョンを上げる）
+export const SHARE_HASH_KEY = 'build';
+export const SHARE_LINK_VERSION = 1;
+
+// パーツの配置先（'core' は parts / coreComponents）
+export type SharedPartSlot = 'core' | keyof AdditionalComponents;
+
+// v1 ペイロード: n=構成名, b=予算, p=[パーツID, 数量, 配置先(coreは省略)]
+interface SharePayloadV1 {
+  n: string;
+  b?: number;
+  p: [string, number, SlotCode?][];
+}
+
+// 配置先の短縮コード
+type SlotCode = 's' | 'm' | 'f' | 'd' | 'a' | 'e';
+
+const SLOT_CODES: Record<keyof AdditionalComponents, SlotCode> = {
+  storage: 's',
+  memory: 'm',
+  fans: 'f',
+  monitors: 'd',
+  accessories: 'a',
+  expansion: 'e'
+};
+
+// 共有リンクのコードは外部入力のため Map で照合（プロトタイプのキーに一致させない）
+const SLOTS_BY_CODE = new Map<string, keyof AdditionalComponents>(
+  (Object.entries(SLOT_CODES) as [keyof AdditionalComponents, SlotCode][]).map(([slot, code]) => [code, slot])
+);
+
+// デコード済みのパーツ1件
+export interface SharedBuildItem {
+  partId: string;
+  quantity: number;
+  slot: SharedPartSlot;
+  part: Part | null;          // カタログに存在しない場合は null
+}
+
+export interface SharedBuild {
+  version: number;
+  name: string;
+  budget?: number;
+  items: SharedBuildItem[];
+  configuration: PCConfiguration;                          // 取り込み用（カテゴリごとに1件）
+  additionalComponents: Partial<AdditionalComponents>;     // 複数搭載分（ExtendedPCConfiguration用）
+  missingPartIds: string[];
+  totalPrice: number;                                      // 数量を考慮した合計（見つかったパーツのみ）
+}
+
+export type ShareDecodeResult =
+  | { success: true; build: SharedBuild }
+  | { success: false; error: string };
+
+export class ShareLinkService {
+  private static instance: ShareLinkService;
+  private specNormalizer = SpecNormalizerService.getInstance();
+
+  private constructor() {}
+
+  // シングルトンパターン
+  public static getInstance(): ShareLinkService {
+    if (!ShareLinkService.instance) {
+      ShareLinkService.instance = new ShareLinkService();
+    }
+    return ShareLinkService.instance;
+  }
+
+  /**
+   * 構成を共有トークン（v1.<base64url>）にエンコード
+   */
+  public encode(configuration: UnifiedPCConfiguration): string {
+    const payload: SharePayloadV1 = {
+      n: configuration.name,
+      ...(configuration.budget ? { b: configuration.budget } : {}),
+      p: this.collectItems(configuration).map(({ partId, quantity, slot }) =>
+        slot === 'core' ? [partId, quantity] : [partId, quantity, SLOT_CODES[slot]]
+      )
+    };
+    return `v${SHARE_LINK_VERSION}.${this.toBase64Url(JSON.stringify(payload))}`;
+  }
+
+  /**
+   * 共有URLを生成（既存のハッシュは置き換え）
+   */
+  public createShareUrl(configuration: UnifiedPCConfiguration, baseUrl: string = window.location.href): string {
+    const url = baseUrl.split('#')[0];
+    return `${url}#${SHARE_HASH_KEY}=${this.encode(configuration)}`;
+  }
+
+  /**
+   * URLハッシュから共有トークンを取り出す（共有リンクでなければ null）
+   */
+  public extractToken(hash: string): string | null {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    return params.get(SHARE_HASH_KEY);
+  }
+
+  /**
+   * 共有トークンをカタログと照合して構成に復元
+   * 存在しないパーツIDは missingPartIds に記録し、残りのパーツで構成する
+   */
+  public decode(token: string, catalog: Part[]): ShareDecodeResult {
+    const match = token.match(/^v(\d+)\.(.+)$/);
+    if (!match) {
+      return { success: false, error: '共有リンクの形式が正しくありません' };
+    }
+
+    const version = parseInt(match[1], 10);
+    if (version !== SHARE_LINK_VERSION) {
+      return { success: false, error: `未対応の共有リンクのバージョンです（v${version}）` };
+    }
+
+    let payload: SharePayloadV1;
+    try {
+      payload = JSON.parse(this.fromBase64Url(match[2]));
+    } catch (error) {
+      console.error('Failed to decode share link:', error);
+      return { success: false, error: '共有リンクを読み取れませんでした' };
+    }
+
+    if (!payload || !Array.isArray(payload.p)) {
+      return { success: false, error: '共有リンクに構成データが含まれていません' };
+    }
+
+    const unknownCode = payload.p.find(entry => Array.isArray(entry) && entry[2] != null && !SLOTS_BY_CODE.has(entry[2]));
+    if (unknownCode) {
+      return { success: false, error: `共有リンクに不明なパーツの配置先が含まれています（${String(unknownCode[2])}）` };
+    }
+
+    return { success: true, build: this.resolve(payload, version, catalog) };
+  }
+
+  /**
+   * アドレスバーから共有ハッシュを取り除く（履歴は増やさない）
+   */
+  public clearHash(): void {
+    if (!this.extractToken(window.location.hash)) return;
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }
+
+  // ===========================================
+  // 🔧 エンコード/デコード補助
+  // ===========================================
+
+  // 同じパーツ・配置先は数量にまとめる
+  private collectItems(configuration: UnifiedPCConfiguration): Omit<SharedBuildItem, 'part'>[] {
+    const items: Omit<SharedBuildItem, 'part'>[] = [];
+    const add = (part: Part | null | undefined, slot: SharedPartSlot) => {
+      if (!part) return;
+      const existing = items.find(item => item.partId === part.id && item.slot === slot);
+      if (existing) {
+        existing.quantity += 1;
+      } else {
+        items.push({ partId: part.id, quantity: 1, slot });
+      }
+    };
+
+    if (isExtendedConfiguration(configuration)) {
+      const slots = Object.keys(configuration.additionalComponents) as (keyof AdditionalComponents)[];
+      const additionalIds = new Set(slots.flatMap(slot => configuration.additionalComponents[slot].map(part => part.id)));
+
+      Object.values(configuration.coreComponents).forEach(part => add(part, 'core'));
+      // coreComponents にないカテゴリ（モニター等）は parts から補完
+      Object.values(configuration.parts).forEach(part => {
+        if (part && !additionalIds.has(part.id) && !items.some(item => item.partId === part.id)) {
+          add(part, 'core');
+        }
+      });
+      slots.forEach(slot => {
+        configuration.additionalComponents[slot].forEach(part => add(part, slot));
+      });
+    } else {
+      Object.values(configuration.parts).forEach(part => add(part, 'core'));
+    }
+
+    return items;
+  }
+
+  private resolve(payload: SharePayloadV1, version: number, catalog: Part[]): SharedBuild {
+    const partsById = new Map(catalog.map(part => [part.id, part]));
+    const parts: Partial<Record<PartCategory, Part | null>> = {};
+    const additionalComponents: Partial<AdditionalComponents> = {};
+    const missingPartIds: string[] = [];
+
+    const items: SharedBuildItem[] = payload.p
+      .filter(entry => Array.isArray(entry) && typeof entry[0] === 'string')
+      .map(([partId, quantity, code]) => {
+        const slot: SharedPartSlot = (code && SLOTS_BY_CODE.get(code)) || 'core';
+        const count = Math.max(1, Math.floor(Number(quantity) || 1));
+        const part = partsById.get(partId) || null;
+
+        if (!part) {
+          missingPartIds.push(partId);
+        } else if (slot === 'core') {
+          parts[part.category] = part;
+        } else {
+          additionalComponents[slot] = [
+            ...(additionalComponents[slot] || []),
+            ...Array.from({ length: count }, () => part)
+          ];
+          // 従来形式の構成には最初の1件のみ反映
+          if (!parts[part.category]) parts[part.category] = part;
+        }
+
+        return { partId, quantity: count, slot, part };
+      });
+
+    const resolvedParts = Object.values(parts);
+    const now = new Date();
+    const name = typeof payload.n === 'string' && payload.n ? payload.n : '共有された構成';
+    const budget = typeof payload.b === 'number' && payload.b > 0 ? payload.b : undefined;
+
+    return {
+      version,
+      name,
+      budget,
+      items,
+      configuration: {
+        id: `shared-${now.getTime()}`,
+        name,
+        parts,
+        totalPrice: resolvedParts.reduce((sum, part) => sum + (part?.price || 0), 0),
+        totalPowerConsumption: resolvedParts.reduce((sum, part) => sum + this.specNormalizer.getPowerDraw(part), 0),
+        budget,
+        createdAt: now,
+        updatedAt: now,
+        tags: ['shared']
+      },
+      additionalComponents,
+      missingPartIds,
+      totalPrice: items.reduce((sum, item) => sum + (item.part?.price || 0) * item.quantity, 0)
+    };
+  }
+
+  // UTF-8 対応の base64url（構成名に日本語を含むため）
+  private toBase64Url(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  private fromBase64Url(encoded: string): string {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+    return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  }
+}
+
+export default ShareLinkService;
@@ -0,0 +1,634 @@
+// src/services/specNormalizer.ts
+// 🔧 パーツ仕様正規化サービス - レガシーキー・単位表記を型付き仕様へ変換
+
+import { Part, PartCategory } from '@/types';
+import {
+  SpecsOf,
+  SpecValidationIssue,
+  SpecNormalizationResult,
+  CpuSpecs,
+  GpuSpecs,
+  MotherboardSpecs,
+  MemorySpecs,
+  StorageSpecs,
+  PsuSpecs,
+  CaseSpecs,
+  CoolerSpecs,
+  MonitorSpecs,
+  FormFactor,
+  MemoryType,
+  StorageType,
+  CoolerType,
+  ModularType,
+  PsuFanMode
+} from '@/types/specs';
+
+type RawSpecs = Record<string, unknown>;
+
+// 🎯 正規化処理中のコンテキスト（問題の収集用）
+interface NormalizeContext {
+  part: Part;
+  raw: RawSpecs;
+  issues: SpecValidationIssue[];
+}
+
+// カテゴリごとの正規化結果キャッシュ（キーのカテゴリと仕様型が対応）
+type NormalizationCache = { [C in PartCategory]: WeakMap<Part, SpecNormalizationResult<C>> };
+
+// カテゴリごとの正規化処理
+type CategoryNormalizers = { [C in PartCategory]: (ctx: NormalizeContext) => SpecsOf<C> };
+
+// 🎯 パーツ仕様正規化サービス
+export class SpecNormalizerService {
+  private static instance: SpecNormalizerService;
+  private cache: NormalizationCache = {
+    cpu: new WeakMap(),
+    gpu: new WeakMap(),
+    motherboard: new WeakMap(),
+    memory: new WeakMap(),
+    storage: new WeakMap(),
+    psu: new WeakMap(),
+    case: new WeakMap(),
+    cooler: new WeakMap(),
+    monitor: new WeakMap(),
+    other: new WeakMap()
+  };
+
+  // レガシーキーのエイリアス（先頭が優先）
+  private readonly keyAliases = {
+    cpu: {
+      cores: ['cores', 'coreCount'],
+      threads: ['threads', 'threadCount'],
+      baseClock: ['baseClock', 'baseClockSpeed', 'clockSpeed'],
+      boostClock: ['boostClock', 'boostClockSpeed', 'maxClock'],
+      integratedGraphics: ['integratedGraphics', 'igpu'],
+      maxTurboPower: ['maxTurboPower', 'pl2', 'ppt']
+    },
+    gpu: {
+      vram: ['memory', 'vram', 'memorySize'],
+      vramType: ['memoryType', 'vramType'],
+      coreClock: ['coreClock', 'baseClock'],
+      powerConnectors: ['powerConnectors', 'powerConnector'],
+      pcieVersion: ['pciVersion', 'pcieVersion']
+    },
+    motherboard: {
+      memoryTypes: ['memoryType', 'memoryTypes', 'supportedMemory'],
+      maxMemory: ['maxMemory', 'maxMemoryCapacity'],
+      sataConnectors: ['sataConnectors', 'sataPorts'],
+      pcieSlots: ['pcieSlots', 'pciSlots', 'expansionSlots'],
+      biosFlashback: ['biosFlashback', 'flashback', 'usbBiosFlashback']
+    },
+    memory: {
+      memoryType: ['type', 'memoryType'],
+      speed: ['speed', 'frequency'],
+      capacity: ['totalCapacity', 'capacity'],
+      modules: ['modules', 'sticks', 'moduleCount'],
+      ranks: ['ranks', 'rank'],
+      timings: ['timings', 'latency']
+    },
+    storage: {
+      storageType: ['type', 'storageType'],
+      capacity: ['capacityGB', 'capacity']
+    },
+    psu: {
+      wattage: ['wattage', 'capacity', 'watts'],
+      efficiency: ['efficiency', 'certification'],
+      cybeneticsEta: ['cybeneticsEta', 'cybenetics', 'etaRating'],
+      fanMode: ['fanMode', 'zeroRpm', 'semiPassive', 'fanless'],
+      atxVersion: ['atxVersion', 'atxStandard', 'atxSpec']
+    },
+    case: {
+      supportedFormFactors: ['supportedFormFactors', 'motherboardSupport', 'formFactorSupport'],
+      maxGpuLength: ['maxGpuLength', 'maxGPULength', 'gpuClearance'],
+      maxGpuHeight: ['maxGpuHeight', 'maxGPUHeight'],
+      maxCoolerHeight: ['maxCoolerHeight', 'maxCPUCoolerHeight', 'maxCpuCoolerHeight', 'cpuCoolerClearance'],
+      maxPsuLength: ['maxPsuLength', 'maxPSULength', 'psuClearance']
+    },
+    cooler: {
+      coolerType: ['type', 'coolerType'],
+      tdpRating: ['tdpRating', 'tdp', 'coolingCapacity'],
+      sockets: ['supportedSockets', 'sockets', 'socketSupport'],
+      fanCount: ['fanCount', 'fans'],
+      noiseLevel: ['noiseLevel', 'noise'],
+      memoryOverhang: ['memoryOverhang', 'ramClearance']
+    },
+    monitor: {
+      size: ['size', 'screenSize'],
+      refreshRate: ['refreshRate', 'refresh'],
+      panelType: ['panelType', 'panel']
+    }
+  } as const;
+
+  private constructor() {}
+
+  // シングルトンパターン
+  public static getInstance(): SpecNormalizerService {
+    if (!SpecNormalizerService.instance) {
+      SpecNormalizerService.instance = new SpecNormalizerService();
+    }
+    return SpecNormalizerService.instance;
+  }
+
+  /**
+   * パーツの仕様をカテゴリ別の型付き仕様に正規化
+   * category を省略した場合は part.category を使用
+   */
+  public normalize<C extends PartCategory>(part: Part, category?: C): SpecNormalizationResult<C> {
+    const target = (category || part.category) as C;
+    const cached = this.cache[target].get(part);
+    if (cached) return cached;
+
+    const context: NormalizeContext = {
+      part,
+      raw: part.specifications || {},
+      issues: []
+    };
+
+    if (part.category !== target) {
+      context.issues.push({
+        partId: part.id,
+        field: 'category',
+        rawValue: part.category,
+        message: `カテゴリ ${part.category} のパーツを ${target} として解釈しました`
+      });
+    }
+
+    const result: SpecNormalizationResult<C> = {
+      specs: this.normalizers[target](context),
+      issues: context.issues
+    };
+
+    this.cache[target].set(part, result);
+    return result;
+  }
+
+  /**
+   * 指定カテゴリとしての正規化済み仕様を取得（パーツ未選択時は null）
+   */
+  public getSpecs<C extends PartCategory>(part: Part | null | undefined, category: C): SpecsOf<C> | null {
+    if (!part) return null;
+    return this.normalize(part, category).specs;
+  }
+
+  /**
+   * 仕様データの検証（解釈できなかった値の一覧）
+   */
+  public validate(part: Part): SpecValidationIssue[] {
+    return this.normalize(part).issues;
+  }
+
+  /**
+   * 想定消費電力（W）
+   */
+  public getPowerDraw(part: Part | null | undefined): number {
+    if (!part) return 0;
+    return this.normalize(part).specs.powerW || 0;
+  }
+
+  // ===========================================
+  // 🔧 カテゴリ別正規化
+  // ===========================================
+
+  private readonly normalizers: CategoryNormalizers = {
+    cpu: ctx => this.normalizeCpu(ctx),
+    gpu: ctx => this.normalizeGpu(ctx),
+    motherboard: ctx => this.normalizeMotherboard(ctx),
+    memory: ctx => this.normalizeMemory(ctx),
+    storage: ctx => this.normalizeStorage(ctx),
+    psu: ctx => this.normalizePsu(ctx),
+    case: ctx => this.normalizeCase(ctx),
+    cooler: ctx => this.normalizeCooler(ctx),
+    monitor: ctx => this.normalizeMonitor(ctx),
+    other: ctx => ({ category: 'other', powerW: this.resolvePower(ctx) })
+  };
+
+  private normalizeCpu(ctx: NormalizeContext): CpuSpecs {
+    const keys = this.keyAliases.cpu;
+    return {
+      category: 'cpu',
+      powerW: this.resolvePower(ctx),
+      socket: this.readString(ctx, ['socket']),
+      cores: this.readNumber(ctx, keys.cores),
+      threads: this.readNumber(ctx, keys.threads),
+      baseClockGHz: this.readFrequency(ctx, keys.baseClock, 'GHz'),
+      boostClockGHz: this.readFrequency(ctx, keys.boostClock, 'GHz'),
+      tdpW: this.readNumber(ctx, ['tdp']),
+      maxTurboPowerW: this.readNumber(ctx, keys.maxTurboPower),
+      integratedGraphics: this.readBoolean(ctx, keys.integratedGraphics),
+      architecture: this.readString(ctx, ['architecture'])
+    };
+  }
+
+  private normalizeGpu(ctx: NormalizeContext): GpuSpecs {
+    const keys = this.keyAliases.gpu;
+    const vramEntry = this.pick(ctx.raw, keys.vram);
+    // '8GB GDDR6' 形式ではメモリ種別も同時に取り出す
+    const vramTypeFromMemory = typeof vramEntry?.value === 'string'
+      ? vramEntry.value.match(/G?DDR\d+X?|HBM\d?e?/i)?.[0]?.toUpperCase()
+      : undefined;
+
+    return {
+      category: 'gpu',
+      powerW: this.resolvePower(ctx),
+      vramGB: this.readCapacity(ctx, keys.vram),
+      vramType: this.readString(ctx, keys.vramType) || vramTypeFromMemory,
+      coreClockMHz: this.readFrequency(ctx, keys.coreClock, 'MHz'),
+      boostClockMHz: this.readFrequency(ctx, ['boostClock'], 'MHz'),
+      tdpW: this.readNumber(ctx, ['tdp']),
+      powerConnectors: this.readStringArray(ctx, keys.powerConnectors),
+      lengthMm: this.readLength(ctx, ['length']),
+      heightMm: this.readLength(ctx, ['height']),
+      widthMm: this.readLength(ctx, ['width']),
+      slots: this.readNumber(ctx, ['slots']),
+      pcieVersion: this.readString(ctx, keys.pcieVersion),
+      rayTracing: this.readBoolean(ctx, ['rayTracing'])
+    };
+  }
+
+  private normalizeMotherboard(ctx: NormalizeContext): MotherboardSpecs {
+    const keys = this.keyAliases.motherboard;
+    return {
+      category: 'motherboard',
+      powerW: this.resolvePower(ctx),
+      socket: this.readString(ctx, ['socket']),
+      chipset: this.readString(ctx, ['chipset']),
+      formFactor: this.readFormFactor(ctx, ['formFactor']),
+      memoryTypes: this.readStringArray(ctx, keys.memoryTypes)
+        .map(value => this.normalizeMemoryType(value))
+        .filter((value): value is MemoryType => value !== undefined),
+      maxMemoryGB: this.readCapacity(ctx, keys.maxMemory),
+      memorySlots: this.readNumber(ctx, ['memorySlots']),
+      m2Slots: this.readNumber(ctx, ['m2Slots']),
+      sataConnectors: this.readNumber(ctx, keys.sataConnectors),
+      pcieSlots: this.readNumber(ctx, keys.pcieSlots),
+      cpuPowerConnector: this.readString(ctx, ['cpuPowerConnector']),
+      biosFlashback: this.pick(ctx.raw, keys.biosFlashback) ? this.readBoolean(ctx, keys.biosFlashback) : undefined,
+      wifi: this.readBoolean(ctx, ['wifi'])
+    };
+  }
+
+  private normalizeMemory(ctx: NormalizeContext): MemorySpecs {
+    const keys = this.keyAliases.memory;
+    const typeEntry = this.pick(ctx.raw, keys.memoryType);
+    const speedEntry = this.pick(ctx.raw, keys.speed);
+    // 'DDR5-5600' 形式の速度表記からも規格を推定
+    const memoryType = this.normalizeMemoryType(typeEntry?.value) ?? this.normalizeMemoryType(speedEntry?.value);
+    if (typeEntry && memoryType === undefined) {
+      this.report(ctx, typeEntry.key, typeEntry.value, 'メモリ規格を解釈できません');
+    }
+
+    return {
+      category: 'memory',
+      powerW: this.resolvePower(ctx),
+      memoryType,
+      speedMHz: this.readFrequency(ctx, keys.speed, 'MHz'),
+      capacityGB: this.readCapacity(ctx, keys.capacity),
+      modules: this.readNumber(ctx, keys.modules),
+      moduleCapacityGB: this.readCapacity(ctx, ['moduleCapacity']),
+      ranks: this.parseRanks(this.pick(ctx.raw, keys.ranks)?.value),
+      timings: this.readString(ctx, keys.timings),
+      voltage: this.readNumber(ctx, ['voltage']),
+      heightMm: this.readLength(ctx, ['height']),
+      rgb: this.readBoolean(ctx, ['rgb'])
+    };
+  }
+
+  private normalizeStorage(ctx: NormalizeContext): StorageSpecs {
+    const keys = this.keyAliases.storage;
+    const interfaceName = this.readString(ctx, ['interface']);
+    const formFactor = this.readString(ctx, ['formFactor']);
+    const typeEntry = this.pick(ctx.raw, keys.storageType);
+
+    return {
+      category: 'storage',
+      powerW: this.resolvePower(ctx),
+      storageType: this.parseStorageType(typeEntry?.value, interfaceName, formFactor),
+      capacityGB: this.readCapacity(ctx, keys.capacity),
+      interface: interfaceName,
+      formFactor,
+      readSpeedMBps: this.readNumber(ctx, ['readSpeed']),
+      writeSpeedMBps: this.readNumber(ctx, ['writeSpeed'])
+    };
+  }
+
+  private normalizePsu(ctx: NormalizeContext): PsuSpecs {
+    const keys = this.keyAliases.psu;
+    // ワット数が仕様にない場合は製品名（例: "RM650x 650W"）から取得
+    const nameWattage = ctx.part.name.match(/(\d{3,4})\s*W\b/i);
+
+    return {
+      category: 'psu',
+      powerW: this.readNumber(ctx, ['power']),
+      wattage: this.readNumber(ctx, keys.wattage) ?? (nameWattage ? Number(nameWattage[1]) : undefined),
+      efficiency: this.normalizeEfficiency(this.pick(ctx.raw, keys.efficiency)?.value),
+      cybeneticsEta: this.normalizeCybeneticsEta(this.pick(ctx.raw, keys.cybeneticsEta)?.value),
+      modular: this.parseModular(ctx.raw.modular),
+      formFactor: this.readString(ctx, ['formFactor']),
+      connectors: this.readCountMap(ctx, 'connectors'),
+      atxVersion: this.parseAtxVersion(this.pick(ctx.raw, keys.atxVersion)?.value, ctx.part.name),
+      lengthMm: this.readLength(ctx, ['length']),
+      fanSizeMm: this.readLength(ctx, ['fanSize']),
+      fanMode: this.parseFanMode(this.pick(ctx.raw, keys.fanMode))
+    };
+  }
+
+  private normalizeCase(ctx: NormalizeContext): CaseSpecs {
+    const keys = this.keyAliases.case;
+    const sidePanel = this.readString(ctx, ['sidePanel']) || '';
+
+    return {
+      category: 'case',
+      powerW: this.resolvePower(ctx),
+      caseType: this.readString(ctx, ['type']),
+      formFactor: this.readFormFactor(ctx, ['formFactor']),
+      supportedFormFactors: this.readStringArray(ctx, keys.supportedFormFactors)
+        .map(value => this.normalizeFormFactor(value))
+        .filter((value): value is FormFactor => value !== undefined),
+      maxGpuLengthMm: this.readLength(ctx, keys.maxGpuLength),
+      maxGpuHeightMm: this.readLength(ctx, keys.maxGpuHeight),
+      maxCoolerHeightMm: this.readLength(ctx, keys.maxCoolerHeight),
+      maxPsuLengthMm: this.readLength(ctx, keys.maxPsuLength),
+      expansionSlots: this.readNumber(ctx, ['expansionSlots']),
+      fanMounts: this.readNumber(ctx, ['fanMounts']),
+      temperedGlass: this.readBoolean(ctx, ['temperedGlass']) || /glass|ガラス/i.test(sidePanel)
+    };
+  }
+
+  private normalizeCooler(ctx: NormalizeContext): CoolerSpecs {
+    const keys = this.keyAliases.cooler;
+    const typeEntry = this.pick(ctx.raw, keys.coolerType);
+    const coolerType = this.parseCoolerType(typeEntry?.value);
+    if (typeEntry && coolerType === undefined) {
+      this.report(ctx, typeEntry.key, typeEntry.value, 'クーラー種別を解釈できません');
+    }
+
+    return {
+      category: 'cooler',
+      powerW: this.readNumber(ctx, ['power']) ?? ctx.part.powerConsumption,
+      coolerType,
+      heightMm: this.readLength(ctx, ['height']),
+      tdpRatingW: this.readNumber(ctx, keys.tdpRating),
+      supportedSockets: this.readStringArray(ctx, keys.sockets),
+      fanSizeMm: this.readLength(ctx, ['fanSize']),
+      fanCount: this.readNumber(ctx, keys.fanCount),
+      radiatorSizeMm: this.readLength(ctx, ['radiatorSize']),
+      noiseLevelDb: this.readNumber(ctx, keys.noiseLevel),
+      memoryOverhangMm: this.readLength(ctx, keys.memoryOverhang)
+    };
+  }
+
+  private normalizeMonitor(ctx: NormalizeContext): MonitorSpecs {
+    const keys = this.keyAliases.monitor;
+    return {
+      category: 'monitor',
+      powerW: this.resolvePower(ctx),
+      sizeInch: this.readNumber(ctx, keys.size),
+      resolution: this.readString(ctx, ['resolution']),
+      refreshRateHz: this.readNumber(ctx, keys.refreshRate),
+      panelType: this.readString(ctx, keys.panelType)
+    };
+  }
+
+  // ===========================================
+  // 🔧 値の読み取り
+  // ===========================================
+
+  private pick(raw: RawSpecs, keys: readonly string[]): { key: string; value: unknown } | undefined {
+    for (const key of keys) {
+      const value = raw[key];
+      if (value !== undefined && value !== null && value !== '') {
+        return { key, value };
+      }
+    }
+    return undefined;
+  }
+
+  private report(ctx: NormalizeContext, field: string, rawValue: unknown, message: string): void {
+    ctx.issues.push({ partId: ctx.part.id, field, rawValue, message });
+  }
+
+  // 消費電力: power → tdp → Part.powerConsumption
+  private resolvePower(ctx: NormalizeContext): number | undefined {
+    return this.readNumber(ctx, ['power', 'tdp']) ?? ctx.part.powerConsumption;
+  }
+
+  private readString(ctx: NormalizeContext, keys: readonly string[]): string | undefined {
+    const entry = this.pick(ctx.raw, keys);
+    if (!entry) return undefined;
+    if (typeof entry.value === 'string') return entry.value.trim();
+    if (typeof entry.value === 'number') return String(entry.value);
+    this.report(ctx, entry.key, entry.value, '文字列として解釈できません');
+    return undefined;
+  }
+
+  private readStringArray(ctx: NormalizeContext, keys: readonly string[]): string[] {
+    const entry = this.pick(ctx.raw, keys);
+    if (!entry) return [];
+    if (Array.isArray(entry.value)) {
+      return entry.value.map(item => String(item).trim()).filter(Boolean);
+    }
+    if (typeof entry.value === 'string') {
+      // 'DDR4/DDR5' や 'LGA1700, AM5' のような区切り表記に対応
+      return entry.value.split(/[,/、]/).map(item => item.trim()).filter(Boolean);
+    }
+    this.report(ctx, entry.key, entry.value, '配列として解釈できません');
+    return [];
+  }
+
+  private readBoolean(ctx: NormalizeContext, keys: readonly string[]): boolean {
+    const entry = this.pick(ctx.raw, keys);
+    if (!entry) return false;
+    if (typeof entry.value === 'boolean') return entry.value;
+    if (typeof entry.value === 'number') return entry.value > 0;
+    if (typeof entry.value === 'string') {
+      return !/^(false|no|none|なし|非対応|0)$/i.test(entry.value.trim());
+    }
+    return Boolean(entry.value);
+  }
+
+  private readNumber(ctx: NormalizeContext, keys: readonly string[]): number | undefined {
+    const entry = this.pick(ctx.raw, keys);
+    if (!entry) return undefined;
+    const parsed = this.parseNumeric(entry.value);
+    if (parsed === undefined) {
+      this.report(ctx, entry.key, entry.value, '数値として解釈できません');
+      return undefined;
+    }
+    return parsed.value;
+  }
+
+  // 周波数: "2.5GHz" / "2500MHz" / 数値（100以上はMHzとみなす）
+  private readFrequency(ctx: NormalizeContext, keys: readonly string[], unit: 'GHz' | 'MHz'): number | undefined {
+    const entry = this.pick(ctx.raw, keys);
+    if (!entry) return undefined;
+    const parsed = this.parseNumeric(entry.value);
+    if (parsed === undefined) {
+      this.report(ctx, entry.key, entry.value, '周波数として解釈できません');
+      return undefined;
+    }
+
+    let mhz: number;
+    if (parsed.unit === 'ghz') mhz = parsed.value * 1000;
+    else if (parsed.unit === 'mhz' || parsed.unit === 'mt/s') mhz = parsed.value;
+    else mhz = parsed.value >= 100 ? parsed.value : parsed.value * 1000;
+
+    return unit === 'GHz' ? Math.round(mhz) / 1000 : Math.round(mhz);
+  }
+
+  // 容量: "500GB" / "1TB" / "8GB GDDR6" / 数値（GB）
+  private readCapacity(ctx: NormalizeContext, keys: readonly string[]): number | undefined {
+    const entry = this.pick(ctx.raw, keys);
+    if (!entry) return undefined;
+    const parsed = this.parseNumeric(entry.value);
+    if (parsed === undefined) {
+      this.report(ctx, entry.key, entry.value, '容量として解釈できません');
+      return undefined;
+    }
+    if (parsed.unit === 'tb') return parsed.value * 1000;
+    if (parsed.unit === 'mb') return parsed.value / 1000;
+    return parsed.value;
+  }
+
+  // 長さ: "244mm" / "24.4cm" / 数値（mm）
+  private readLength(ctx: NormalizeContext, keys: readonly string[]): number | undefined {
+    const entry = this.pick(ctx.raw, keys);
+    if (!entry) return undefined;
+    const parsed = this.parseNumeric(entry.value);
+    if (parsed === undefined) {
+      this.report(ctx, entry.key, entry.value, '長さとして解釈できません');
+      return undefined;
+    }
+    return parsed.unit === 'cm' ? parsed.value * 10 : parsed.value;
+  }
+
+  private readFormFactor(ctx: NormalizeContext, keys: readonly string[]): FormFactor | undefined {
+    const entry = this.pick(ctx.raw, keys);
+    if (!entry) return undefined;
+    const formFactor = this.normalizeFormFactor(entry.value);
+    if (formFactor === undefined) {
+      this.report(ctx, entry.key, entry.value, 'フォームファクターを解釈できません');
+    }
+    return formFactor;
+  }
+
+  // コネクタ数マップ（{ '8pin': 2 } 形式）
+  private readCountMap(ctx: NormalizeContext, key: string): Record<string, number> {
+    const value = ctx.raw[key];
+    if (value === undefined || value === null) return {};
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      this.report(ctx, key, value, 'コネクタ構成を解釈できません');
+      return {};
+    }
+    const counts: Record<string, number> = {};
+    Object.entries(value as RawSpecs).forEach(([name, count]) => {
+      const parsed = this.parseNumeric(count);
+      if (parsed !== undefined) counts[name] = parsed.value;
+    });
+    return counts;
+  }
+
+  // ===========================================
+  // 🔧 値のパース
+  // ===========================================
+
+  private parseNumeric(value: unknown): { value: number; unit: string } | undefined {
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? { value, unit: '' } : undefined;
+    }
+    if (typeof value !== 'string') return undefined;
+    // 'DDR5-5600' の '5' のように英字に続く数字は数値として扱わない
+    const match = value.replace(/,/g, '').match(/(?<![A-Za-z\d.])(\d+(?:\.\d+)?)\s*(ghz|mhz|mt\/s|tb|gb|mb|mm|cm|w)?/i);
+    if (!match) return undefined;
+    return { value: Number(match[1]), unit: (match[2] || '').toLowerCase() };
+  }
+
+  public normalizeFormFactor(value: unknown): FormFactor | undefined {
+    if (typeof value !== 'string') return undefined;
+    const key = value.toLowerCase().replace(/[\s\-_µμ]/g, '');
+    if (key === 'eatx' || key === 'extendedatx') return 'E-ATX';
+    if (key === 'atx') return 'ATX';
+    if (key === 'matx' || key === 'microatx' || key === 'uatx') return 'Micro-ATX';
+    if (key === 'miniitx' || key === 'itx') return 'Mini-ITX';
+    return undefined;
+  }
+
+  public normalizeMemoryType(value: unknown): MemoryType | undefined {
+    if (typeof value !== 'string') return undefined;
+    const match = value.toUpperCase().match(/DDR([345])/);
+    return match ? (`DDR${match[1]}` as MemoryType) : undefined;
+  }
+
+  private parseStorageType(value: unknown, interfaceName?: string, formFactor?: string): StorageType | undefined {
+    const text = [value, interfaceName, formFactor].filter(item => typeof item === 'string').join(' ').toLowerCase();
+    if (!text) return undefined;
+    if (/hdd|7200|5400|3\.5/.test(text)) return 'HDD';
+    if (/nvme|pcie/.test(text)) return 'NVMe';
+    if (/sata|ssd/.test(text)) return 'SATA SSD';
+    return undefined;
+  }
+
+  // '80PLUS Bronze' / 'Gold' → '80 PLUS Bronze' / '80 PLUS Gold'
+  public normalizeEfficiency(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const tier = value.match(/titanium|platinum|gold|silver|bronze|white|standard/i)?.[0];
+    if (!tier) return value.trim();
+    const label = tier.charAt(0).toUpperCase() + tier.slice(1).toLowerCase();
+    return label === 'Standard' || label === 'White' ? '80 PLUS' : `80 PLUS ${label}`;
+  }
+
+  // 'ETA Platinum' / { eta: 'Platinum' } 形式から ETA ランクを取得
+  public normalizeCybeneticsEta(value: unknown): string | undefined {
+    const text = value && typeof value === 'object' ? (value as Record<string, unknown>).eta : value;
+    if (typeof text !== 'string') return undefined;
+    const tier = text.match(/diamond|titanium|platinum|gold|silver|bronze/i)?.[0];
+    return tier ? tier.charAt(0).toUpperCase() + tier.slice(1).toLowerCase() : undefined;
+  }
+
+  private parseModular(value: unknown): ModularType {
+    if (value === true) return 'full';
+    if (typeof value !== 'string') return 'none';
+    if (/semi|セミ/i.test(value)) return 'semi';
+    if (/non|なし|非/i.test(value)) return 'none';
+    if (/full|フル|modular|モジュラー/i.test(value)) return 'full';
+    return 'none';
+  }
+
+  // fanMode: 'semi-passive' 形式、または zeroRpm/semiPassive/fanless: true
+  private parseFanMode(entry: { key: string; value: unknown } | undefined): PsuFanMode {
+    if (!entry) return 'standard';
+    if (entry.value === true) {
+      return entry.key === 'fanless' ? 'fanless' : 'semi-passive';
+    }
+    if (typeof entry.value !== 'string') return 'standard';
+    if (/semi|セミ|hybrid|zero|eco/i.test(entry.value)) return 'semi-passive';
+    if (/fanless|passive|ファンレス/i.test(entry.value)) return 'fanless';
+    return 'standard';
+  }
+
+  // 3.1 / 'ATX 3.0' / 'ATX3.1' 形式（仕様になければ製品名から）
+  private parseAtxVersion(value: unknown, name: string): number | undefined {
+    if (typeof value === 'number') return value;
+    const text = typeof value === 'string' ? value : name.match(/ATX\s*v?\d(?:\.\d+)?/i)?.[0];
+    const version = text?.match(/(\d(?:\.\d+)?)/)?.[1];
+    return version ? Number(version) : undefined;
+  }
+
+  // ranks: 1 / 2 の数値、または 'dual' / '2R' / 'シングルランク' 形式
+  private parseRanks(value: unknown): 1 | 2 | undefined {
+    if (value === 1 || value === 2) return value;
+    if (typeof value !== 'string') return undefined;
+    if (/dual|double|2r|デュアル/i.test(value)) return 2;
+    if (/single|1r|シングル/i.test(value)) return 1;
+    return undefined;
+  }
+
+  private parseCoolerType(value: unknown): CoolerType | undefined {
+    if (typeof value !== 'string') return undefined;
+    if (/custom|本格/i.test(value)) return 'Custom';
+    if (/aio|liquid|water|水冷/i.test(value)) return 'AIO';
+    if (/air|tower|空冷|トップフロー|サイドフロー/i.test(value)) return 'Air';
+    return undefined;
+  }
+}
+
+export default SpecNormalizerService;
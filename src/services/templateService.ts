@@ -0,0 +1,311 @@
+// src/services/templateService.ts
+// 📋 構成テンプレートサービス - 組み込み/ユーザーテンプレートの管理と適用
+
+import { Part, PartCategory, PCConfiguration } from '@/types';
+import {
+  ConfigurationTemplate,
+  ConfigurationPurpose,
+  TemplateVariant,
+  TemplatePartRefs,
+  TemplatePartResolution,
+  TemplateApplicationResult
+} from '@/types/config';
+import { AUTO_BUILD_CATEGORIES, PURPOSE_BUDGET_SPLIT } from '@/data/budgetRules';
+import { categoryNames } from '@/data/sampleParts';
+import AutoBuildService from '@/services/autoBuildService';
+import SpecNormalizerService from '@/services/specNormalizer';
+import builtinTemplatesData from '@/data/templates/configurationTemplates.json';
+
+const USER_TEMPLATES_KEY = 'pc-design-studio:user-templates';
+
+// JSON / localStorage 上のテンプレート（日付は文字列）
+type TemplateRecord = Omit<ConfigurationTemplate, 'createdAt' | 'updatedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+export interface SaveTemplateOptions {
+  name: string;
+  description?: string;
+  purpose: ConfigurationPurpose;
+  difficulty?: ConfigurationTemplate['difficulty'];
+  tags?: string[];
+}
+
+export interface ApplyTemplateOptions {
+  variantName?: string;
+  budget?: number;     // 指定時はテンプレートの予算帯より優先
+}
+
+export class TemplateService {
+  private static instance: TemplateService;
+  private builtinTemplates: ConfigurationTemplate[];
+  private autoBuildService = AutoBuildService.getInstance();
+  private specNormalizer = SpecNormalizerService.getInstance();
+
+  private constructor() {
+    this.builtinTemplates = (builtinTemplatesData.templates as unknown as TemplateRecord[])
+      .map(record => this.reviveTemplate(record));
+  }
+
+  // シングルトンパターン
+  public static getInstance(): TemplateService {
+    if (!TemplateService.instance) {
+      TemplateService.instance = new TemplateService();
+    }
+    return TemplateService.instance;
+  }
+
+  // ===========================================
+  // 📋 テンプレート取得・保存
+  // ===========================================
+
+  /**
+   * 組み込みテンプレートとユーザーテンプレートを取得（公式→人気順）
+   */
+  public getTemplates(purpose?: ConfigurationPurpose): ConfigurationTemplate[] {
+    return [...this.builtinTemplates, ...this.loadUserTemplates()]
+      .filter(template => !purpose || template.purpose === purpose)
+      .sort((a, b) => Number(b.isOfficial) - Number(a.isOfficial) || b.popularity - a.popularity);
+  }
+
+  public getTemplate(id: string): ConfigurationTemplate | null {
+    return this.getTemplates().find(template => template.id === id) || null;
+  }
+
+  /**
+   * 現在の構成をユーザーテンプレートとして保存
+   */
+  public saveAsTemplate(configuration: PCConfiguration, options: SaveTemplateOptions): ConfigurationTemplate {
+    const baseConfiguration: TemplatePartRefs = {};
+    Object.entries(configuration.parts).forEach(([category, part]) => {
+      if (part) baseConfiguration[category as PartCategory] = part.id;
+    });
+
+    const budget = configuration.budget || configuration.totalPrice;
+    const now = new Date();
+    const template: ConfigurationTemplate = {
+      id: `user-template-${now.getTime()}`,
+      name: options.name,
+      description: options.description || '',
+      purpose: options.purpose,
+      budgetRange: {
+        min: Math.round(budget * 0.9),
+        max: Math.round(budget * 1.1)
+      },
+      difficulty: options.difficulty || 'beginner',
+      popularity: 0,
+      isOfficial: false,
+      createdBy: 'user',
+      createdAt: now,
+      updatedAt: now,
+      baseConfiguration,
+      recommendations: [],
+      variants: [],
+      tags: options.tags || []
+    };
+
+    this.storeUserTemplates([...this.loadUserTemplates(), template]);
+    return template;
+  }
+
+  /**
+   * ユーザーテンプレートを削除（組み込みテンプレートは削除不可）
+   */
+  public deleteUserTemplate(id: string): boolean {
+    const templates = this.loadUserTemplates();
+    const remaining = templates.filter(template => template.id !== id);
+    if (remaining.length === templates.length) return false;
+
+    this.storeUserTemplates(remaining);
+    return true;
+  }
+
+  // ===========================================
+  // 🎯 テンプレート適用
+  // ===========================================
+
+  /**
+   * テンプレート（とバリアント）を現在のカタログで解決して構成を生成
+   * 入手できないパーツは推奨代替 → 価格が近い互換パーツの順で置き換える
+   */
+  public applyTemplate(
+    templateId: string,
+    catalog: Part[],
+    options: ApplyTemplateOptions = {}
+  ): TemplateApplicationResult {
+    const template = this.getTemplate(templateId);
+    if (!template) {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+
+    const variant = options.variantName
+      ? template.variants.find(v => v.name === options.variantName)
+      : undefined;
+    if (options.variantName && !variant) {
+      throw new Error(`Variant not found: ${options.variantName}`);
+    }
+
+    const budget = options.budget ?? this.getTemplateBudget(template, variant);
+    const refs: TemplatePartRefs = { ...template.baseConfiguration, ...(variant?.partAdjustments || {}) };
+
+    // 依存関係（CPU → マザーボード → メモリ…）の順で解決
+    const categories = [
+      ...AUTO_BUILD_CATEGORIES,
+      ...(Object.keys(refs) as PartCategory[]).filter(c => !AUTO_BUILD_CATEGORIES.includes(c))
+    ];
+    const parts: Partial<Record<PartCategory, Part | null>> = {};
+    const resolutions: TemplatePartResolution[] = [];
+
+    categories.forEach(category => {
+      const requestedId = refs[category];
+      if (!requestedId) return;
+
+      const resolution = this.resolvePart(template, category, requestedId, catalog, parts, budget);
+      parts[category] = resolution.part;
+      resolutions.push(resolution);
+    });
+
+    const now = new Date();
+    const selectedParts = Object.values(parts);
+    const configuration: PCConfiguration = {
+      id: `template-${template.id}-${now.getTime()}`,
+      name: variant ? `${template.name}（${variant.name}）` : template.name,
+      parts,
+      totalPrice: selectedParts.reduce((sum, part) => sum + (part?.price || 0), 0),
+      totalPowerConsumption: selectedParts.reduce((sum, part) => sum + this.specNormalizer.getPowerDraw(part), 0),
+      budget,
+      createdAt: now,
+      updatedAt: now,
+      description: variant?.description || template.description,
+      tags: [...template.tags]
+    };
+
+    return {
+      template,
+      variant,
+      configuration,
+      resolutions,
+      substitutedCount: resolutions.filter(r => r.status === 'substituted').length,
+      missingCount: resolutions.filter(r => r.status === 'missing').length
+    };
+  }
+
+  /**
+   * テンプレートの想定予算（予算帯の中央値にバリアントの調整率を適用）
+   */
+  public getTemplateBudget(template: ConfigurationTemplate, variant?: TemplateVariant): number {
+    const base = (template.budgetRange.min + template.budgetRange.max) / 2;
+    const adjustment = variant ? variant.budgetAdjustment / 100 : 0;
+    return Math.round(base * (1 + adjustment) / 1000) * 1000;
+  }
+
+  // ===========================================
+  // 🔧 パーツ解決
+  // ===========================================
+
+  private resolvePart(
+    template: ConfigurationTemplate,
+    category: PartCategory,
+    requestedId: string,
+    catalog: Part[],
+    resolved: Partial<Record<PartCategory, Part | null>>,
+    budget: number
+  ): TemplatePartResolution {
+    const categoryName = categoryNames[category] || category;
+    const requested = catalog.find(part => part.id === requestedId);
+
+    if (requested && this.isUsable(category, requested, resolved)) {
+      return { category, requestedId, part: requested, status: 'exact' };
+    }
+
+    const unavailableReason = !requested
+      ? `${categoryName}（${requestedId}）がカタログに存在しません`
+      : this.isAvailable(requested)
+        ? `${requested.name} は他のパーツと互換性がありません`
+        : `${requested.name} は在庫切れです`;
+
+    // 1. テンプレートの推奨代替パーツ
+    const recommendation = template.recommendations.find(r => r.category === category);
+    for (const alternativeId of recommendation?.alternatives || []) {
+      const alternative = catalog.find(part => part.id === alternativeId);
+      if (alternative && this.isUsable(category, alternative, resolved)) {
+        return {
+          category,
+          requestedId,
+          part: alternative,
+          status: 'substituted',
+          reason: `${unavailableReason}。推奨代替の ${alternative.name} を使用`
+        };
+      }
+    }
+
+    // 2. 価格が最も近い互換パーツ（元の価格が不明な場合は用途別の配分額を基準）
+    const split = PURPOSE_BUDGET_SPLIT[template.purpose] || PURPOSE_BUDGET_SPLIT.custom;
+    const referencePrice = requested?.price ?? budget * (split[category] || 0) / 100;
+    const nearest = catalog
+      .filter(part => part.category === category && part.id !== requestedId && this.isUsable(category, part, resolved))
+      .sort((a, b) => Math.abs(a.price - referencePrice) - Math.abs(b.price - referencePrice))[0];
+
+    if (nearest) {
+      return {
+        category,
+        requestedId,
+        part: nearest,
+        status: 'substituted',
+        reason: `${unavailableReason}。価格が近い互換パーツ ${nearest.name} に置き換え`
+      };
+    }
+
+    return {
+      category,
+      requestedId,
+      part: null,
+      status: 'missing',
+      reason: `${unavailableReason}。代替できる${categoryName}が見つかりません`
+    };
+  }
+
+  private isAvailable(part: Part): boolean {
+    return part.availability !== 'out_of_stock' && part.availability !== 'discontinued';
+  }
+
+  private isUsable(category: PartCategory, part: Part, resolved: Partial<Record<PartCategory, Part | null>>): boolean {
+    return this.isAvailable(part) && this.autoBuildService.isQuickCompatible(category, part, resolved);
+  }
+
+  // ===========================================
+  // 🔧 ユーザーテンプレートの永続化
+  // ===========================================
+
+  private loadUserTemplates(): ConfigurationTemplate[] {
+    try {
+      const saved = localStorage.getItem(USER_TEMPLATES_KEY);
+      if (!saved) return [];
+
+      return (JSON.parse(saved) as TemplateRecord[]).map(record => this.reviveTemplate(record));
+    } catch (error) {
+      console.error('Failed to load user templates:', error);
+      return [];
+    }
+  }
+
+  private storeUserTemplates(templates: ConfigurationTemplate[]): void {
+    try {
+      localStorage.setItem(USER_TEMPLATES_KEY, JSON.stringify(templates));
+    } catch (error) {
+      console.error('Failed to save user templates:', error);
+    }
+  }
+
+  // 日付オブジェクトを復元
+  private reviveTemplate(record: TemplateRecord): ConfigurationTemplate {
+    return {
+      ...record,
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    };
+  }
+}
+
+export default TemplateService;
@@ -0,0 +1,230 @@
+// src/services/thermalService.ts
+// 🌡️ 熱設計サービス - CPU/GPU/ケース内の定常温度を負荷シナリオ別に推定
+
+import { PCConfiguration } from '@/types';
+import { ThermalEstimate, ThermalScenarioEstimate, ThermalWarning } from '@/types/config';
+import { LOAD_SCENARIOS, LoadScenario } from '@/types/power';
+import { getCaseSpec, defaultCaseSpec } from '@/data/caseSpecs';
+import SpecNormalizerService from '@/services/specNormalizer';
+
+// 温度推定は選択パーツのみ参照（互換性ルールの評価構成もそのまま渡せる）
+export type ThermalConfiguration = Pick<PCConfiguration, 'parts'>;
+
+export interface ThermalEstimateOptions {
+  ambientTemp?: number;       // 室温（℃）
+  caseFanCount?: number;      // 搭載ケースファン数（省略時は前面+背面を埋めた想定）
+}
+
+const DEFAULT_AMBIENT_TEMP = 25;
+
+// クーラーは定格TDPの発熱でCPU温度が室温+60℃になる想定（熱抵抗 = 60 / 定格W）
+const COOLER_RATED_DELTA = 60;
+// リテールクーラー相当（クーラー未選択時）
+const STOCK_COOLER_RATING = 65;
+// GPUクーラーはカード自身のTDPで+45℃になる設計とみなす
+const GPU_RATED_DELTA = 45;
+const GPU_IDLE_LOAD = 0.1;
+const GPU_HOT_THRESHOLD = 83;
+
+// ケースファンの風量（CFM）とフィルター・配線等による減衰
+const FAN_CFM_BY_SIZE: Record<number, number> = { 80: 25, 92: 35, 120: 45, 140: 60, 200: 90 };
+const CASE_AIRFLOW_EFFICIENCY = 0.7;
+const PASSIVE_AIRFLOW_CFM = 15;
+// 空気の温度上昇 ΔT(℃) = 1.76 × 発熱(W) / 風量(CFM)
+const AIR_HEAT_FACTOR = 1.76;
+const CASE_DELTA_WARNING = 10;
+
+// CPU/GPU以外の発熱（マザーボード・メモリ・ストレージ等）
+const BASE_SYSTEM_HEAT = 30;
+
+// AMD は TDP × 1.35 が PPT（ソケット電力上限）
+const AMD_PPT_FACTOR = 1.35;
+const TJMAX = { intel: 100, amd: 95 } as const;
+
+export class ThermalService {
+  private static instance: ThermalService;
+  private specNormalizer = SpecNormalizerService.getInstance();
+
+  private constructor() {}
+
+  // シングルトンパターン
+  public static getInstance(): ThermalService {
+    if (!ThermalService.instance) {
+      ThermalService.instance = new ThermalService();
+    }
+    return ThermalService.instance;
+  }
+
+  /**
+   * 構成の温度を推定（LOAD_SCENARIOS 全シナリオ）
+   */
+  public estimate(config: ThermalConfiguration, options: ThermalEstimateOptions = {}): ThermalEstimate {
+    const ambientTemp = options.ambientTemp ?? DEFAULT_AMBIENT_TEMP;
+    const cpuProfile = this.getCpuProfile(config);
+    const cooler = this.specNormalizer.getSpecs(config.parts.cooler, 'cooler');
+    const coolerRating = cooler?.tdpRatingW || STOCK_COOLER_RATING;
+    const gpu = this.specNormalizer.getSpecs(config.parts.gpu, 'gpu');
+    const gpuMaxPower = gpu?.tdpW || gpu?.powerW || 0;
+    const airflow = this.getCaseAirflow(config, options.caseFanCount);
+
+    const scenarios: ThermalScenarioEstimate[] = LOAD_SCENARIOS.map(scenario => {
+      const cpuPower = Math.round(cpuProfile.maxPower * scenario.cpuLoad);
+      const gpuPower = Math.round(gpuMaxPower * Math.max(GPU_IDLE_LOAD, scenario.gpuLoad));
+      const systemTemp = ambientTemp +
+        (AIR_HEAT_FACTOR * (cpuPower + gpuPower + BASE_SYSTEM_HEAT * scenario.systemLoad)) / airflow.cfm;
+
+      const rawCpuTemp = systemTemp + cpuPower * (COOLER_RATED_DELTA / coolerRating);
+      const cpuThrottling = config.parts.cpu ? rawCpuTemp >= cpuProfile.tjMax : false;
+
+      return {
+        scenario: scenario.name,
+        description: scenario.description,
+        cpuPower,
+        gpuPower,
+        cpuTemp: config.parts.cpu ? Math.round(Math.min(rawCpuTemp, cpuProfile.tjMax)) : 0,
+        gpuTemp: gpuMaxPower > 0 ? Math.round(systemTemp + GPU_RATED_DELTA * (gpuPower / gpuMaxPower)) : 0,
+        systemTemp: Math.round(systemTemp * 10) / 10,
+        cpuThrottling
+      };
+    });
+
+    const idle = scenarios[0];
+    const peak = scenarios[scenarios.length - 1];
+
+    return {
+      cpuTemp: { min: idle.cpuTemp, max: peak.cpuTemp },
+      gpuTemp: { min: idle.gpuTemp, max: peak.gpuTemp },
+      systemTemp: { min: idle.systemTemp, max: peak.systemTemp },
+      warnings: this.createWarnings(config, scenarios, {
+        ambientTemp,
+        cpuProfile,
+        coolerRating,
+        airflow
+      }),
+      ambientTemp,
+      caseAirflowCfm: Math.round(airflow.cfm),
+      caseFanCount: airflow.fanCount,
+      scenarios
+    };
+  }
+
+  /**
+   * 指定シナリオの推定値（gaming / rendering 等）
+   */
+  public getScenario(estimate: ThermalEstimate, scenario: LoadScenario['name']): ThermalScenarioEstimate | undefined {
+    return estimate.scenarios.find(s => s.scenario === scenario);
+  }
+
+  // ===========================================
+  // 🔧 推定の前提値
+  // ===========================================
+
+  // CPUの持続最大電力（PL2/PPT）とTjmax
+  private getCpuProfile(config: ThermalConfiguration) {
+    const cpu = config.parts.cpu;
+    const specs = this.specNormalizer.getSpecs(cpu, 'cpu');
+    const isAmd = /amd|ryzen/i.test(`${cpu?.manufacturer || ''} ${cpu?.name || ''}`);
+    const tdp = specs?.tdpW || specs?.powerW || 0;
+
+    return {
+      maxPower: specs?.maxTurboPowerW || Math.round(isAmd ? tdp * AMD_PPT_FACTOR : tdp),
+      limitLabel: isAmd ? 'PPT' : 'PL2',
+      tjMax: isAmd ? TJMAX.amd : TJMAX.intel
+    };
+  }
+
+  // ケースの前面・背面ファンによる風量
+  private getCaseAirflow(config: ThermalConfiguration, caseFanCount?: number) {
+    const pcCase = config.parts.case;
+    const caseSpec = getCaseSpec(pcCase?.specifications?.caseType as string) || defaultCaseSpec;
+    const { front, rear, totalMaxFans } = caseSpec.fanSupport;
+    const fanSize = Math.max(...front.sizes, 120);
+    const fanCount = Math.min(caseFanCount ?? front.maxFans + rear.maxFans, totalMaxFans);
+    const perFan = FAN_CFM_BY_SIZE[fanSize] || FAN_CFM_BY_SIZE[120];
+
+    return {
+      cfm: Math.max(PASSIVE_AIRFLOW_CFM, fanCount * perFan * CASE_AIRFLOW_EFFICIENCY),
+      fanCount,
+      maxFans: totalMaxFans
+    };
+  }
+
+  // ===========================================
+  // 🔧 警告
+  // ===========================================
+
+  private createWarnings(
+    config: ThermalConfiguration,
+    scenarios: ThermalScenarioEstimate[],
+    context: {
+      ambientTemp: number;
+      cpuProfile: ReturnType<ThermalService['getCpuProfile']>;
+      coolerRating: number;
+      airflow: ReturnType<ThermalService['getCaseAirflow']>;
+    }
+  ): ThermalWarning[] {
+    const warnings: ThermalWarning[] = [];
+    const { cpuProfile, coolerRating, airflow, ambientTemp } = context;
+    const gaming = scenarios.find(s => s.scenario === 'gaming');
+    const peak = scenarios[scenarios.length - 1];
+
+    if (config.parts.cpu && !config.parts.cooler) {
+      warnings.push({
+        type: 'cooler_missing',
+        component: 'cooler',
+        severity: cpuProfile.maxPower > STOCK_COOLER_RATING ? 'medium' : 'low',
+        message: `CPUクーラーが未選択のため、リテールクーラー相当（${STOCK_COOLER_RATING}W）で推定しています`,
+        recommendation: `${cpuProfile.maxPower}W ${cpuProfile.limitLabel}に対応したCPUクーラーを選択してください`
+      });
+    } else if (config.parts.cpu && cpuProfile.maxPower > coolerRating) {
+      warnings.push({
+        type: 'cooler_underrated',
+        component: 'cooler',
+        severity: cpuProfile.maxPower > coolerRating * 1.2 ? 'high' : 'medium',
+        message: `CPUクーラーの冷却能力（${coolerRating}W）が${cpuProfile.maxPower}W ${cpuProfile.limitLabel}に対して不足しています`,
+        recommendation: `定格${cpuProfile.maxPower}W以上のクーラーを選ぶか、BIOSで電力制限を${coolerRating}W程度に設定してください`
+      });
+    }
+
+    if (peak.cpuThrottling) {
+      const gamingThrottles = gaming?.cpuThrottling;
+      warnings.push({
+        type: 'cpu_throttling',
+        component: 'cpu',
+        severity: gamingThrottles ? 'high' : 'medium',
+        message: gamingThrottles
+          ? `ゲーミング負荷でもCPUがTjmax（${cpuProfile.tjMax}℃）に達し、クロックが低下する見込みです`
+          : `全コア高負荷時にCPUがTjmax（${cpuProfile.tjMax}℃）に達し、クロックが低下する見込みです`,
+        recommendation: '冷却能力の高いクーラー（大型空冷・簡易水冷）への変更を検討してください'
+      });
+    }
+
+    if (gaming && gaming.gpuTemp > GPU_HOT_THRESHOLD) {
+      warnings.push({
+        type: 'gpu_hot',
+        component: 'gpu',
+        severity: 'medium',
+        message: `ゲーミング時のGPU温度が約${gaming.gpuTemp}℃と高めです`,
+        recommendation: 'ケース前面の吸気ファンを増やし、GPU周辺の風量を確保してください'
+      });
+    }
+
+    const caseDelta = peak.systemTemp - ambientTemp;
+    if (caseDelta > CASE_DELTA_WARNING) {
+      const spareMounts = airflow.maxFans - airflow.fanCount;
+      warnings.push({
+        type: 'case_airflow',
+        component: 'case',
+        severity: caseDelta > CASE_DELTA_WARNING * 2 ? 'high' : 'low',
+        message: `高負荷時のケース内温度が室温より約${Math.round(caseDelta)}℃高くなります（推定風量 ${Math.round(airflow.cfm)}CFM）`,
+        recommendation: spareMounts > 0
+          ? `空いているファンマウント（${spareMounts}箇所）にケースファンを追加してください`
+          : 'エアフローに優れたケースへの変更を検討してください'
+      });
+    }
+
+    return warnings;
+  }
+}
+
+export default ThermalService;
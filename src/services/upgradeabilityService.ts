@@ -0,0 +1,301 @@
+// src/services/upgradeabilityService.ts
+// 🚀 拡張性評価サービス - 空きスロット・電源余力・ソケット寿命・ケース余裕から将来の拡張余地を採点
+
+import { PCConfiguration } from '@/types';
+import { UpgradeabilityScore, UpgradeSuggestion } from '@/types/config';
+import { getMotherboardSpec, defaultMotherboardSpec } from '@/data/motherboardSpecs';
+import { getCaseSpec, defaultCaseSpec } from '@/data/caseSpecs';
+import { CompatibilityDatabaseService } from '@/services/compatibilityDatabase';
+import { PowerCalculatorService } from '@/services/powerCalculator';
+import SpecNormalizerService from '@/services/specNormalizer';
+
+// 総合スコアの重み
+const SCORE_WEIGHTS = { cpu: 0.3, gpu: 0.3, memory: 0.2, storage: 0.2 };
+
+// GPU換装に必要な電源余力（W）とケースの余裕（mm）の目安
+// 電源余力は定格の80%（効率・経年劣化・過渡スパイクの余裕）までの残り
+const PSU_LOAD_CEILING = 0.8;
+const PSU_HEADROOM_TARGET = 300;
+const PSU_HEADROOM_WARNING = 100;
+const GPU_CLEARANCE_TARGET = 60;
+const GPU_CLEARANCE_WARNING = 20;
+// 高TDP CPU向けラジエーターサイズ（mm）
+const RADIATOR_HIGH_END = 360;
+const RADIATOR_MID_RANGE = 240;
+
+// 提案の概算費用（円）と性能向上（%）
+const UPGRADE_ESTIMATES = {
+  cpu: { cost: 60000, gain: 25 },
+  platform: { cost: 110000, gain: 40 },
+  gpu: { cost: 80000, gain: 40 },
+  memory: { cost: 15000, gain: 10 },
+  storage: { cost: 12000, gain: 0 },
+  psu: { cost: 15000, gain: 0 },
+  case: { cost: 15000, gain: 0 }
+};
+
+// 構成から読み取った拡張余地
+interface UpgradeContext {
+  socket?: string;
+  cpuName: string;
+  memorySlots: { total: number; used: number };
+  memoryCapacity: { installed: number; max: number };
+  isDdr5: boolean;
+  m2Slots: { total: number; used: number };
+  sataPorts: { total: number; used: number };
+  psuHeadroom: number | null;       // 負荷率80%までの余力（W）、電源未選択時は null
+  psuWattage: number;
+  gpuClearance: { max: number; current: number };
+  maxRadiator: number;
+  gpuPcieGen?: string;
+}
+
+export class UpgradeabilityService {
+  private static instance: UpgradeabilityService;
+  private specNormalizer = SpecNormalizerService.getInstance();
+  private powerCalculator = PowerCalculatorService.getInstance();
+  private compatibilityDatabase = CompatibilityDatabaseService.getInstance();
+
+  private constructor() {}
+
+  // シングルトンパターン
+  public static getInstance(): UpgradeabilityService {
+    if (!UpgradeabilityService.instance) {
+      UpgradeabilityService.instance = new UpgradeabilityService();
+    }
+    return UpgradeabilityService.instance;
+  }
+
+  /**
+   * 構成の拡張性を評価（各項目 0-100）
+   */
+  public evaluate(config: PCConfiguration): UpgradeabilityScore {
+    const context = this.createContext(config);
+    const lifecycle = context.socket ? this.compatibilityDatabase.getSocketLifecycle(context.socket) : null;
+    const suggestions: UpgradeSuggestion[] = [];
+
+    const cpu = this.scoreCpu(context, lifecycle, suggestions);
+    const gpu = this.scoreGpu(context, suggestions);
+    const memory = this.scoreMemory(context, suggestions);
+    const storage = this.scoreStorage(context, suggestions);
+
+    const overall = Math.round(
+      cpu * SCORE_WEIGHTS.cpu + gpu * SCORE_WEIGHTS.gpu + memory * SCORE_WEIGHTS.memory + storage * SCORE_WEIGHTS.storage
+    );
+
+    const priorityOrder = { high: 0, medium: 1, low: 2 };
+    suggestions.sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]);
+
+    return { overall, cpu, gpu, memory, storage, suggestions };
+  }
+
+  // ===========================================
+  // 🔧 構成の読み取り
+  // ===========================================
+
+  private createContext(config: PCConfiguration): UpgradeContext {
+    const { cpu, motherboard, memory, storage, gpu, psu } = config.parts;
+    const cpuSpecs = this.specNormalizer.getSpecs(cpu, 'cpu');
+    const mbSpecs = this.specNormalizer.getSpecs(motherboard, 'motherboard');
+    const memorySpecs = this.specNormalizer.getSpecs(memory, 'memory');
+    const storageSpecs = this.specNormalizer.getSpecs(storage, 'storage');
+    const gpuSpecs = this.specNormalizer.getSpecs(gpu, 'gpu');
+    const psuSpecs = this.specNormalizer.getSpecs(psu, 'psu');
+
+    // スロット数はマザーボード仕様DB → パーツ仕様 → 既定値の順に参照
+    const mbSpec = getMotherboardSpec(mbSpecs?.chipset);
+    const limits = mbSpec?.physicalLimits;
+    const defaults = defaultMotherboardSpec.physicalLimits;
+    const socket = this.normalizeSocket(mbSpecs?.socket || cpuSpecs?.socket || mbSpec?.socket);
+    const socketData = socket ? this.compatibilityDatabase.getCpuSocketCompatibility(socket) : null;
+
+    const isM2 = storageSpecs?.storageType === 'NVMe' || /m\.2/i.test(storageSpecs?.formFactor || '');
+    const powerResult = this.hasParts(config) ? this.powerCalculator.calculatePowerConsumption(config) : null;
+    const caseSpec = getCaseSpec(config.parts.case?.specifications?.caseType as string) || defaultCaseSpec;
+    const caseSpecs = this.specNormalizer.getSpecs(config.parts.case, 'case');
+    const { front, top, bottom } = caseSpec.fanSupport;
+
+    return {
+      socket,
+      cpuName: cpu?.name || '',
+      memorySlots: {
+        total: limits?.memorySlots || mbSpecs?.memorySlots || defaults.memorySlots,
+        used: memory ? memorySpecs?.modules || 2 : 0
+      },
+      memoryCapacity: {
+        installed: memorySpecs?.capacityGB || 0,
+        max: limits?.maxMemoryCapacity || mbSpecs?.maxMemoryGB || socketData?.maxMemoryCapacity || defaults.maxMemoryCapacity
+      },
+      isDdr5: memorySpecs?.memoryType === 'DDR5' || (mbSpecs?.memoryTypes || []).includes('DDR5'),
+      m2Slots: {
+        total: limits?.m2Slots || mbSpecs?.m2Slots || defaults.m2Slots,
+        used: storage && isM2 ? 1 : 0
+      },
+      sataPorts: {
+        total: limits?.sataConnectors || mbSpecs?.sataConnectors || defaults.sataConnectors,
+        used: storage && !isM2 ? 1 : 0
+      },
+      psuHeadroom: psuSpecs?.wattage && powerResult
+        ? psuSpecs.wattage * PSU_LOAD_CEILING - powerResult.totalMaxPower
+        : null,
+      psuWattage: psuSpecs?.wattage || 0,
+      gpuClearance: {
+        max: caseSpecs?.maxGpuLengthMm || caseSpec.componentLimits.maxGpuLength,
+        current: gpuSpecs?.lengthMm || 0
+      },
+      maxRadiator: Math.max(front.maxRadiator, top.maxRadiator, bottom.maxRadiator),
+      gpuPcieGen: socketData?.pcieSlots?.gpu
+    };
+  }
+
+  // ===========================================
+  // 🔧 項目別スコア
+  // ===========================================
+
+  // ソケット寿命・同ソケット内の上位CPU・ラジエーター対応
+  private scoreCpu(
+    context: UpgradeContext,
+    lifecycle: ReturnType<CompatibilityDatabaseService['getSocketLifecycle']>,
+    suggestions: UpgradeSuggestion[]
+  ): number {
+    let score = 0;
+
+    if (lifecycle) {
+      const isFinalCpu = context.cpuName.includes(lifecycle.finalCpu.replace(/^(AMD|Intel)\s+/, ''));
+      score += lifecycle.status === 'active' ? 60 : 20;
+      if (!isFinalCpu) score += 20;
+
+      if (lifecycle.status === 'active') {
+        suggestions.push(this.suggest('cpu', 'low', `${context.socket}ボードのため、${lifecycle.upgradePath}です`, UPGRADE_ESTIMATES.cpu));
+      } else if (isFinalCpu) {
+        suggestions.push(this.suggest('motherboard', 'medium',
+          `${context.socket}は${lifecycle.upgradePath}で、現在のCPUが最上位です。CPUの性能向上にはマザーボードごとの更新が必要です`,
+          UPGRADE_ESTIMATES.platform));
+      } else {
+        suggestions.push(this.suggest('cpu', 'medium',
+          `${context.socket}は${lifecycle.upgradePath}のため、CPU換装は${lifecycle.finalCpu}までです`,
+          UPGRADE_ESTIMATES.cpu));
+      }
+    } else if (context.socket) {
+      score += 30;
+    }
+
+    if (context.maxRadiator >= RADIATOR_HIGH_END) {
+      score += 20;
+    } else if (context.maxRadiator >= RADIATOR_MID_RANGE) {
+      score += 10;
+    } else {
+      suggestions.push(this.suggest('case', 'medium',
+        `ケースが${RADIATOR_MID_RANGE}mm以上のラジエーターに非対応のため、高TDPのCPUへ換装する際は冷却が制約になります`,
+        UPGRADE_ESTIMATES.case));
+    }
+
+    return Math.min(100, score);
+  }
+
+  // 電源余力・GPU長の余裕・PCIe世代
+  private scoreGpu(context: UpgradeContext, suggestions: UpgradeSuggestion[]): number {
+    let score = 0;
+    const { psuHeadroom, gpuClearance } = context;
+
+    if (psuHeadroom !== null) {
+      score += Math.round(this.clamp(psuHeadroom / PSU_HEADROOM_TARGET) * 50);
+      if (psuHeadroom < PSU_HEADROOM_WARNING) {
+        suggestions.push(this.suggest('psu', 'high',
+          `電源の余力（負荷率${PSU_LOAD_CEILING * 100}%まで）が${Math.max(0, Math.round(psuHeadroom))}Wしかありません。GPUを上位モデルに換装する際は${this.roundUpWattage(context.psuWattage + (PSU_HEADROOM_TARGET - psuHeadroom) / PSU_LOAD_CEILING)}W以上の電源への交換が必要です`,
+          UPGRADE_ESTIMATES.psu));
+      } else {
+        suggestions.push(this.suggest('gpu', 'low',
+          `電源に負荷率${PSU_LOAD_CEILING * 100}%まで約${Math.round(psuHeadroom)}Wの余力があり、消費電力が現在より${Math.round(psuHeadroom)}W大きいGPUまで換装できます`,
+          UPGRADE_ESTIMATES.gpu));
+      }
+    }
+
+    const clearance = gpuClearance.max - gpuClearance.current;
+    score += Math.round(this.clamp(clearance / (gpuClearance.current > 0 ? GPU_CLEARANCE_TARGET : gpuClearance.max)) * 30);
+    if (gpuClearance.current > 0 && clearance < GPU_CLEARANCE_WARNING) {
+      suggestions.push(this.suggest('case', 'medium',
+        `ケースのGPU長の余裕が${Math.max(0, clearance)}mmしかなく、より大型のGPUへの換装は困難です`,
+        UPGRADE_ESTIMATES.case));
+    }
+
+    if (/PCIe 5\.0/.test(context.gpuPcieGen || '')) score += 20;
+    else if (/PCIe 4\.0/.test(context.gpuPcieGen || '')) score += 10;
+
+    return Math.min(100, score);
+  }
+
+  // 空きスロット・最大容量・メモリ規格
+  private scoreMemory(context: UpgradeContext, suggestions: UpgradeSuggestion[]): number {
+    const { memorySlots, memoryCapacity } = context;
+    const freeSlots = Math.max(0, memorySlots.total - memorySlots.used);
+    let score = memorySlots.total > 0 ? Math.round((freeSlots / memorySlots.total) * 50) : 0;
+
+    if (memoryCapacity.max > 0) {
+      score += Math.round(this.clamp(1 - memoryCapacity.installed / memoryCapacity.max) * 30);
+    }
+    score += context.isDdr5 ? 20 : 10;
+
+    if (memorySlots.used > 0 && freeSlots > 0) {
+      suggestions.push(this.suggest('memory', 'low',
+        `メモリスロットが${freeSlots}本空いており、最大${memoryCapacity.max}GBまで増設できます`,
+        UPGRADE_ESTIMATES.memory));
+    } else if (memorySlots.used > 0) {
+      suggestions.push(this.suggest('memory', 'medium',
+        `メモリスロットがすべて埋まっています。増設する場合は大容量キットへの交換が必要です（最大${memoryCapacity.max}GB）`,
+        UPGRADE_ESTIMATES.memory));
+    }
+
+    return Math.min(100, score);
+  }
+
+  // 空きM.2スロット・SATAポート
+  private scoreStorage(context: UpgradeContext, suggestions: UpgradeSuggestion[]): number {
+    const freeM2 = Math.max(0, context.m2Slots.total - context.m2Slots.used);
+    const freeSata = Math.max(0, context.sataPorts.total - context.sataPorts.used);
+    const score = Math.min(60, freeM2 * 20) + Math.min(40, freeSata * 10);
+
+    if (freeM2 > 0) {
+      suggestions.push(this.suggest('storage', 'low',
+        `M.2スロットが${freeM2}基空いており、NVMe SSDを追加できます`,
+        UPGRADE_ESTIMATES.storage));
+    } else if (freeSata > 0) {
+      suggestions.push(this.suggest('storage', 'medium',
+        `M.2スロットに空きがありません。ストレージ増設はSATA（空き${freeSata}ポート）になります`,
+        UPGRADE_ESTIMATES.storage));
+    }
+
+    return score;
+  }
+
+  // ===========================================
+  // 🔧 補助
+  // ===========================================
+
+  private suggest(
+    component: UpgradeSuggestion['component'],
+    priority: UpgradeSuggestion['priority'],
+    description: string,
+    estimate: { cost: number; gain: number }
+  ): UpgradeSuggestion {
+    return { component, priority, description, estimatedCost: estimate.cost, performanceGain: estimate.gain };
+  }
+
+  private normalizeSocket(socket?: string): string | undefined {
+    return socket ? socket.toUpperCase().replace(/\s+/g, '') : undefined;
+  }
+
+  private hasParts(config: PCConfiguration): boolean {
+    return Object.values(config.parts).some(Boolean);
+  }
+
+  private roundUpWattage(watts: number): number {
+    return Math.ceil(watts / 50) * 50;
+  }
+
+  private clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+}
+
+export default UpgradeabilityService;
@@ -0,0 +1,62 @@
+// src/types/autoBuild.ts
+// 自動構成（予算・用途からの構成生成）用の型定義
+
+import type { Part, PartCategory, PCConfiguration } from './index';
+import type { CompatibilityResult } from './compatibility';
+import type { PowerCalculationResult } from './power';
+import type { ConfigurationPurpose, BudgetAllocation, TemplateBudgetRules } from './config';
+
+export interface AutoBuildRequest {
+  budget: number;                                       // 予算上限（円）
+  purpose: ConfigurationPurpose;                        // 用途
+  lockedParts?: Partial<Record<PartCategory, Part>>;    // 固定パーツ（変更しない）
+  budgetRules?: Partial<TemplateBudgetRules>;           // カテゴリ別の価格帯指定（配分より優先）
+  maxResults?: number;                                  // 返す候補数（デフォルト3）
+  minPsuHeadroom?: number;                              // 電源の最低余裕率（%、デフォルト20）
+  candidatesPerCategory?: number;                       // カテゴリごとの探索候補数
+  maxEvaluations?: number;                              // 完全チェックを行う組み合わせの上限
+  beamWidth?: number;                                   // 探索の各段階で残す部分構成の上限
+}
+
+// カテゴリ別の予算配分の説明
+export interface BudgetSplitExplanation {
+  category: PartCategory;
+  categoryName: string;
+  targetPercentage: number;   // 用途別の目標配分（%）
+  targetAmount: number;       // 目標金額（円）
+  actualAmount: number;       // 実際の金額（円）
+  actualPercentage: number;   // 実際の配分（%）
+  partName?: string;
+  locked: boolean;
+  reason: string;
+}
+
+export interface AutoBuildCandidate {
+  rank: number;
+  configuration: PCConfiguration;
+  score: number;              // 総合スコア（0-100）
+  performanceScore: number;   // 用途別重み付き性能スコア（0-100）
+  balanceScore: number;       // 予算配分の適合度（0-100）
+  totalPrice: number;
+  remainingBudget: number;
+  psuHeadroom: number;        // 電源余裕率（%）
+  compatibility: CompatibilityResult;
+  power: PowerCalculationResult;
+  budgetSplit: BudgetSplitExplanation[];
+}
+
+export interface AutoBuildResult {
+  request: AutoBuildRequest;
+  allocations: BudgetAllocation[];
+  candidates: AutoBuildCandidate[];
+  summary: string;
+  unmetCategories: PartCategory[];   // 候補パーツが見つからなかったカテゴリ
+  stats: {
+    combinationsExplored: number;
+    evaluated: number;
+    rejectedByBudget: number;
+    rejectedByCompatibility: number;
+    rejectedByPower: number;
+  };
+  executionTime: number; // ms
+}
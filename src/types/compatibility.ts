@@ -1,6 +1,9 @@
 // src/types/compatibility.ts
 // 互換性チェック用の型定義
 
+import type { ThermalEstimate } from './config';
+import type { PowerConnectorCheck } from './power';
+
 // メイン互換性結果
 export interface CompatibilityResult {
   isCompatible: boolean;
@@ -9,6 +12,7 @@ export interface CompatibilityResult {
   score: number; // 0-100の互換性スコア
   checkedAt: Date;
   details: CompatibilityDetails;
+  ruleResults?: RuleResult[];   // ルールごとの評価結果（ルールエンジン）
 }
 
 // 互換性問題
@@ -20,6 +24,7 @@ export interface CompatibilityIssue {
   affectedParts: string[];
   solution?: string;
   category: string;
+  ruleId?: string;
 }
 
 // 互換性警告
@@ -28,6 +33,7 @@ export interface CompatibilityWarning {
   message: string;
   recommendation: string;
   priority: 'high' | 'medium' | 'low';
+  ruleId?: string;
 }
 
 // 問題タイプ
@@ -38,7 +44,48 @@ export type CompatibilityIssueType =
   | 'size_conflict' 
   | 'connector_missing'
   | 'missing_part'
-  | 'cooling_insufficient';
+  | 'cooling_insufficient'
+  | 'performance_imbalance';
+
+// 🧩 互換性ルール（ルールエンジン）
+export type CompatibilityRuleCategory = 'socket' | 'memory' | 'power' | 'physical' | 'cooling' | 'thermal' | 'performance';
+
+// pending: 必要なパーツが未選択のため未評価
+export type RuleStatus = 'pass' | 'warning' | 'fail' | 'pending';
+
+// ルールが出力する個々の判定
+export interface RuleFinding {
+  status: 'pass' | 'warning' | 'fail';
+  message: string;
+  solution?: string;
+  priority?: CompatibilityWarning['priority'];   // warning の優先度（既定: medium）
+}
+
+export interface RuleResult {
+  ruleId: string;
+  name: string;
+  category: CompatibilityRuleCategory;
+  status: RuleStatus;
+  findings: RuleFinding[];
+  affectedParts: string[];
+}
+
+// 🔍 検索候補の互換性（選択中の構成に組み込んだ場合の判定）
+export type CandidateCompatibilityStatus = 'compatible' | 'warning' | 'incompatible';
+
+export interface CandidateCompatibilityReason {
+  ruleId: string;             // 'socket.match' 等
+  category: CompatibilityRuleCategory;
+  label: string;              // バッジ表示用の短い名称（例: ソケット不一致）
+  severity: 'fail' | 'warning';
+  message: string;
+}
+
+export interface CandidateCompatibility {
+  partId: string;
+  status: CandidateCompatibilityStatus;
+  reasons: CandidateCompatibilityReason[];
+}
 
 // 詳細互換性チェック結果（パフォーマンス予測統合版）
 export interface CompatibilityDetails {
@@ -48,6 +95,7 @@ export interface CompatibilityDetails {
   physicalFit?: PhysicalCompatibility;
   performanceMatch?: PerformanceCompatibility;
   cooling?: CoolingCompatibility;
+  thermal?: ThermalEstimate;
   performancePrediction?: {
     overallScore: number;
     bottleneckAnalysis: {
@@ -101,6 +149,7 @@ export interface SocketCompatibility {
   motherboardSocket?: string;
   chipset?: string;
   supportedChipsets?: string[];
+  biosUpdateRequired?: boolean;   // BIOS更新後に動作する組み合わせ
   message: string;
 }
 
@@ -117,10 +166,43 @@ export interface MemoryCompatibility {
   dualChannelRecommended?: boolean;
   supportedSpeeds?: number[];
   supportedTypes?: string[];
+  slotCount?: number;
+  effectiveSpeed?: number;        // 装着枚数・ランク数を考慮した実効速度
+  mixedKits?: boolean;
   warnings?: string[];
   message: string;
 }
 
+// 🧠 メモリ装着構成の分析結果（複数キット対応）
+export interface MemoryKitSummary {
+  partId: string;
+  name: string;
+  memoryType?: string;
+  speedMHz?: number;
+  modules: number;
+  moduleCapacityGB: number;
+  capacityGB: number;
+  ranks: 1 | 2;
+  ranksAssumed: boolean;          // 仕様に記載がなく容量から推定
+  timings?: string;
+}
+
+export interface MemoryPopulation {
+  kits: MemoryKitSummary[];
+  memoryTypes: string[];
+  totalModules: number;
+  totalCapacityGB: number;
+  slotCount: number;
+  maxCapacityGB: number;
+  dimmsPerChannel: 1 | 2;
+  ranks: 1 | 2;
+  ratedSpeedMHz?: number;         // 最も遅いキットの定格速度
+  effectiveSpeedMHz?: number;
+  deratingReason?: string;
+  mixedKits: boolean;
+  identicalKits: boolean;         // 同一製品の複数キット
+}
+
 // 電源コネクタ互換性（データベース駆動強化版）
 export interface PowerConnectorCompatibility {
   compatible: boolean;
@@ -129,6 +211,7 @@ export interface PowerConnectorCompatibility {
   missingConnectors: string[];
   requiredDetails?: Array<{connector: string, purpose: string, device: string}>;
   missingDetails?: Array<{connector: string, purpose: string, device: string}>;
+  connectorCheck?: PowerConnectorCheck;  // ケーブル本数・変換アダプタの集計
   powerWarning?: string;
   psuCategory?: string;
   message: string;
@@ -11,9 +11,9 @@ import {
   Case, 
   CPUCooler, 
   BasePart,
-  Part,
-  PartCategory 
+  Part
 } from './parts';
+import type { PartCategory, Part as CatalogPart, PCConfiguration as CatalogConfiguration } from './index';
 import { PowerCalculationResult } from './power';
 import { NumberRange, PriceRange } from './search';
 
@@ -157,13 +157,37 @@ export interface BottleneckAnalysis {
 }
 
 export interface ThermalEstimate {
-  cpuTemp: NumberRange;
+  cpuTemp: NumberRange;       // アイドル〜ストレステスト（℃）
   gpuTemp: NumberRange;
-  systemTemp: NumberRange;
+  systemTemp: NumberRange;    // ケース内温度
   warnings: ThermalWarning[];
+  ambientTemp: number;        // 室温（℃）
+  caseAirflowCfm: number;     // ケースファンの推定風量
+  caseFanCount: number;
+  scenarios: ThermalScenarioEstimate[];
 }
 
+// 負荷シナリオ（LOAD_SCENARIOS）ごとの定常温度
+export interface ThermalScenarioEstimate {
+  scenario: string;
+  description: string;
+  cpuPower: number;           // W
+  gpuPower: number;           // W
+  cpuTemp: number;            // ℃
+  gpuTemp: number;
+  systemTemp: number;
+  cpuThrottling: boolean;     // Tjmax到達（サーマルスロットリング）
+}
+
+export type ThermalWarningType =
+  | 'cooler_underrated'
+  | 'cooler_missing'
+  | 'cpu_throttling'
+  | 'gpu_hot'
+  | 'case_airflow';
+
 export interface ThermalWarning {
+  type: ThermalWarningType;
   component: PartCategory;
   severity: 'low' | 'medium' | 'high';
   message: string;
@@ -172,15 +196,34 @@ export interface ThermalWarning {
 
 export interface NoiseEstimate {
   idleNoise: number;          // dB
-  loadNoise: number;          // dB
+  loadNoise: number;          // dB（ゲーミング負荷時）
   components: NoiseBreakdown[];
   rating: 'silent' | 'quiet' | 'moderate' | 'loud';
+  scenarios: NoiseScenarioEstimate[];
+  suggestions: NoiseSuggestion[];
 }
 
 export interface NoiseBreakdown {
   component: PartCategory;
-  idleNoise: number;
+  source: string;             // 'CPUクーラー' / 'ケースファン×3' 等
+  partName?: string;
+  idleNoise: number;          // 0 はファン停止
   loadNoise: number;
+  scenarioNoise: Record<string, number>;   // シナリオ名 → dBA
+}
+
+// 負荷シナリオ（LOAD_SCENARIOS）ごとの合成騒音
+export interface NoiseScenarioEstimate {
+  scenario: string;
+  description: string;
+  noise: number;              // dBA（対数加算）
+}
+
+export interface NoiseSuggestion {
+  component: PartCategory;
+  source: string;
+  message: string;
+  expectedReduction: number;  // 負荷時の合成騒音の低下見込み（dB）
 }
 
 export interface UpgradeabilityScore {
@@ -211,28 +254,50 @@ export type ConfigurationStatus =
 
 // 構成比較機能
 export interface ConfigurationComparison {
-  configurations: PCConfiguration[];
+  configurations: CatalogConfiguration[];   // 保存済み構成（2〜4件）
   metrics: ComparisonMetrics;
+  differences: ComparisonPartDifference[];
   recommendations: ComparisonRecommendation[];
+  comparedAt: Date;
 }
 
 export interface ComparisonMetrics {
   price: ComparisonValue[];
   performance: ComparisonValue[];
+  fps: ComparisonValue[];                   // 推奨解像度ではなく1440p平均FPSで比較
+  useCases: Record<ComparisonUseCase, ComparisonValue[]>;
+  compatibility: ComparisonValue[];
   power: ComparisonValue[];
-  noise: ComparisonValue[];
+  noise: ComparisonValue[];                 // ゲーミング時の騒音（dBA）
   upgradeability: ComparisonValue[];
 }
 
+export type ComparisonUseCase = 'gaming' | 'contentCreation' | 'workstation';
+
 export interface ComparisonValue {
   configId: string;
   value: number;
-  rank: number;
+  rank: number;               // 1が最良（価格・消費電力は低いほど良い）
   percentageDiff?: number;    // 最高値との差
 }
 
+// カテゴリ別のパーツ差分
+export interface ComparisonPartDifference {
+  category: PartCategory;
+  parts: Record<string, CatalogPart | null>;   // configId → パーツ
+  isSame: boolean;
+}
+
 export interface ComparisonRecommendation {
-  type: 'best_value' | 'best_performance' | 'most_efficient' | 'most_balanced';
+  type:
+    | 'best_value'
+    | 'best_performance'
+    | 'most_efficient'
+    | 'most_balanced'
+    | 'most_upgradeable'
+    | 'best_gaming'
+    | 'best_content_creation'
+    | 'best_workstation';
   configId: string;
   reasoning: string;
   score: number;
@@ -251,7 +316,7 @@ export interface ConfigurationTemplate {
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;
-  baseConfiguration: Partial<ConfigurationParts>;
+  baseConfiguration: TemplatePartRefs;   // カテゴリ別のパーツID（適用時にカタログで解決）
   recommendations: TemplateRecommendation[];
   variants: TemplateVariant[];
   tags: string[];
@@ -261,10 +326,13 @@ export interface TemplateVariant {
   name: string;
   description: string;
   budgetAdjustment: number;   // 予算調整（%）
-  partAdjustments: Partial<ConfigurationParts>;
+  partAdjustments: TemplatePartRefs;     // ベース構成から差し替えるパーツID
   targetPerformance: string;
 }
 
+// テンプレートが参照するパーツID（カテゴリ別）
+export type TemplatePartRefs = Partial<Record<PartCategory, string>>;
+
 export interface TemplateRecommendation {
   category: PartCategory;
   parts: string[];            // パーツIDの配列
@@ -272,6 +340,24 @@ export interface TemplateRecommendation {
   alternatives: string[];
 }
 
+// テンプレート適用時のパーツ解決結果
+export interface TemplatePartResolution {
+  category: PartCategory;
+  requestedId: string;
+  part: CatalogPart | null;
+  status: 'exact' | 'substituted' | 'missing';
+  reason?: string;
+}
+
+export interface TemplateApplicationResult {
+  template: ConfigurationTemplate;
+  variant?: TemplateVariant;
+  configuration: CatalogConfiguration;
+  resolutions: TemplatePartResolution[];
+  substitutedCount: number;
+  missingCount: number;
+}
+
 export interface TemplateBudgetRules {
   cpu: PriceRange;
   gpu: PriceRange;
@@ -0,0 +1,41 @@
+// src/types/import.ts
+// 構成インポート（外部パーツリストの解析・カタログ照合）用の型定義
+
+import type { Part, PartCategory, PCConfiguration } from './index';
+import type { PartNameMatch } from './search';
+
+export type ImportSourceFormat = 'pcpartpicker' | 'csv' | 'kakaku' | 'json';
+
+// 解析済みの1行
+export interface ImportedLine {
+  lineNumber: number;
+  raw: string;
+  name: string;
+  category?: PartCategory;
+  price?: number;
+  currency?: string;
+  url?: string;
+  externalId?: string;     // 価格.com の製品ID（K0000000000）
+  quantity?: number;
+}
+
+export type ImportMatchStatus = 'matched' | 'ambiguous' | 'unmatched';
+
+// 1行分の照合結果（selected は照合画面で変更可能）
+export interface ImportLineMatch {
+  line: ImportedLine;
+  candidates: PartNameMatch[];
+  selected: Part | null;
+  status: ImportMatchStatus;
+}
+
+export interface ImportPreview {
+  format: ImportSourceFormat;
+  matches: ImportLineMatch[];
+  warnings: string[];
+}
+
+export interface ImportBuildResult {
+  configuration: PCConfiguration;
+  warnings: string[];
+}
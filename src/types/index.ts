@@ -23,7 +23,7 @@ export interface Part {
   manufacturer: string;
   brand?: string;                    // 🔧 修正: ブランド名追加
   powerConsumption?: number;         // 🔧 修正: 消費電力追加
-  specifications: Record<string, unknown>;
+  specifications: Record<string, unknown>; // 参照時は SpecNormalizerService で正規化（types/specs.ts）
   availability?: 'in_stock' | 'out_of_stock' | 'limited' | 'discontinued' | 'pre_order';
   rating?: number;
   reviewCount?: number;
@@ -69,6 +69,36 @@ export interface SlotUsage {
   powerConnectorsUsed: number;
 }
 
+// 制限チェックの違反項目
+export interface LimitViolation {
+  type: 'slot_overflow' | 'lane_sharing' | 'power_shortage' | 'physical_incompatible' | 'budget_exceeded';
+  message: string;
+  severity: 'warning' | 'error';
+}
+
+// PCIeレーン割り当て：デバイスごとの結果
+export interface PcieDeviceAllocation {
+  partId: string;
+  partName: string;
+  deviceType: 'gpu' | 'nvme' | 'sata' | 'expansion';
+  slotId?: string;                 // 割り当て先（SATAは 'SATA_n'、未割り当ては undefined）
+  source?: 'cpu' | 'chipset';
+  generation?: number;             // 実際に動作するPCIe世代
+  lanes?: number;                  // 実際に動作するレーン数
+  degraded: boolean;               // 本来の世代・レーン数より低下しているか
+  note?: string;
+}
+
+// PCIeレーン割り当て結果（M.2/SATA共有を含む）
+export interface PcieLaneAllocation {
+  devices: PcieDeviceAllocation[];
+  m2SlotsUsed: number;
+  sataPortsUsed: number;
+  availableSataPorts: number;      // 共有で無効になったポートを除いた数
+  disabledSataPorts: number[];
+  violations: LimitViolation[];
+}
+
 // 複数搭載対応：必須パーツ（1つずつ）
 export interface CoreComponents {
   cpu: Part | null;
@@ -150,11 +180,7 @@ export interface ExtendedPCConfiguration {
   // 制限チェック結果
   limitChecks: {
     isValid: boolean;
-    violations: Array<{
-      type: 'slot_overflow' | 'power_shortage' | 'physical_incompatible' | 'budget_exceeded';
-      message: string;
-      severity: 'warning' | 'error';
-    }>;
+    violations: LimitViolation[];
   };
 }
 
@@ -626,6 +652,7 @@ export interface ConfigStore {
   saveConfig: (name: string) => void;
   loadConfig: (id: string) => void;
   deleteConfig: (id: string) => void;
+  addSavedConfig: (config: PCConfig) => void;
   
   // Phase 2 新メソッド
   updateMonitoringConfig: (config: Partial<MonitoringConfig>) => void;
@@ -865,6 +892,12 @@ export * from './power';
 export * from './compatibility';
 // 検索関連型をエクスポート
 export * from './search';
+// パーツ仕様型をエクスポート
+export * from './specs';
+// 自動構成関連型をエクスポート
+export * from './autoBuild';
+// 構成インポート関連型をエクスポート
+export * from './import';
 
 // 🔧 修正: 重複型定義の整理
 
@@ -7,15 +7,48 @@ export interface PowerCalculationResult {
   totalBasePower: number;      // 通常時総消費電力 (W)
   totalMaxPower: number;       // 最大総消費電力 (W)
   totalIdlePower: number;      // アイドル時総消費電力 (W)
-  recommendedPSU: number;      // 推奨電源容量 (W)
+  recommendedPSU: number;      // 推奨電源容量 (W) - 定常・過渡の大きい方
+  sustainedPower: number;      // 定常最大消費電力 (W)
+  transientPower: number;      // 過渡スパイクを含む瞬間最大 (W)
+  transient: PowerTransientAnalysis;  // 過渡スパイク分析
   safetyMargin: number;        // 安全マージン (%)
   powerEfficiency: number;     // 効率 (%)
   psuLoadPercentage: number;   // PSU負荷率 (%)
+  psuEfficiency: PsuEfficiencyAnalysis;  // 負荷率別の電源効率とコンセント側消費電力
   consumptions: PowerConsumption[];  // コンポーネント別消費電力
   warnings: PowerWarning[];    // 警告リスト
   isOptimal: boolean;          // 構成が最適化されているか
 }
 
+// ATX電源規格（3.x は瞬間的な過負荷の許容量が規定されている）
+export type PsuAtxStandard = 'ATX 3.x' | 'ATX 2.x' | 'unknown';
+
+// コンポーネント別の過渡スパイク
+export interface PowerTransientSpike {
+  partId: string;
+  partName: string;
+  category: string;
+  family: string;              // スパイク特性のファミリー
+  sustainedPower: number;      // 定常最大 (W)
+  spikeFactor: number;         // 定常最大に対する倍率
+  transientPower: number;      // スパイク時 (W)
+}
+
+// 過渡スパイク分析
+export interface PowerTransientAnalysis {
+  sustainedPower: number;      // 定常最大消費電力 (W)
+  transientPower: number;      // 過渡スパイクを含む瞬間最大 (W)
+  recommendedPSU: number;      // 選択中の規格（未選択・不明時は ATX 2.x）での推奨容量 (W)
+  recommendedByStandard: {
+    atx2: number;
+    atx3: number;
+  };
+  psuStandard: PsuAtxStandard;
+  psuTransientCapacity?: number;  // 選択中の電源が許容できる瞬間電力 (W)
+  spikes: PowerTransientSpike[];
+  highSpikeGpu: boolean;
+}
+
 export interface PowerConsumption {
   component: string;           // コンポーネント名
   category: string;            // パーツカテゴリ（stringで統一）
@@ -44,6 +77,7 @@ export type PowerWarningType =
   | 'low_efficiency'           // 効率が悪い
   | 'insufficient_headroom'    // 余裕不足
   | 'connector_shortage'       // コネクタ不足
+  | 'transient_spike'          // 過渡スパイクによる保護回路作動
   | 'future_upgrade_limited';  // 将来のアップグレード制限
 
 // PSU仕様
@@ -106,6 +140,51 @@ export interface EfficiencyCurve {
   load100: number; // 100%負荷時の効率
 }
 
+// 80 PLUS 認証ランク別の標準効率曲線（115V、仕様の最低値に近い目安）
+export const PSU_EFFICIENCY_CURVES: Record<string, EfficiencyCurve> = {
+  '80 PLUS': { load20: 0.80, load50: 0.82, load80: 0.81, load100: 0.80 },
+  '80 PLUS Bronze': { load20: 0.82, load50: 0.85, load80: 0.84, load100: 0.82 },
+  '80 PLUS Silver': { load20: 0.85, load50: 0.88, load80: 0.87, load100: 0.85 },
+  '80 PLUS Gold': { load20: 0.87, load50: 0.90, load80: 0.89, load100: 0.87 },
+  '80 PLUS Platinum': { load20: 0.90, load50: 0.92, load80: 0.91, load100: 0.89 },
+  '80 PLUS Titanium': { load20: 0.92, load50: 0.94, load80: 0.93, load100: 0.90 }
+};
+
+// Cybenetics ETA 認証ランク別の標準効率曲線（115V、平均効率の閾値付近）
+export const CYBENETICS_EFFICIENCY_CURVES: Record<string, EfficiencyCurve> = {
+  Bronze: { load20: 0.83, load50: 0.85, load80: 0.84, load100: 0.82 },
+  Silver: { load20: 0.85, load50: 0.87, load80: 0.86, load100: 0.84 },
+  Gold: { load20: 0.87, load50: 0.89, load80: 0.88, load100: 0.86 },
+  Platinum: { load20: 0.89, load50: 0.91, load80: 0.90, load100: 0.88 },
+  Titanium: { load20: 0.91, load50: 0.93, load80: 0.92, load100: 0.90 },
+  Diamond: { load20: 0.93, load50: 0.95, load80: 0.94, load100: 0.92 }
+};
+
+// 効率曲線の出典（製品別実測 > Cybenetics > 80 PLUS > 既定値）
+export type PsuEfficiencySource = 'model' | 'cybenetics' | '80plus' | 'default';
+
+export interface PsuEfficiencyProfile {
+  curve: EfficiencyCurve;
+  source: PsuEfficiencySource;
+  rating: string;              // 表示用の認証名（例: "Cybenetics Platinum"）
+}
+
+// 負荷点ごとの効率
+export interface PsuEfficiencyPoint {
+  dcPower: number;             // 電源出力（PC内部の消費電力）(W)
+  loadPercentage: number;      // 電源負荷率 (%)
+  efficiency: number;          // 補間した効率 (0-1)
+  wallPower: number;           // コンセントからの消費電力 (W)
+}
+
+// 電源効率分析
+export interface PsuEfficiencyAnalysis extends PsuEfficiencyProfile {
+  psuCapacity: number;         // 計算に用いた容量（未選択時は推奨容量）(W)
+  idle: PsuEfficiencyPoint;
+  base: PsuEfficiencyPoint;
+  max: PsuEfficiencyPoint;
+}
+
 // システム負荷シナリオ
 export interface LoadScenario {
   name: string;
@@ -162,27 +241,156 @@ export interface PowerCalculationConfig {
   peripheralsPower: number;     // 周辺機器の消費電力
 }
 
+// 電源側のネイティブケーブル本数（12VHPWR と 12V-2x6 は同一扱い）
+export interface PowerConnectorAvailable {
+  atx24: number;
+  eps8: number;                // CPU 8ピン（4+4ピン含む）
+  eps4: number;
+  pcie8: number;               // PCIe 8ピン（6+2ピン含む）
+  pcie6: number;
+  highPower: number;           // 12VHPWR / 12V-2x6（16ピン）
+  sata: number;
+  molex: number;
+}
+
+export type PowerConnectorType = keyof PowerConnectorAvailable;
+
+// デバイスごとの必要コネクタ
+export interface PowerConnectorRequirements {
+  connector: PowerConnectorType;
+  count: number;
+  device: string;
+  purpose: string;
+  deviceDrawW?: number;        // GPUの消費電力（変換アダプタの上限判定用）
+}
+
+// 不足しているコネクタ
+export interface PowerConnectorShortage {
+  connector: PowerConnectorType;
+  required: number;
+  available: number;
+  missing: number;             // 割り当てられなかった本数
+  devices: string[];
+}
+
+// 変換アダプタによる代用
+export interface PowerAdapterUsage {
+  device: string;
+  from: PowerConnectorType;
+  fromCount: number;
+  to: PowerConnectorType;
+  powerLimitW?: number;        // アダプタ経由で供給できる上限（12V-2x6 のセンスピン設定）
+  deviceDrawW?: number;
+  recommended: boolean;        // Molex→SATA 等の非推奨アダプタは false
+  note: string;
+}
+
 // 電力コネクタ要件チェック
 export interface PowerConnectorCheck {
-  required: PowerConnectorRequirements;
+  required: PowerConnectorRequirements[];
   available: PowerConnectorAvailable;
+  used: PowerConnectorAvailable;           // アダプタ分を含む使用本数
+  adapters: PowerAdapterUsage[];
+  shortages: PowerConnectorShortage[];
   sufficient: boolean;
   missing: string[];
 }
 
-export interface PowerConnectorRequirements {
-  motherboard: string;    // '24pin'
-  cpu: string[];         // ['8pin'] or ['4+4pin']
-  gpu: string[];         // ['8pin', '6+2pin']
-  sata: number;          // SATA電源数
-  molex: number;         // Molex電源数
+// 使用プロファイル（LOAD_SCENARIOS のシナリオ名ごとの1日の使用時間、残りは電源オフ）
+export interface UsageProfile {
+  id: string;
+  name: string;
+  weekdayHours: Record<string, number>;
+  weekendHours: Record<string, number>;
 }
 
-export interface PowerConnectorAvailable {
-  motherboard: string[];
-  cpu: string[];
-  pcie: string[];
-  sata: number;
-  molex: number;
-  floppy: number;
+export const USAGE_PROFILES: UsageProfile[] = [
+  {
+    id: 'gamer',
+    name: 'ゲーム中心',
+    weekdayHours: { idle: 1, office: 1, gaming: 3 },
+    weekendHours: { idle: 2, office: 1, gaming: 6 }
+  },
+  {
+    id: 'office',
+    name: '在宅ワーク',
+    weekdayHours: { idle: 2, office: 8 },
+    weekendHours: { idle: 1, office: 2, gaming: 1 }
+  },
+  {
+    id: 'creator',
+    name: 'クリエイター',
+    weekdayHours: { idle: 2, office: 3, rendering: 4 },
+    weekendHours: { idle: 2, office: 2, rendering: 3, gaming: 2 }
+  },
+  {
+    id: 'always_on',
+    name: '常時稼働',
+    weekdayHours: { idle: 16, office: 4, gaming: 4 },
+    weekendHours: { idle: 14, office: 2, gaming: 8 }
+  }
+];
+
+// 従量料金の段階（upToKwh が null の段階は上限なし）
+export interface ElectricityTariffTier {
+  upToKwh: number | null;      // 月間使用量の上限 (kWh)
+  rate: number;                // 電力量料金単価 (円/kWh)
+}
+
+// 地域別の電気料金プラン
+export interface ElectricityTariff {
+  id: string;
+  region: string;
+  provider: string;
+  plan: string;
+  tiers: ElectricityTariffTier[];
+  surcharge: number;           // 再エネ賦課金など使用量比例の加算額 (円/kWh)
+  co2Factor: number;           // CO2排出係数 (kg-CO2/kWh)
+}
+
+// 電気代試算の条件
+export interface ElectricityCostOptions {
+  profileId?: string;
+  tariffId?: string;
+  years?: number;               // 試算期間（年）
+  householdBaseKwh?: number;    // PC以外の家庭の月間使用量（段階料金の位置決めに使用）
+  annualRateIncrease?: number;  // 電力単価の年間上昇率 (0.02 = 2%)
+}
+
+// シナリオ別の電力量
+export interface ScenarioEnergy {
+  scenario: string;
+  description: string;
+  dcPower: number;             // PC内部の消費電力 (W)
+  loadPercentage: number;      // 電源負荷率 (%)
+  efficiency: number;          // 電源効率 (0-1)
+  wallPower: number;           // コンセントからの消費電力 (W)
+  weeklyHours: number;
+  monthlyKwh: number;
+}
+
+// 年ごとの試算
+export interface YearlyElectricityProjection {
+  year: number;
+  kwh: number;
+  cost: number;                // 円
+  co2Kg: number;
+  cumulativeCost: number;
+  cumulativeCo2Kg: number;
+}
+
+// 電気代・CO2の複数年試算
+export interface ElectricityCostProjection {
+  profile: UsageProfile;
+  tariff: ElectricityTariff;
+  psuCapacity: number;         // 効率計算に用いた電源容量 (W)
+  scenarios: ScenarioEnergy[];
+  monthlyKwh: number;
+  monthlyCost: number;         // 円（PC分の増分）
+  yearlyKwh: number;
+  yearlyCost: number;
+  yearlyCo2Kg: number;
+  years: YearlyElectricityProjection[];
+  totalCost: number;
+  totalCo2Kg: number;
 }
@@ -98,6 +98,8 @@ export interface SearchResult {
   filters: ActiveFilters;
   suggestions: SearchSuggestion[];
   executionTime: number; // ms
+  metrics: SearchMetrics; // 段階別の実行時間
+  facets: FilterOption[]; // カテゴリに応じたフィルタ項目と値ごとの件数
 }
 
 export interface ActiveFilters {
@@ -133,6 +135,8 @@ export interface SelectOption {
   value: string | number | boolean;
   label: string;
   count?: number;
+  range?: NumberRange;        // 範囲フィルタのバケット（例: 550〜750W）
+  selected?: boolean;
 }
 
 // 検索履歴
@@ -168,6 +172,12 @@ export interface AutocompleteResult {
   brands: string[];
 }
 
+// パーツ名の類似度照合結果（インポート時の照合等）
+export interface PartNameMatch {
+  part: Part;
+  score: number;             // 0-1（1が完全一致）
+}
+
 export interface AutocompleteSuggestion {
   text: string;
   type: 'product' | 'brand' | 'category' | 'feature';
@@ -188,6 +198,12 @@ export interface SearchConfig {
   cacheDuration: number;      // キャッシュ期間（秒）
 }
 
+// 正規化・同義語展開後の検索キーワード（いずれかの語に一致、またはカテゴリが一致すればヒット）
+export interface SearchKeywordGroup {
+  terms: string[];
+  categories: PartCategory[];
+}
+
 // 検索インデックス
 export interface SearchIndex {
   parts: IndexedPart[];
@@ -241,6 +257,7 @@ export interface SearchMetrics {
   indexTime: number;          // インデックス検索時間 (ms)
   filterTime: number;         // フィルタ適用時間 (ms)
   sortTime: number;          // ソート時間 (ms)
+  facetTime: number;         // ファセット集計時間 (ms)
   totalTime: number;         // 総実行時間 (ms)
   cacheHit: boolean;         // キャッシュヒット
   resultCount: number;       // 結果件数
@@ -278,4 +295,35 @@ export interface QueryBuilder {
   sortBy(field: SortOption, order?: 'asc' | 'desc'): QueryBuilder;
   page(page: number, limit?: number): QueryBuilder;
   build(): SearchQuery;
-}
\ No newline at end of file
+}
+
+// 構造化クエリ（検索バー入力）の解析結果
+export type QueryOperator = ':' | '=' | '>=' | '<=' | '>' | '<';
+export type QueryTokenKind = 'category' | 'field' | 'sort' | 'term' | 'error';
+
+export interface QueryToken {
+  text: string;
+  start: number;              // 入力文字列上の位置（ハイライト用）
+  end: number;
+  kind: QueryTokenKind;
+}
+
+export interface QueryError {
+  start: number;
+  end: number;
+  message: string;
+  hint?: string;              // 「もしかして: vram」等
+}
+
+// 設定中のフィルタ1件分のクエリ表記（例: vram>=12）
+export interface QueryFilterClause {
+  key: keyof SearchFilters;
+  label: string;
+  text: string;
+}
+
+export interface ParsedSearchQuery {
+  query: SearchQuery;
+  tokens: QueryToken[];
+  errors: QueryError[];
+}
@@ -0,0 +1,183 @@
+// src/types/specs.ts
+// 🔧 パーツ仕様の型付きスキーマ - カテゴリ別の正規化済み仕様定義
+//
+// Part.specifications は外部データ由来の Record<string, unknown> のまま保持し、
+// 参照側は SpecNormalizerService で正規化した以下の型を使用する。
+// 単位はフィールド名の接尾辞で統一（GHz / MHz / GB / Mm / W）。
+
+import type { PartCategory } from './index';
+
+// 正規化済みフォームファクター（compatibilityChecker.enhanced のキーに合わせる）
+export type FormFactor = 'E-ATX' | 'ATX' | 'Micro-ATX' | 'Mini-ITX';
+
+// メモリ規格
+export type MemoryType = 'DDR3' | 'DDR4' | 'DDR5';
+
+// ストレージ種別
+export type StorageType = 'NVMe' | 'SATA SSD' | 'HDD';
+
+// CPUクーラー種別
+export type CoolerType = 'Air' | 'AIO' | 'Custom';
+
+// 電源モジュラー方式
+export type ModularType = 'full' | 'semi' | 'none';
+
+// 電源ファンの制御方式（semi-passive は低負荷時にファン停止）
+export type PsuFanMode = 'standard' | 'semi-passive' | 'fanless';
+
+// 全カテゴリ共通フィールド
+interface BaseSpecs {
+  category: PartCategory;
+  powerW?: number;                 // 想定消費電力（power → tdp → powerConsumption の順で解決）
+}
+
+export interface CpuSpecs extends BaseSpecs {
+  category: 'cpu';
+  socket?: string;
+  cores?: number;
+  threads?: number;
+  baseClockGHz?: number;
+  boostClockGHz?: number;
+  tdpW?: number;
+  maxTurboPowerW?: number;         // Intel PL2 / AMD PPT
+  integratedGraphics: boolean;
+  architecture?: string;
+}
+
+export interface GpuSpecs extends BaseSpecs {
+  category: 'gpu';
+  vramGB?: number;
+  vramType?: string;               // GDDR6, GDDR6X 等
+  coreClockMHz?: number;
+  boostClockMHz?: number;
+  tdpW?: number;
+  powerConnectors: string[];
+  lengthMm?: number;
+  heightMm?: number;
+  widthMm?: number;
+  slots?: number;
+  pcieVersion?: string;
+  rayTracing: boolean;
+}
+
+export interface MotherboardSpecs extends BaseSpecs {
+  category: 'motherboard';
+  socket?: string;
+  chipset?: string;
+  formFactor?: FormFactor;
+  memoryTypes: MemoryType[];
+  maxMemoryGB?: number;
+  memorySlots?: number;
+  m2Slots?: number;
+  sataConnectors?: number;
+  pcieSlots?: number;
+  cpuPowerConnector?: string;
+  biosFlashback?: boolean;         // CPUなしでBIOS更新可能（未記載は undefined）
+  wifi: boolean;
+}
+
+export interface MemorySpecs extends BaseSpecs {
+  category: 'memory';
+  memoryType?: MemoryType;
+  speedMHz?: number;
+  capacityGB?: number;             // キット合計容量
+  modules?: number;
+  moduleCapacityGB?: number;
+  ranks?: 1 | 2;                   // モジュールあたりのランク数
+  timings?: string;
+  voltage?: number;
+  heightMm?: number;
+  rgb: boolean;
+}
+
+export interface StorageSpecs extends BaseSpecs {
+  category: 'storage';
+  storageType?: StorageType;
+  capacityGB?: number;
+  interface?: string;
+  formFactor?: string;             // M.2 2280, 2.5", 3.5" 等
+  readSpeedMBps?: number;
+  writeSpeedMBps?: number;
+}
+
+export interface PsuSpecs extends BaseSpecs {
+  category: 'psu';
+  wattage?: number;
+  efficiency?: string;             // '80 PLUS Gold' 形式に統一
+  cybeneticsEta?: string;          // Cybenetics ETA 認証（'Platinum' 等）
+  modular: ModularType;
+  formFactor?: string;             // ATX, SFX 等
+  connectors: Record<string, number>;
+  atxVersion?: number;             // ATX電源規格（2.52, 3.0, 3.1 等）
+  lengthMm?: number;
+  fanSizeMm?: number;
+  fanMode: PsuFanMode;
+}
+
+export interface CaseSpecs extends BaseSpecs {
+  category: 'case';
+  caseType?: string;               // Mid Tower 等
+  formFactor?: FormFactor;
+  supportedFormFactors: FormFactor[];
+  maxGpuLengthMm?: number;
+  maxGpuHeightMm?: number;
+  maxCoolerHeightMm?: number;
+  maxPsuLengthMm?: number;
+  expansionSlots?: number;
+  fanMounts?: number;
+  temperedGlass: boolean;
+}
+
+export interface CoolerSpecs extends BaseSpecs {
+  category: 'cooler';
+  coolerType?: CoolerType;
+  heightMm?: number;
+  tdpRatingW?: number;
+  supportedSockets: string[];
+  fanSizeMm?: number;
+  fanCount?: number;
+  radiatorSizeMm?: number;
+  noiseLevelDb?: number;
+  memoryOverhangMm?: number;
+}
+
+export interface MonitorSpecs extends BaseSpecs {
+  category: 'monitor';
+  sizeInch?: number;
+  resolution?: string;
+  refreshRateHz?: number;
+  panelType?: string;
+}
+
+export interface OtherSpecs extends BaseSpecs {
+  category: 'other';
+}
+
+// カテゴリ判別共用体
+export type PartSpecs =
+  | CpuSpecs
+  | GpuSpecs
+  | MotherboardSpecs
+  | MemorySpecs
+  | StorageSpecs
+  | PsuSpecs
+  | CaseSpecs
+  | CoolerSpecs
+  | MonitorSpecs
+  | OtherSpecs;
+
+// カテゴリから仕様型を引くためのマップ
+export type SpecsOf<C extends PartCategory> = Extract<PartSpecs, { category: C }>;
+
+// 正規化時に検出した問題
+export interface SpecValidationIssue {
+  partId: string;
+  field: string;
+  rawValue: unknown;
+  message: string;
+}
+
+export interface SpecNormalizationResult<C extends PartCategory = PartCategory> {
+  specs: SpecsOf<C>;
+  issues: SpecValidationIssue[];
+}
@@ -2,6 +2,7 @@
 // Phase 3: 既存PCアップグレード支援機能 型定義
 
 import { Part, PartCategory, ExtendedPCConfiguration } from './index';
+import type { ElectricityCostProjection } from './power';
 
 // ===========================================
 // 🔄 既存PC構成 (アップグレード診断用)
@@ -324,6 +325,11 @@ export interface PowerAnalysis {
   load: { before: number; after: number };
   annualCost: number;
   monthlyCostDifference?: number;
+  annualCo2Difference?: number;      // kg-CO2/年（負の値は削減）
+  projection?: {                     // 使用プロファイルに基づく電気代・CO2の複数年試算
+    before: ElectricityCostProjection;
+    after: ElectricityCostProjection;
+  };
   efficiency: 'improved' | 'increased' | 'unchanged';
 }
 
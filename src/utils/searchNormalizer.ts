@@ -0,0 +1,81 @@
+// src/utils/searchNormalizer.ts
+// 🔍 検索語の正規化と同義語展開 - 全角/半角・ひらがな/カタカナの表記ゆれ吸収、カタカナ表記のブランド名・カテゴリ俗称の展開
+
+import type { PartCategory } from '@/types';
+import type { SearchKeywordGroup } from '@/types/search';
+import { brandReadings, categorySlang } from '@/data/searchSynonyms';
+
+export interface KeywordOptions {
+  stemming: boolean;   // 表記ゆれの正規化と区切りの補完
+  synonyms: boolean;   // 同義語辞書による展開
+  prefix?: boolean;    // 入力途中の語にも辞書を前方一致で適用（オートコンプリート用）
+}
+
+// 辞書の前方一致は2文字以上から
+const PREFIX_MIN_LENGTH = 2;
+
+const HIRAGANA = /[\u3041-\u3096]/g;
+const HIRAGANA_TO_KATAKANA = 0x60;
+// ひらがな・カタカナ・漢字
+const JAPANESE = '\\u3040-\\u30ff\\u4e00-\\u9fff';
+
+/**
+ * 全角英数・半角カナ（NFKC）とひらがな（→カタカナ）を揃えて小文字化
+ */
+export const normalizeSearchText = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .replace(HIRAGANA, char => String.fromCharCode(char.charCodeAt(0) + HIRAGANA_TO_KATAKANA))
+    .toLowerCase();
+
+/**
+ * 英字と型番の間の区切りを詰めた表記（「rtx 4070」「gx-550」→「rtx4070」「gx550」）
+ * インデックス側に併記して、区切りなしの入力にも部分一致させる
+ */
+export const joinModelNumbers = (text: string): string =>
+  text.replace(/([a-z]{2,})[\s-]+(?=\d)/g, '$1');
+
+/**
+ * 検索語をキーワードごとの照合条件に分解
+ * 例: "ライゼン7" → [ryzen|ライゼン] [7]、"グラボ" → [グラボ|カテゴリ:gpu]
+ */
+export const buildKeywordGroups = (term: string, options: KeywordOptions): SearchKeywordGroup[] => {
+  const normalized = options.stemming ? normalizeSearchText(term) : term.toLowerCase();
+  const tokens = normalized
+    .trim()
+    .split(/\s+/)
+    .filter(token => token.length > 0)
+    .flatMap(token => options.stemming && !isDictionaryTerm(token) ? splitToken(token) : [token]);
+
+  return tokens.map(token => options.synonyms
+    ? expandToken(token, options.prefix ?? false)
+    : { terms: [token], categories: [] });
+};
+
+const isDictionaryTerm = (token: string): boolean =>
+  token in brandReadings || token in categorySlang;
+
+// 日本語と英数字の境目で区切る（「ライゼン7」→「ライゼン」「7」）
+const splitToken = (token: string): string[] =>
+  token
+    .replace(new RegExp(`([${JAPANESE}])(?=[a-z0-9])`, 'g'), '$1 ')
+    .replace(new RegExp(`([a-z0-9])(?=[${JAPANESE}])`, 'g'), '$1 ')
+    .split(' ')
+    .filter(part => part.length > 0);
+
+const expandToken = (token: string, prefix: boolean): SearchKeywordGroup => {
+  const terms = new Set([token]);
+  const categories = new Set<PartCategory>();
+
+  const matchesKey = (key: string) =>
+    key === token || (prefix && token.length >= PREFIX_MIN_LENGTH && key.startsWith(token));
+
+  Object.entries(brandReadings).forEach(([reading, latin]) => {
+    if (matchesKey(reading)) terms.add(latin);
+  });
+  Object.entries(categorySlang).forEach(([slang, category]) => {
+    if (matchesKey(slang)) categories.add(category);
+  });
+
+  return { terms: [...terms], categories: [...categories] };
+};